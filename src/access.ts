@@ -0,0 +1,179 @@
+import { Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ServerConfig } from "./config.js";
+
+export type AccessPolicy = Pick<ServerConfig, "readOnly" | "allowTools" | "denyTools" | "keyPatterns" | "writeKeyPatterns" | "redaction">;
+
+// Convert a Redis glob-style pattern (*, ?, [...], \x) into a regular expression
+function globToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*") {
+            source += ".*";
+        } else if (char === "?") {
+            source += ".";
+        } else if (char === "\\" && i + 1 < pattern.length) {
+            source += `\\${pattern[++i]}`;
+        } else if (char === "[") {
+            const end = pattern.indexOf("]", i + 1);
+            if (end === -1) {
+                source += "\\[";
+            } else {
+                let body = pattern.slice(i + 1, end).replace(/\\/g, "\\\\");
+                if (body.startsWith("^")) {
+                    body = `^${body.slice(1)}`;
+                }
+                source += `[${body}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`, "s");
+}
+
+export function matchesPattern(key: string, pattern: string): boolean {
+    return globToRegExp(pattern).test(key);
+}
+
+function matchesAny(key: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => matchesPattern(key, pattern));
+}
+
+export function isWriteTool(tool: Tool): boolean {
+    return tool.annotations?.readOnlyHint !== true;
+}
+
+// Diagnostic tools (INFO, SLOWLOG, ...) only read server state, so they stay available under
+// an allow list and in read-only mode. Naming one in the deny list still hides it.
+export const DIAGNOSTIC_TOOL_META = { "redis-mcp/diagnostic": true };
+
+export function isDiagnosticTool(tool: Tool): boolean {
+    return tool._meta?.["redis-mcp/diagnostic"] === true;
+}
+
+// Whether a tool is exposed at all under the given policy
+export function isToolEnabled(tool: Tool, policy: AccessPolicy): boolean {
+    if (policy.denyTools.includes(tool.name)) {
+        return false;
+    }
+    if (isDiagnosticTool(tool)) {
+        return true;
+    }
+    if (policy.allowTools && !policy.allowTools.includes(tool.name)) {
+        return false;
+    }
+    return !(policy.readOnly && isWriteTool(tool));
+}
+
+export function assertToolEnabled(tool: Tool, policy: AccessPolicy): void {
+    if (policy.denyTools.includes(tool.name)) {
+        throw new Error(`Tool not permitted: ${tool.name} is in the deny list`);
+    }
+    if (isDiagnosticTool(tool)) {
+        return;
+    }
+    if (policy.allowTools && !policy.allowTools.includes(tool.name)) {
+        throw new Error(`Tool not permitted: ${tool.name} is not in the allow list`);
+    }
+    if (policy.readOnly && isWriteTool(tool)) {
+        throw new Error(`Tool not permitted: ${tool.name} modifies data and the server is in read-only mode`);
+    }
+}
+
+// Collect the key names a tool call refers to from its raw arguments
+export function extractKeys(args: Record<string, unknown> | undefined): string[] {
+    if (!args) {
+        return [];
+    }
+    const keys: string[] = [];
+    for (const field of ["key", "keys", "source", "destination"]) {
+        const value = args[field];
+        if (typeof value === "string") {
+            keys.push(value);
+        } else if (Array.isArray(value)) {
+            keys.push(...value.filter((item): item is string => typeof item === "string"));
+        }
+    }
+    // Stream reads take a list of { key, id } pairs
+    if (Array.isArray(args.streams)) {
+        for (const stream of args.streams) {
+            if (typeof stream?.key === "string") {
+                keys.push(stream.key);
+            }
+        }
+    }
+    return keys;
+}
+
+export function isKeyAllowed(key: string, policy: AccessPolicy): boolean {
+    return !policy.keyPatterns || matchesAny(key, policy.keyPatterns);
+}
+
+// Whether a tool may read the key's value
+export function isKeyReadable(key: string, policy: AccessPolicy): boolean {
+    return isKeyAllowed(key, policy) && !(policy.redaction && matchesAny(key, policy.redaction.blockKeyPatterns));
+}
+
+// Whether a tool that modifies data may touch the key
+export function isKeyWritable(key: string, policy: AccessPolicy): boolean {
+    return isKeyAllowed(key, policy) && (!policy.writeKeyPatterns || matchesAny(key, policy.writeKeyPatterns));
+}
+
+export function assertKeysAllowed(keys: string[], write: boolean, policy: AccessPolicy): void {
+    for (const key of keys) {
+        if (!isKeyAllowed(key, policy)) {
+            throw new Error(`Access denied: key ${key} does not match the allowed key patterns`);
+        }
+        if (write && policy.writeKeyPatterns && !matchesAny(key, policy.writeKeyPatterns)) {
+            throw new Error(`Access denied: key ${key} does not match the writable key patterns`);
+        }
+        if (!write && policy.redaction && matchesAny(key, policy.redaction.blockKeyPatterns)) {
+            throw new Error(`Access denied: reads of key ${key} are blocked`);
+        }
+    }
+}
+
+// Refusals by the access policy, whether before a tool runs or while it does
+export function isAccessDeniedError(error: unknown): boolean {
+    return error instanceof Error && (error.message.startsWith("Access denied:") || error.message.startsWith("Tool not permitted:"));
+}
+
+// Whether every key starting with the prefix matches one of the patterns. Only patterns of the
+// form <literal>* can cover a prefix, e.g. app:* covers app: and app:users:.
+function coversPrefix(prefix: string, patterns: string[]): boolean {
+    return patterns.some((pattern) => {
+        const literal = pattern.slice(0, -1);
+        return pattern.endsWith("*") && !/[*?[\\]/.test(literal) && prefix.startsWith(literal);
+    });
+}
+
+// Whether some key starting with the prefix may match the pattern. Only the literal start of the
+// pattern is compared, so a pattern that can't match such a key may still be reported as overlapping.
+function overlapsPrefix(prefix: string, pattern: string): boolean {
+    let literal = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*" || char === "?" || char === "[") {
+            return prefix.startsWith(literal) || literal.startsWith(prefix);
+        }
+        literal += char === "\\" && i + 1 < pattern.length ? pattern[++i] : char;
+    }
+    return literal.startsWith(prefix);
+}
+
+// Search indexes cover every key starting with one of their prefixes, or all keys without any
+export function assertPrefixesAllowed(index: string, prefixes: string[], write: boolean, policy: AccessPolicy): void {
+    const covered = prefixes.length > 0 ? prefixes : [""];
+    if (policy.keyPatterns && !covered.every((prefix) => coversPrefix(prefix, policy.keyPatterns!))) {
+        throw new Error(`Access denied: index ${index} covers keys outside the allowed key patterns`);
+    }
+    if (write && policy.writeKeyPatterns && !covered.every((prefix) => coversPrefix(prefix, policy.writeKeyPatterns!))) {
+        throw new Error(`Access denied: index ${index} covers keys outside the writable key patterns`);
+    }
+    const blocked = policy.redaction?.blockKeyPatterns ?? [];
+    if (!write && covered.some((prefix) => blocked.some((pattern) => overlapsPrefix(prefix, pattern)))) {
+        throw new Error(`Access denied: index ${index} covers keys whose reads are blocked`);
+    }
+}
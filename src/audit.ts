@@ -0,0 +1,142 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { existsSync, statSync } from "fs";
+import { appendFile, rename } from "fs/promises";
+import { extractKeys, matchesPattern } from "./access.js";
+import { AuditConfig, RedactionConfig } from "./config.js";
+import { ConnectionRegistry } from "./connection.js";
+import { redactDetected, redactedKeyPatterns } from "./redaction.js";
+
+export type AuditOutcome = "success" | "error" | "denied" | "invalid";
+
+// Who made a call, as far as the server knows
+export interface AuditCaller {
+    client?: { name: string; version: string };
+    sessionId?: string;
+}
+
+export interface AuditEntry {
+    timestamp: string;
+    tool: string;
+    arguments: Record<string, unknown>;
+    connection: string | null;
+    db: number | null;
+    client: { name: string; version: string } | null;
+    sessionId: string | null;
+    outcome: AuditOutcome;
+    error: string | null;
+    // Counts and flags from the result, such as deleted, added or created
+    affected: Record<string, number | boolean>;
+    durationMs: number;
+}
+
+export interface AuditLog {
+    record(entry: AuditEntry): void;
+    // Wait for pending entries to be written
+    close(): Promise<void>;
+}
+
+// Arguments that carry values rather than key names
+const VALUE_ARGUMENTS = ["value", "values", "members", "elements", "fields", "message", "args", "dump"];
+
+const REDACTED = "[REDACTED]";
+
+// The arguments declared by the tool's input schema, so that nothing the tool ignores is logged
+export function declaredArguments(tool: Tool | undefined, args: Record<string, unknown> | undefined): Record<string, unknown> {
+    const properties = tool?.inputSchema.properties ?? {};
+    return Object.fromEntries(Object.entries(args ?? {}).filter(([name]) => name in properties));
+}
+
+// Mask the values written to keys matching the patterns, and apply the redaction detectors to the rest
+export function redactArguments(args: Record<string, unknown>, patterns: string[], redaction?: RedactionConfig): Record<string, unknown> {
+    const redacted = { ...args };
+    const masked = extractKeys(args).some((key) => patterns.some((pattern) => matchesPattern(key, pattern)));
+    for (const field of VALUE_ARGUMENTS) {
+        if (field in redacted) {
+            redacted[field] = masked ? REDACTED : redactDetected(redacted[field], redaction);
+        }
+    }
+    // Batches and imports nest the arguments of each operation or key
+    if (Array.isArray(args.operations)) {
+        redacted.operations = args.operations.map((operation) =>
+            operation !== null && typeof operation === "object" && typeof operation.arguments === "object" && operation.arguments !== null
+                ? { ...operation, arguments: redactArguments(operation.arguments, patterns, redaction) }
+                : operation
+        );
+    }
+    if (Array.isArray(args.records)) {
+        redacted.records = args.records.map((record) =>
+            record !== null && typeof record === "object" ? redactArguments(record, patterns, redaction) : record
+        );
+    }
+    return redacted;
+}
+
+export function affectedCounts(result: CallToolResult | undefined): Record<string, number | boolean> {
+    const data = result?.structuredContent ?? {};
+    return Object.fromEntries(
+        Object.entries(data).filter(([, value]) => typeof value === "number" || typeof value === "boolean")
+    ) as Record<string, number | boolean>;
+}
+
+// Append lines to a file, moving it to <path>.1 (and older files up to <path>.<maxFiles>) once it is full
+function createFileWriter({ maxBytes, maxFiles }: AuditConfig, path: string): { write: (line: string) => void; flush: () => Promise<void> } {
+    let size = existsSync(path) ? statSync(path).size : 0;
+    let pending = Promise.resolve();
+
+    async function rotate(): Promise<void> {
+        for (let i = maxFiles - 1; i >= 1; i--) {
+            await rename(`${path}.${i}`, `${path}.${i + 1}`).catch(() => {});
+        }
+        await rename(path, `${path}.1`);
+        size = 0;
+    }
+
+    return {
+        write: (line) => {
+            pending = pending.then(async () => {
+                const bytes = Buffer.byteLength(line);
+                if (size > 0 && size + bytes > maxBytes) {
+                    await rotate();
+                }
+                await appendFile(path, line);
+                size += bytes;
+            }).catch((err: Error) => {
+                console.error(`[Audit Error] Cannot write to ${path}: ${err.message}`);
+            });
+        },
+        flush: () => pending,
+    };
+}
+
+// Values in the log are redacted like tool results: keys the redaction rules cover, or whose
+// reads are blocked, are masked along with the audit's own patterns, and the detectors apply
+export function createAuditLog(config: AuditConfig | undefined, connections: ConnectionRegistry, redaction?: RedactionConfig): AuditLog {
+    if (!config) {
+        return { record: () => {}, close: async () => {} };
+    }
+    const file = config.file ? createFileWriter(config, config.file) : undefined;
+    const patterns = [...config.redactKeyPatterns, ...redactedKeyPatterns(redaction)];
+    let pendingStream = Promise.resolve();
+
+    return {
+        record: (entry) => {
+            const logged = { ...entry, arguments: redactArguments(entry.arguments, patterns, redaction) };
+            const line = JSON.stringify(logged);
+            file?.write(`${line}\n`);
+            const stream = config.stream;
+            if (stream) {
+                pendingStream = pendingStream.then(async () => {
+                    const { client } = await connections.get(config.streamConnection);
+                    await client.xAdd(stream, "*", { tool: entry.tool, outcome: entry.outcome, entry: line }, {
+                        TRIM: { strategy: "MAXLEN", strategyModifier: "~", threshold: config.streamMaxLen },
+                    });
+                }).catch((err: Error) => {
+                    console.error(`[Audit Error] Cannot write to stream ${stream}: ${err.message}`);
+                });
+            }
+        },
+        close: async () => {
+            await Promise.all([file?.flush(), pendingStream]);
+        },
+    };
+}
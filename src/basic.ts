@@ -0,0 +1,222 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import { isKeyAllowed } from "./access.js";
+import {
+    CURSOR_SCHEMA,
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    NULLABLE_VALUE_SCHEMA,
+    TRUNCATED_SCHEMA,
+    formatTruncation,
+    limitBytes,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { mayRedactKey } from "./redaction.js";
+import { formatCursor, scanKeys } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Define Zod schemas for validation
+const SetArgumentsSchema = z.object({
+    key: z.string(),
+    value: z.string(),
+    expireSeconds: z.number().optional(),
+});
+
+const GetArgumentsSchema = z.object({
+    key: z.string(),
+    offset: z.number().int().min(0).optional(),
+}).merge(LimitArgumentsSchema);
+
+const DeleteArgumentsSchema = z.object({
+    key: z.string().or(z.array(z.string())),
+});
+
+const ListArgumentsSchema = z.object({
+    pattern: z.string().default("*"),
+    cursor: z.union([z.number().int().min(0), z.string()]).default(0),
+    count: z.number().int().positive().default(100),
+    limit: z.number().int().positive().default(100),
+    type: z.enum(["string", "hash", "set", "zset", "list", "stream", "ReJSON-RL"]).optional(),
+}).merge(LimitArgumentsSchema);
+
+export const basicTools: Tool[] = [
+    {
+        name: "set",
+        description: "Set a Redis key-value pair with optional expiration",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                value: { type: "string", description: "Value to store" },
+                expireSeconds: { type: "number", description: "Optional expiration time in seconds" },
+            },
+            required: ["key", "value"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                expireSeconds: { type: ["number", "null"] },
+            },
+            required: ["key", "expireSeconds"],
+        },
+    },
+    {
+        name: "get",
+        description: "Get value by key from Redis. Values larger than maxBytes are returned in parts: pass the returned nextOffset as offset to read the next one",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key to retrieve" },
+                offset: { type: "number", description: "Byte offset to start reading at (default: 0)" },
+                maxBytes: LIMIT_PROPERTIES.maxBytes,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                exists: { type: "boolean" },
+                value: NULLABLE_VALUE_SCHEMA,
+                totalBytes: { type: "number", description: "Length of the whole value" },
+                ...TRUNCATED_SCHEMA,
+                nextOffset: { type: ["number", "null"], description: "Offset to pass to read the rest, null if nothing is left" },
+            },
+            required: ["key", "exists", "value", "totalBytes", "truncated", "nextOffset"],
+        },
+    },
+    {
+        name: "delete",
+        description: "Delete one or more keys from Redis",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: {
+                    oneOf: [
+                        { type: "string" },
+                        { type: "array", items: { type: "string" } }
+                    ],
+                    description: "Key or array of keys to delete",
+                },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                requested: { type: "number", description: "Number of keys passed in" },
+                deleted: { type: "number", description: "Number of keys that existed and were deleted" },
+            },
+            required: ["requested", "deleted"],
+        },
+    },
+    {
+        name: "list",
+        description: "List Redis keys matching a pattern using cursor-based SCAN",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "Pattern to match keys (default: *)" },
+                cursor: {
+                    type: ["string", "number"],
+                    description: "Cursor returned by a previous call (default: 0). In cluster mode it spans all master nodes",
+                },
+                count: { type: "number", description: "SCAN COUNT hint per iteration (default: 100)" },
+                limit: { type: "number", description: "Stop scanning once this many keys are found (default: 100)" },
+                maxItems: LIMIT_PROPERTIES.maxItems,
+                type: {
+                    type: "string",
+                    enum: ["string", "hash", "set", "zset", "list", "stream", "ReJSON-RL"],
+                    description: "Only return keys of this type",
+                },
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                keys: { type: "array", items: { type: "string" } },
+                ...CURSOR_SCHEMA,
+                cursor: { type: "string", description: "Cursor for the next call, \"0\" once the scan is complete" },
+            },
+            required: ["keys", "cursor", "complete"],
+        },
+    },
+];
+
+export async function handleBasicTool({ redisClient, connection, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "set") {
+        const { key, value, expireSeconds } = SetArgumentsSchema.parse(args);
+        if (expireSeconds) {
+            await redisClient.setEx(key, expireSeconds, value);
+        } else {
+            await redisClient.set(key, value);
+        }
+        return toolResult(`Successfully set key: ${key}`, { key, expireSeconds: expireSeconds ?? null });
+    } else if (name === "get") {
+        const { key, offset, ...limitArgs } = GetArgumentsSchema.parse(args);
+        const { maxBytes } = outputLimits(config, limitArgs);
+        const options = commandOptions({ returnBuffers: true });
+        let value: Buffer | null;
+        let totalBytes: number;
+        if (offset === undefined || mayRedactKey(key, config.redaction)) {
+            // Redaction applies to whole values, so a value it may change is read whole and sliced afterwards
+            const whole = await redisClient.get(options, key);
+            value = whole?.subarray(offset ?? 0) ?? null;
+            totalBytes = whole?.length ?? 0;
+        } else {
+            // Read just the requested part of the value, plus one byte to tell whether it ends mid-character
+            const [exists, part, length] = await Promise.all([
+                redisClient.exists(key),
+                redisClient.getRange(options, key, offset, offset + maxBytes),
+                redisClient.strLen(key),
+            ]);
+            value = exists > 0 ? part : null;
+            totalBytes = length;
+        }
+        if (value === null) {
+            return toolResult(`Key not found: ${key}`, { key, exists: false, value, totalBytes, truncated: false, nextOffset: null });
+        }
+        const part = limitBytes(value, maxBytes);
+        const end = (offset ?? 0) + part.length;
+        const truncated = end < totalBytes;
+        return toolResult(
+            part.toString() + (truncated
+                ? formatTruncation(part.length, totalBytes, "bytes", `Call get again with offset: ${end} to read the rest.`)
+                : ""),
+            { key, exists: true, value: part, totalBytes, truncated, nextOffset: truncated ? end : null }
+        );
+    } else if (name === "delete") {
+        const { key } = DeleteArgumentsSchema.parse(args);
+        const keys = Array.isArray(key) ? key : [key];
+        const deleted = await redisClient.del(keys);
+        return toolResult(
+            Array.isArray(key)
+                ? `Successfully deleted ${deleted} of ${key.length} keys`
+                : deleted > 0 ? `Successfully deleted key: ${key}` : `Key not found: ${key}`,
+            { requested: keys.length, deleted }
+        );
+    } else if (name === "list") {
+        const { pattern, cursor, count, limit, type, ...limitArgs } = ListArgumentsSchema.parse(args);
+        const { maxItems } = outputLimits(config, limitArgs);
+        const result = await scanKeys(
+            await connection.nodeClients(),
+            String(cursor),
+            Math.min(limit, maxItems),
+            { MATCH: pattern, COUNT: Math.min(count, maxItems), ...(type ? { TYPE: type } : {}) },
+            (key) => isKeyAllowed(key, config)
+        );
+        return toolResult(
+            `${result.keys.length > 0
+                ? `Found keys:\n${result.keys.join('\n')}`
+                : "No keys found matching pattern"}\n\n${formatCursor(result.cursor)}`,
+            { keys: result.keys, cursor: result.cursor, complete: result.cursor === "0" }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
@@ -0,0 +1,318 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { MultiErrorReply, WatchError } from "redis";
+import { assertKeysAllowed, assertToolEnabled, extractKeys, isWriteTool } from "./access.js";
+import { explainWrongType, isWrongTypeError } from "./keys.js";
+import { formatArgumentsError, toolResult } from "./output.js";
+import { redactClient } from "./redaction.js";
+import { RedisClient, isCommandOptions } from "./redis.js";
+import { ConnectionToolGroup, ToolContext } from "./types.js";
+
+const MAX_BATCH_OPERATIONS = 100;
+
+// Tools that block, run on every node of a cluster or touch files can't be queued
+const UNBATCHABLE_TOOLS = [
+    "batch", "list", "blpop", "brpop", "xread", "xreadgroup", "subscribe_capture",
+    "pubsub_channels", "pubsub_numsub", "script_load", "function_list", "function_load", "export_keys", "import_keys",
+    "delete_pattern", "expire_pattern",
+];
+
+// Batch schema
+const BatchArgumentsSchema = z.object({
+    operations: z.array(z.object({
+        tool: z.string(),
+        arguments: z.record(z.unknown()).default({}),
+    })).min(1).max(MAX_BATCH_OPERATIONS),
+    mode: z.enum(["transaction", "pipeline"]).default("transaction"),
+    watch: z.array(z.string()).optional(),
+}).refine((value) => value.watch === undefined || value.mode === "transaction", {
+    message: "watch is only supported in transaction mode",
+    path: ["watch"],
+});
+
+type BatchMode = "transaction" | "pipeline";
+
+type Multi = ReturnType<RedisClient["multi"]>;
+
+interface Deferred {
+    resolve: (value: unknown) => void;
+    reject: (error: Error) => void;
+    returnBuffers: boolean;
+}
+
+interface OperationOutcome {
+    tool: string;
+    ok: boolean;
+    result?: CallToolResult;
+    error?: string;
+}
+
+// MULTI replies are always decoded, so restore Buffers where the tool asked for them
+function toBuffers(value: unknown): unknown {
+    if (typeof value === "string") {
+        return Buffer.from(value, "utf8");
+    }
+    if (Array.isArray(value)) {
+        return value.map(toBuffers);
+    }
+    if (value !== null && typeof value === "object" && !Buffer.isBuffer(value)) {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toBuffers(v)]));
+    }
+    return value;
+}
+
+// Collects the commands issued by tool handlers into one MULTI (or pipeline) and hands each
+// handler the reply to its own commands once the batch has been sent
+class CommandQueue {
+    readonly deferreds: Deferred[] = [];
+    sent = false;
+
+    constructor(private readonly client: RedisClient, readonly multi: Multi, private readonly mode: BatchMode) {}
+
+    // A stand-in for the Redis client that tool handlers run against
+    proxy(): RedisClient {
+        return this.wrap(this.client, this.multi, []) as RedisClient;
+    }
+
+    private wrap(target: object, multiTarget: object, path: string[]): object {
+        return new Proxy(target, {
+            get: (target, property, receiver) => {
+                const value = Reflect.get(target, property, receiver);
+                if (typeof property !== "string") {
+                    return value;
+                }
+                const multiValue = (multiTarget as Record<string, unknown>)[property];
+                const name = [...path, property].join(".");
+                if (typeof value === "function") {
+                    return (...args: unknown[]) => this.call(
+                        name,
+                        () => (value as Function).apply(target, args),
+                        typeof multiValue === "function" ? () => (multiValue as Function).apply(multiTarget, args.filter((arg) => !isCommandOptions(arg))) : undefined,
+                        isCommandOptions(args[0]) && args[0].returnBuffers === true
+                    );
+                }
+                // Module commands live in namespaces such as redisClient.json
+                if (value !== null && typeof value === "object" && multiValue !== null && typeof multiValue === "object") {
+                    return this.wrap(value, multiValue, [...path, property]);
+                }
+                return value;
+            },
+        });
+    }
+
+    private call(name: string, direct: () => unknown, enqueue: (() => unknown) | undefined, returnBuffers: boolean): Promise<unknown> {
+        if (this.sent) {
+            // Later rounds of a pipeline go straight to Redis; a transaction has already been committed
+            return this.mode === "pipeline"
+                ? Promise.resolve(direct())
+                : Promise.reject(new Error(`${name} is called after the transaction was sent. Tools that send more than one round of commands can only be batched in pipeline mode`));
+        }
+        if (!enqueue) {
+            return Promise.reject(new Error(`${name} cannot be used inside a batch`));
+        }
+        enqueue();
+        return new Promise((resolve, reject) => {
+            this.deferreds.push({ resolve, reject, returnBuffers });
+        });
+    }
+
+    settle(replies: unknown[], errorIndexes: number[] = []): void {
+        this.deferreds.forEach((deferred, i) => {
+            if (errorIndexes.includes(i)) {
+                deferred.reject(replies[i] as Error);
+            } else {
+                deferred.resolve(deferred.returnBuffers ? toBuffers(replies[i]) : replies[i]);
+            }
+        });
+    }
+
+    fail(error: Error): void {
+        for (const deferred of this.deferreds) {
+            deferred.reject(error);
+        }
+    }
+}
+
+// Let every handler run until it either finishes or waits on a queued command
+async function drain(queue: CommandQueue, outcomes: Array<OperationOutcome | undefined>): Promise<void> {
+    let state = "";
+    while (state !== `${queue.deferreds.length}/${outcomes.filter(Boolean).length}`) {
+        state = `${queue.deferreds.length}/${outcomes.filter(Boolean).length}`;
+        await new Promise((resolve) => setImmediate(resolve));
+    }
+}
+
+async function formatOperationError(redisClient: RedisClient, tool: string, args: Record<string, unknown>, error: unknown): Promise<string> {
+    if (error instanceof z.ZodError) {
+        return formatArgumentsError(error);
+    }
+    if (isWrongTypeError(error)) {
+        return (await explainWrongType(redisClient, tool, extractKeys(args))).message;
+    }
+    return error instanceof Error ? error.message : String(error);
+}
+
+// The batch tool runs other tools' handlers, so it is built from the groups it may call
+export function createBatchToolGroup(groups: ConnectionToolGroup[]): ConnectionToolGroup {
+    const batchable = groups.flatMap((group) => group.tools
+        .filter((tool) => !UNBATCHABLE_TOOLS.includes(tool.name))
+        .map((tool) => ({ tool, group })));
+
+    const tools: Tool[] = [
+        {
+            name: "batch",
+            description: "Run several tool operations in one round-trip, either atomically as a MULTI/EXEC transaction (optionally guarded by WATCH) or as a non-atomic pipeline. " +
+                "Each operation names a tool and takes that tool's arguments. Within a transaction, replies are only available once it has executed, " +
+                "so tools that read before they write (describe_key, scans) need pipeline mode",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    operations: {
+                        type: "array",
+                        description: `Operations to run in order (max: ${MAX_BATCH_OPERATIONS})`,
+                        items: {
+                            type: "object",
+                            properties: {
+                                tool: { type: "string", enum: batchable.map(({ tool }) => tool.name), description: "Tool to run" },
+                                arguments: { type: "object", description: "Arguments, exactly as the tool itself takes them" },
+                            },
+                            required: ["tool"],
+                        },
+                    },
+                    mode: {
+                        type: "string",
+                        enum: ["transaction", "pipeline"],
+                        description: "transaction runs every operation atomically with MULTI/EXEC, pipeline sends them together without atomicity (default: transaction)",
+                    },
+                    watch: {
+                        type: "array",
+                        items: { type: "string" },
+                        description: "Keys to WATCH: the transaction is not executed if any of them changes before it runs (transaction mode only, not in cluster mode)",
+                    },
+                },
+                required: ["operations"],
+            },
+            outputSchema: {
+                type: "object",
+                properties: {
+                    mode: { type: "string", enum: ["transaction", "pipeline"] },
+                    committed: { type: ["boolean", "null"], description: "Whether the transaction executed, null for a pipeline" },
+                    results: {
+                        type: "array",
+                        items: {
+                            type: "object",
+                            properties: {
+                                tool: { type: "string" },
+                                ok: { type: "boolean" },
+                                result: { type: "object", description: "The tool's own structured result" },
+                                error: { type: "string" },
+                            },
+                            required: ["tool", "ok"],
+                        },
+                    },
+                },
+                required: ["mode", "committed", "results"],
+            },
+        },
+    ];
+
+    async function handle(context: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+        if (name !== "batch") {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+        const { operations, mode, watch } = BatchArgumentsSchema.parse(args);
+        const { redisClient, connection, config } = context;
+
+        // Check every operation up front, so that nothing runs if one of them is not permitted
+        const targets = operations.map((operation, i) => {
+            const target = batchable.find(({ tool }) => tool.name === operation.tool);
+            try {
+                if (!target) {
+                    throw new Error(UNBATCHABLE_TOOLS.includes(operation.tool) ? "this tool cannot be batched" : "unknown tool");
+                }
+                if ("connection" in operation.arguments || "db" in operation.arguments) {
+                    throw new Error("set connection and db on the batch itself");
+                }
+                assertToolEnabled(target.tool, config);
+                assertKeysAllowed(extractKeys(operation.arguments), isWriteTool(target.tool), config);
+                return target;
+            } catch (error) {
+                throw new Error(`Operation ${i + 1} (${operation.tool}): ${(error as Error).message}`);
+            }
+        });
+        if (watch) {
+            if (connection.mode === "cluster") {
+                throw new Error("watch is not supported in cluster mode");
+            }
+            assertKeysAllowed(watch, false, config);
+        }
+
+        const run = async (client: RedisClient) => {
+            const queue = new CommandQueue(client, client.multi(), mode);
+            // Queued replies come straight from MULTI, so redact them on the way to each handler
+            const proxy = redactClient(queue.proxy(), config.redaction);
+            const outcomes: Array<OperationOutcome | undefined> = operations.map(() => undefined);
+
+            const finished = operations.map(async (operation, i) => {
+                try {
+                    const result = await targets[i].group.handle({ ...context, redisClient: proxy }, operation.tool, operation.arguments);
+                    outcomes[i] = { tool: operation.tool, ok: true, result };
+                } catch (error) {
+                    outcomes[i] = { tool: operation.tool, ok: false, error: await formatOperationError(redisClient, operation.tool, operation.arguments, error) };
+                }
+            });
+            await drain(queue, outcomes);
+
+            let committed: boolean | null = mode === "transaction" ? true : null;
+            const failed = outcomes.findIndex((outcome) => outcome && !outcome.ok);
+            queue.sent = true;
+            if (mode === "transaction" && failed !== -1) {
+                committed = false;
+                queue.fail(new Error(`Not executed: transaction aborted because operation ${failed + 1} failed`));
+                if (watch) {
+                    await client.unwatch();
+                }
+            } else {
+                try {
+                    queue.settle(mode === "transaction" ? await queue.multi.exec() : await queue.multi.execAsPipeline());
+                } catch (error) {
+                    if (error instanceof MultiErrorReply) {
+                        queue.settle(error.replies, error.errorIndexes);
+                    } else {
+                        committed = committed === null ? null : false;
+                        queue.fail(error instanceof WatchError
+                            ? new Error("Not executed: a watched key was modified before the transaction ran")
+                            : error as Error);
+                    }
+                }
+            }
+            await Promise.all(finished);
+            return { committed, outcomes: outcomes as OperationOutcome[] };
+        };
+
+        // WATCH must be issued on the same connection as MULTI/EXEC
+        const { committed, outcomes } = watch
+            ? await connection.client.executeIsolated(async (isolated) => {
+                await isolated.watch(watch);
+                return run(isolated as RedisClient);
+            })
+            : await run(connection.client);
+
+        const results = outcomes.map(({ tool, ok, result, error }) =>
+            ok ? { tool, ok, result: result?.structuredContent ?? {} } : { tool, ok, error }
+        );
+        const summary = mode === "pipeline"
+            ? `Pipeline of ${operations.length} operations executed`
+            : committed
+                ? `Transaction of ${operations.length} operations committed`
+                : "Transaction not executed";
+        return toolResult(
+            `${summary}:\n${outcomes
+                .map(({ tool, ok, result, error }, i) => `${i + 1}. ${tool}: ${ok ? result?.content.map((c) => c.type === "text" ? c.text : "").join("\n") : `Error: ${error}`}`)
+                .join('\n')}`,
+            { mode, committed, results }
+        );
+    }
+
+    return { tools, handle };
+}
@@ -0,0 +1,256 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { randomUUID } from "crypto";
+import { z } from "zod";
+import { isKeyWritable } from "./access.js";
+import { RedisConnection } from "./connection.js";
+import { toolResult } from "./output.js";
+import { scanKeys } from "./redis.js";
+import { ConnectionToolGroup, ToolContext } from "./types.js";
+
+const MAX_PATTERN_KEYS = 100000;
+const SAMPLE_SIZE = 20;
+const CONFIRMATION_TTL = 5 * 60 * 1000; // milliseconds
+
+// Bulk schemas
+const PatternArgumentsSchema = z.object({
+    pattern: z.string().min(1),
+    type: z.enum(["string", "hash", "set", "zset", "list", "stream", "ReJSON-RL"]).optional(),
+    maxKeys: z.number().int().positive().max(MAX_PATTERN_KEYS).default(1000),
+    batchSize: z.number().int().positive().max(10000).default(500),
+    confirm: z.string().optional(),
+});
+
+const DeletePatternArgumentsSchema = PatternArgumentsSchema;
+
+const ExpirePatternArgumentsSchema = PatternArgumentsSchema.extend({
+    seconds: z.number().int().positive().optional(),
+    milliseconds: z.number().int().positive().optional(),
+    condition: z.enum(["NX", "XX", "GT", "LT"]).optional(),
+}).refine((value) => (value.seconds === undefined) !== (value.milliseconds === undefined), {
+    message: "Provide exactly one of seconds or milliseconds",
+});
+
+type PatternArguments = z.infer<typeof PatternArgumentsSchema>;
+
+interface DryRunResult {
+    matched: number;
+    sample: string[];
+    confirm: string | null;
+    tooMany: boolean;
+}
+
+interface Confirmation {
+    // The dry run's arguments, which the confirmed call must repeat
+    operation: string;
+    connection: RedisConnection;
+    expires: number;
+}
+
+const PATTERN_PROPERTIES = {
+    pattern: { type: "string", description: "Pattern to match keys, e.g. tmp:*" },
+    type: {
+        type: "string",
+        enum: ["string", "hash", "set", "zset", "list", "stream", "ReJSON-RL"],
+        description: "Only match keys of this type",
+    },
+    maxKeys: { type: "number", description: `Refuse to run if more keys than this match, and never touch more (default: 1000, max: ${MAX_PATTERN_KEYS})` },
+    batchSize: { type: "number", description: "Keys scanned and changed per round-trip (default: 500)" },
+    confirm: { type: "string", description: "Token returned by the dry run. Without it nothing is changed" },
+};
+
+const PATTERN_OUTPUT_PROPERTIES = {
+    dryRun: { type: "boolean" },
+    matched: { type: "number", description: "Keys matched by the dry run, or processed by the confirmed call" },
+    sample: { type: "array", items: { type: "string" }, description: "Some of the matching keys" },
+    confirm: { type: ["string", "null"], description: "Token to pass back to apply the change, null if nothing can be applied" },
+    complete: { type: "boolean", description: "False if matching keys remain because maxKeys was reached" },
+};
+
+const bulkTools: Tool[] = [
+    {
+        name: "delete_pattern",
+        description: "Delete every key matching a pattern with SCAN and UNLINK. The first call is a dry run returning the number of matching keys, " +
+            "a sample and a confirmation token; call again with the same arguments and confirm set to the token to delete them",
+        inputSchema: {
+            type: "object",
+            properties: PATTERN_PROPERTIES,
+            required: ["pattern"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                ...PATTERN_OUTPUT_PROPERTIES,
+                deleted: { type: "number" },
+            },
+            required: ["dryRun", "matched", "sample", "confirm", "complete", "deleted"],
+        },
+    },
+    {
+        name: "expire_pattern",
+        description: "Set the time to live of every key matching a pattern. The first call is a dry run returning the number of matching keys, " +
+            "a sample and a confirmation token; call again with the same arguments and confirm set to the token to apply it",
+        inputSchema: {
+            type: "object",
+            properties: {
+                ...PATTERN_PROPERTIES,
+                seconds: { type: "number", description: "Time to live in seconds" },
+                milliseconds: { type: "number", description: "Time to live in milliseconds" },
+                condition: {
+                    type: "string",
+                    enum: ["NX", "XX", "GT", "LT"],
+                    description: "Only set the expiry if the key has none (NX), has one (XX), or the new one is greater (GT) or less (LT)",
+                },
+            },
+            required: ["pattern"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                ...PATTERN_OUTPUT_PROPERTIES,
+                applied: { type: "number", description: "Keys whose expiry was set" },
+            },
+            required: ["dryRun", "matched", "sample", "confirm", "complete", "applied"],
+        },
+    },
+];
+
+// Visit the keys matching the pattern one batch at a time, stopping after `limit` keys.
+// Keys outside the allowed (or writable) key patterns are left alone.
+async function forEachMatch(
+    { connection, config }: ToolContext,
+    { pattern, type, batchSize }: PatternArguments,
+    limit: number,
+    visit: (keys: string[]) => Promise<void>
+): Promise<{ matched: number; complete: boolean }> {
+    const nodes = await connection.nodeClients();
+    const filter = (key: string) => isKeyWritable(key, config);
+    let cursor = "0";
+    let matched = 0;
+    do {
+        const page = await scanKeys(nodes, cursor, batchSize, { MATCH: pattern, COUNT: batchSize, ...(type ? { TYPE: type } : {}) }, filter);
+        const keys = page.keys.slice(0, limit - matched);
+        if (keys.length > 0) {
+            await visit(keys);
+        }
+        matched += keys.length;
+        cursor = page.cursor;
+        if (matched >= limit) {
+            return { matched, complete: cursor === "0" && keys.length === page.keys.length };
+        }
+    } while (cursor !== "0");
+    return { matched, complete: true };
+}
+
+function formatDryRun(name: string, { pattern, maxKeys }: PatternArguments, result: DryRunResult, verb: string): string {
+    if (result.matched === 0) {
+        return `No keys match pattern ${pattern}`;
+    }
+    if (result.tooMany) {
+        return `Dry run: more than ${maxKeys} keys match pattern ${pattern}, so nothing can be ${verb}. Narrow the pattern or raise maxKeys.\n` +
+            `Sample:\n${result.sample.join('\n')}`;
+    }
+    return `Dry run: ${result.matched} keys match pattern ${pattern} and would be ${verb}.\n` +
+        `Sample:\n${result.sample.join('\n')}\n\n` +
+        `To proceed, call ${name} again with the same arguments and confirm: "${result.confirm}" (valid for ${CONFIRMATION_TTL / 60000} minutes)`;
+}
+
+function dryRunData({ matched, sample, confirm, tooMany }: DryRunResult): Record<string, unknown> {
+    return { dryRun: true, matched, sample, confirm, complete: !tooMany };
+}
+
+// Each tool group keeps its own confirmation tokens, so a token from one session never confirms a call in another
+export function createBulkToolGroup(): ConnectionToolGroup {
+    // Tokens handed out by dry runs, each good for one call on the connection it was issued for
+    const confirmations = new Map<string, Confirmation>();
+
+    // Count matches without changing anything and hand out a token for the real call
+    async function dryRun(context: ToolContext, args: PatternArguments, operation: string): Promise<DryRunResult> {
+        const sample: string[] = [];
+        const { matched, complete } = await forEachMatch(context, args, args.maxKeys + 1, async (keys) => {
+            sample.push(...keys.slice(0, SAMPLE_SIZE - sample.length));
+        });
+        const tooMany = !complete || matched > args.maxKeys;
+        let confirm: string | null = null;
+        if (matched > 0 && !tooMany) {
+            for (const [token, confirmation] of confirmations) {
+                if (confirmation.expires < Date.now()) {
+                    confirmations.delete(token);
+                }
+            }
+            confirm = randomUUID();
+            confirmations.set(confirm, { operation, connection: context.connection, expires: Date.now() + CONFIRMATION_TTL });
+        }
+        return { matched, sample, confirm, tooMany };
+    }
+
+    function assertConfirmed(context: ToolContext, name: string, token: string, operation: string): void {
+        const confirmation = confirmations.get(token);
+        confirmations.delete(token);
+        if (!confirmation || confirmation.expires < Date.now()) {
+            throw new Error(`Unknown or expired confirmation token. Call ${name} without confirm to run a new dry run`);
+        }
+        if (confirmation.operation !== operation) {
+            throw new Error(`The confirmation token was issued for different arguments. Call ${name} without confirm to run a new dry run`);
+        }
+        if (confirmation.connection !== context.connection) {
+            throw new Error(`The confirmation token was issued for a different connection or database. Call ${name} without confirm to run a new dry run`);
+        }
+    }
+
+    async function handle(context: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+        const { redisClient, connection } = context;
+        if (name === "delete_pattern") {
+            const parsed = DeletePatternArgumentsSchema.parse(args);
+            const { confirm, ...rest } = parsed;
+            const operation = JSON.stringify({ name, ...rest });
+            if (confirm === undefined) {
+                const result = await dryRun(context, parsed, operation);
+                return toolResult(formatDryRun(name, parsed, result, "deleted"), { ...dryRunData(result), deleted: 0 });
+            }
+            assertConfirmed(context, name, confirm, operation);
+            let deleted = 0;
+            const sample: string[] = [];
+            const { matched, complete } = await forEachMatch(context, parsed, parsed.maxKeys, async (keys) => {
+                sample.push(...keys.slice(0, SAMPLE_SIZE - sample.length));
+                // Keys from one cluster node can still live in different slots, so unlink them one by one there
+                deleted += connection.mode === "cluster"
+                    ? (await Promise.all(keys.map((key) => redisClient.unlink(key)))).reduce((sum, n) => sum + n, 0)
+                    : await redisClient.unlink(keys);
+            });
+            return toolResult(
+                `Successfully deleted ${deleted} keys matching pattern ${parsed.pattern}` +
+                (complete ? "" : `. Stopped at maxKeys (${parsed.maxKeys}); more matching keys remain`),
+                { dryRun: false, matched, sample, confirm: null, complete, deleted }
+            );
+        } else if (name === "expire_pattern") {
+            const parsed = ExpirePatternArgumentsSchema.parse(args);
+            const { confirm, ...rest } = parsed;
+            const operation = JSON.stringify({ name, ...rest });
+            if (confirm === undefined) {
+                const result = await dryRun(context, parsed, operation);
+                return toolResult(formatDryRun(name, parsed, result, "given an expiry"), { ...dryRunData(result), applied: 0 });
+            }
+            assertConfirmed(context, name, confirm, operation);
+            const { seconds, milliseconds, condition } = parsed;
+            let applied = 0;
+            const sample: string[] = [];
+            const { matched, complete } = await forEachMatch(context, parsed, parsed.maxKeys, async (keys) => {
+                sample.push(...keys.slice(0, SAMPLE_SIZE - sample.length));
+                const replies = await Promise.all(keys.map((key) => seconds !== undefined
+                    ? redisClient.expire(key, seconds, condition)
+                    : redisClient.pExpire(key, milliseconds!, condition)));
+                applied += replies.filter(Boolean).length;
+            });
+            return toolResult(
+                `Successfully set expiry of ${applied} of ${matched} keys matching pattern ${parsed.pattern} to ` +
+                `${seconds !== undefined ? `${seconds} seconds` : `${milliseconds}ms`}` +
+                (complete ? "" : `. Stopped at maxKeys (${parsed.maxKeys}); more matching keys remain`),
+                { dryRun: false, matched, sample, confirm: null, complete, applied }
+            );
+        } else {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+    }
+
+    return { tools: bulkTools, handle };
+}
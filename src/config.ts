@@ -0,0 +1,507 @@
+import { readFileSync } from "node:fs";
+import { parseArgs } from "node:util";
+import { z } from "zod";
+import { OutputFormat } from "./output.js";
+import { parseJsonPath } from "./redaction.js";
+
+export type ConnectionMode = "standalone" | "cluster" | "sentinel";
+
+export interface TlsConfig {
+    ca?: string;
+    cert?: string;
+    key?: string;
+    rejectUnauthorized: boolean;
+    servername?: string;
+}
+
+export interface SentinelConfig {
+    nodes: Array<{ host: string; port: number }>;
+    masterName: string;
+    username?: string;
+    password?: string;
+}
+
+export interface RedisConnectionConfig {
+    url: string;
+    mode: ConnectionMode;
+    // Cluster mode: seed nodes used to discover the cluster topology
+    clusterNodes: string[];
+    sentinel?: SentinelConfig;
+    username?: string;
+    password?: string;
+    db?: number;
+    tls?: TlsConfig;
+}
+
+export interface AuditConfig {
+    // JSON Lines file, rotated to <file>.1, <file>.2, ... once it reaches maxBytes
+    file?: string;
+    maxBytes: number;
+    maxFiles: number;
+    // Redis stream, capped at about streamMaxLen entries
+    stream?: string;
+    streamConnection?: string;
+    streamMaxLen: number;
+    // Values written to keys matching these patterns are left out of the log
+    redactKeyPatterns: string[];
+}
+
+export type RedactionAction = "mask" | "hash";
+
+export type RedactionDetector = "email" | "jwt" | "credit-card";
+
+export interface RedactionRule {
+    // Key patterns the rule applies to, every key if omitted
+    keys?: string[];
+    // Hash and stream entry field patterns
+    fields?: string[];
+    // Positions in JSON documents, e.g. $.user.email or $..token
+    jsonPaths?: string[];
+    // Without fields or jsonPaths, the rule covers the whole value of matching keys
+    action: RedactionAction;
+}
+
+export interface RedactionConfig {
+    rules: RedactionRule[];
+    // Patterns looked for in every value returned, whatever the key
+    detectors: RedactionDetector[];
+    detectorAction: RedactionAction;
+    // Keys that read tools refuse to read; tools that modify them return their values masked
+    blockKeyPatterns: string[];
+}
+
+export interface ServerConfig {
+    // Named Redis connections; tools use defaultConnection unless a call names another one
+    connections: Record<string, RedisConnectionConfig>;
+    defaultConnection: string;
+    transport: "stdio" | "http";
+    host: string;
+    port: number;
+    authToken?: string;
+    // Host and Origin header values accepted over HTTP, defaulting to the loopback addresses when listening on one
+    allowedHosts?: string[];
+    allowedOrigins?: string[];
+    // Seconds after which an HTTP session without requests is closed
+    sessionIdleTimeout: number;
+    outputFormat: OutputFormat;
+    // Caps on what read tools return; calls can lower them with maxBytes and maxItems
+    maxOutputBytes: number;
+    maxOutputItems: number;
+    readOnly: boolean;
+    allowTools?: string[];
+    denyTools: string[];
+    keyPatterns?: string[];
+    writeKeyPatterns?: string[];
+    // Directory of named Lua scripts (*.lua) that the scripting tools can run by name
+    scriptsDir?: string;
+    // Only run scripts from scriptsDir, never code passed in a tool call
+    registeredScriptsOnly: boolean;
+    // Directory that export_keys and import_keys may read and write files in
+    transferDir?: string;
+    // Audit log of tool calls, disabled unless a file or stream is configured
+    audit?: AuditConfig;
+    // Masking of stored values before they are returned, disabled unless rules, detectors or blocked keys are configured
+    redaction?: RedactionConfig;
+}
+
+// Config file schema (JSON). Every field is optional; flags and environment variables override it.
+const TlsFileSchema = z.object({
+    ca: z.string().optional(),
+    cert: z.string().optional(),
+    key: z.string().optional(),
+    rejectUnauthorized: z.boolean().optional(),
+    servername: z.string().optional(),
+}).strict();
+
+const RedisFileSchema = z.object({
+    url: z.string().optional(),
+    mode: z.enum(["standalone", "cluster", "sentinel"]).optional(),
+    clusterNodes: z.array(z.string()).optional(),
+    sentinel: z.object({
+        nodes: z.array(z.string()).min(1),
+        masterName: z.string(),
+        username: z.string().optional(),
+        password: z.string().optional(),
+    }).strict().optional(),
+    username: z.string().optional(),
+    password: z.string().optional(),
+    db: z.number().int().min(0).optional(),
+    tls: z.union([z.boolean(), TlsFileSchema]).optional(),
+}).strict();
+
+const AuditFileSchema = z.object({
+    file: z.string().optional(),
+    maxBytes: z.number().int().positive().optional(),
+    maxFiles: z.number().int().positive().optional(),
+    stream: z.string().optional(),
+    streamConnection: z.string().optional(),
+    streamMaxLen: z.number().int().positive().optional(),
+    redactKeyPatterns: z.array(z.string()).optional(),
+}).strict();
+
+const RedactionFileSchema = z.object({
+    rules: z.array(z.object({
+        keys: z.array(z.string()).optional(),
+        fields: z.array(z.string()).optional(),
+        jsonPaths: z.array(z.string().refine((path) => parseJsonPath(path) !== null, {
+            message: "Unsupported JSONPath (use dot, bracket, [*] and .. segments)",
+        })).optional(),
+        action: z.enum(["mask", "hash"]).optional(),
+    }).strict().refine((rule) => rule.keys || rule.fields || rule.jsonPaths, {
+        message: "A redaction rule needs keys, fields or jsonPaths",
+    })).optional(),
+    detectors: z.array(z.enum(["email", "jwt", "credit-card"])).optional(),
+    detectorAction: z.enum(["mask", "hash"]).optional(),
+    blockReadKeyPatterns: z.array(z.string()).optional(),
+}).strict();
+
+const ConfigFileSchema = z.object({
+    redis: RedisFileSchema.optional(),
+    connections: z.record(RedisFileSchema).optional(),
+    defaultConnection: z.string().optional(),
+    transport: z.enum(["stdio", "http"]).optional(),
+    host: z.string().optional(),
+    port: z.number().int().min(0).max(65535).optional(),
+    authToken: z.string().optional(),
+    allowedHosts: z.array(z.string()).optional(),
+    allowedOrigins: z.array(z.string()).optional(),
+    sessionIdleTimeout: z.number().int().positive().optional(),
+    outputFormat: z.enum(["text", "json"]).optional(),
+    maxOutputBytes: z.number().int().positive().optional(),
+    maxOutputItems: z.number().int().positive().optional(),
+    readOnly: z.boolean().optional(),
+    allowTools: z.array(z.string()).optional(),
+    denyTools: z.array(z.string()).optional(),
+    keyPatterns: z.array(z.string()).optional(),
+    writeKeyPatterns: z.array(z.string()).optional(),
+    scriptsDir: z.string().optional(),
+    registeredScriptsOnly: z.boolean().optional(),
+    transferDir: z.string().optional(),
+    audit: AuditFileSchema.optional(),
+    redaction: RedactionFileSchema.optional(),
+}).strict();
+
+type ConfigFile = z.infer<typeof ConfigFileSchema>;
+
+function readConfigFile(path: string): ConfigFile {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(path, "utf8"));
+    } catch (error) {
+        throw new Error(`Cannot read config file ${path}: ${(error as Error).message}`);
+    }
+    const result = ConfigFileSchema.safeParse(raw);
+    if (!result.success) {
+        throw new Error(`Invalid config file ${path}: ${result.error.errors
+            .map((e) => `${e.path.join(".")}: ${e.message}`)
+            .join(", ")}`);
+    }
+    return result.data;
+}
+
+function parseList(value: string | undefined): string[] | undefined {
+    if (value === undefined) {
+        return undefined;
+    }
+    return value.split(",").map((item) => item.trim()).filter((item) => item.length > 0);
+}
+
+function parseBoolean(value: string | undefined): boolean {
+    return value !== undefined && ["1", "true", "yes", "on"].includes(value.toLowerCase());
+}
+
+function parseOptionalBoolean(value: string | undefined): boolean | undefined {
+    return value === undefined ? undefined : parseBoolean(value);
+}
+
+// "host:port" pairs of sentinel nodes
+function parseHostPort(value: string): { host: string; port: number } {
+    const separator = value.lastIndexOf(":");
+    const host = separator > 0 ? value.slice(0, separator) : value;
+    const port = separator > 0 ? Number(value.slice(separator + 1)) : 26379;
+    if (!Number.isInteger(port) || port <= 0 || port > 65535) {
+        throw new Error(`Invalid sentinel address: ${value} (expected host:port)`);
+    }
+    return { host, port };
+}
+
+// Command line flags take precedence over environment variables, which take precedence over the config file
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): ServerConfig {
+    const { values, positionals } = parseArgs({
+        args: argv,
+        allowPositionals: true,
+        options: {
+            "config": { type: "string" },
+            "default-connection": { type: "string" },
+            "transport": { type: "string" },
+            "host": { type: "string" },
+            "port": { type: "string" },
+            "auth-token": { type: "string" },
+            "allowed-hosts": { type: "string" },
+            "allowed-origins": { type: "string" },
+            "session-idle-timeout": { type: "string" },
+            "output-format": { type: "string" },
+            "max-output-bytes": { type: "string" },
+            "max-output-items": { type: "string" },
+            "read-only": { type: "boolean" },
+            "allow-tools": { type: "string" },
+            "deny-tools": { type: "string" },
+            "key-patterns": { type: "string" },
+            "write-key-patterns": { type: "string" },
+            "scripts-dir": { type: "string" },
+            "registered-scripts-only": { type: "boolean" },
+            "transfer-dir": { type: "string" },
+            "audit-file": { type: "string" },
+            "audit-max-bytes": { type: "string" },
+            "audit-max-files": { type: "string" },
+            "audit-stream": { type: "string" },
+            "audit-stream-connection": { type: "string" },
+            "audit-stream-max-len": { type: "string" },
+            "audit-redact-key-patterns": { type: "string" },
+            "redact-key-patterns": { type: "string" },
+            "redact-fields": { type: "string" },
+            "redact-detectors": { type: "string" },
+            "redact-action": { type: "string" },
+            "block-read-key-patterns": { type: "string" },
+            "mode": { type: "string" },
+            "cluster-nodes": { type: "string" },
+            "sentinels": { type: "string" },
+            "sentinel-master": { type: "string" },
+            "sentinel-username": { type: "string" },
+            "sentinel-password": { type: "string" },
+            "username": { type: "string" },
+            "password": { type: "string" },
+            "db": { type: "string" },
+            "tls": { type: "boolean" },
+            "tls-ca": { type: "string" },
+            "tls-cert": { type: "string" },
+            "tls-key": { type: "string" },
+            "tls-servername": { type: "string" },
+            "tls-insecure": { type: "boolean" },
+        },
+    });
+
+    const configPath = values.config ?? env.REDIS_MCP_CONFIG;
+    const file = configPath ? readConfigFile(configPath) : {};
+
+    const transport = values.transport ?? env.REDIS_MCP_TRANSPORT ?? file.transport ?? "stdio";
+    if (transport !== "stdio" && transport !== "http") {
+        throw new Error(`Invalid transport: ${transport} (expected stdio or http)`);
+    }
+    const port = Number(values.port ?? env.REDIS_MCP_PORT ?? file.port ?? 3000);
+    if (!Number.isInteger(port) || port < 0 || port > 65535) {
+        throw new Error(`Invalid port: ${values.port ?? env.REDIS_MCP_PORT}`);
+    }
+    const sessionIdleTimeout = Number(values["session-idle-timeout"] ?? env.REDIS_MCP_SESSION_IDLE_TIMEOUT ?? file.sessionIdleTimeout ?? 1800);
+    if (!Number.isInteger(sessionIdleTimeout) || sessionIdleTimeout <= 0) {
+        throw new Error(`Invalid session idle timeout: ${values["session-idle-timeout"] ?? env.REDIS_MCP_SESSION_IDLE_TIMEOUT}`);
+    }
+    const outputFormat = values["output-format"] ?? env.REDIS_MCP_OUTPUT_FORMAT ?? file.outputFormat ?? "text";
+    if (outputFormat !== "text" && outputFormat !== "json") {
+        throw new Error(`Invalid output format: ${outputFormat} (expected text or json)`);
+    }
+    const maxOutputBytes = Number(values["max-output-bytes"] ?? env.REDIS_MCP_MAX_OUTPUT_BYTES ?? file.maxOutputBytes ?? 65536);
+    if (!Number.isInteger(maxOutputBytes) || maxOutputBytes <= 0) {
+        throw new Error(`Invalid max output bytes: ${values["max-output-bytes"] ?? env.REDIS_MCP_MAX_OUTPUT_BYTES}`);
+    }
+    const maxOutputItems = Number(values["max-output-items"] ?? env.REDIS_MCP_MAX_OUTPUT_ITEMS ?? file.maxOutputItems ?? 1000);
+    if (!Number.isInteger(maxOutputItems) || maxOutputItems <= 0) {
+        throw new Error(`Invalid max output items: ${values["max-output-items"] ?? env.REDIS_MCP_MAX_OUTPUT_ITEMS}`);
+    }
+
+    // Named connections come from the config file only. Without them, the connection
+    // described by the command line, environment and "redis" section is called "default".
+    let connections: Record<string, RedisConnectionConfig>;
+    if (file.connections && Object.keys(file.connections).length > 0) {
+        if (file.redis) {
+            throw new Error("The config file may define either redis or connections, not both");
+        }
+        connections = Object.fromEntries(
+            Object.entries(file.connections).map(([name, connection]) => [name, loadRedisConfig({}, [], {}, connection)])
+        );
+    } else {
+        connections = { default: loadRedisConfig(values, positionals, env, file.redis ?? {}) };
+    }
+    const defaultConnection = values["default-connection"] ?? env.REDIS_MCP_DEFAULT_CONNECTION
+        ?? file.defaultConnection ?? Object.keys(connections)[0];
+    if (!(defaultConnection in connections)) {
+        throw new Error(`Unknown default connection: ${defaultConnection} (available: ${Object.keys(connections).join(", ")})`);
+    }
+
+    return {
+        connections,
+        defaultConnection,
+        transport,
+        host: values.host ?? env.REDIS_MCP_HOST ?? file.host ?? "127.0.0.1",
+        port,
+        authToken: values["auth-token"] ?? env.REDIS_MCP_AUTH_TOKEN ?? file.authToken,
+        allowedHosts: parseList(values["allowed-hosts"] ?? env.REDIS_MCP_ALLOWED_HOSTS) ?? file.allowedHosts,
+        allowedOrigins: parseList(values["allowed-origins"] ?? env.REDIS_MCP_ALLOWED_ORIGINS) ?? file.allowedOrigins,
+        sessionIdleTimeout,
+        outputFormat,
+        maxOutputBytes,
+        maxOutputItems,
+        readOnly: values["read-only"] ?? parseOptionalBoolean(env.REDIS_MCP_READ_ONLY) ?? file.readOnly ?? false,
+        allowTools: parseList(values["allow-tools"] ?? env.REDIS_MCP_ALLOW_TOOLS) ?? file.allowTools,
+        denyTools: parseList(values["deny-tools"] ?? env.REDIS_MCP_DENY_TOOLS) ?? file.denyTools ?? [],
+        keyPatterns: parseList(values["key-patterns"] ?? env.REDIS_MCP_KEY_PATTERNS) ?? file.keyPatterns,
+        writeKeyPatterns: parseList(values["write-key-patterns"] ?? env.REDIS_MCP_WRITE_KEY_PATTERNS) ?? file.writeKeyPatterns,
+        scriptsDir: values["scripts-dir"] ?? env.REDIS_MCP_SCRIPTS_DIR ?? file.scriptsDir,
+        registeredScriptsOnly: values["registered-scripts-only"]
+            ?? parseOptionalBoolean(env.REDIS_MCP_REGISTERED_SCRIPTS_ONLY) ?? file.registeredScriptsOnly ?? false,
+        transferDir: values["transfer-dir"] ?? env.REDIS_MCP_TRANSFER_DIR ?? file.transferDir,
+        audit: loadAuditConfig(values, env, file.audit ?? {}, connections),
+        redaction: loadRedactionConfig(values, env, file.redaction ?? {}),
+    };
+}
+
+function loadAuditConfig(
+    values: Record<string, string | boolean | undefined>,
+    env: NodeJS.ProcessEnv,
+    file: z.infer<typeof AuditFileSchema>,
+    connections: Record<string, RedisConnectionConfig>
+): AuditConfig | undefined {
+    const flag = (name: string) => values[name] as string | undefined;
+    const positiveInteger = (name: string, value: string | undefined, fallback: number) => {
+        const number = value !== undefined ? Number(value) : fallback;
+        if (!Number.isInteger(number) || number <= 0) {
+            throw new Error(`Invalid ${name}: ${value}`);
+        }
+        return number;
+    };
+
+    const auditFile = flag("audit-file") ?? env.REDIS_MCP_AUDIT_FILE ?? file.file;
+    const stream = flag("audit-stream") ?? env.REDIS_MCP_AUDIT_STREAM ?? file.stream;
+    if (auditFile === undefined && stream === undefined) {
+        return undefined;
+    }
+    const streamConnection = flag("audit-stream-connection") ?? env.REDIS_MCP_AUDIT_STREAM_CONNECTION ?? file.streamConnection;
+    if (streamConnection !== undefined && !(streamConnection in connections)) {
+        throw new Error(`Unknown audit stream connection: ${streamConnection} (available: ${Object.keys(connections).join(", ")})`);
+    }
+
+    return {
+        file: auditFile,
+        maxBytes: positiveInteger("audit max bytes", flag("audit-max-bytes") ?? env.REDIS_MCP_AUDIT_MAX_BYTES, file.maxBytes ?? 10 * 1024 * 1024),
+        maxFiles: positiveInteger("audit max files", flag("audit-max-files") ?? env.REDIS_MCP_AUDIT_MAX_FILES, file.maxFiles ?? 5),
+        stream,
+        streamConnection,
+        streamMaxLen: positiveInteger("audit stream max length", flag("audit-stream-max-len") ?? env.REDIS_MCP_AUDIT_STREAM_MAX_LEN, file.streamMaxLen ?? 100000),
+        redactKeyPatterns: parseList(flag("audit-redact-key-patterns") ?? env.REDIS_MCP_AUDIT_REDACT_KEY_PATTERNS) ?? file.redactKeyPatterns ?? [],
+    };
+}
+
+function loadRedactionConfig(
+    values: Record<string, string | boolean | undefined>,
+    env: NodeJS.ProcessEnv,
+    file: z.infer<typeof RedactionFileSchema>
+): RedactionConfig | undefined {
+    const flag = (name: string) => values[name] as string | undefined;
+    const action = (name: string, value: string | undefined): RedactionAction | undefined => {
+        if (value !== undefined && value !== "mask" && value !== "hash") {
+            throw new Error(`Invalid ${name}: ${value} (expected mask or hash)`);
+        }
+        return value;
+    };
+
+    // Rules from flags and environment variables cover whole keys or fields, with one action for all of them
+    const flagAction = action("redact action", flag("redact-action") ?? env.REDIS_MCP_REDACT_ACTION);
+    const keys = parseList(flag("redact-key-patterns") ?? env.REDIS_MCP_REDACT_KEY_PATTERNS);
+    const fields = parseList(flag("redact-fields") ?? env.REDIS_MCP_REDACT_FIELDS);
+    const rules: RedactionRule[] = [
+        ...(keys ? [{ keys, action: flagAction ?? "mask" }] : []),
+        ...(fields ? [{ fields, action: flagAction ?? "mask" }] : []),
+        ...(file.rules ?? []).map((rule) => ({ ...rule, action: rule.action ?? "mask" })),
+    ];
+
+    const detectorNames = parseList(flag("redact-detectors") ?? env.REDIS_MCP_REDACT_DETECTORS) ?? file.detectors ?? [];
+    const detectors = detectorNames.map((name) => {
+        if (name !== "email" && name !== "jwt" && name !== "credit-card") {
+            throw new Error(`Invalid redaction detector: ${name} (expected email, jwt or credit-card)`);
+        }
+        return name;
+    });
+    const blockKeyPatterns = parseList(flag("block-read-key-patterns") ?? env.REDIS_MCP_BLOCK_READ_KEY_PATTERNS)
+        ?? file.blockReadKeyPatterns ?? [];
+    if (rules.length === 0 && detectors.length === 0 && blockKeyPatterns.length === 0) {
+        return undefined;
+    }
+
+    return {
+        rules,
+        detectors,
+        detectorAction: flagAction ?? file.detectorAction ?? "mask",
+        blockKeyPatterns,
+    };
+}
+
+function loadRedisConfig(
+    values: Record<string, string | boolean | undefined>,
+    positionals: string[],
+    env: NodeJS.ProcessEnv,
+    file: z.infer<typeof RedisFileSchema>
+): RedisConnectionConfig {
+    const flag = (name: string) => values[name] as string | undefined;
+    const switchFlag = (name: string) => values[name] as boolean | undefined;
+
+    const url = positionals[0] || env.REDIS_URL || file.url || "redis://localhost:6379";
+    const mode = flag("mode") ?? env.REDIS_MCP_MODE ?? file.mode ?? "standalone";
+    if (mode !== "standalone" && mode !== "cluster" && mode !== "sentinel") {
+        throw new Error(`Invalid mode: ${mode} (expected standalone, cluster or sentinel)`);
+    }
+
+    const dbValue = flag("db") ?? env.REDIS_MCP_DB;
+    const db = dbValue !== undefined ? Number(dbValue) : file.db;
+    if (db !== undefined && (!Number.isInteger(db) || db < 0)) {
+        throw new Error(`Invalid db: ${dbValue}`);
+    }
+    if (mode === "cluster" && db) {
+        throw new Error("Redis Cluster only supports database 0");
+    }
+
+    let sentinel: SentinelConfig | undefined;
+    if (mode === "sentinel") {
+        const nodes = parseList(flag("sentinels") ?? env.REDIS_MCP_SENTINELS) ?? file.sentinel?.nodes ?? [];
+        const masterName = flag("sentinel-master") ?? env.REDIS_MCP_SENTINEL_MASTER ?? file.sentinel?.masterName;
+        if (nodes.length === 0 || !masterName) {
+            throw new Error("Sentinel mode requires --sentinels and --sentinel-master");
+        }
+        sentinel = {
+            nodes: nodes.map(parseHostPort),
+            masterName,
+            username: flag("sentinel-username") ?? env.REDIS_MCP_SENTINEL_USERNAME ?? file.sentinel?.username,
+            password: flag("sentinel-password") ?? env.REDIS_MCP_SENTINEL_PASSWORD ?? file.sentinel?.password,
+        };
+    }
+
+    const fileTls = typeof file.tls === "object" ? file.tls : {};
+    const tlsEnabled = switchFlag("tls") ?? parseOptionalBoolean(env.REDIS_MCP_TLS) ?? (file.tls !== undefined && file.tls !== false);
+    const ca = flag("tls-ca") ?? env.REDIS_MCP_TLS_CA ?? fileTls.ca;
+    const cert = flag("tls-cert") ?? env.REDIS_MCP_TLS_CERT ?? fileTls.cert;
+    const key = flag("tls-key") ?? env.REDIS_MCP_TLS_KEY ?? fileTls.key;
+    const insecure = switchFlag("tls-insecure") ?? parseOptionalBoolean(env.REDIS_MCP_TLS_INSECURE);
+    // Providing certificate material or a rediss:// URL implies TLS
+    const tls: TlsConfig | undefined = tlsEnabled || ca || cert || key || url.startsWith("rediss://")
+        ? {
+            ca,
+            cert,
+            key,
+            rejectUnauthorized: insecure !== undefined ? !insecure : fileTls.rejectUnauthorized ?? true,
+            servername: flag("tls-servername") ?? env.REDIS_MCP_TLS_SERVERNAME ?? fileTls.servername,
+        }
+        : undefined;
+    if ((cert === undefined) !== (key === undefined)) {
+        throw new Error("TLS client authentication requires both a certificate and a key");
+    }
+
+    return {
+        url,
+        mode,
+        clusterNodes: parseList(flag("cluster-nodes") ?? env.REDIS_MCP_CLUSTER_NODES) ?? file.clusterNodes ?? [url],
+        sentinel,
+        username: flag("username") ?? env.REDIS_MCP_USERNAME ?? file.username,
+        password: flag("password") ?? env.REDIS_MCP_PASSWORD ?? file.password,
+        db,
+        tls,
+    };
+}
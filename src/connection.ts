@@ -0,0 +1,446 @@
+import { readFileSync } from "node:fs";
+import { createClient, createCluster } from "redis";
+import { ConnectionMode, RedisConnectionConfig, TlsConfig } from "./config.js";
+import { RedisClient, parseDatabase } from "./redis.js";
+
+const MAX_RETRIES = 5;
+const MIN_RETRY_DELAY = 1000; // 1 second
+const MAX_RETRY_DELAY = 30000; // 30 seconds
+
+export interface RedisConnection {
+    // Client for key-based commands. In cluster mode this is the cluster client, which routes
+    // every command to the node owning its key and exposes the same command methods.
+    client: RedisClient;
+    mode: ConnectionMode;
+    db: number;
+    // Clients to run keyspace-wide commands (SCAN, ...) against: the client itself, or every master in cluster mode
+    nodeClients(): Promise<RedisClient[]>;
+    // Client for server-level commands (INFO, CONFIG GET, ...). In cluster mode this is the master
+    // at the given host:port address, or the first master.
+    nodeClient(address?: string): Promise<RedisClient>;
+    // The same server with another database selected (connected on first use)
+    selectDb(db: number): Promise<RedisConnection>;
+    isReady(): boolean;
+    // False once the client has given up reconnecting
+    isOpen(): boolean;
+    close(): Promise<void>;
+}
+
+// Retry with exponential backoff, giving up after MAX_RETRIES attempts
+function reconnectStrategy(label: string) {
+    return (retries: number) => {
+        if (retries >= MAX_RETRIES) {
+            console.error(`[Redis Error] Maximum retries (${MAX_RETRIES}) reached. Giving up.`);
+            console.error(`[Redis Error] Connection: ${label}`);
+            return new Error('Max retries reached');
+        }
+        const delay = Math.min(Math.pow(2, retries) * MIN_RETRY_DELAY, MAX_RETRY_DELAY);
+        console.error(`[Redis Retry] Attempt ${retries + 1}/${MAX_RETRIES} failed`);
+        console.error(`[Redis Retry] Next attempt in ${delay}ms`);
+        console.error(`[Redis Retry] Connection: ${label}`);
+        return delay;
+    };
+}
+
+function tlsSocketOptions(tls: TlsConfig | undefined) {
+    if (!tls) {
+        return {};
+    }
+    return {
+        tls: true as const,
+        ca: tls.ca ? readFileSync(tls.ca) : undefined,
+        cert: tls.cert ? readFileSync(tls.cert) : undefined,
+        key: tls.key ? readFileSync(tls.key) : undefined,
+        rejectUnauthorized: tls.rejectUnauthorized,
+        servername: tls.servername,
+    };
+}
+
+// Strip credentials so connection strings can be logged
+function redactUrl(url: string): string {
+    try {
+        const parsed = new URL(url);
+        if (parsed.password) {
+            parsed.password = "***";
+        }
+        return parsed.toString();
+    } catch {
+        return url;
+    }
+}
+
+interface ConnectionEvents {
+    on(event: "error", listener: (err: Error) => void): unknown;
+    on(event: "connect", listener: () => void): unknown;
+}
+
+function logEvents(client: ConnectionEvents, label: string): void {
+    client.on('error', (err: Error) => {
+        console.error(`[Redis Error] ${err.name}: ${err.message}`);
+        console.error(`[Redis Error] Connection: ${label}`);
+        console.error(`[Redis Error] Stack: ${err.stack}`);
+    });
+    client.on('connect', () => {
+        console.error(`[Redis Connected] Successfully connected to ${label}`);
+    });
+}
+
+function sentinelClient(config: RedisConnectionConfig, node: { host: string; port: number }, retry: false | ReturnType<typeof reconnectStrategy>) {
+    const client = createClient({
+        username: config.sentinel!.username,
+        password: config.sentinel!.password,
+        socket: { host: node.host, port: node.port, ...tlsSocketOptions(config.tls), reconnectStrategy: retry },
+    });
+    client.on('error', () => {});
+    return client;
+}
+
+// Ask each sentinel in turn for the address of the current master
+async function discoverSentinelMaster(config: RedisConnectionConfig): Promise<{ host: string; port: number }> {
+    const sentinel = config.sentinel!;
+    for (const node of sentinel.nodes) {
+        const client = sentinelClient(config, node, false);
+        try {
+            await client.connect();
+            const reply = await client.sendCommand<string[] | null>(["SENTINEL", "GET-MASTER-ADDR-BY-NAME", sentinel.masterName]);
+            if (reply) {
+                console.error(`[Redis Sentinel] Master ${sentinel.masterName} is at ${reply[0]}:${reply[1]} (via ${node.host}:${node.port})`);
+                return { host: reply[0], port: Number(reply[1]) };
+            }
+            console.error(`[Redis Sentinel] ${node.host}:${node.port} does not know master ${sentinel.masterName}`);
+        } catch (error) {
+            console.error(`[Redis Sentinel] ${node.host}:${node.port} unavailable: ${(error as Error).message}`);
+        } finally {
+            await client.disconnect().catch(() => {});
+        }
+    }
+    throw new Error(`No sentinel could resolve master ${sentinel.masterName}`);
+}
+
+// Close the connection when a sentinel announces that the master has moved, so that the
+// registry discovers the new master on the next call. Without a reachable sentinel, a
+// failover is only noticed through READONLY replies (see isReadOnlyError).
+async function watchFailovers(connection: RedisConnection, config: RedisConnectionConfig, label: string): Promise<void> {
+    const { masterName, nodes } = config.sentinel!;
+    for (const node of nodes) {
+        const watcher = sentinelClient(config, node, reconnectStrategy(`${label} sentinel ${node.host}:${node.port}`));
+        try {
+            await watcher.connect();
+            // +switch-master carries "<master name> <old ip> <old port> <new ip> <new port>"
+            await watcher.subscribe("+switch-master", (message) => {
+                const [name, , , host, port] = message.split(" ");
+                if (name === masterName) {
+                    console.error(`[Redis Sentinel] Master ${masterName} moved to ${host}:${port}, reconnecting ${label}`);
+                    // Not from within the listener, since closing disconnects the client delivering the message
+                    setImmediate(() => connection.close().catch(() => {}));
+                }
+            });
+        } catch (error) {
+            console.error(`[Redis Sentinel] ${node.host}:${node.port} unavailable for failover notifications: ${(error as Error).message}`);
+            await watcher.disconnect().catch(() => {});
+            continue;
+        }
+        const close = connection.close;
+        connection.close = async () => {
+            await watcher.disconnect().catch(() => {});
+            await close();
+        };
+        return;
+    }
+    console.error(`[Redis Sentinel] No sentinel available for failover notifications of ${label}`);
+}
+
+// A write to a master that a failover has demoted to a replica
+export function isReadOnlyError(error: unknown): boolean {
+    return error instanceof Error && error.message.startsWith("READONLY");
+}
+
+async function connectCluster(config: RedisConnectionConfig, name: string): Promise<RedisConnection> {
+    const label = `${name} (cluster ${config.clusterNodes.map(redactUrl).join(",")})`;
+    const cluster = createCluster({
+        rootNodes: config.clusterNodes.map((url) => ({ url })),
+        defaults: {
+            username: config.username,
+            password: config.password,
+            socket: { ...tlsSocketOptions(config.tls), reconnectStrategy: reconnectStrategy(label) },
+        },
+    });
+    logEvents(cluster, label);
+    await cluster.connect().catch(async (error) => {
+        await cluster.disconnect().catch(() => {});
+        throw error;
+    });
+    const connection: RedisConnection = {
+        client: cluster as unknown as RedisClient,
+        mode: config.mode,
+        db: 0,
+        nodeClients: () => Promise.all(cluster.masters.map((master) => cluster.nodeClient(master))),
+        nodeClient: async (address) => {
+            const master = address === undefined
+                ? cluster.masters[0]
+                : cluster.masters.find((m) => m.address === address || `${m.host}:${m.port}` === address);
+            if (!master) {
+                throw new Error(`Unknown cluster node: ${address} (masters: ${cluster.masters.map((m) => `${m.host}:${m.port}`).join(", ")})`);
+            }
+            return cluster.nodeClient(master);
+        },
+        selectDb: async (db) => {
+            if (db !== 0) {
+                throw new Error("Redis Cluster only supports database 0");
+            }
+            return connection;
+        },
+        isReady: () => cluster.isOpen && cluster.masters.every(
+            (master) => master.client !== undefined && !(master.client instanceof Promise) && master.client.isReady
+        ),
+        isOpen: () => cluster.isOpen,
+        close: async () => {
+            if (cluster.isOpen) {
+                await cluster.quit();
+            }
+        },
+    };
+    return connection;
+}
+
+// Wrap a connected standalone client. Other databases get their own duplicate client,
+// since SELECT on the shared connection would affect every concurrent call. A client the
+// connection doesn't own is left open when it is closed.
+function standaloneConnection(client: RedisClient, mode: ConnectionMode, db: number, label: string, ownsClient = true): RedisConnection {
+    const databases = new Map<number, Promise<RedisConnection>>();
+    const connection: RedisConnection = {
+        client,
+        mode,
+        db,
+        nodeClients: async () => [client],
+        nodeClient: async (address) => {
+            if (address !== undefined) {
+                throw new Error("The node argument only applies to cluster connections");
+            }
+            return client;
+        },
+        selectDb: async (selected) => {
+            if (selected === db) {
+                return connection;
+            }
+            let pending = databases.get(selected);
+            if (pending) {
+                const existing = await pending;
+                if (existing.isReady()) {
+                    return existing;
+                }
+                // Connect again rather than keep using one that is reconnecting or has given up
+                if (databases.get(selected) === pending) {
+                    databases.delete(selected);
+                }
+                await existing.close().catch(() => {});
+                pending = databases.get(selected);
+            }
+            if (!pending) {
+                const dbClient = client.duplicate({ database: selected });
+                const dbLabel = `${label} db ${selected}`;
+                logEvents(dbClient, dbLabel);
+                pending = dbClient.connect().then(
+                    () => standaloneConnection(dbClient, mode, selected, dbLabel),
+                    async (error) => {
+                        databases.delete(selected);
+                        await dbClient.disconnect().catch(() => {});
+                        throw error;
+                    }
+                );
+                databases.set(selected, pending);
+            }
+            return pending;
+        },
+        isReady: () => client.isReady,
+        isOpen: () => client.isOpen,
+        close: async () => {
+            const selected = await Promise.allSettled(databases.values());
+            await Promise.all(selected.map((result) => result.status === "fulfilled" ? result.value.close() : undefined));
+            if (ownsClient && client.isOpen) {
+                // QUIT would wait for a client that is reconnecting
+                await (client.isReady ? client.quit() : client.disconnect());
+            }
+        },
+    };
+    return connection;
+}
+
+// A client connected by someone else, such as a test
+export function injectedConnection(client: RedisClient, name: string): RedisConnection {
+    return standaloneConnection(client, "standalone", client.options?.database ?? 0, `${name} (injected client)`, false);
+}
+
+export async function connectRedis(config: RedisConnectionConfig, name = "default"): Promise<RedisConnection> {
+    if (config.mode === "cluster") {
+        return connectCluster(config, name);
+    }
+
+    let label = `${name} (${redactUrl(config.url)})`;
+    let address = {};
+    if (config.mode === "sentinel") {
+        const master = await discoverSentinelMaster(config);
+        label = `${name} (sentinel master ${config.sentinel!.masterName} at ${master.host}:${master.port})`;
+        address = master;
+    }
+    const client = createClient({
+        ...(config.mode === "sentinel" ? {} : { url: config.url }),
+        username: config.username,
+        password: config.password,
+        database: config.db,
+        socket: { ...address, ...tlsSocketOptions(config.tls), reconnectStrategy: reconnectStrategy(label) },
+    });
+    logEvents(client, label);
+    await client.connect().catch(async (error) => {
+        await client.disconnect().catch(() => {});
+        throw error;
+    });
+    const db = config.db ?? (config.mode === "sentinel" ? 0 : parseDatabase(config.url));
+    const connection = standaloneConnection(client, config.mode, db, label);
+    if (config.mode === "sentinel") {
+        await watchFailovers(connection, config, label);
+    }
+    return connection;
+}
+
+export type ConnectionState = "ready" | "connecting" | "reconnecting" | "unavailable";
+
+export interface ConnectionStatus {
+    name: string;
+    default: boolean;
+    mode: ConnectionMode;
+    target: string;
+    db: number;
+    state: ConnectionState;
+    error: string | null;
+}
+
+export interface ConnectionRegistry {
+    names(): string[];
+    // Resolve a named connection (the default one when no name is given), optionally on another database
+    get(name?: string, db?: number): Promise<RedisConnection>;
+    status(): ConnectionStatus[];
+    // Connect everything up front. Failures are logged and retried on the next call that uses the connection.
+    connectAll(): Promise<void>;
+    // Drop a connection so that the next call connects (and, for sentinel, discovers the master) again
+    reset(name?: string): Promise<void>;
+    close(): Promise<void>;
+}
+
+function describeTarget(config: RedisConnectionConfig): string {
+    if (config.mode === "cluster") {
+        return config.clusterNodes.map(redactUrl).join(",");
+    }
+    if (config.mode === "sentinel") {
+        const { masterName, nodes } = config.sentinel!;
+        return `${masterName} via ${nodes.map((node) => `${node.host}:${node.port}`).join(",")}`;
+    }
+    return redactUrl(config.url);
+}
+
+// Connections are independent: one that fails to connect, or gives up reconnecting, only
+// fails the calls routed to it, and is connected again from scratch on its next use.
+export function createConnectionRegistry(
+    configs: Record<string, RedisConnectionConfig>,
+    defaultName: string,
+    connect: (config: RedisConnectionConfig, name: string) => Promise<RedisConnection> = connectRedis
+): ConnectionRegistry {
+    interface Entry {
+        config: RedisConnectionConfig;
+        pending?: Promise<RedisConnection>;
+        connection?: RedisConnection;
+        error?: string;
+    }
+    const entries = new Map<string, Entry>(
+        Object.entries(configs).map(([name, config]) => [name, { config }])
+    );
+
+    function open(name: string, entry: Entry): Promise<RedisConnection> {
+        if (entry.connection && !entry.connection.isOpen()) {
+            // Release whatever the connection still holds, such as its other databases
+            entry.connection.close().catch(() => {});
+            entry.connection = undefined;
+            entry.pending = undefined;
+        }
+        if (!entry.pending) {
+            entry.pending = connect(entry.config, name).then(
+                (connection) => {
+                    entry.connection = connection;
+                    entry.error = undefined;
+                    return connection;
+                },
+                (error: Error) => {
+                    entry.pending = undefined;
+                    entry.error = error.message;
+                    throw error;
+                }
+            );
+        }
+        return entry.pending;
+    }
+
+    return {
+        names: () => [...entries.keys()],
+        async get(name = defaultName, db) {
+            const entry = entries.get(name);
+            if (!entry) {
+                throw new Error(`Unknown connection: ${name} (available: ${[...entries.keys()].join(", ")})`);
+            }
+            let connection: RedisConnection;
+            try {
+                connection = await open(name, entry);
+            } catch (error) {
+                throw new Error(`Connection ${name} is unavailable: ${(error as Error).message}`);
+            }
+            if (!connection.isReady()) {
+                throw new Error(`Connection ${name} is not ready (reconnecting to Redis)`);
+            }
+            return db === undefined ? connection : connection.selectDb(db);
+        },
+        status: () => [...entries.entries()].map(([name, entry]) => {
+            const connection = entry.connection;
+            let state: ConnectionState;
+            if (connection?.isReady()) {
+                state = "ready";
+            } else if (connection?.isOpen()) {
+                state = "reconnecting";
+            } else if (entry.pending && !connection) {
+                state = "connecting";
+            } else {
+                state = "unavailable";
+            }
+            return {
+                name,
+                default: name === defaultName,
+                mode: entry.config.mode,
+                target: describeTarget(entry.config),
+                db: connection?.db ?? entry.config.db ?? (entry.config.mode === "standalone" ? parseDatabase(entry.config.url) : 0),
+                state,
+                error: state === "ready" ? null : entry.error ?? null,
+            };
+        }),
+        async connectAll() {
+            await Promise.all([...entries.entries()].map(([name, entry]) =>
+                open(name, entry).catch((error: Error) => {
+                    console.error(`[Redis Error] Connection ${name} failed: ${error.message}`);
+                })
+            ));
+        },
+        async reset(name = defaultName) {
+            const entry = entries.get(name);
+            const connection = entry?.connection;
+            if (!entry || !connection) {
+                return;
+            }
+            entry.connection = undefined;
+            entry.pending = undefined;
+            await connection.close().catch(() => {});
+        },
+        async close() {
+            await Promise.all([...entries.values()].map(async (entry) => {
+                const connection = await entry.pending?.catch(() => undefined);
+                await connection?.close().catch(() => {});
+            }));
+        },
+    };
+}
@@ -0,0 +1,51 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { toolResult } from "./output.js";
+import { ServerContext } from "./types.js";
+
+export const connectionTools: Tool[] = [
+    {
+        name: "list_connections",
+        description: "List the configured Redis connections and their status. Pass a name as the connection argument of any other tool to use it",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {},
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                connections: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            default: { type: "boolean", description: "Used when a call does not name a connection" },
+                            mode: { type: "string", enum: ["standalone", "cluster", "sentinel"] },
+                            target: { type: "string", description: "Server address, without credentials" },
+                            db: { type: "number", description: "Database selected by default" },
+                            state: { type: "string", enum: ["ready", "connecting", "reconnecting", "unavailable"] },
+                            error: { type: ["string", "null"], description: "Last connection error" },
+                        },
+                        required: ["name", "default", "mode", "target", "db", "state", "error"],
+                    },
+                },
+            },
+            required: ["connections"],
+        },
+    },
+];
+
+export async function handleConnectionTool({ connections }: ServerContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "list_connections") {
+        const statuses = connections.status();
+        return toolResult(
+            `Connections:\n${statuses
+                .map((c) => `${c.name}${c.default ? " (default)" : ""}: ${c.state} - ${c.mode} ${c.target} db ${c.db}${c.error ? ` - ${c.error}` : ""}`)
+                .join('\n')}`,
+            { connections: statuses }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
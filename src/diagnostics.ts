@@ -0,0 +1,545 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { AccessPolicy, DIAGNOSTIC_TOOL_META, isKeyAllowed } from "./access.js";
+import { toolResult } from "./output.js";
+import { ToolContext } from "./types.js";
+
+// Diagnostic schemas
+const InfoArgumentsSchema = z.object({
+    section: z.string().optional(),
+    node: z.string().optional(),
+});
+
+const SlowlogGetArgumentsSchema = z.object({
+    count: z.number().int().positive().max(1000).default(10),
+    node: z.string().optional(),
+});
+
+const MemoryUsageArgumentsSchema = z.object({
+    key: z.string(),
+    samples: z.number().int().min(0).optional(),
+});
+
+const NodeArgumentsSchema = z.object({
+    node: z.string().optional(),
+});
+
+const LatencyHistoryArgumentsSchema = z.object({
+    event: z.string(),
+    node: z.string().optional(),
+});
+
+const ClientListArgumentsSchema = z.object({
+    type: z.enum(["normal", "master", "replica", "pubsub"]).optional(),
+    limit: z.number().int().positive().default(100),
+    node: z.string().optional(),
+});
+
+const ConfigGetArgumentsSchema = z.object({
+    parameter: z.string().default("*"),
+    node: z.string().optional(),
+});
+
+// INFO fields reported by default, in display order
+const INFO_SUMMARY_FIELDS = [
+    "redis_version", "redis_mode", "role", "uptime_in_seconds",
+    "connected_clients", "blocked_clients", "rejected_connections",
+    "used_memory", "used_memory_human", "used_memory_peak_human", "maxmemory_human", "maxmemory_policy",
+    "mem_fragmentation_ratio", "instantaneous_ops_per_sec", "total_commands_processed",
+    "keyspace_hits", "keyspace_misses", "expired_keys", "evicted_keys",
+    "connected_slaves", "rdb_last_bgsave_status", "aof_enabled",
+];
+
+// MEMORY STATS fields shown in the text summary
+const MEMORY_STATS_SUMMARY_FIELDS = [
+    "peak.allocated", "total.allocated", "dataset.bytes", "dataset.percentage",
+    "overhead.total", "keys.count", "keys.bytes-per-key", "fragmentation",
+];
+
+// Never echo credentials back from CONFIG GET
+const SECRET_CONFIG_PARAMETERS = ["requirepass", "masterauth", "tls-key-file-pass", "tls-client-key-file-pass"];
+
+const NODE_PROPERTY = {
+    node: { type: "string", description: "Cluster only: master node (host:port) to query (default: the first master)" },
+};
+
+type InfoValue = string | number | Record<string, string | number>;
+
+function parseInfoValue(value: string): string | number {
+    return value !== "" && !Number.isNaN(Number(value)) ? Number(value) : value;
+}
+
+// Parse INFO output into { section: { field: value } }. Values such as the keyspace
+// "keys=1,expires=0,avg_ttl=0" become objects.
+function parseInfo(text: string): Record<string, Record<string, InfoValue>> {
+    const sections: Record<string, Record<string, InfoValue>> = {};
+    let current: Record<string, InfoValue> | undefined;
+    for (const line of text.split(/\r?\n/)) {
+        if (line.startsWith("# ")) {
+            current = {};
+            sections[line.slice(2).trim().toLowerCase()] = current;
+            continue;
+        }
+        const separator = line.indexOf(":");
+        if (!current || separator === -1) {
+            continue;
+        }
+        const field = line.slice(0, separator);
+        const value = line.slice(separator + 1);
+        if (/^[\w-]+=[^,]*(,[\w-]+=[^,]*)*$/.test(value)) {
+            current[field] = Object.fromEntries(value.split(",").map((pair) => {
+                const [name, ...rest] = pair.split("=");
+                return [name, parseInfoValue(rest.join("="))];
+            }));
+        } else {
+            current[field] = parseInfoValue(value);
+        }
+    }
+    return sections;
+}
+
+function summarizeInfo(sections: Record<string, Record<string, InfoValue>>): Record<string, unknown> {
+    const fields = Object.assign({}, ...Object.values(sections)) as Record<string, InfoValue>;
+    const summary: Record<string, unknown> = {};
+    for (const field of INFO_SUMMARY_FIELDS) {
+        if (field in fields) {
+            summary[field] = fields[field];
+        }
+    }
+    const hits = fields.keyspace_hits;
+    const misses = fields.keyspace_misses;
+    if (typeof hits === "number" && typeof misses === "number" && hits + misses > 0) {
+        summary.keyspace_hit_rate = Math.round((hits / (hits + misses)) * 10000) / 10000;
+    }
+    if (sections.keyspace) {
+        summary.keyspace = sections.keyspace;
+    }
+    return summary;
+}
+
+// MEMORY STATS replies with a flat list of name/value pairs, nested for per-database entries
+function parsePairs(reply: unknown[]): Record<string, unknown> {
+    const result: Record<string, unknown> = {};
+    for (let i = 0; i + 1 < reply.length; i += 2) {
+        const value = reply[i + 1];
+        result[String(reply[i])] = Array.isArray(value)
+            ? parsePairs(value)
+            : typeof value === "string" ? parseInfoValue(value) : value;
+    }
+    return result;
+}
+
+function formatFields(fields: Record<string, unknown>): string {
+    return Object.entries(fields)
+        .map(([name, value]) => `${name}: ${typeof value === "object" && value !== null ? JSON.stringify(value) : value}`)
+        .join('\n');
+}
+
+export const diagnosticTools: Tool[] = [
+    {
+        name: "info",
+        description: "Get a summary of Redis server metrics (version, clients, memory, hit rate, keyspace) from INFO, or every field of the given sections",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {
+                section: {
+                    type: "string",
+                    description: "INFO section to return in full, e.g. server, clients, memory, stats, replication, keyspace, commandstats, all",
+                },
+                ...NODE_PROPERTY,
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                summary: { type: "object", description: "Selected metrics" },
+                sections: {
+                    type: "object",
+                    additionalProperties: { type: "object" },
+                    description: "Every field of the requested sections, only when section is given",
+                },
+            },
+            required: ["summary"],
+        },
+    },
+    {
+        name: "slowlog_get",
+        description: "Get the most recent entries of the Redis slow log",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {
+                count: { type: "number", description: "Number of entries to return (default: 10, max: 1000)" },
+                ...NODE_PROPERTY,
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                entries: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "number" },
+                            timestamp: { type: "string", description: "ISO 8601 time the command was logged" },
+                            durationMicros: { type: "number" },
+                            command: { type: "array", items: { type: "string" } },
+                            client: { type: ["string", "null"] },
+                            clientName: { type: ["string", "null"] },
+                        },
+                        required: ["id", "timestamp", "durationMicros", "command", "client", "clientName"],
+                    },
+                },
+            },
+            required: ["entries"],
+        },
+    },
+    {
+        name: "memory_usage",
+        description: "Get the number of bytes a key and its value use in memory",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Key to measure" },
+                samples: { type: "number", description: "Nested values to sample for aggregate types (default: 5, 0 for all)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                exists: { type: "boolean" },
+                bytes: { type: ["number", "null"] },
+            },
+            required: ["key", "exists", "bytes"],
+        },
+    },
+    {
+        name: "memory_stats",
+        description: "Get Redis memory usage statistics (MEMORY STATS)",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: { ...NODE_PROPERTY },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                stats: { type: "object", description: "MEMORY STATS fields by name, e.g. total.allocated, dataset.bytes" },
+            },
+            required: ["stats"],
+        },
+    },
+    {
+        name: "memory_doctor",
+        description: "Get the Redis memory doctor report describing memory problems and advice",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: { ...NODE_PROPERTY },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                report: { type: "string" },
+            },
+            required: ["report"],
+        },
+    },
+    {
+        name: "latency_latest",
+        description: "Get the latest and maximum latency of every event recorded by the Redis latency monitor",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: { ...NODE_PROPERTY },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                events: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            event: { type: "string" },
+                            timestamp: { type: "string", description: "ISO 8601 time of the latest spike" },
+                            latestMs: { type: "number" },
+                            maxMs: { type: "number" },
+                        },
+                        required: ["event", "timestamp", "latestMs", "maxMs"],
+                    },
+                },
+            },
+            required: ["events"],
+        },
+    },
+    {
+        name: "latency_history",
+        description: "Get the latency spikes recorded for one event by the Redis latency monitor",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {
+                event: { type: "string", description: "Event name as reported by latency_latest, e.g. command, fast-command, fork" },
+                ...NODE_PROPERTY,
+            },
+            required: ["event"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                event: { type: "string" },
+                samples: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            timestamp: { type: "string" },
+                            latencyMs: { type: "number" },
+                        },
+                        required: ["timestamp", "latencyMs"],
+                    },
+                },
+            },
+            required: ["event", "samples"],
+        },
+    },
+    {
+        name: "client_list",
+        description: "List the clients connected to Redis with their address, name, idle time and current command",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {
+                type: { type: "string", enum: ["normal", "master", "replica", "pubsub"], description: "Only list clients of this type" },
+                limit: { type: "number", description: "Maximum number of clients to return (default: 100)" },
+                ...NODE_PROPERTY,
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                total: { type: "number" },
+                blocked: { type: "number", description: "Clients waiting in a blocking command" },
+                pubsub: { type: "number", description: "Clients subscribed to channels or patterns" },
+                clients: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "number" },
+                            addr: { type: "string" },
+                            name: { type: "string" },
+                            user: { type: ["string", "null"] },
+                            db: { type: "number" },
+                            age: { type: "number", description: "Seconds since the connection was opened" },
+                            idle: { type: "number", description: "Seconds since the last command" },
+                            flags: { type: "string" },
+                            cmd: { type: "string", description: "Last command run" },
+                        },
+                        required: ["id", "addr", "name", "user", "db", "age", "idle", "flags", "cmd"],
+                    },
+                },
+                truncated: { type: "boolean" },
+            },
+            required: ["total", "blocked", "pubsub", "clients", "truncated"],
+        },
+    },
+    {
+        name: "config_get",
+        description: "Get Redis configuration parameters matching a pattern (passwords are masked)",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {
+                parameter: { type: "string", description: "Parameter name or glob pattern, e.g. maxmemory* (default: *)" },
+                ...NODE_PROPERTY,
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                count: { type: "number" },
+                parameters: { type: "object", additionalProperties: { type: "string" } },
+            },
+            required: ["count", "parameters"],
+        },
+    },
+    {
+        name: "dbsize",
+        description: "Get the number of keys in the selected database (summed over all masters in cluster mode)",
+        annotations: { readOnlyHint: true },
+        _meta: DIAGNOSTIC_TOOL_META,
+        inputSchema: {
+            type: "object",
+            properties: {},
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                db: { type: "number" },
+                keys: { type: "number" },
+            },
+            required: ["db", "keys"],
+        },
+    },
+];
+
+// Slow log entries carry whole commands, values included. Once redaction or key patterns are
+// configured, keep only the command name and its first argument, the key of most commands,
+// and mask that too unless the key may be accessed.
+function maskSlowCommand(command: string[], policy: AccessPolicy): string[] {
+    if (!policy.redaction && !policy.keyPatterns) {
+        return command;
+    }
+    const [commandName, first, ...rest] = command;
+    if (first === undefined) {
+        return command;
+    }
+    return [commandName, isKeyAllowed(first, policy) ? first : "[REDACTED]", ...rest.map(() => "[REDACTED]")];
+}
+
+export async function handleDiagnosticTool({ redisClient, connection, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "info") {
+        const { section, node } = InfoArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const sections = parseInfo(await client.info(section));
+        const summary = summarizeInfo(sections);
+        return toolResult(
+            section
+                ? Object.entries(sections).map(([title, fields]) => `# ${title}\n${formatFields(fields)}`).join('\n\n')
+                : `Server summary:\n${formatFields(summary)}`,
+            section ? { summary, sections } : { summary }
+        );
+    } else if (name === "slowlog_get") {
+        const { count, node } = SlowlogGetArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const reply = await client.sendCommand<Array<[number, number, number, string[], string?, string?]>>(
+            ["SLOWLOG", "GET", String(count)]
+        );
+        const entries = reply.map(([id, timestamp, duration, command, clientAddress, clientName]) => ({
+            id,
+            timestamp: new Date(timestamp * 1000).toISOString(),
+            durationMicros: duration,
+            command: maskSlowCommand(command, config),
+            client: clientAddress ?? null,
+            clientName: clientName || null,
+        }));
+        return toolResult(
+            entries.length > 0
+                ? `Slow log entries:\n${entries
+                    .map((e) => `#${e.id} ${e.timestamp} ${e.durationMicros}µs ${e.command.join(" ")}${e.client ? ` (client ${e.client})` : ""}`)
+                    .join('\n')}`
+                : "Slow log is empty",
+            { entries }
+        );
+    } else if (name === "memory_usage") {
+        const { key, samples } = MemoryUsageArgumentsSchema.parse(args);
+        const bytes = await redisClient.memoryUsage(key, samples !== undefined ? { SAMPLES: samples } : undefined);
+        return toolResult(
+            bytes === null ? `Key not found: ${key}` : `Key ${key} uses ${bytes} bytes`,
+            { key, exists: bytes !== null, bytes }
+        );
+    } else if (name === "memory_stats") {
+        const { node } = NodeArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const stats = parsePairs(await client.sendCommand<unknown[]>(["MEMORY", "STATS"]));
+        const summary = Object.fromEntries(MEMORY_STATS_SUMMARY_FIELDS.filter((f) => f in stats).map((f) => [f, stats[f]]));
+        return toolResult(`Memory stats:\n${formatFields(summary)}`, { stats });
+    } else if (name === "memory_doctor") {
+        const { node } = NodeArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const report = await client.memoryDoctor();
+        return toolResult(report, { report });
+    } else if (name === "latency_latest") {
+        const { node } = NodeArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const reply = await client.sendCommand<Array<[string, number, number, number]>>(["LATENCY", "LATEST"]);
+        const events = reply.map(([event, timestamp, latest, max]) => ({
+            event,
+            timestamp: new Date(timestamp * 1000).toISOString(),
+            latestMs: latest,
+            maxMs: max,
+        }));
+        return toolResult(
+            events.length > 0
+                ? `Latency events:\n${events.map((e) => `${e.event}: latest ${e.latestMs}ms at ${e.timestamp}, max ${e.maxMs}ms`).join('\n')}`
+                : "No latency events recorded (the latency monitor is off unless latency-monitor-threshold is set)",
+            { events }
+        );
+    } else if (name === "latency_history") {
+        const { event, node } = LatencyHistoryArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const reply = await client.sendCommand<Array<[number, number]>>(["LATENCY", "HISTORY", event]);
+        const samples = reply.map(([timestamp, latency]) => ({
+            timestamp: new Date(timestamp * 1000).toISOString(),
+            latencyMs: latency,
+        }));
+        return toolResult(
+            samples.length > 0
+                ? `Latency history for ${event}:\n${samples.map((s) => `${s.timestamp}: ${s.latencyMs}ms`).join('\n')}`
+                : `No latency samples recorded for event: ${event}`,
+            { event, samples }
+        );
+    } else if (name === "client_list") {
+        const { type, limit, node } = ClientListArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const clients = await client.clientList(
+            type ? { TYPE: type.toUpperCase() as "NORMAL" | "MASTER" | "REPLICA" | "PUBSUB" } : undefined
+        );
+        const shown = clients.slice(0, limit).map((c) => ({
+            id: c.id,
+            addr: c.addr,
+            name: c.name,
+            user: c.user ?? null,
+            db: c.db,
+            age: c.age,
+            idle: c.idle,
+            flags: c.flags,
+            cmd: c.cmd,
+        }));
+        const blocked = clients.filter((c) => c.flags.includes("b")).length;
+        const pubsub = clients.filter((c) => c.sub + c.psub + (c.ssub ?? 0) > 0).length;
+        return toolResult(
+            `${clients.length} clients connected (${blocked} blocked, ${pubsub} subscribed)\n${shown
+                .map((c) => `${c.id} ${c.addr}${c.name ? ` ${c.name}` : ""} db=${c.db} idle=${c.idle}s cmd=${c.cmd} flags=${c.flags}`)
+                .join('\n')}${clients.length > limit ? `\n... ${clients.length - limit} more (raise limit to see them)` : ""}`,
+            { total: clients.length, blocked, pubsub, clients: shown, truncated: clients.length > limit }
+        );
+    } else if (name === "config_get") {
+        const { parameter, node } = ConfigGetArgumentsSchema.parse(args);
+        const client = await connection.nodeClient(node);
+        const parameters = await client.configGet(parameter);
+        for (const secret of SECRET_CONFIG_PARAMETERS) {
+            if (parameters[secret]) {
+                parameters[secret] = "********";
+            }
+        }
+        const sorted = Object.fromEntries(Object.entries(parameters).sort(([a], [b]) => a.localeCompare(b)));
+        const count = Object.keys(sorted).length;
+        return toolResult(
+            count > 0 ? `Configuration:\n${formatFields(sorted)}` : `No configuration parameters match: ${parameter}`,
+            { count, parameters: sorted }
+        );
+    } else if (name === "dbsize") {
+        const sizes = await Promise.all((await connection.nodeClients()).map((client) => client.dbSize()));
+        const keys = sizes.reduce((total, size) => total + size, 0);
+        return toolResult(`Database ${connection.db} contains ${keys} keys`, { db: connection.db, keys });
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
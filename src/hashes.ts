@@ -0,0 +1,238 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import {
+    CURSOR_SCHEMA,
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    NULLABLE_VALUE_SCHEMA,
+    TRUNCATED_SCHEMA,
+    VALUE_SCHEMA,
+    formatTruncation,
+    limitBytes,
+    limitItems,
+    limitValues,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { formatCursor, scanPages } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Hash schemas
+const HashSetArgumentsSchema = z.object({
+    key: z.string(),
+    field: z.string(),
+    value: z.string(),
+});
+
+const HashGetArgumentsSchema = z.object({
+    key: z.string(),
+    field: z.string(),
+}).merge(LimitArgumentsSchema);
+
+const HashGetAllArgumentsSchema = z.object({
+    key: z.string(),
+}).merge(LimitArgumentsSchema);
+
+const HashDeleteArgumentsSchema = z.object({
+    key: z.string(),
+    fields: z.array(z.string()),
+});
+
+const HashScanArgumentsSchema = z.object({
+    key: z.string(),
+    pattern: z.string().default("*"),
+    cursor: z.number().int().min(0).default(0),
+    count: z.number().int().positive().default(100),
+    limit: z.number().int().positive().default(100),
+}).merge(LimitArgumentsSchema);
+
+export const hashTools: Tool[] = [
+    {
+        name: "hset",
+        description: "Set a field in a Redis hash",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Hash key" },
+                field: { type: "string", description: "Field name" },
+                value: { type: "string", description: "Field value" },
+            },
+            required: ["key", "field", "value"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                field: { type: "string" },
+                created: { type: "boolean", description: "False if an existing field was overwritten" },
+            },
+            required: ["key", "field", "created"],
+        },
+    },
+    {
+        name: "hget",
+        description: "Get a field from a Redis hash",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Hash key" },
+                field: { type: "string", description: "Field name" },
+                maxBytes: LIMIT_PROPERTIES.maxBytes,
+            },
+            required: ["key", "field"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                field: { type: "string" },
+                exists: { type: "boolean" },
+                value: NULLABLE_VALUE_SCHEMA,
+                totalBytes: { type: "number", description: "Length of the whole value" },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "field", "exists", "value", "totalBytes", "truncated"],
+        },
+    },
+    {
+        name: "hgetall",
+        description: "Get all fields and values from a Redis hash (use hscan for large hashes)",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Hash key" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                count: { type: "number", description: "Number of fields in the hash" },
+                fields: { type: "object", additionalProperties: VALUE_SCHEMA },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "count", "fields", "truncated"],
+        },
+    },
+    {
+        name: "hdel",
+        description: "Delete one or more fields from a Redis hash",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Hash key" },
+                fields: { type: "array", items: { type: "string" }, description: "Fields to delete" },
+            },
+            required: ["key", "fields"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                requested: { type: "number" },
+                deleted: { type: "number" },
+            },
+            required: ["key", "requested", "deleted"],
+        },
+    },
+    {
+        name: "hscan",
+        description: "Incrementally iterate fields and values of a Redis hash",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Hash key" },
+                pattern: { type: "string", description: "Pattern to match fields (default: *)" },
+                cursor: { type: "number", description: "Cursor returned by a previous call (default: 0)" },
+                count: { type: "number", description: "HSCAN COUNT hint per iteration (default: 100)" },
+                limit: { type: "number", description: "Stop scanning once this many fields are found (default: 100)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                entries: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { field: VALUE_SCHEMA, value: VALUE_SCHEMA },
+                        required: ["field", "value"],
+                    },
+                },
+                ...CURSOR_SCHEMA,
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "entries", "cursor", "complete", "truncated"],
+        },
+    },
+];
+
+export async function handleHashTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "hset") {
+        const { key, field, value } = HashSetArgumentsSchema.parse(args);
+        const created = await redisClient.hSet(key, field, value);
+        return toolResult(`Successfully set field ${field} in hash ${key}`, { key, field, created: created > 0 });
+    } else if (name === "hget") {
+        const { key, field, ...limitArgs } = HashGetArgumentsSchema.parse(args);
+        const { maxBytes } = outputLimits(config, limitArgs);
+        const value = await redisClient.hGet(commandOptions({ returnBuffers: true }), key, field) ?? null;
+        if (value === null) {
+            return toolResult(`Field not found: ${field}`, { key, field, exists: false, value, totalBytes: 0, truncated: false });
+        }
+        const part = limitBytes(value, maxBytes);
+        const truncated = part.length < value.length;
+        return toolResult(
+            part.toString() + (truncated
+                ? formatTruncation(part.length, value.length, "bytes", "Hash fields can only be read whole.")
+                : ""),
+            { key, field, exists: true, value: part, totalBytes: value.length, truncated }
+        );
+    } else if (name === "hgetall") {
+        const { key, ...limitArgs } = HashGetAllArgumentsSchema.parse(args);
+        const hash = await redisClient.hGetAll(commandOptions({ returnBuffers: true }), key);
+        const all = Object.entries(hash);
+        const entries = limitItems(all, outputLimits(config, limitArgs));
+        const truncated = entries.length < all.length;
+        return toolResult(
+            (entries.length > 0
+                ? `Hash contents:\n${entries.map(([k, v]) => `${k}: ${v.toString()}`).join('\n')}`
+                : "Hash is empty") +
+            (truncated ? formatTruncation(entries.length, all.length, "fields", "Use hscan to page through all of them.") : ""),
+            { key, count: all.length, fields: Object.fromEntries(entries), truncated }
+        );
+    } else if (name === "hdel") {
+        const { key, fields } = HashDeleteArgumentsSchema.parse(args);
+        const deleted = await redisClient.hDel(key, fields);
+        return toolResult(
+            `Successfully deleted ${deleted} of ${fields.length} fields from hash ${key}`,
+            { key, requested: fields.length, deleted }
+        );
+    } else if (name === "hscan") {
+        const { key, pattern, cursor, count, limit, ...limitArgs } = HashScanArgumentsSchema.parse(args);
+        const { maxBytes, maxItems } = outputLimits(config, limitArgs);
+        const result = await scanPages(cursor, Math.min(limit, maxItems), async (c) => {
+            const reply = await redisClient.hScan(commandOptions({ returnBuffers: true }), key, c, { MATCH: pattern, COUNT: Math.min(count, maxItems) });
+            return { cursor: reply.cursor, items: reply.tuples };
+        }, maxBytes);
+        const { values, bytes, truncated } = limitValues(result.items.map(({ value }) => value), maxBytes);
+        const entries = result.items.map(({ field }, i) => ({ field, value: values[i] }));
+        return toolResult(
+            `${entries.length > 0
+                ? `Hash contents:\n${entries.map(({ field, value }) => `${field.toString()}: ${value.toString()}`).join('\n')}`
+                : "No fields found matching pattern"}\n\n${formatCursor(result.cursor)}` +
+            (truncated ? formatTruncation(bytes, null, "bytes of values", "The values past the limit were cut short; read them whole with hget.") : ""),
+            { key, entries, cursor: result.cursor, complete: result.cursor === 0, truncated }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
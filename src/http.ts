@@ -0,0 +1,249 @@
+import { randomUUID, timingSafeEqual } from "node:crypto";
+import { createServer as createHttpServer, IncomingMessage, ServerResponse } from "node:http";
+import { AddressInfo } from "node:net";
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import { SSEServerTransport } from "@modelcontextprotocol/sdk/server/sse.js";
+import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
+import { ConnectionRegistry } from "./connection.js";
+
+export interface HttpServerOptions {
+    host: string;
+    port: number;
+    authToken?: string;
+    allowedHosts?: string[];
+    allowedOrigins?: string[];
+    // Seconds
+    sessionIdleTimeout: number;
+}
+
+export interface HttpServer {
+    // The port listened on, which differs from the configured one when that is 0
+    port: number;
+    close(): Promise<void>;
+}
+
+const MAX_BODY_SIZE = 4 * 1024 * 1024; // 4 MB
+
+const LOOPBACK_HOSTS = ["127.0.0.1", "localhost", "::1"];
+
+function isLoopbackHost(host: string): boolean {
+    return LOOPBACK_HOSTS.includes(host) || host.startsWith("127.");
+}
+
+// Host and Origin header values a server listening on the loopback interface is reached with
+function loopbackAddresses(port: number): { hosts: string[]; origins: string[] } {
+    const hosts = [`127.0.0.1:${port}`, `localhost:${port}`, `[::1]:${port}`];
+    return { hosts, origins: hosts.map((host) => `http://${host}`) };
+}
+
+function sendJson(res: ServerResponse, status: number, body: unknown, headers: Record<string, string> = {}): void {
+    res.writeHead(status, { "Content-Type": "application/json", ...headers }).end(JSON.stringify(body));
+}
+
+function sendJsonRpcError(res: ServerResponse, status: number, message: string): void {
+    sendJson(res, status, { jsonrpc: "2.0", error: { code: -32000, message }, id: null });
+}
+
+function isAuthorized(req: IncomingMessage, authToken: string | undefined): boolean {
+    if (!authToken) {
+        return true;
+    }
+    const expected = Buffer.from(`Bearer ${authToken}`);
+    const actual = Buffer.from(req.headers.authorization ?? "");
+    return actual.length === expected.length && timingSafeEqual(actual, expected);
+}
+
+// Browsers let any web page send requests to a server on localhost through DNS rebinding. Such
+// requests carry the attacker's host name in Host and the page's origin in Origin.
+function checkRequestHeaders(req: IncomingMessage, allowedHosts: string[] | undefined, allowedOrigins: string[] | undefined): string | undefined {
+    if (allowedHosts && !allowedHosts.includes(req.headers.host ?? "")) {
+        return `Invalid Host header: ${req.headers.host}`;
+    }
+    const origin = req.headers.origin;
+    if (allowedOrigins && origin !== undefined && !allowedOrigins.includes(origin)) {
+        return `Invalid Origin header: ${origin}`;
+    }
+    return undefined;
+}
+
+async function readJsonBody(req: IncomingMessage): Promise<unknown> {
+    const chunks: Buffer[] = [];
+    let size = 0;
+    for await (const chunk of req) {
+        size += chunk.length;
+        if (size > MAX_BODY_SIZE) {
+            throw new Error(`Request body exceeds ${MAX_BODY_SIZE} bytes`);
+        }
+        chunks.push(chunk);
+    }
+    return JSON.parse(Buffer.concat(chunks).toString("utf8"));
+}
+
+// Serve MCP over Streamable HTTP (/mcp) and the legacy SSE transport (/sse + /messages).
+// Every session gets its own Server from createServer, all sharing the same Redis connection.
+export async function startHttpServer(
+    options: HttpServerOptions,
+    createServer: () => Server,
+    connections: ConnectionRegistry
+): Promise<HttpServer> {
+    if (!options.authToken && !isLoopbackHost(options.host)) {
+        throw new Error(`An auth token is required to listen on ${options.host}: set --auth-token, or listen on a loopback address`);
+    }
+    const sessions = new Map<string, StreamableHTTPServerTransport | SSEServerTransport>();
+    // Time of the last request of every session
+    const lastSeen = new Map<string, number>();
+    // Filled in once listening, when the port is known
+    let allowedHosts = options.allowedHosts;
+    let allowedOrigins = options.allowedOrigins;
+    // The transports check the headers as well
+    const dnsRebindingProtection = () => ({
+        enableDnsRebindingProtection: allowedHosts !== undefined || allowedOrigins !== undefined,
+        allowedHosts,
+        allowedOrigins,
+    });
+
+    function removeSession(sessionId: string): void {
+        sessions.delete(sessionId);
+        lastSeen.delete(sessionId);
+    }
+
+    async function handleStreamableRequest(req: IncomingMessage, res: ServerResponse): Promise<void> {
+        const sessionId = req.headers["mcp-session-id"] as string | undefined;
+        const body = req.method === "POST" ? await readJsonBody(req) : undefined;
+        let transport: StreamableHTTPServerTransport;
+
+        if (sessionId) {
+            const existing = sessions.get(sessionId);
+            if (!(existing instanceof StreamableHTTPServerTransport)) {
+                sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+                return;
+            }
+            transport = existing;
+            lastSeen.set(sessionId, Date.now());
+        } else {
+            if (req.method !== "POST" || !isInitializeRequest(body)) {
+                sendJsonRpcError(res, 400, "Bad Request: no valid session ID provided");
+                return;
+            }
+            const newTransport = new StreamableHTTPServerTransport({
+                sessionIdGenerator: () => randomUUID(),
+                onsessioninitialized: (id) => {
+                    sessions.set(id, newTransport);
+                    lastSeen.set(id, Date.now());
+                },
+                ...dnsRebindingProtection(),
+            });
+            newTransport.onclose = () => {
+                if (newTransport.sessionId) {
+                    removeSession(newTransport.sessionId);
+                }
+            };
+            await createServer().connect(newTransport);
+            transport = newTransport;
+        }
+        await transport.handleRequest(req, res, body);
+    }
+
+    async function handleSseConnection(res: ServerResponse): Promise<void> {
+        const transport = new SSEServerTransport("/messages", res, dnsRebindingProtection());
+        sessions.set(transport.sessionId, transport);
+        lastSeen.set(transport.sessionId, Date.now());
+        transport.onclose = () => {
+            removeSession(transport.sessionId);
+        };
+        await createServer().connect(transport);
+    }
+
+    async function handleSseMessage(req: IncomingMessage, res: ServerResponse, url: URL): Promise<void> {
+        const sessionId = url.searchParams.get("sessionId") ?? "";
+        const transport = sessions.get(sessionId);
+        if (!(transport instanceof SSEServerTransport)) {
+            sendJsonRpcError(res, 404, `Session not found: ${sessionId}`);
+            return;
+        }
+        lastSeen.set(sessionId, Date.now());
+        await transport.handlePostMessage(req, res);
+    }
+
+    const httpServer = createHttpServer(async (req, res) => {
+        const url = new URL(req.url ?? "/", `http://${req.headers.host ?? "localhost"}`);
+        try {
+            if (url.pathname === "/health" && req.method === "GET") {
+                // Healthy as long as the default connection is; the others are reported individually
+                const statuses = connections.status();
+                const ready = statuses.some((c) => c.default && c.state === "ready");
+                sendJson(res, ready ? 200 : 503, {
+                    status: ready ? "ok" : "unavailable",
+                    redis: ready ? "ready" : "disconnected",
+                    connections: Object.fromEntries(statuses.map((c) => [c.name, c.state])),
+                    sessions: sessions.size,
+                });
+                return;
+            }
+            const invalidHeader = checkRequestHeaders(req, allowedHosts, allowedOrigins);
+            if (invalidHeader) {
+                sendJsonRpcError(res, 403, invalidHeader);
+                return;
+            }
+            if (!isAuthorized(req, options.authToken)) {
+                sendJson(res, 401, { jsonrpc: "2.0", error: { code: -32001, message: "Unauthorized" }, id: null }, {
+                    "WWW-Authenticate": "Bearer",
+                });
+                return;
+            }
+            if (url.pathname === "/mcp") {
+                await handleStreamableRequest(req, res);
+            } else if (url.pathname === "/sse" && req.method === "GET") {
+                await handleSseConnection(res);
+            } else if (url.pathname === "/messages" && req.method === "POST") {
+                await handleSseMessage(req, res, url);
+            } else {
+                sendJson(res, 404, { error: "Not found" });
+            }
+        } catch (error) {
+            const err = error as Error;
+            console.error(`[HTTP Error] ${req.method} ${url.pathname}: ${err.message}`);
+            if (!res.headersSent) {
+                sendJsonRpcError(res, err instanceof SyntaxError ? 400 : 500, err.message);
+            }
+        }
+    });
+
+    await new Promise<void>((resolve, reject) => {
+        httpServer.once("error", reject);
+        httpServer.listen(options.port, options.host, () => {
+            httpServer.off("error", reject);
+            resolve();
+        });
+    });
+    const { port } = httpServer.address() as AddressInfo;
+    if (isLoopbackHost(options.host)) {
+        allowedHosts ??= loopbackAddresses(port).hosts;
+        allowedOrigins ??= loopbackAddresses(port).origins;
+    }
+
+    // Close sessions that have been idle for longer than the timeout
+    const idleTimeout = options.sessionIdleTimeout * 1000;
+    const sweeper = setInterval(() => {
+        for (const [sessionId, seen] of lastSeen) {
+            if (Date.now() - seen > idleTimeout) {
+                const transport = sessions.get(sessionId);
+                removeSession(sessionId);
+                transport?.close().catch(() => {});
+            }
+        }
+    }, Math.min(idleTimeout, 60000));
+    sweeper.unref();
+
+    return {
+        port,
+        close: async () => {
+            clearInterval(sweeper);
+            await Promise.all([...sessions.values()].map((transport) => transport.close().catch(() => {})));
+            sessions.clear();
+            lastSeen.clear();
+            await new Promise<void>((resolve) => httpServer.close(() => resolve()));
+        },
+    };
+}
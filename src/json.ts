@@ -0,0 +1,482 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    OutputLimits,
+    TRUNCATED_SCHEMA,
+    formatTruncation,
+    limitItems,
+    limitJson,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { RedisClient, withModule } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+type RedisJSON = Parameters<RedisClient["json"]["set"]>[2];
+
+// JSON.SET followed by EXPIRE as one atomic step, so a failure in between can't leave the key
+// without a TTL. The expiry is only applied when the value was actually set (NX/XX).
+const JSON_SET_WITH_EXPIRE_SCRIPT = `
+local args = {KEYS[1], ARGV[1], ARGV[2]}
+if ARGV[4] ~= '' then table.insert(args, ARGV[4]) end
+local reply = redis.call('JSON.SET', unpack(args))
+if reply then redis.call('EXPIRE', KEYS[1], ARGV[3]) end
+return reply
+`;
+
+// JSON schemas
+const JsonSetArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string().default("$"),
+    value: z.any(),
+    condition: z.enum(["NX", "XX"]).optional(),
+    expireSeconds: z.number().int().positive().optional(),
+});
+
+const JsonGetArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string().or(z.array(z.string())).optional(),
+}).merge(LimitArgumentsSchema);
+
+const JsonDeleteArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string().default("$"),
+});
+
+const JsonMultiGetArgumentsSchema = z.object({
+    keys: z.array(z.string()).min(1),
+    path: z.string().default("$"),
+}).merge(LimitArgumentsSchema);
+
+const JsonArrayAppendArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string(),
+    values: z.array(z.any()).min(1),
+});
+
+const JsonArrayInsertArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string(),
+    index: z.number().int(),
+    values: z.array(z.any()).min(1),
+});
+
+const JsonArrayPopArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string().default("$"),
+    index: z.number().int().optional(),
+});
+
+const JsonPathArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string().default("$"),
+});
+
+const JsonNumberIncrementArgumentsSchema = z.object({
+    key: z.string(),
+    path: z.string(),
+    value: z.number(),
+});
+
+export const jsonTools: Tool[] = [
+    {
+        name: "json_set",
+        description: "Store a JSON value in Redis, either as a whole document or at a JSONPath inside it",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath to set (default: $, the whole document)" },
+                value: { description: "JSON value to store" },
+                condition: {
+                    type: "string",
+                    enum: ["NX", "XX"],
+                    description: "NX: only set if the path does not exist, XX: only set if it already exists",
+                },
+                expireSeconds: { type: "number", description: "Optional expiration time in seconds" },
+            },
+            required: ["key", "value"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                set: { type: "boolean", description: "False if the NX/XX condition was not met" },
+            },
+            required: ["key", "path", "set"],
+        },
+    },
+    {
+        name: "json_get",
+        description: "Get a JSON document, or the values at one or more JSONPaths, from Redis",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key to retrieve" },
+                path: {
+                    oneOf: [
+                        { type: "string" },
+                        { type: "array", items: { type: "string" } }
+                    ],
+                    description: "JSONPath or array of JSONPaths to read (default: the whole document)",
+                },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                exists: { type: "boolean" },
+                value: { description: "The document, or for JSONPath queries the matching values" },
+                ...TRUNCATED_SCHEMA,
+                total: {
+                    type: ["number", "null"],
+                    description: "Elements or properties of the truncated array or object, or bytes of the truncated string",
+                },
+            },
+            required: ["key", "exists", "value", "truncated", "total"],
+        },
+    },
+    {
+        name: "json_del",
+        description: "Delete the values at a JSONPath, or the whole JSON document",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath to delete (default: $, the whole document)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                deleted: { type: "number" },
+            },
+            required: ["key", "path", "deleted"],
+        },
+    },
+    {
+        name: "json_mget",
+        description: "Get the values at a JSONPath from multiple JSON documents",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                keys: { type: "array", items: { type: "string" }, description: "Redis keys to read" },
+                path: { type: "string", description: "JSONPath to read (default: $)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["keys"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                path: { type: "string" },
+                values: { type: "object", description: "Matching values by key, null for missing keys" },
+                ...TRUNCATED_SCHEMA,
+                remainingKeys: { type: "array", items: { type: "string" }, description: "Keys left out by the output limits" },
+            },
+            required: ["path", "values", "truncated", "remainingKeys"],
+        },
+    },
+    {
+        name: "json_arrappend",
+        description: "Append values to the JSON arrays at a JSONPath",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath of the array" },
+                values: { type: "array", description: "JSON values to append" },
+            },
+            required: ["key", "path", "values"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                lengths: { description: "New array lengths, null where the path is not an array" },
+            },
+            required: ["key", "path", "lengths"],
+        },
+    },
+    {
+        name: "json_arrinsert",
+        description: "Insert values into the JSON arrays at a JSONPath before the given index",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath of the array" },
+                index: { type: "number", description: "Index to insert before (negative indices count from the end)" },
+                values: { type: "array", description: "JSON values to insert" },
+            },
+            required: ["key", "path", "index", "values"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                lengths: { description: "New array lengths, null where the path is not an array" },
+            },
+            required: ["key", "path", "lengths"],
+        },
+    },
+    {
+        name: "json_arrpop",
+        description: "Remove and return an element from the JSON arrays at a JSONPath",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath of the array (default: $)" },
+                index: { type: "number", description: "Index of the element to pop (default: -1, the last element)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                values: { description: "Popped values, null where nothing was popped" },
+            },
+            required: ["key", "path", "values"],
+        },
+    },
+    {
+        name: "json_arrlen",
+        description: "Get the length of the JSON arrays at a JSONPath",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath of the array (default: $)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                lengths: { description: "Array lengths, null where the path is not an array" },
+            },
+            required: ["key", "path", "lengths"],
+        },
+    },
+    {
+        name: "json_numincrby",
+        description: "Increment the numbers at a JSONPath",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath of the number" },
+                value: { type: "number", description: "Amount to increment by (may be negative)" },
+            },
+            required: ["key", "path", "value"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                values: { description: "New values, null where the path is not a number" },
+            },
+            required: ["key", "path", "values"],
+        },
+    },
+    {
+        name: "json_objkeys",
+        description: "Get the keys of the JSON objects at a JSONPath",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath of the object (default: $)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                keys: { description: "Object keys, null where the path is not an object" },
+            },
+            required: ["key", "path", "keys"],
+        },
+    },
+    {
+        name: "json_type",
+        description: "Get the JSON type of the values at a JSONPath",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                path: { type: "string", description: "JSONPath to inspect (default: $)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                path: { type: "string" },
+                types: { description: "JSON types of the matching values" },
+            },
+            required: ["key", "path", "types"],
+        },
+    },
+];
+
+function formatJson(value: unknown): string {
+    return JSON.stringify(value, null, 2);
+}
+
+// A legacy path (.a.b) as the equivalent JSONPath ($.a.b)
+function toJsonPath(path: string): string {
+    if (path.startsWith("$")) {
+        return path;
+    }
+    return path === "." ? "$" : `$${path.startsWith(".") || path.startsWith("[") ? "" : "."}${path}`;
+}
+
+// Limit a JSON.GET reply. A JSONPath query with a single match is limited inside that match, so
+// that a large array or object read by path can be continued with a slice or a narrower path.
+function limitJsonGet(value: unknown, path: string | string[] | undefined, limits: OutputLimits): {
+    value: unknown;
+    total: number | null;
+    hint: string | null;
+} {
+    const paths = Array.isArray(path) ? path : path === undefined ? [] : [path];
+    // A JSONPath query replies with the array of its matches
+    const query = paths.length === 1 && paths[0].startsWith("$");
+    const single = query && Array.isArray(value) && value.length === 1;
+    const target = single ? (value as unknown[])[0] : value;
+    const limited = limitJson(target, limits);
+    if (!limited.truncated) {
+        return { value, total: null, hint: null };
+    }
+    const shown = Array.isArray(limited.value) ? limited.value.length : Object.keys(limited.value as object).length;
+    let hint: string;
+    if (paths.length > 1) {
+        hint = formatTruncation(shown, limited.total, "paths", "Read fewer paths at a time.");
+    } else if (query && !single) {
+        // A slice such as $.items[100:] continues with the next slice
+        const slice = /^(.*)\[(\d+):\]$/.exec(paths[0]);
+        hint = formatTruncation(shown, limited.total, "matches", slice
+            ? `Call json_get again with path: "${slice[1]}[${Number(slice[2]) + shown}:]" to read the rest.`
+            : "Narrow the path to read the rest.");
+    } else if (Array.isArray(target)) {
+        const slice = `${toJsonPath(paths[0] ?? "$")}[${shown}:]`;
+        hint = formatTruncation(shown, limited.total, "elements", `Call json_get again with path: "${slice}" to read the rest.`);
+    } else if (typeof target === "string") {
+        hint = formatTruncation(Buffer.byteLength(limited.value as string), limited.total, "bytes", "JSON strings can only be read whole.");
+    } else {
+        hint = formatTruncation(shown, limited.total, "properties", "Use json_objkeys to list them and read the rest by path.");
+    }
+    return { value: single ? [limited.value] : limited.value, total: limited.total, hint };
+}
+
+export async function handleJsonTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    return withModule("RedisJSON", "JSON.", async (): Promise<CallToolResult> => {
+        if (name === "json_set") {
+            const { key, path, value, condition, expireSeconds } = JsonSetArgumentsSchema.parse(args);
+            const reply = expireSeconds
+                ? await redisClient.eval(JSON_SET_WITH_EXPIRE_SCRIPT, {
+                    keys: [key],
+                    arguments: [path, JSON.stringify(value), String(expireSeconds), condition ?? ""],
+                })
+                : await redisClient.json.set(key, path, value as RedisJSON, condition === "NX"
+                    ? { NX: true }
+                    : condition === "XX" ? { XX: true } : undefined);
+            if (reply === null) {
+                return toolResult(
+                    condition === "NX"
+                        ? `Path already exists, JSON not set: ${key} ${path}`
+                        : `Path does not exist, JSON not set: ${key} ${path}`,
+                    { key, path, set: false }
+                );
+            }
+            return toolResult(`Successfully set JSON for key: ${key} at path ${path}`, { key, path, set: true });
+        } else if (name === "json_get") {
+            const { key, path, ...limitArgs } = JsonGetArgumentsSchema.parse(args);
+            const document = await redisClient.json.get(key, path === undefined ? undefined : { path });
+            if (document === null) {
+                return toolResult(`Key not found: ${key}`, { key, exists: false, value: null, truncated: false, total: null });
+            }
+            const { value, total, hint } = limitJsonGet(document, path, outputLimits(config, limitArgs));
+            return toolResult(
+                formatJson(value) + (hint ?? ""),
+                { key, exists: true, value, truncated: hint !== null, total }
+            );
+        } else if (name === "json_del") {
+            const { key, path } = JsonDeleteArgumentsSchema.parse(args);
+            const deleted = await redisClient.json.del(key, path);
+            return toolResult(`Successfully deleted ${deleted} values at path ${path} from key: ${key}`, { key, path, deleted });
+        } else if (name === "json_mget") {
+            const { keys, path, ...limitArgs } = JsonMultiGetArgumentsSchema.parse(args);
+            const values = await redisClient.json.mGet(keys, path);
+            const entries = limitItems(keys.map((key, i) => [key, values[i]] as const), outputLimits(config, limitArgs));
+            const remainingKeys = keys.slice(entries.length);
+            return toolResult(
+                formatJson(Object.fromEntries(entries)) + (remainingKeys.length > 0
+                    ? formatTruncation(entries.length, keys.length, "keys", "Call json_mget again with the keys in remainingKeys to read the rest.")
+                    : ""),
+                { path, values: Object.fromEntries(entries), truncated: remainingKeys.length > 0, remainingKeys }
+            );
+        } else if (name === "json_arrappend") {
+            const { key, path, values } = JsonArrayAppendArgumentsSchema.parse(args);
+            const lengths = await redisClient.json.arrAppend(key, path, ...(values as RedisJSON[]));
+            return toolResult(
+                `Successfully appended ${values.length} values, new array lengths: ${formatJson(lengths)}`,
+                { key, path, lengths }
+            );
+        } else if (name === "json_arrinsert") {
+            const { key, path, index, values } = JsonArrayInsertArgumentsSchema.parse(args);
+            const lengths = await redisClient.json.arrInsert(key, path, index, ...(values as RedisJSON[]));
+            return toolResult(
+                `Successfully inserted ${values.length} values, new array lengths: ${formatJson(lengths)}`,
+                { key, path, lengths }
+            );
+        } else if (name === "json_arrpop") {
+            const { key, path, index } = JsonArrayPopArgumentsSchema.parse(args);
+            const popped = await redisClient.json.arrPop(key, path, index);
+            return toolResult(`Popped values: ${formatJson(popped)}`, { key, path, values: popped });
+        } else if (name === "json_arrlen") {
+            const { key, path } = JsonPathArgumentsSchema.parse(args);
+            const lengths = await redisClient.json.arrLen(key, path);
+            return toolResult(formatJson(lengths), { key, path, lengths });
+        } else if (name === "json_numincrby") {
+            const { key, path, value } = JsonNumberIncrementArgumentsSchema.parse(args);
+            const results = await redisClient.json.numIncrBy(key, path, value);
+            return toolResult(`New values: ${formatJson(results)}`, { key, path, values: results });
+        } else if (name === "json_objkeys") {
+            const { key, path } = JsonPathArgumentsSchema.parse(args);
+            const keys = await redisClient.json.objKeys(key, path);
+            return toolResult(formatJson(keys), { key, path, keys });
+        } else if (name === "json_type") {
+            const { key, path } = JsonPathArgumentsSchema.parse(args);
+            const types = await redisClient.json.type(key, path);
+            return toolResult(formatJson(types), { key, path, types });
+        } else {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+    });
+}
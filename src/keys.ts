@@ -0,0 +1,488 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import { toolResult } from "./output.js";
+import { assertRedactionKept, mayRedactKey } from "./redaction.js";
+import { RedisClient, withModule } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Key schemas
+const DescribeKeyArgumentsSchema = z.object({
+    key: z.string(),
+    previewCount: z.number().int().min(0).max(100).default(10),
+    previewBytes: z.number().int().min(0).max(65536).default(1024),
+});
+
+const TtlArgumentsSchema = z.object({
+    key: z.string(),
+});
+
+const ExpireArgumentsSchema = z.object({
+    key: z.string(),
+    seconds: z.number().int().positive().optional(),
+    milliseconds: z.number().int().positive().optional(),
+    condition: z.enum(["NX", "XX", "GT", "LT"]).optional(),
+}).refine((value) => (value.seconds === undefined) !== (value.milliseconds === undefined), {
+    message: "Provide exactly one of seconds or milliseconds",
+});
+
+const PersistArgumentsSchema = z.object({
+    key: z.string(),
+});
+
+const RenameArgumentsSchema = z.object({
+    source: z.string(),
+    destination: z.string(),
+    overwrite: z.boolean().default(false),
+});
+
+const CopyArgumentsSchema = z.object({
+    source: z.string(),
+    destination: z.string(),
+    destinationDb: z.number().int().min(0).optional(),
+    replace: z.boolean().default(false),
+});
+
+// Tools to suggest for each Redis type, most useful first
+const TOOLS_BY_TYPE: Record<string, string[]> = {
+    "string": ["get", "set"],
+    "hash": ["hgetall", "hget", "hscan", "hset"],
+    "set": ["smembers", "sscan", "sadd"],
+    "zset": ["zrange", "zscan", "zadd"],
+    "list": ["lrange", "llen", "lpush", "rpush"],
+    "stream": ["xrange", "xread", "xinfo_stream", "xadd"],
+    "ReJSON-RL": ["json_get", "json_set"],
+};
+
+export const keyTools: Tool[] = [
+    {
+        name: "describe_key",
+        description: "Describe a key before reading it: type, TTL, encoding, idle time, access frequency, memory usage, size and a bounded preview of its contents",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Key to describe" },
+                previewCount: { type: "number", description: "Maximum number of elements to preview (default: 10, max: 100)" },
+                previewBytes: { type: "number", description: "Maximum bytes of a string or JSON value to preview (default: 1024)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                exists: { type: "boolean" },
+                type: { type: ["string", "null"] },
+                ttlMillis: { type: ["number", "null"], description: "Remaining time to live, null if the key has no expiry" },
+                encoding: { type: ["string", "null"] },
+                idleSeconds: { type: ["number", "null"], description: "Null when the eviction policy is LFU" },
+                frequency: { type: ["number", "null"], description: "LFU access counter, only with an LFU eviction policy" },
+                memoryBytes: { type: ["number", "null"] },
+                size: { type: ["number", "null"], description: "Length of a string, or number of fields, members, elements or entries" },
+                tools: { type: "array", items: { type: "string" }, description: "Tools that operate on this type" },
+                preview: { description: "First elements or bytes of the value. For JSON, the first members of the document, with nested objects and arrays and long strings summarized as <...>" },
+                previewTruncated: { type: "boolean" },
+            },
+            required: ["key", "exists"],
+        },
+    },
+    {
+        name: "ttl",
+        description: "Get the remaining time to live of a key",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                exists: { type: "boolean" },
+                ttlMillis: { type: ["number", "null"], description: "Remaining time to live, null if the key is missing or has no expiry" },
+            },
+            required: ["key", "exists", "ttlMillis"],
+        },
+    },
+    {
+        name: "expire",
+        description: "Set a time to live on a key",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+                seconds: { type: "number", description: "Time to live in seconds" },
+                milliseconds: { type: "number", description: "Time to live in milliseconds (instead of seconds)" },
+                condition: {
+                    type: "string",
+                    enum: ["NX", "XX", "GT", "LT"],
+                    description: "NX: only if the key has no expiry, XX: only if it has one, GT/LT: only if the new expiry is later/earlier",
+                },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                applied: { type: "boolean", description: "False if the key does not exist or the condition was not met" },
+            },
+            required: ["key", "applied"],
+        },
+    },
+    {
+        name: "persist",
+        description: "Remove the time to live of a key so that it never expires",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Redis key" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                removed: { type: "boolean", description: "False if the key does not exist or had no expiry" },
+            },
+            required: ["key", "removed"],
+        },
+    },
+    {
+        name: "rename",
+        description: "Rename a key, keeping its value and TTL. In cluster mode both names must hash to the same slot",
+        inputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string", description: "Key to rename" },
+                destination: { type: "string", description: "New key name" },
+                overwrite: { type: "boolean", description: "Replace the destination if it already exists (default: false)" },
+            },
+            required: ["source", "destination"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string" },
+                destination: { type: "string" },
+                renamed: { type: "boolean", description: "False if the source does not exist, or the destination exists and overwrite is false" },
+            },
+            required: ["source", "destination", "renamed"],
+        },
+    },
+    {
+        name: "copy",
+        description: "Copy a key's value to another key, optionally in another database (Redis 6.2+)",
+        inputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string", description: "Key to copy" },
+                destination: { type: "string", description: "Key to copy to" },
+                destinationDb: { type: "number", description: "Database to copy into (default: the current database, not available in cluster mode)" },
+                replace: { type: "boolean", description: "Replace the destination if it already exists (default: false)" },
+            },
+            required: ["source", "destination"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string" },
+                destination: { type: "string" },
+                copied: { type: "boolean", description: "False if the source does not exist, or the destination exists and replace is false" },
+            },
+            required: ["source", "destination", "copied"],
+        },
+    },
+];
+
+// OBJECT IDLETIME and OBJECT FREQ each fail under one kind of eviction policy
+async function optional<T>(fn: () => Promise<T>): Promise<T | null> {
+    try {
+        return await fn();
+    } catch {
+        return null;
+    }
+}
+
+async function keySize(redisClient: RedisClient, key: string, type: string): Promise<number | null> {
+    switch (type) {
+        case "string":
+            return redisClient.strLen(key);
+        case "hash":
+            return redisClient.hLen(key);
+        case "set":
+            return redisClient.sCard(key);
+        case "zset":
+            return redisClient.zCard(key);
+        case "list":
+            return redisClient.lLen(key);
+        case "stream":
+            return redisClient.xLen(key);
+        default:
+            return null;
+    }
+}
+
+// Read at most `count` elements (or `bytes` bytes) of a key without loading the whole value, except
+// for a string that redaction may change, which is read whole so that redaction sees all of it
+async function previewKey(
+    redisClient: RedisClient,
+    key: string,
+    type: string,
+    size: number | null,
+    count: number,
+    bytes: number,
+    redacted: boolean
+): Promise<{ preview: unknown; truncated: boolean }> {
+    const options = commandOptions({ returnBuffers: true });
+    const truncated = size !== null && size > count;
+    switch (type) {
+        case "string": {
+            if (redacted) {
+                const whole = await redisClient.get(options, key) ?? Buffer.alloc(0);
+                return { preview: whole.subarray(0, bytes), truncated: whole.length > bytes };
+            }
+            const value = bytes > 0 ? await redisClient.getRange(options, key, 0, bytes - 1) : Buffer.alloc(0);
+            return { preview: value, truncated: (size ?? 0) > bytes };
+        }
+        case "hash": {
+            const reply = await redisClient.hScan(options, key, 0, { COUNT: count });
+            return { preview: reply.tuples.slice(0, count), truncated };
+        }
+        case "set": {
+            const reply = await redisClient.sScan(options, key, 0, { COUNT: count });
+            return { preview: reply.members.slice(0, count), truncated };
+        }
+        case "zset": {
+            const members = count > 0 ? await redisClient.zRangeWithScores(options, key, 0, count - 1) : [];
+            return { preview: members.map(({ value, score }) => ({ member: value, score })), truncated };
+        }
+        case "list":
+            return { preview: count > 0 ? await redisClient.lRange(options, key, 0, count - 1) : [], truncated };
+        case "stream":
+            return { preview: count > 0 ? await redisClient.xRange(key, "-", "+", { COUNT: count }) : [], truncated };
+        case "ReJSON-RL":
+            return withModule("RedisJSON", "JSON.", () => previewJson(redisClient, key, count, bytes));
+        default:
+            return { preview: null, truncated: false };
+    }
+}
+
+// Describe a JSON value too large to preview by its size
+function jsonSummary(type: string, length: number | null): string | undefined {
+    if (type === "object") {
+        return `<object with ${length} keys>`;
+    }
+    if (type === "array") {
+        return `<array of ${length} items>`;
+    }
+    if (type === "string" && length !== null) {
+        return `<string of ${length} characters>`;
+    }
+    return undefined;
+}
+
+// Preview a JSON document without reading it whole: the first members of an object or array,
+// up to `bytes` bytes of them, with nested objects and arrays and long strings summarized
+async function previewJson(redisClient: RedisClient, key: string, count: number, bytes: number): Promise<{ preview: unknown; truncated: boolean }> {
+    const json = redisClient.json;
+    const type = await json.type(key) as string;
+    if (type !== "object" && type !== "array") {
+        const length = type === "string" ? await json.strLen(key) : 0;
+        return length > bytes
+            ? { preview: jsonSummary(type, length), truncated: true }
+            : { preview: await json.get(key), truncated: false };
+    }
+    const keys = type === "object" ? await json.objKeys(key) as string[] : null;
+    const size = keys?.length ?? await json.arrLen(key) as number;
+    const members: Array<string | number> = keys?.slice(0, count) ?? Array.from({ length: Math.min(size, count) }, (_, i) => i);
+    // Legacy paths, which reply with a single value
+    const paths = members.map((member) => `[${JSON.stringify(member)}]`);
+    const types = await Promise.all(paths.map((path) => json.type(key, path) as Promise<string>));
+    const lengths = await Promise.all(paths.map(async (path, i) => {
+        switch (types[i]) {
+            case "object":
+                return await json.objLen(key, path) as number;
+            case "array":
+                return await json.arrLen(key, path) as number;
+            case "string": {
+                const length = await json.strLen(key, path);
+                return length > bytes ? length : null;
+            }
+            default:
+                return null;
+        }
+    }));
+    const summaries = paths.map((_, i) => jsonSummary(types[i], lengths[i]));
+    const read = paths.filter((_, i) => summaries[i] === undefined);
+    // With more than one path, JSON.GET replies with an object keyed by path
+    const values = read.length > 1
+        ? await json.get(key, { path: read }) as Record<string, unknown>
+        : read.length === 1 ? { [read[0]]: await json.get(key, { path: read[0] }) } : {};
+
+    const entries: Array<[string | number, unknown]> = [];
+    let used = 0;
+    for (const [i, member] of members.entries()) {
+        const value = summaries[i] ?? values[paths[i]];
+        used += Buffer.byteLength(JSON.stringify(value) ?? "");
+        if (used > bytes && entries.length > 0) {
+            break;
+        }
+        entries.push([member, value]);
+    }
+    return {
+        preview: keys ? Object.fromEntries(entries) : entries.map(([, value]) => value),
+        truncated: entries.length < size || summaries.some((summary) => summary !== undefined),
+    };
+}
+
+function formatPreview(type: string, preview: unknown): string {
+    switch (type) {
+        case "string":
+            return String(preview);
+        case "hash":
+            return (preview as Array<{ field: Buffer; value: Buffer }>).map(({ field, value }) => `${field}: ${value}`).join('\n');
+        case "set":
+        case "list":
+            return (preview as Buffer[]).join('\n');
+        case "zset":
+            return (preview as Array<{ member: string; score: number }>).map(({ member, score }) => `${member} (score: ${score})`).join('\n');
+        case "stream":
+            return (preview as Array<{ id: string; message: Record<string, string> }>)
+                .map(({ id, message }) => `${id}: ${JSON.stringify(message)}`)
+                .join('\n');
+        default:
+            return typeof preview === "string" ? preview : JSON.stringify(preview, null, 2);
+    }
+}
+
+export function isWrongTypeError(error: unknown): boolean {
+    return error instanceof Error && error.message.startsWith("WRONGTYPE");
+}
+
+// Replace Redis' WRONGTYPE reply with the actual type of each key and the tools that fit it
+export async function explainWrongType(redisClient: RedisClient, tool: string, keys: string[]): Promise<Error> {
+    const hints: string[] = [];
+    for (const key of keys) {
+        const type = await optional(() => redisClient.type(key));
+        if (type && type !== "none") {
+            const tools = TOOLS_BY_TYPE[type];
+            hints.push(`key ${key} holds a ${type}${tools ? `, use ${tools.join(", ")}` : ""}`);
+        }
+    }
+    return new Error(
+        `Wrong type: ${tool} cannot operate on ${hints.length > 0 ? `${hints.length > 1 ? "these keys" : "this key"} (${hints.join("; ")})` : "a key of this type"}. ` +
+        "Call describe_key to inspect a key before reading it"
+    );
+}
+
+export async function handleKeyTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "describe_key") {
+        const { key, previewCount, previewBytes } = DescribeKeyArgumentsSchema.parse(args);
+        const type = await redisClient.type(key);
+        if (type === "none") {
+            return toolResult(`Key not found: ${key}`, { key, exists: false });
+        }
+        const [ttl, encoding, idleSeconds, frequency, memoryBytes, size] = await Promise.all([
+            redisClient.pTTL(key),
+            optional(() => redisClient.objectEncoding(key)),
+            optional(() => redisClient.objectIdleTime(key)),
+            optional(() => redisClient.objectFreq(key)),
+            optional(() => redisClient.memoryUsage(key)),
+            keySize(redisClient, key, type),
+        ]);
+        const { preview, truncated } = await previewKey(
+            redisClient, key, type, size, previewCount, previewBytes, mayRedactKey(key, config.redaction)
+        );
+        const ttlMillis = ttl >= 0 ? ttl : null;
+        const tools = TOOLS_BY_TYPE[type] ?? [];
+        return toolResult(
+            [
+                `Key: ${key}`,
+                `Type: ${type}${encoding ? ` (encoding: ${encoding})` : ""}`,
+                `TTL: ${ttlMillis === null ? "none" : `${ttlMillis}ms`}`,
+                ...(size !== null ? [`Size: ${size}`] : []),
+                ...(memoryBytes !== null ? [`Memory: ${memoryBytes} bytes`] : []),
+                ...(idleSeconds !== null ? [`Idle: ${idleSeconds}s`] : []),
+                ...(frequency !== null ? [`Access frequency: ${frequency}`] : []),
+                ...(tools.length > 0 ? [`Tools: ${tools.join(", ")}`] : []),
+                `Preview${truncated ? " (truncated)" : ""}:\n${formatPreview(type, preview)}`,
+            ].join('\n'),
+            {
+                key,
+                exists: true,
+                type,
+                ttlMillis,
+                encoding,
+                idleSeconds,
+                frequency,
+                memoryBytes,
+                size,
+                tools,
+                preview,
+                previewTruncated: truncated,
+            }
+        );
+    } else if (name === "ttl") {
+        const { key } = TtlArgumentsSchema.parse(args);
+        const ttl = await redisClient.pTTL(key);
+        return toolResult(
+            ttl === -2 ? `Key not found: ${key}` : ttl === -1 ? `Key ${key} has no expiry` : `Key ${key} expires in ${ttl}ms`,
+            { key, exists: ttl !== -2, ttlMillis: ttl >= 0 ? ttl : null }
+        );
+    } else if (name === "expire") {
+        const { key, seconds, milliseconds, condition } = ExpireArgumentsSchema.parse(args);
+        const applied = seconds !== undefined
+            ? await redisClient.expire(key, seconds, condition)
+            : await redisClient.pExpire(key, milliseconds!, condition);
+        return toolResult(
+            applied
+                ? `Successfully set expiry of key ${key} to ${seconds !== undefined ? `${seconds} seconds` : `${milliseconds}ms`}`
+                : `Expiry not set: key ${key} does not exist${condition ? ` or condition ${condition} was not met` : ""}`,
+            { key, applied }
+        );
+    } else if (name === "persist") {
+        const { key } = PersistArgumentsSchema.parse(args);
+        const removed = await redisClient.persist(key);
+        return toolResult(
+            removed ? `Successfully removed expiry of key ${key}` : `Key ${key} does not exist or has no expiry`,
+            { key, removed }
+        );
+    } else if (name === "rename") {
+        const { source, destination, overwrite } = RenameArgumentsSchema.parse(args);
+        assertRedactionKept(source, destination, config);
+        let renamed: boolean;
+        try {
+            renamed = overwrite
+                ? await redisClient.rename(source, destination) === "OK"
+                : await redisClient.renameNX(source, destination);
+        } catch (error) {
+            if (error instanceof Error && /no such key/i.test(error.message)) {
+                return toolResult(`Key not found: ${source}`, { source, destination, renamed: false });
+            }
+            throw error;
+        }
+        return toolResult(
+            renamed ? `Successfully renamed key ${source} to ${destination}` : `Key not renamed: ${destination} already exists`,
+            { source, destination, renamed }
+        );
+    } else if (name === "copy") {
+        const { source, destination, destinationDb, replace } = CopyArgumentsSchema.parse(args);
+        assertRedactionKept(source, destination, config);
+        const copied = await redisClient.copy(source, destination, { destinationDb, replace });
+        const target = destinationDb === undefined ? destination : `${destination} in db ${destinationDb}`;
+        return toolResult(
+            copied
+                ? `Successfully copied key ${source} to ${target}`
+                : `Key not copied: ${source} does not exist or ${target} already exists`,
+            { source, destination, copied }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
@@ -0,0 +1,352 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import {
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    NULLABLE_VALUE_SCHEMA,
+    TRUNCATED_SCHEMA,
+    VALUE_SCHEMA,
+    formatTruncation,
+    limitItems,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { assertRedactionKept } from "./redaction.js";
+import { MAX_BLOCKING_TIMEOUT, readRange } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// List schemas
+const ListPushArgumentsSchema = z.object({
+    key: z.string(),
+    elements: z.array(z.string()).min(1),
+});
+
+const ListPopArgumentsSchema = z.object({
+    key: z.string(),
+    count: z.number().int().positive().optional(),
+});
+
+const ListRangeArgumentsSchema = z.object({
+    key: z.string(),
+    start: z.number().int(),
+    stop: z.number().int(),
+}).merge(LimitArgumentsSchema);
+
+const ListLengthArgumentsSchema = z.object({
+    key: z.string(),
+});
+
+const ListTrimArgumentsSchema = z.object({
+    key: z.string(),
+    start: z.number().int(),
+    stop: z.number().int(),
+});
+
+const ListMoveArgumentsSchema = z.object({
+    source: z.string(),
+    destination: z.string(),
+    sourceSide: z.enum(["LEFT", "RIGHT"]),
+    destinationSide: z.enum(["LEFT", "RIGHT"]),
+});
+
+const ListBlockingPopArgumentsSchema = z.object({
+    keys: z.array(z.string()).min(1),
+    timeout: z.number().positive().max(MAX_BLOCKING_TIMEOUT),
+});
+
+const PUSH_OUTPUT_SCHEMA = {
+    type: "object" as const,
+    properties: {
+        key: { type: "string" },
+        pushed: { type: "number" },
+        length: { type: "number", description: "Length of the list after the push" },
+    },
+    required: ["key", "pushed", "length"],
+};
+
+const POP_OUTPUT_SCHEMA = {
+    type: "object" as const,
+    properties: {
+        key: { type: "string" },
+        elements: {
+            oneOf: [{ type: "array", items: VALUE_SCHEMA }, { type: "null" }],
+            description: "Popped elements, or null if the list does not exist",
+        },
+    },
+    required: ["key", "elements"],
+};
+
+const BLOCKING_POP_OUTPUT_SCHEMA = {
+    type: "object" as const,
+    properties: {
+        key: { type: ["string", "null"], description: "List the element was popped from" },
+        element: NULLABLE_VALUE_SCHEMA,
+        timedOut: { type: "boolean" },
+    },
+    required: ["key", "element", "timedOut"],
+};
+
+export const listTools: Tool[] = [
+    {
+        name: "lpush",
+        description: "Prepend one or more elements to a Redis list",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+                elements: { type: "array", items: { type: "string" }, description: "Elements to prepend" },
+            },
+            required: ["key", "elements"],
+        },
+        outputSchema: PUSH_OUTPUT_SCHEMA,
+    },
+    {
+        name: "rpush",
+        description: "Append one or more elements to a Redis list",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+                elements: { type: "array", items: { type: "string" }, description: "Elements to append" },
+            },
+            required: ["key", "elements"],
+        },
+        outputSchema: PUSH_OUTPUT_SCHEMA,
+    },
+    {
+        name: "lpop",
+        description: "Remove and return elements from the head of a Redis list",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+                count: { type: "number", description: "Number of elements to pop (default: 1)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: POP_OUTPUT_SCHEMA,
+    },
+    {
+        name: "rpop",
+        description: "Remove and return elements from the tail of a Redis list",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+                count: { type: "number", description: "Number of elements to pop (default: 1)" },
+            },
+            required: ["key"],
+        },
+        outputSchema: POP_OUTPUT_SCHEMA,
+    },
+    {
+        name: "lrange",
+        description: "Get elements from a Redis list by index range (negative indices count from the tail)",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+                start: { type: "number", description: "Start index (e.g. 0 for the first element)" },
+                stop: { type: "number", description: "Stop index, inclusive (e.g. -1 for the last element)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key", "start", "stop"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                elements: { type: "array", items: VALUE_SCHEMA },
+                total: { type: "number", description: "Number of elements in the range" },
+                ...TRUNCATED_SCHEMA,
+                nextStart: { type: ["number", "null"], description: "Start index to pass to read the rest of the range, null if nothing is left" },
+            },
+            required: ["key", "elements", "total", "truncated", "nextStart"],
+        },
+    },
+    {
+        name: "llen",
+        description: "Get the length of a Redis list",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                length: { type: "number" },
+            },
+            required: ["key", "length"],
+        },
+    },
+    {
+        name: "ltrim",
+        description: "Trim a Redis list so that it only contains the given index range",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "List key" },
+                start: { type: "number", description: "Start index of the range to keep" },
+                stop: { type: "number", description: "Stop index of the range to keep, inclusive" },
+            },
+            required: ["key", "start", "stop"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                start: { type: "number" },
+                stop: { type: "number" },
+            },
+            required: ["key", "start", "stop"],
+        },
+    },
+    {
+        name: "lmove",
+        description: "Atomically pop an element from one Redis list and push it to another",
+        inputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string", description: "Source list key" },
+                destination: { type: "string", description: "Destination list key" },
+                sourceSide: { type: "string", enum: ["LEFT", "RIGHT"], description: "Side to pop from" },
+                destinationSide: { type: "string", enum: ["LEFT", "RIGHT"], description: "Side to push to" },
+            },
+            required: ["source", "destination", "sourceSide", "destinationSide"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                source: { type: "string" },
+                destination: { type: "string" },
+                element: NULLABLE_VALUE_SCHEMA,
+            },
+            required: ["source", "destination", "element"],
+        },
+    },
+    {
+        name: "blpop",
+        description: "Pop an element from the head of the first non-empty list, waiting up to a bounded timeout",
+        inputSchema: {
+            type: "object",
+            properties: {
+                keys: { type: "array", items: { type: "string" }, description: "List keys to check in order" },
+                timeout: { type: "number", description: `Seconds to wait for an element (max: ${MAX_BLOCKING_TIMEOUT})` },
+            },
+            required: ["keys", "timeout"],
+        },
+        outputSchema: BLOCKING_POP_OUTPUT_SCHEMA,
+    },
+    {
+        name: "brpop",
+        description: "Pop an element from the tail of the first non-empty list, waiting up to a bounded timeout",
+        inputSchema: {
+            type: "object",
+            properties: {
+                keys: { type: "array", items: { type: "string" }, description: "List keys to check in order" },
+                timeout: { type: "number", description: `Seconds to wait for an element (max: ${MAX_BLOCKING_TIMEOUT})` },
+            },
+            required: ["keys", "timeout"],
+        },
+        outputSchema: BLOCKING_POP_OUTPUT_SCHEMA,
+    },
+];
+
+export async function handleListTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "lpush" || name === "rpush") {
+        const { key, elements } = ListPushArgumentsSchema.parse(args);
+        const length = name === "lpush"
+            ? await redisClient.lPush(key, elements)
+            : await redisClient.rPush(key, elements);
+        return toolResult(
+            `Successfully pushed ${elements.length} elements to list ${key} (length: ${length})`,
+            { key, pushed: elements.length, length }
+        );
+    } else if (name === "lpop" || name === "rpop") {
+        const { key, count } = ListPopArgumentsSchema.parse(args);
+        const options = commandOptions({ returnBuffers: true });
+        let elements: Buffer[] | null;
+        if (count === undefined) {
+            const element = name === "lpop" ? await redisClient.lPop(options, key) : await redisClient.rPop(options, key);
+            elements = element === null ? null : [element];
+        } else {
+            elements = name === "lpop"
+                ? await redisClient.lPopCount(options, key, count)
+                : await redisClient.rPopCount(options, key, count);
+        }
+        return toolResult(
+            elements && elements.length > 0
+                ? `Popped elements:\n${elements.join('\n')}`
+                : `List is empty or does not exist: ${key}`,
+            { key, elements }
+        );
+    } else if (name === "lrange") {
+        const { key, start, stop, ...limitArgs } = ListRangeArgumentsSchema.parse(args);
+        const limits = outputLimits(config, limitArgs);
+        // Read no more than can be returned, in one round so that the tool can be batched in a transaction,
+        // and continue from an index that doesn't count from the end
+        const { range, items } = await readRange(
+            redisClient.lLen(key),
+            (from, to) => redisClient.lRange(commandOptions({ returnBuffers: true }), key, from, to),
+            start,
+            stop,
+            limits.maxItems
+        );
+        const elements = limitItems(items, limits);
+        const truncated = elements.length < range.count;
+        const nextStart = truncated ? range.start + elements.length : null;
+        return toolResult(
+            (elements.length > 0
+                ? `List elements:\n${elements.join('\n')}`
+                : "No elements found in range") +
+            (truncated ? formatTruncation(elements.length, range.count, "elements", `Call lrange again with start: ${nextStart} to read the rest.`) : ""),
+            { key, elements, total: range.count, truncated, nextStart }
+        );
+    } else if (name === "llen") {
+        const { key } = ListLengthArgumentsSchema.parse(args);
+        const length = await redisClient.lLen(key);
+        return toolResult(`List ${key} has ${length} elements`, { key, length });
+    } else if (name === "ltrim") {
+        const { key, start, stop } = ListTrimArgumentsSchema.parse(args);
+        await redisClient.lTrim(key, start, stop);
+        return toolResult(`Successfully trimmed list ${key} to range ${start}..${stop}`, { key, start, stop });
+    } else if (name === "lmove") {
+        const { source, destination, sourceSide, destinationSide } = ListMoveArgumentsSchema.parse(args);
+        assertRedactionKept(source, destination, config);
+        const element = await redisClient.lMove(
+            commandOptions({ returnBuffers: true }), source, destination, sourceSide, destinationSide
+        );
+        return toolResult(
+            element === null
+                ? `List is empty or does not exist: ${source}`
+                : `Moved element from ${source} to ${destination}: ${element}`,
+            { source, destination, element }
+        );
+    } else if (name === "blpop" || name === "brpop") {
+        const { keys, timeout } = ListBlockingPopArgumentsSchema.parse(args);
+        // Blocking commands run on an isolated connection so they don't stall other tool calls
+        const options = commandOptions({ isolated: true, returnBuffers: true });
+        const popped = name === "blpop"
+            ? await redisClient.blPop(options, keys, timeout)
+            : await redisClient.brPop(options, keys, timeout);
+        return toolResult(
+            popped === null
+                ? `Timed out after ${timeout} seconds with no element available`
+                : `Popped element from ${popped.key}: ${popped.element}`,
+            {
+                key: popped ? popped.key.toString() : null,
+                element: popped ? popped.element : null,
+                timedOut: popped === null,
+            }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
@@ -0,0 +1,200 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ServerConfig } from "./config.js";
+
+export type OutputFormat = "text" | "json";
+
+// A string value, or { base64 } when the stored bytes are not valid UTF-8
+export const VALUE_SCHEMA = {
+    oneOf: [
+        { type: "string" },
+        { type: "object", properties: { base64: { type: "string" } }, required: ["base64"] },
+    ],
+};
+
+export const NULLABLE_VALUE_SCHEMA = {
+    oneOf: [...VALUE_SCHEMA.oneOf, { type: "null" }],
+};
+
+export const CURSOR_SCHEMA = {
+    cursor: { type: "number", description: "Cursor for the next call, 0 when the iteration is complete" },
+    complete: { type: "boolean" },
+};
+
+export interface OutputLimits {
+    maxBytes: number;
+    maxItems: number;
+}
+
+// Per-call limits, which can lower but not raise the configured ones
+export const LimitArgumentsSchema = z.object({
+    maxBytes: z.number().int().positive().optional(),
+    maxItems: z.number().int().positive().optional(),
+});
+
+export const LIMIT_PROPERTIES = {
+    maxBytes: { type: "number", description: "Return at most about this many bytes of values (default and max: the server's limit)" },
+    maxItems: { type: "number", description: "Return at most this many items (default and max: the server's limit)" },
+};
+
+export const TRUNCATED_SCHEMA = {
+    truncated: { type: "boolean", description: "True if the result was cut short by maxBytes or maxItems" },
+};
+
+export function outputLimits(
+    config: Pick<ServerConfig, "maxOutputBytes" | "maxOutputItems">,
+    { maxBytes, maxItems }: z.infer<typeof LimitArgumentsSchema>
+): OutputLimits {
+    return {
+        maxBytes: Math.min(maxBytes ?? config.maxOutputBytes, config.maxOutputBytes),
+        maxItems: Math.min(maxItems ?? config.maxOutputItems, config.maxOutputItems),
+    };
+}
+
+// Approximate size of a reply: the bytes of its strings, Buffers, numbers and property names
+export function byteSize(value: unknown): number {
+    if (Buffer.isBuffer(value)) {
+        return value.length;
+    }
+    if (typeof value === "string") {
+        return Buffer.byteLength(value);
+    }
+    if (Array.isArray(value)) {
+        return value.reduce((sum: number, item) => sum + byteSize(item), 0);
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.entries(value).reduce((sum, [k, v]) => sum + Buffer.byteLength(k) + byteSize(v), 0);
+    }
+    return String(value).length;
+}
+
+// The leading items that fit within the limits. The first item is always kept, so that
+// a call continuing after the last item returned makes progress.
+export function limitItems<T>(items: T[], { maxBytes, maxItems }: OutputLimits): T[] {
+    let bytes = 0;
+    let count = 0;
+    for (const item of items) {
+        bytes += byteSize(item);
+        if (count >= maxItems || (count > 0 && bytes > maxBytes)) {
+            break;
+        }
+        count++;
+    }
+    return items.slice(0, count);
+}
+
+// The first maxBytes bytes of a value, cut back to a UTF-8 character boundary
+export function limitBytes(value: Buffer, maxBytes: number): Buffer {
+    if (value.length <= maxBytes) {
+        return value;
+    }
+    let end = maxBytes;
+    while (end > 0 && (value[end] & 0xc0) === 0x80) {
+        end--;
+    }
+    return value.subarray(0, end > 0 ? end : maxBytes);
+}
+
+// Cut values so that together they take at most about maxBytes, for results that can't leave items out:
+// a scan page the cursor has already moved past, or stream entries delivered to a consumer group.
+// Values that come after the budget is spent are cut to nothing.
+export function limitValues<T extends string | Buffer>(
+    values: T[],
+    maxBytes: number
+): { values: T[]; bytes: number; truncated: boolean } {
+    let remaining = maxBytes;
+    let truncated = false;
+    const limited = values.map((value) => {
+        const bytes = Buffer.isBuffer(value) ? value : Buffer.from(value);
+        const kept = limitBytes(bytes, Math.max(remaining, 0));
+        remaining -= kept.length;
+        if (kept.length === bytes.length) {
+            return value;
+        }
+        truncated = true;
+        return (Buffer.isBuffer(value) ? kept : kept.toString()) as T;
+    });
+    return { values: limited, bytes: maxBytes - remaining, truncated };
+}
+
+// Keep the leading elements of a JSON array, the leading properties of an object, or the start of a
+// string. total is the number of elements or properties, or the length of the string in bytes.
+export function limitJson(value: unknown, limits: OutputLimits): { value: unknown; total: number; truncated: boolean } {
+    if (Array.isArray(value)) {
+        const kept = limitItems(value, limits);
+        return { value: kept, total: value.length, truncated: kept.length < value.length };
+    }
+    if (value !== null && typeof value === "object") {
+        const entries = Object.entries(value);
+        const kept = limitItems(entries, limits);
+        return { value: Object.fromEntries(kept), total: entries.length, truncated: kept.length < entries.length };
+    }
+    if (typeof value === "string") {
+        const bytes = Buffer.from(value);
+        const kept = limitBytes(bytes, limits.maxBytes);
+        return { value: kept.toString(), total: bytes.length, truncated: kept.length < bytes.length };
+    }
+    return { value, total: 1, truncated: false };
+}
+
+export function formatTruncation(shown: number, total: number | null, unit: string, hint: string): string {
+    return `\n\nTruncated to ${shown}${total !== null ? ` of ${total}` : ""} ${unit} by the output limits. ${hint}`;
+}
+
+// Build a result carrying both the human-readable text and the structured data.
+// Which of the two reaches the client is decided by formatToolResult.
+export function toolResult(text: string, data: Record<string, unknown>): CallToolResult {
+    return {
+        content: [{ type: "text", text }],
+        structuredContent: data,
+    };
+}
+
+export function encodeValue(value: Buffer): string | { base64: string } {
+    const text = value.toString("utf8");
+    return Buffer.from(text, "utf8").equals(value) ? text : { base64: value.toString("base64") };
+}
+
+// Recursively convert Buffers so that structured results are plain, binary-safe JSON
+export function toJsonValue(value: unknown): unknown {
+    if (Buffer.isBuffer(value)) {
+        return encodeValue(value);
+    }
+    if (Array.isArray(value)) {
+        return value.map(toJsonValue);
+    }
+    if (value instanceof Date) {
+        return value.toISOString();
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([k, v]) => [k, toJsonValue(v)]));
+    }
+    return value;
+}
+
+export function formatToolResult(result: CallToolResult, format: OutputFormat): CallToolResult {
+    const { structuredContent, ...rest } = result;
+    if (format === "text" || structuredContent === undefined) {
+        return rest;
+    }
+    const data = toJsonValue(structuredContent) as Record<string, unknown>;
+    return {
+        content: [{ type: "text", text: JSON.stringify(data, null, 2) }],
+        structuredContent: data,
+    };
+}
+
+export function formatArgumentsError(error: z.ZodError): string {
+    return `Invalid arguments: ${error.errors
+        .map((e) => `${e.path.join(".")}: ${e.message}`)
+        .join(", ")}`;
+}
+
+// Output schemas are only advertised in JSON mode, where structuredContent is returned
+export function formatToolDefinition(tool: Tool, format: OutputFormat): Tool {
+    if (format === "json") {
+        return tool;
+    }
+    const { outputSchema, ...rest } = tool;
+    return rest;
+}
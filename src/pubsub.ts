@@ -0,0 +1,233 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import {
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    TRUNCATED_SCHEMA,
+    VALUE_SCHEMA,
+    byteSize,
+    encodeValue,
+    formatTruncation,
+    limitValues,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { MAX_BLOCKING_TIMEOUT } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+const MAX_CAPTURED_MESSAGES = 1000;
+
+// Pub/sub schemas
+const PublishArgumentsSchema = z.object({
+    channel: z.string(),
+    message: z.string(),
+});
+
+const PubSubChannelsArgumentsSchema = z.object({
+    pattern: z.string().optional(),
+});
+
+const PubSubNumSubArgumentsSchema = z.object({
+    channels: z.array(z.string()).min(1),
+});
+
+const SubscribeCaptureArgumentsSchema = z.object({
+    channels: z.array(z.string()).default([]),
+    patterns: z.array(z.string()).default([]),
+    timeout: z.number().positive().max(MAX_BLOCKING_TIMEOUT).default(5),
+    count: z.number().int().positive().max(MAX_CAPTURED_MESSAGES).default(100),
+}).merge(LimitArgumentsSchema).refine((value) => value.channels.length + value.patterns.length > 0, {
+    message: "Provide at least one channel or pattern",
+});
+
+interface CapturedMessage {
+    channel: string;
+    pattern: string | null;
+    message: Buffer;
+    timestamp: string;
+}
+
+export const pubsubTools: Tool[] = [
+    {
+        name: "publish",
+        description: "Publish a message to a pub/sub channel",
+        inputSchema: {
+            type: "object",
+            properties: {
+                channel: { type: "string", description: "Channel name" },
+                message: { type: "string", description: "Message to publish" },
+            },
+            required: ["channel", "message"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                channel: { type: "string" },
+                receivers: { type: "number", description: "Number of clients that received the message (on this node in cluster mode)" },
+            },
+            required: ["channel", "receivers"],
+        },
+    },
+    {
+        name: "pubsub_channels",
+        description: "List the channels that currently have subscribers",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "Only list channels matching this glob-style pattern" },
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                channels: { type: "array", items: { type: "string" } },
+            },
+            required: ["channels"],
+        },
+    },
+    {
+        name: "pubsub_numsub",
+        description: "Count the subscribers of pub/sub channels (pattern subscriptions are not included)",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                channels: { type: "array", items: { type: "string" }, description: "Channel names" },
+            },
+            required: ["channels"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                subscribers: { type: "object", additionalProperties: { type: "number" }, description: "Subscriber count by channel" },
+            },
+            required: ["subscribers"],
+        },
+    },
+    {
+        name: "subscribe_capture",
+        description: "Subscribe to channels and/or patterns on a dedicated connection and return the messages received, until the timeout elapses or enough messages arrive",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                channels: { type: "array", items: { type: "string" }, description: "Channels to SUBSCRIBE to" },
+                patterns: { type: "array", items: { type: "string" }, description: "Glob-style patterns to PSUBSCRIBE to" },
+                timeout: { type: "number", description: `Seconds to listen for (default: 5, max: ${MAX_BLOCKING_TIMEOUT})` },
+                count: { type: "number", description: `Stop after this many messages (default: 100, max: ${MAX_CAPTURED_MESSAGES})` },
+                ...LIMIT_PROPERTIES,
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                messages: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            channel: { type: "string" },
+                            pattern: { type: ["string", "null"], description: "The pattern that matched, null for a channel subscription" },
+                            message: VALUE_SCHEMA,
+                            timestamp: { type: "string", description: "When the message was received (ISO 8601)" },
+                        },
+                        required: ["channel", "pattern", "message", "timestamp"],
+                    },
+                },
+                complete: { type: "boolean", description: "False if capturing stopped because count messages or maxBytes of them arrived" },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["messages", "complete", "truncated"],
+        },
+    },
+];
+
+export async function handlePubSubTool({ redisClient, connection, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "publish") {
+        const { channel, message } = PublishArgumentsSchema.parse(args);
+        const receivers = await redisClient.publish(channel, message);
+        return toolResult(`Published message to channel ${channel} (${receivers} receivers)`, { channel, receivers });
+    } else if (name === "pubsub_channels") {
+        const { pattern } = PubSubChannelsArgumentsSchema.parse(args);
+        // Subscriptions are local to the node a subscriber is connected to
+        const channels = new Set<string>();
+        for (const client of await connection.nodeClients()) {
+            for (const channel of await client.pubSubChannels(pattern)) {
+                channels.add(channel);
+            }
+        }
+        const sorted = [...channels].sort();
+        if (sorted.length === 0) {
+            return toolResult("No channels with subscribers", { channels: sorted });
+        }
+        return toolResult(`Channels with subscribers:\n${sorted.join('\n')}`, { channels: sorted });
+    } else if (name === "pubsub_numsub") {
+        const { channels } = PubSubNumSubArgumentsSchema.parse(args);
+        const subscribers: Record<string, number> = Object.fromEntries(channels.map((channel) => [channel, 0]));
+        for (const client of await connection.nodeClients()) {
+            for (const [channel, count] of Object.entries(await client.pubSubNumSub(channels))) {
+                subscribers[channel] += count;
+            }
+        }
+        return toolResult(
+            `Subscribers:\n${channels.map((channel) => `${channel}: ${subscribers[channel]}`).join('\n')}`,
+            { subscribers }
+        );
+    } else if (name === "subscribe_capture") {
+        const { channels, patterns, timeout, ...rest } = SubscribeCaptureArgumentsSchema.parse(args);
+        const { maxBytes, maxItems } = outputLimits(config, rest);
+        const count = Math.min(rest.count, maxItems);
+        const messages: CapturedMessage[] = [];
+        let bytes = 0;
+
+        // A client in subscriber mode can't run other commands, so capturing gets its own connection
+        const subscriber = redisClient.duplicate();
+        subscriber.on('error', (err: Error) => {
+            console.error(`[Redis Error] Capture subscriber: ${err.name}: ${err.message}`);
+        });
+        await subscriber.connect();
+        try {
+            await new Promise<void>((resolve, reject) => {
+                const timer = setTimeout(resolve, timeout * 1000);
+                const capture = (pattern: string | null) => (message: Buffer, channel: Buffer) => {
+                    if (messages.length < count && bytes < maxBytes) {
+                        messages.push({ channel: channel.toString("utf8"), pattern, message, timestamp: new Date().toISOString() });
+                        bytes += byteSize(message);
+                    }
+                    if (messages.length >= count || bytes >= maxBytes) {
+                        clearTimeout(timer);
+                        resolve();
+                    }
+                };
+                Promise.all([
+                    ...(channels.length > 0 ? [subscriber.subscribe(channels, capture(null), true)] : []),
+                    ...patterns.map((pattern) => subscriber.pSubscribe(pattern, capture(pattern), true)),
+                ]).catch((error) => {
+                    clearTimeout(timer);
+                    reject(error);
+                });
+            });
+        } finally {
+            await subscriber.disconnect().catch(() => {});
+        }
+
+        const complete = messages.length < count && bytes < maxBytes;
+        const targets = [...channels, ...patterns].join(", ");
+        if (messages.length === 0) {
+            return toolResult(`No messages received on ${targets} within ${timeout} seconds`, { messages: [], complete, truncated: false });
+        }
+        // Messages can't be received again, so none are left out: the payloads past maxBytes are cut instead
+        const limited = limitValues(messages.map((m) => m.message), maxBytes);
+        const captured = messages.map((m, i) => ({ ...m, message: limited.values[i] }));
+        return toolResult(
+            `Captured ${captured.length} messages on ${targets}:\n${captured
+                .map((m) => `[${m.timestamp}] ${m.channel}: ${m.message.toString("utf8")}`)
+                .join('\n')}` +
+            (limited.truncated ? formatTruncation(limited.bytes, null, "bytes of messages", "The messages past the limit were cut short.") : ""),
+            { messages: captured.map((m) => ({ ...m, message: encodeValue(m.message) })), complete, truncated: limited.truncated }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
@@ -0,0 +1,430 @@
+import { createHash } from "crypto";
+import { AccessPolicy, isKeyReadable, matchesPattern } from "./access.js";
+import { RedactionAction, RedactionConfig, RedactionDetector, RedactionRule } from "./config.js";
+import { RedisClient, isCommandOptions } from "./redis.js";
+
+const REDACTED = "[REDACTED]";
+
+interface CompiledRule {
+    keys?: string[];
+    fields?: string[];
+    jsonPaths?: string[][];
+    action: RedactionAction;
+}
+
+interface CompiledRedaction {
+    rules: CompiledRule[];
+    detectors: RedactionDetector[];
+    detectorAction: RedactionAction;
+    blockKeyPatterns: string[];
+}
+
+// Where a value was read from
+interface Scope {
+    keys: string[];
+    // Hash or stream entry field
+    field?: string;
+    // Position in a JSON document, null if it can't be known (e.g. the value of a wildcard path)
+    path?: string[] | null;
+    // A reply whose structure is unknown, such as a script result or a DUMP payload
+    opaque?: boolean;
+}
+
+interface StreamEntry {
+    id: string;
+    message: Record<string, string | Buffer>;
+}
+
+type ReplyRedactor = (reply: unknown, args: unknown[], redaction: CompiledRedaction) => unknown;
+
+const DETECTORS: Record<RedactionDetector, { pattern: RegExp; accept?: (match: string) => boolean }> = {
+    "email": { pattern: /[A-Za-z0-9._%+-]+@[A-Za-z0-9-]+(?:\.[A-Za-z0-9-]+)*\.[A-Za-z]{2,}/g },
+    "jwt": { pattern: /\beyJ[A-Za-z0-9_-]+\.eyJ[A-Za-z0-9_-]+\.[A-Za-z0-9_-]*/g },
+    "credit-card": { pattern: /\b\d(?:[ -]?\d){12,18}\b/g, accept: passesLuhn },
+};
+
+// Card numbers end with a Luhn check digit, which rules out most other long numbers
+function passesLuhn(number: string): boolean {
+    const digits = number.replace(/\D/g, "");
+    let sum = 0;
+    for (let i = 0; i < digits.length; i++) {
+        let digit = Number(digits[digits.length - 1 - i]);
+        if (i % 2 === 1) {
+            digit *= 2;
+            if (digit > 9) {
+                digit -= 9;
+            }
+        }
+        sum += digit;
+    }
+    return sum % 10 === 0;
+}
+
+// Parse a JSONPath such as $.user.email, $..token or $.cards[*].number into segments, where "*"
+// matches any one property or index and "**" any number of them. Legacy paths (.user.email) are
+// accepted too. Returns null for filters, slices, unions and negative indexes.
+export function parseJsonPath(path: string): string[] | null {
+    if (path === "$" || path === ".") {
+        return [];
+    }
+    let rest = path.startsWith("$") ? path.slice(1) : path.startsWith(".") || path.startsWith("[") ? path : `.${path}`;
+    const segments: string[] = [];
+    while (rest.length > 0) {
+        let match: RegExpExecArray | null;
+        if ((match = /^\.\.([A-Za-z_$][\w$-]*|\*)/.exec(rest))) {
+            segments.push("**", match[1]);
+        } else if ((match = /^\.([A-Za-z_$][\w$-]*|\*)/.exec(rest)) || (match = /^\[(\d+|\*)\]/.exec(rest))) {
+            segments.push(match[1]);
+        } else if ((match = /^\[(['"])(.*?)\1\]/.exec(rest))) {
+            segments.push(match[2]);
+        } else {
+            return null;
+        }
+        rest = rest.slice(match[0].length);
+    }
+    return segments;
+}
+
+function matchesJsonPath(pattern: string[], path: string[]): boolean {
+    if (pattern.length === 0) {
+        return path.length === 0;
+    }
+    const [head, ...rest] = pattern;
+    if (head === "**") {
+        for (let i = 0; i <= path.length; i++) {
+            if (matchesJsonPath(rest, path.slice(i))) {
+                return true;
+            }
+        }
+        return false;
+    }
+    return path.length > 0 && (head === "*" || head === path[0]) && matchesJsonPath(rest, path.slice(1));
+}
+
+const compiled = new WeakMap<RedactionConfig, CompiledRedaction>();
+
+function compile(config: RedactionConfig): CompiledRedaction {
+    let redaction = compiled.get(config);
+    if (!redaction) {
+        redaction = {
+            ...config,
+            rules: config.rules.map((rule) => ({
+                ...rule,
+                jsonPaths: rule.jsonPaths?.map((path) => {
+                    const segments = parseJsonPath(path);
+                    if (!segments) {
+                        throw new Error(`Unsupported JSONPath in redaction rule: ${path}`);
+                    }
+                    return segments;
+                }),
+            })),
+        };
+        compiled.set(config, redaction);
+    }
+    return redaction;
+}
+
+// The action of the first rule covering a value, if any. Blocked keys are always masked.
+function ruleAction({ keys, field, path, opaque }: Scope, redaction: CompiledRedaction): RedactionAction | undefined {
+    if (keys.some((key) => redaction.blockKeyPatterns.some((pattern) => matchesPattern(key, pattern)))) {
+        return "mask";
+    }
+    for (const rule of redaction.rules) {
+        // Only rules naming the key can be applied to a reply of unknown structure
+        const keyMatches = rule.keys
+            ? keys.some((key) => rule.keys!.some((pattern) => matchesPattern(key, pattern)))
+            : !opaque;
+        if (!keyMatches) {
+            continue;
+        }
+        if (opaque || (!rule.fields && !rule.jsonPaths)) {
+            return rule.action;
+        }
+        if (rule.fields && field !== undefined && rule.fields.some((pattern) => matchesPattern(field, pattern))) {
+            return rule.action;
+        }
+        if (rule.jsonPaths && path !== undefined && (path === null || rule.jsonPaths.some((pattern) => matchesJsonPath(pattern, path)))) {
+            return rule.action;
+        }
+    }
+    return undefined;
+}
+
+function applyAction(value: string | Buffer, action: RedactionAction): string {
+    return action === "mask" ? REDACTED : `sha256:${createHash("sha256").update(value).digest("hex").slice(0, 16)}`;
+}
+
+// Replace what the detectors find, leaving the rest of the text alone
+function detect(text: string, redaction: CompiledRedaction): string {
+    let result = text;
+    for (const name of redaction.detectors) {
+        const { pattern, accept } = DETECTORS[name];
+        result = result.replace(pattern, (match) => !accept || accept(match) ? applyAction(match, redaction.detectorAction) : match);
+    }
+    return result;
+}
+
+// Redact a string or Buffer, or each of an array of them, keeping Buffers as Buffers
+function redactLeaves(value: unknown, scope: Scope, redaction: CompiledRedaction): unknown {
+    if (typeof value === "string" || Buffer.isBuffer(value)) {
+        const action = ruleAction(scope, redaction);
+        if (action) {
+            return Buffer.isBuffer(value) ? Buffer.from(applyAction(value, action)) : applyAction(value, action);
+        }
+        if (typeof value === "string") {
+            return detect(value, redaction);
+        }
+        const text = value.toString("utf8");
+        const detected = detect(text, redaction);
+        return detected === text ? value : Buffer.from(detected);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item) => redactLeaves(item, scope, redaction));
+    }
+    return value;
+}
+
+function redactFields(fields: Record<string, unknown>, scope: Scope, redaction: CompiledRedaction): Record<string, unknown> {
+    return Object.fromEntries(
+        Object.entries(fields).map(([field, value]) => [field, redactLeaves(value, { ...scope, field }, redaction)])
+    );
+}
+
+function redactEntries(entries: Array<StreamEntry | null>, scope: Scope, redaction: CompiledRedaction): Array<StreamEntry | null> {
+    return entries.map((entry) => entry && { ...entry, message: redactFields(entry.message, scope, redaction) as StreamEntry["message"] });
+}
+
+// Redact a JSON document, or a subtree of one, as a whole once a rule covers its position
+function redactJson(value: unknown, scope: Scope, redaction: CompiledRedaction): unknown {
+    const action = ruleAction(scope, redaction);
+    if (action && value !== null) {
+        return applyAction(typeof value === "string" ? value : JSON.stringify(value), action);
+    }
+    const child = (segment: string): Scope => ({ ...scope, path: scope.path && [...scope.path, segment] });
+    if (typeof value === "string") {
+        return detect(value, redaction);
+    }
+    if (Array.isArray(value)) {
+        return value.map((item, i) => redactJson(item, child(String(i)), redaction));
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.fromEntries(Object.entries(value).map(([property, item]) => [property, redactJson(item, child(property), redaction)]));
+    }
+    return value;
+}
+
+// Redact the reply to JSON.GET at `path`: a JSONPath ($...) yields an array of matches, a legacy path a single value
+function redactJsonAt(value: unknown, keys: string[], path: string | undefined, redaction: CompiledRedaction): unknown {
+    if (path === undefined) {
+        return redactJson(value, { keys, path: [] }, redaction);
+    }
+    const segments = parseJsonPath(path);
+    const scope: Scope = { keys, path: segments && !segments.some((s) => s === "*" || s === "**") ? segments : null };
+    return path.startsWith("$") && Array.isArray(value)
+        ? value.map((item) => redactJson(item, scope, redaction))
+        : redactJson(value, scope, redaction);
+}
+
+function redactJsonGet(reply: unknown, keys: string[], path: string | string[] | undefined, redaction: CompiledRedaction): unknown {
+    // With more than one path, JSON.GET replies with an object keyed by path
+    if (Array.isArray(path) && path.length > 1 && reply !== null && typeof reply === "object") {
+        const values = reply as Record<string, unknown>;
+        return Object.fromEntries(path.map((p) => [p, redactJsonAt(values[p], keys, p, redaction)]));
+    }
+    return redactJsonAt(reply, keys, Array.isArray(path) ? path[0] : path, redaction);
+}
+
+const keyScope = (args: unknown[]): Scope => ({ keys: [String(args[0])] });
+
+const values: ReplyRedactor = (reply, args, redaction) => redactLeaves(reply, keyScope(args), redaction);
+
+const opaque = (keysOf: (args: unknown[]) => string | string[] | undefined): ReplyRedactor => (reply, args, redaction) =>
+    redactLeaves(reply, { keys: [keysOf(args) ?? []].flat(), opaque: true }, redaction);
+
+const scriptKeys = (args: unknown[]) => (args[1] as { keys?: string[] } | undefined)?.keys;
+
+// Commands whose replies carry stored values, by client method name
+const REPLY_REDACTORS: Record<string, ReplyRedactor> = {
+    get: values,
+    getRange: values,
+    lRange: values,
+    lPop: values,
+    rPop: values,
+    lPopCount: values,
+    rPopCount: values,
+    lMove: values,
+    sMembers: values,
+    zRange: values,
+    hGet: (reply, args, redaction) => redactLeaves(reply, { ...keyScope(args), field: String(args[1]) }, redaction),
+    hGetAll: (reply, args, redaction) => redactFields(reply as Record<string, unknown>, keyScope(args), redaction),
+    hScan: (reply, args, redaction) => {
+        const { tuples, ...rest } = reply as { tuples: Array<{ field: string; value: unknown }> };
+        return { ...rest, tuples: tuples.map(({ field, value }) => ({ field, value: redactLeaves(value, { ...keyScope(args), field }, redaction) })) };
+    },
+    sScan: (reply, args, redaction) => {
+        const { members, ...rest } = reply as { members: unknown[] };
+        return { ...rest, members: redactLeaves(members, keyScope(args), redaction) };
+    },
+    zScan: (reply, args, redaction) => {
+        const { members, ...rest } = reply as { members: Array<{ value: unknown; score: number }> };
+        return { ...rest, members: members.map((member) => ({ ...member, value: redactLeaves(member.value, keyScope(args), redaction) })) };
+    },
+    zRangeWithScores: (reply, args, redaction) =>
+        (reply as Array<{ value: unknown; score: number }>).map((member) => ({ ...member, value: redactLeaves(member.value, keyScope(args), redaction) })),
+    blPop: (reply, _args, redaction) => {
+        const popped = reply as { key: string; element: unknown } | null;
+        return popped && { ...popped, element: redactLeaves(popped.element, { keys: [popped.key] }, redaction) };
+    },
+    xRange: (reply, args, redaction) => redactEntries(reply as StreamEntry[], keyScope(args), redaction),
+    xClaim: (reply, args, redaction) => redactEntries(reply as StreamEntry[], keyScope(args), redaction),
+    xAutoClaim: (reply, args, redaction) => {
+        const { messages, ...rest } = reply as { messages: StreamEntry[] };
+        return { ...rest, messages: redactEntries(messages, keyScope(args), redaction) };
+    },
+    xRead: (reply, _args, redaction) =>
+        (reply as Array<{ name: string; messages: StreamEntry[] }> | null)?.map((stream) => ({
+            ...stream,
+            messages: redactEntries(stream.messages, { keys: [stream.name] }, redaction),
+        })) ?? null,
+    xInfoStream: (reply, args, redaction) => {
+        const info = reply as { firstEntry: StreamEntry | null; lastEntry: StreamEntry | null };
+        const [firstEntry, lastEntry] = redactEntries([info.firstEntry, info.lastEntry], keyScope(args), redaction);
+        return { ...info, firstEntry, lastEntry };
+    },
+    "json.get": (reply, args, redaction) =>
+        redactJsonGet(reply, [String(args[0])], (args[1] as { path?: string | string[] } | undefined)?.path, redaction),
+    "json.mGet": (reply, args, redaction) =>
+        (reply as unknown[]).map((document, i) => redactJsonGet(document, [String((args[0] as string[])[i])], args[1] as string, redaction)),
+    // The popped element's index is not known, so treat it like the value of a wildcard path
+    "json.arrPop": (reply, args, redaction) => redactJson(reply, { ...keyScope(args), path: null }, redaction),
+    // Each document is read from the key named by its id. Hash fields are scoped as fields, and the
+    // properties of a JSON document, or fields returned by alias, as top-level JSON paths.
+    "ft.search": (reply, _args, redaction) => {
+        const { documents, ...rest } = reply as { documents: Array<{ id: string; value: Record<string, unknown> }> };
+        return {
+            ...rest,
+            documents: documents.map(({ id, value }) => ({
+                id,
+                value: Object.fromEntries(Object.entries(value).map(([property, item]) =>
+                    [property, redactJson(item, { keys: [id], field: property, path: [property] }, redaction)])),
+            })),
+        };
+    },
+    // Aggregated rows belong to no particular key, so only field rules without keys and the detectors apply
+    "ft.aggregate": (reply, _args, redaction) => {
+        const { results, ...rest } = reply as { results: Array<Record<string, unknown>> };
+        return { ...rest, results: results.map((result) => redactFields(result, { keys: [] }, redaction)) };
+    },
+    dump: opaque((args) => String(args[0])),
+    eval: opaque(scriptKeys),
+    evalSha: opaque(scriptKeys),
+    evalRo: opaque(scriptKeys),
+    evalShaRo: opaque(scriptKeys),
+    fCall: opaque(scriptKeys),
+    fCallRo: opaque(scriptKeys),
+};
+REPLY_REDACTORS.brPop = REPLY_REDACTORS.blPop;
+REPLY_REDACTORS.xRevRange = REPLY_REDACTORS.xRange;
+REPLY_REDACTORS.xReadGroup = REPLY_REDACTORS.xRead;
+
+// Pub/sub messages belong to no key, so only the detectors apply to them
+function redactSubscriber(subscriber: RedisClient, redaction: CompiledRedaction): RedisClient {
+    return new Proxy(subscriber, {
+        get: (target, property, receiver) => {
+            const value = Reflect.get(target, property, receiver);
+            if (property === "subscribe" || property === "pSubscribe") {
+                return (channels: string | string[], listener: (message: unknown, channel: unknown) => void, bufferMode?: boolean) =>
+                    (value as Function).call(target, channels, (message: unknown, channel: unknown) =>
+                        listener(redactLeaves(message, { keys: [] }, redaction), channel), bufferMode);
+            }
+            return typeof value === "function" ? value.bind(target) : value;
+        },
+    });
+}
+
+function wrap(target: object, redaction: CompiledRedaction, path: string[]): object {
+    return new Proxy(target, {
+        get: (target, property, receiver) => {
+            const value = Reflect.get(target, property, receiver);
+            if (typeof property !== "string") {
+                return value;
+            }
+            const name = [...path, property].join(".");
+            const redactReply = REPLY_REDACTORS[name];
+            if (typeof value === "function" && redactReply) {
+                return async (...args: unknown[]) =>
+                    redactReply(await (value as Function).apply(target, args), args.filter((arg) => !isCommandOptions(arg)), redaction);
+            }
+            if (typeof value === "function" && name === "duplicate") {
+                return (...args: unknown[]) => redactSubscriber((value as Function).apply(target, args), redaction);
+            }
+            if (typeof value === "function") {
+                return value.bind(target);
+            }
+            // Module commands live in namespaces such as redisClient.json
+            if ((name === "json" || name === "ft") && value !== null && typeof value === "object") {
+                return wrap(value, redaction, [name]);
+            }
+            return value;
+        },
+    });
+}
+
+// Patterns of the keys that a rule covers, in whole or in part, or whose reads are blocked
+export function redactedKeyPatterns(config: RedactionConfig | undefined): string[] {
+    return config ? [...config.blockKeyPatterns, ...config.rules.flatMap((rule) => rule.keys ?? ["*"])] : [];
+}
+
+// Whether redaction may change values read from the key: reads of it are blocked, a rule covers
+// it, or detectors look at every value
+export function mayRedactKey(key: string, config: RedactionConfig | undefined): boolean {
+    return (config?.detectors.length ?? 0) > 0 || redactedKeyPatterns(config).some((pattern) => matchesPattern(key, pattern));
+}
+
+// The rules naming the key, in order, which decide how its values are redacted
+function keyRules(key: string, config: RedactionConfig): RedactionRule[] {
+    return config.rules.filter((rule) => !rule.keys || rule.keys.some((pattern) => matchesPattern(key, pattern)));
+}
+
+// Refuse to move or copy a value to a key where redaction would not cover it the same way,
+// which would let read tools return it in plain text from the new key
+export function assertRedactionKept(source: string, destination: string, policy: AccessPolicy): void {
+    if (!isKeyReadable(source, policy)) {
+        throw new Error(`Access denied: reads of key ${source} are blocked`);
+    }
+    if (!policy.redaction) {
+        return;
+    }
+    const sourceRules = keyRules(source, policy.redaction);
+    const destinationRules = keyRules(destination, policy.redaction);
+    if (sourceRules.length !== destinationRules.length || sourceRules.some((rule, i) => rule !== destinationRules[i])) {
+        throw new Error(`Access denied: key ${destination} is not redacted by the same rules as ${source}`);
+    }
+}
+
+// Apply the detectors to every string in a value that belongs to no key, such as a tool argument
+export function redactDetected(value: unknown, config: RedactionConfig | undefined): unknown {
+    if (!config || config.detectors.length === 0) {
+        return value;
+    }
+    const redaction = compile(config);
+    const redact = (item: unknown): unknown => {
+        if (typeof item === "string") {
+            return detect(item, redaction);
+        }
+        if (Array.isArray(item)) {
+            return item.map(redact);
+        }
+        if (item !== null && typeof item === "object") {
+            return Object.fromEntries(Object.entries(item).map(([k, v]) => [k, redact(v)]));
+        }
+        return item;
+    };
+    return redact(value);
+}
+
+// A stand-in for the Redis client that redacts stored values in replies before any tool
+// result is built from them. Without a redaction config the client is returned as is.
+export function redactClient(client: RedisClient, config: RedactionConfig | undefined): RedisClient {
+    return config ? wrap(client, compile(config), []) as RedisClient : client;
+}
@@ -0,0 +1,137 @@
+import { createClient } from 'redis';
+import { byteSize } from './output.js';
+
+export type RedisClient = ReturnType<typeof createClient>;
+
+// Upper bound for commands that block waiting for data (BLPOP, XREAD BLOCK, ...)
+export const MAX_BLOCKING_TIMEOUT = 30; // seconds
+
+// Database index selected by the path of a redis://host:port/<db> URL
+export function parseDatabase(url: string): number {
+    const db = Number(new URL(url).pathname.slice(1));
+    return Number.isInteger(db) && db >= 0 ? db : 0;
+}
+
+// Resolve LRANGE and ZRANGE indexes, where negative ones count from the end, against the length of
+// the list or sorted set. The range is empty when stop ends up before start.
+function resolveRange(length: number, start: number, stop: number): { start: number; stop: number; count: number } {
+    const from = Math.max(start < 0 ? length + start : start, 0);
+    const to = Math.min(stop < 0 ? length + stop : stop, length - 1);
+    return { start: from, stop: to, count: Math.max(to - from + 1, 0) };
+}
+
+// A stop index that reads at most maxItems elements from start before the length is known
+function boundedStop(start: number, stop: number, maxItems: number): number {
+    const last = start + maxItems - 1;
+    if (start >= 0) {
+        return stop >= 0 ? Math.min(stop, last) : last;
+    }
+    // From a start counted from the end, a stop counted from the head reads no more than -start elements
+    return stop < 0 ? Math.min(stop, last) : last < 0 ? last : stop;
+}
+
+// Read at most maxItems elements of a range of a list or sorted set in the same round as its length,
+// so that the tools reading it can be batched in a transaction. Redis clamps a start before the head
+// to the head, which would leave fewer elements up to the bounded stop, so for a start far enough
+// from the end the leading elements are read as well.
+export async function readRange<T>(
+    length: Promise<number>,
+    read: (start: number, stop: number) => Promise<T[]>,
+    start: number,
+    stop: number,
+    maxItems: number
+): Promise<{ range: { start: number; stop: number; count: number }; items: T[] }> {
+    const [total, items, head] = await Promise.all([
+        length,
+        read(start, boundedStop(start, stop, maxItems)),
+        start < -maxItems ? read(0, stop >= 0 ? Math.min(stop, maxItems - 1) : maxItems - 1) : null,
+    ]);
+    const range = resolveRange(total, start, stop);
+    return { range, items: (head && total + start < 0 ? head : items).slice(0, range.count) };
+}
+
+// Cursor-based iteration helpers
+// SCAN may return an empty page with a non-zero cursor, so keep fetching pages until we have
+// collected at least `limit` items or about `maxBytes` bytes, or the iteration is complete.
+// Whole pages are kept so that no item is skipped when resuming from the cursor.
+export async function scanPages<T>(
+    cursor: number,
+    limit: number,
+    fetchPage: (cursor: number) => Promise<{ cursor: number; items: T[] }>,
+    maxBytes = Infinity
+): Promise<{ cursor: number; items: T[] }> {
+    const items: T[] = [];
+    let nextCursor = cursor;
+    let bytes = 0;
+    do {
+        const page = await fetchPage(nextCursor);
+        nextCursor = page.cursor;
+        items.push(...page.items);
+        bytes += byteSize(page.items);
+    } while (nextCursor !== 0 && items.length < limit && bytes < maxBytes);
+    return { cursor: nextCursor, items };
+}
+
+// SCAN across several nodes (every master of a cluster). The cursor is the plain SCAN cursor
+// when there is a single node, and "<node index>:<node cursor>" otherwise; "0" starts and ends the scan.
+export async function scanKeys(
+    nodes: RedisClient[],
+    cursor: string,
+    limit: number,
+    options: { MATCH?: string; COUNT?: number; TYPE?: string },
+    filter: (key: string) => boolean = () => true
+): Promise<{ cursor: string; keys: string[] }> {
+    const match = /^(?:(\d+):)?(\d+)$/.exec(cursor);
+    let nodeIndex = match?.[1] !== undefined ? Number(match[1]) : 0;
+    let nodeCursor = match ? Number(match[2]) : NaN;
+    if (!match || nodeIndex >= nodes.length || (match[1] === undefined && nodes.length > 1 && nodeCursor !== 0)) {
+        throw new Error(`Invalid cursor: ${cursor}`);
+    }
+
+    const keys: string[] = [];
+    while (nodeIndex < nodes.length && keys.length < limit) {
+        const node = nodes[nodeIndex];
+        const page = await scanPages(nodeCursor, limit - keys.length, async (c) => {
+            const reply = await node.scan(c, options);
+            return { cursor: reply.cursor, items: reply.keys.filter(filter) };
+        });
+        keys.push(...page.items);
+        if (page.cursor === 0) {
+            nodeIndex++;
+            nodeCursor = 0;
+        } else {
+            nodeCursor = page.cursor;
+        }
+    }
+
+    if (nodeIndex >= nodes.length) {
+        return { cursor: "0", keys };
+    }
+    return { cursor: nodes.length === 1 ? String(nodeCursor) : `${nodeIndex}:${nodeCursor}`, keys };
+}
+
+// commandOptions() tags its object with a private symbol
+export function isCommandOptions(value: unknown): value is { returnBuffers?: boolean } {
+    return value !== null && typeof value === "object" &&
+        Object.getOwnPropertySymbols(value).some((symbol) => symbol.description === "Command Options");
+}
+
+export function formatCursor(cursor: number | string): string {
+    return cursor === 0 || cursor === "0"
+        ? "Scan complete (cursor: 0)"
+        : `Next cursor: ${cursor} (pass it as cursor to fetch more)`;
+}
+
+// Redis replies with "ERR unknown command 'JSON.GET'" when a module command is not available,
+// which says nothing about why. Turn it into an error the agent can act on.
+export async function withModule<T>(moduleName: string, commandPrefix: string, fn: () => Promise<T>): Promise<T> {
+    try {
+        return await fn();
+    } catch (error) {
+        const message = (error as Error).message ?? "";
+        if (/unknown command/i.test(message) && message.toUpperCase().includes(commandPrefix.toUpperCase())) {
+            throw new Error(`The ${moduleName} module is not loaded on this Redis server (requires Redis Stack or the ${moduleName} module)`);
+        }
+        throw error;
+    }
+}
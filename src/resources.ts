@@ -0,0 +1,228 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+    ListResourcesRequestSchema,
+    ListResourceTemplatesRequestSchema,
+    ReadResourceRequestSchema,
+    SubscribeRequestSchema,
+    UnsubscribeRequestSchema,
+} from "@modelcontextprotocol/sdk/types.js";
+import { AccessPolicy, assertKeysAllowed, isKeyAllowed } from "./access.js";
+import { ServerConfig } from "./config.js";
+import { ConnectionRegistry } from "./connection.js";
+import { OutputLimits, limitBytes, limitItems, limitJson, outputLimits } from "./output.js";
+import { redactClient } from "./redaction.js";
+import { RedisClient, scanKeys, withModule } from "./redis.js";
+
+const RESOURCE_PAGE_SIZE = 100;
+
+export interface KeyValue {
+    type: string;
+    value: unknown;
+    // Elements, members, fields or entries of the key, or the length of a string in bytes
+    total: number;
+    truncated: boolean;
+}
+
+function limitedValue<T>(
+    type: string,
+    all: T[],
+    total: number,
+    limits: OutputLimits,
+    render: (items: T[]) => unknown = (items) => items
+): KeyValue {
+    const items = limitItems(all, limits);
+    return { type, value: render(items), total, truncated: items.length < total };
+}
+
+// Read a key with the command matching its type, or null if the key does not exist.
+// Only as much of it as the output limits allow is returned.
+export async function readKeyValue(redisClient: RedisClient, key: string, limits: OutputLimits): Promise<KeyValue | null> {
+    const type = await redisClient.type(key);
+    switch (type) {
+        case "none":
+            return null;
+        case "string": {
+            // Read whole, so that redaction applies to the whole value
+            const value = Buffer.from(await redisClient.get(key) ?? "");
+            const part = limitBytes(value, limits.maxBytes);
+            return { type, value: part.toString(), total: value.length, truncated: part.length < value.length };
+        }
+        case "hash": {
+            const all = Object.entries(await redisClient.hGetAll(key));
+            return limitedValue(type, all, all.length, limits, Object.fromEntries);
+        }
+        case "set": {
+            const all = await redisClient.sMembers(key);
+            return limitedValue(type, all, all.length, limits);
+        }
+        case "zset": {
+            const [total, all] = await Promise.all([redisClient.zCard(key), redisClient.zRangeWithScores(key, 0, limits.maxItems - 1)]);
+            return limitedValue(type, all, total, limits);
+        }
+        case "list": {
+            const [total, all] = await Promise.all([redisClient.lLen(key), redisClient.lRange(key, 0, limits.maxItems - 1)]);
+            return limitedValue(type, all, total, limits);
+        }
+        case "stream": {
+            const [total, all] = await Promise.all([redisClient.xLen(key), redisClient.xRange(key, "-", "+", { COUNT: limits.maxItems })]);
+            return limitedValue(type, all, total, limits);
+        }
+        case "ReJSON-RL":
+            return { type, ...limitJson(await withModule("RedisJSON", "JSON.", () => redisClient.json.get(key)), limits) };
+        default:
+            throw new Error(`Unsupported key type: ${type}`);
+    }
+}
+
+export function keyUri(db: number, key: string): string {
+    return `redis://${db}/${encodeURIComponent(key)}`;
+}
+
+function parseKeyUri(uri: string, db: number): string {
+    const match = /^redis:\/\/(\d+)\/(.+)$/s.exec(uri);
+    if (!match) {
+        throw new Error(`Invalid resource URI: ${uri} (expected redis://{db}/{key})`);
+    }
+    if (Number(match[1]) !== db) {
+        throw new Error(`Resource ${uri} refers to database ${match[1]}, but the server is connected to database ${db}`);
+    }
+    return decodeURIComponent(match[2]);
+}
+
+async function warnIfKeyspaceEventsDisabled(redisClient: RedisClient): Promise<void> {
+    try {
+        const config = await redisClient.configGet("notify-keyspace-events");
+        const flags = config["notify-keyspace-events"] ?? "";
+        if (!flags.includes("K") || !/[Ag$lshzxet]/.test(flags)) {
+            console.error("[Redis Warning] Keyspace notifications are disabled, subscribed resources will not receive updates");
+            console.error("[Redis Warning] Enable them with: CONFIG SET notify-keyspace-events KA");
+        }
+    } catch {
+        // CONFIG is often disabled on managed instances; subscribe anyway
+    }
+}
+
+// Expose keys of the default connection as redis://{db}/{key} resources. Returns a cleanup
+// function that closes the subscriber connection used for resource subscriptions.
+export function registerResourceHandlers(
+    server: Server,
+    connections: ConnectionRegistry,
+    policy: AccessPolicy & Pick<ServerConfig, "maxOutputBytes" | "maxOutputItems">
+): () => Promise<void> {
+    // uri -> function removing the keyspace subscription
+    const subscriptions = new Map<string, () => Promise<void>>();
+    let subscriber: Promise<RedisClient> | undefined;
+
+    // A client in subscriber mode can't run other commands, so subscriptions get their own connection
+    function getSubscriber(redisClient: RedisClient): Promise<RedisClient> {
+        if (!subscriber) {
+            const client = redisClient.duplicate();
+            client.on('error', (err: Error) => {
+                console.error(`[Redis Error] Subscriber: ${err.name}: ${err.message}`);
+            });
+            const connecting: Promise<RedisClient> = (async () => {
+                await client.connect();
+                await warnIfKeyspaceEventsDisabled(redisClient);
+                return client;
+            })().catch(async (error) => {
+                // Forget a connection that failed, so that the next subscription tries again
+                if (subscriber === connecting) {
+                    subscriber = undefined;
+                }
+                await client.disconnect().catch(() => {});
+                throw error;
+            });
+            subscriber = connecting;
+        }
+        return subscriber;
+    }
+
+    server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+        return {
+            resourceTemplates: [
+                {
+                    uriTemplate: "redis://{db}/{key}",
+                    name: "Redis key",
+                    description: "Contents of a Redis key, rendered according to its type and cut to the server's output limits",
+                },
+            ],
+        };
+    });
+
+    server.setRequestHandler(ListResourcesRequestSchema, async (request) => {
+        const connection = await connections.get();
+        const result = await scanKeys(
+            await connection.nodeClients(),
+            request.params?.cursor ?? "0",
+            RESOURCE_PAGE_SIZE,
+            { COUNT: RESOURCE_PAGE_SIZE },
+            (key) => isKeyAllowed(key, policy)
+        );
+        return {
+            resources: result.keys.map((key) => ({ uri: keyUri(connection.db, key), name: key })),
+            ...(result.cursor !== "0" ? { nextCursor: result.cursor } : {}),
+        };
+    });
+
+    server.setRequestHandler(ReadResourceRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const connection = await connections.get();
+        const key = parseKeyUri(uri, connection.db);
+        assertKeysAllowed([key], false, policy);
+        const entry = await readKeyValue(redactClient(connection.client, policy.redaction), key, outputLimits(policy, {}));
+        if (entry === null) {
+            throw new Error(`Key not found: ${key}`);
+        }
+        // A cut short value says so in _meta, along with the full size of the key
+        const meta = entry.truncated ? { _meta: { truncated: true, total: entry.total } } : {};
+        return {
+            contents: [
+                entry.type === "string"
+                    ? { uri, mimeType: "text/plain", text: entry.value as string, ...meta }
+                    : { uri, mimeType: "application/json", text: JSON.stringify(entry.value, null, 2), ...meta },
+            ],
+        };
+    });
+
+    server.setRequestHandler(SubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const connection = await connections.get();
+        const key = parseKeyUri(uri, connection.db);
+        assertKeysAllowed([key], false, policy);
+        if (connection.mode === "cluster") {
+            // Keyspace notifications are only published on the node owning the key
+            throw new Error("Resource subscriptions are not supported in cluster mode");
+        }
+        if (!subscriptions.has(uri)) {
+            const client = await getSubscriber(connection.client);
+            const channel = `__keyspace@${connection.db}__:${key}`;
+            const listener = () => {
+                server.sendResourceUpdated({ uri }).catch((err: Error) => {
+                    console.error(`[MCP Error] Failed to notify resource update for ${uri}: ${err.message}`);
+                });
+            };
+            // Use SUBSCRIBE rather than PSUBSCRIBE so glob characters in key names are matched literally
+            await client.subscribe(channel, listener);
+            subscriptions.set(uri, () => client.unsubscribe(channel, listener));
+        }
+        return {};
+    });
+
+    server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+        const { uri } = request.params;
+        const unsubscribe = subscriptions.get(uri);
+        if (unsubscribe) {
+            subscriptions.delete(uri);
+            await unsubscribe();
+        }
+        return {};
+    });
+
+    return async () => {
+        subscriptions.clear();
+        if (subscriber) {
+            const client = await subscriber.catch(() => undefined);
+            await client?.quit().catch(() => {});
+        }
+    };
+}
@@ -0,0 +1,388 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { createHash } from "crypto";
+import { readdirSync, readFileSync } from "fs";
+import { basename, join } from "path";
+import { z } from "zod";
+import { ServerConfig } from "./config.js";
+import { toolResult } from "./output.js";
+import { RedisClient } from "./redis.js";
+import { ConnectionToolGroup, ToolContext } from "./types.js";
+
+interface RegisteredScript {
+    source: string;
+    sha: string;
+}
+
+// Scripting schemas
+const ScriptArgumentsSchema = z.object({
+    script: z.string().optional(),
+    name: z.string().optional(),
+    sha: z.string().regex(/^[0-9a-fA-F]{40}$/, "Expected a SHA1 digest").optional(),
+    keys: z.array(z.string()).default([]),
+    args: z.array(z.string()).default([]),
+}).refine((value) => [value.script, value.name, value.sha].filter((v) => v !== undefined).length === 1, {
+    message: "Provide exactly one of script, name or sha",
+});
+
+const ScriptLoadArgumentsSchema = z.object({
+    script: z.string().optional(),
+    name: z.string().optional(),
+}).refine((value) => (value.script === undefined) !== (value.name === undefined), {
+    message: "Provide exactly one of script or name",
+});
+
+const FunctionCallArgumentsSchema = z.object({
+    function: z.string(),
+    keys: z.array(z.string()).default([]),
+    args: z.array(z.string()).default([]),
+});
+
+const FunctionListArgumentsSchema = z.object({
+    libraryName: z.string().optional(),
+    withCode: z.boolean().default(false),
+    node: z.string().optional(),
+});
+
+const FunctionLoadArgumentsSchema = z.object({
+    code: z.string().optional(),
+    name: z.string().optional(),
+    replace: z.boolean().default(false),
+}).refine((value) => (value.code === undefined) !== (value.name === undefined), {
+    message: "Provide exactly one of code or name",
+});
+
+const KEYS_AND_ARGS_PROPERTIES = {
+    keys: { type: "array", items: { type: "string" }, description: "Key names, available to the script as KEYS" },
+    args: { type: "array", items: { type: "string" }, description: "Additional arguments, available to the script as ARGV" },
+};
+
+const REPLY_PROPERTIES = {
+    reply: { description: "The reply, converted from the Redis reply types" },
+};
+
+function sha1(source: string): string {
+    return createHash("sha1").update(source).digest("hex");
+}
+
+// Every *.lua file in the directory, named after the file
+function loadScripts(dir: string): Map<string, RegisteredScript> {
+    const scripts = new Map<string, RegisteredScript>();
+    let files: string[];
+    try {
+        files = readdirSync(dir).filter((file) => file.endsWith(".lua")).sort();
+    } catch (error) {
+        throw new Error(`Cannot read scripts directory ${dir}: ${(error as Error).message}`);
+    }
+    for (const file of files) {
+        const source = readFileSync(join(dir, file), "utf8");
+        scripts.set(basename(file, ".lua"), { source, sha: sha1(source) });
+    }
+    return scripts;
+}
+
+function isNoScriptError(error: unknown): boolean {
+    return error instanceof Error && error.message.startsWith("NOSCRIPT");
+}
+
+function formatReply(reply: unknown): string {
+    return JSON.stringify(reply, (_, value) => Buffer.isBuffer(value) ? value.toString("utf8") : value);
+}
+
+type ScriptingConfig = Pick<ServerConfig, "scriptsDir" | "registeredScriptsOnly" | "readOnly" | "keyPatterns" | "writeKeyPatterns" | "redaction">;
+
+// Code passed in a call can read and write keys it doesn't declare, so it can't run while the
+// server restricts which keys calls may access or whether they may write. Returns why not.
+function arbitraryCodeRestriction(config: ScriptingConfig): string | undefined {
+    if (config.registeredScriptsOnly) {
+        return "";
+    }
+    if (config.readOnly) {
+        return " in read-only mode";
+    }
+    if (config.keyPatterns || config.writeKeyPatterns) {
+        return " while key patterns are configured";
+    }
+    if (config.redaction?.blockKeyPatterns.length) {
+        return " while reads of some keys are blocked";
+    }
+    return undefined;
+}
+
+export function createScriptingToolGroup(config: ScriptingConfig): ConnectionToolGroup {
+    const registered = config.scriptsDir ? loadScripts(config.scriptsDir) : new Map<string, RegisteredScript>();
+    const registeredNames = [...registered.keys()];
+    const restriction = arbitraryCodeRestriction(config);
+    const arbitrary = restriction === undefined;
+
+    // Sources by SHA1, so that a script evicted from the server's cache can be sent again
+    const sources = new Map<string, string>([...registered.values()].map(({ source, sha }) => [sha, source]));
+
+    const nameProperty = {
+        name: {
+            type: "string",
+            ...(registeredNames.length > 0 ? { enum: registeredNames } : {}),
+            description: `Registered script to run, from the scripts directory${registeredNames.length > 0 ? "" : " (none registered)"}`,
+        },
+    };
+    const scriptProperties = {
+        ...(arbitrary ? { script: { type: "string", description: "Lua source to run" } } : {}),
+        ...nameProperty,
+        sha: { type: "string", description: `SHA1 of a script loaded with script_load${arbitrary ? "" : " (registered scripts only)"}` },
+        ...KEYS_AND_ARGS_PROPERTIES,
+    };
+    const sourceChoice = arbitrary ? "Pass the Lua source as script, a registered script's name, or the SHA1 returned by script_load" : "Pass a registered script's name or its SHA1";
+
+    const tools: Tool[] = [
+        {
+            name: "eval",
+            description: `Run a Lua script with EVALSHA, sending the source only when the server does not have it cached. ${sourceChoice}`,
+            inputSchema: {
+                type: "object",
+                properties: scriptProperties,
+            },
+            outputSchema: {
+                type: "object",
+                properties: REPLY_PROPERTIES,
+                required: ["reply"],
+            },
+        },
+        {
+            name: "eval_ro",
+            description: `Run a read-only Lua script with EVALSHA_RO; Redis rejects any write it attempts (Redis 7+). ${sourceChoice}`,
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                type: "object",
+                properties: scriptProperties,
+            },
+            outputSchema: {
+                type: "object",
+                properties: REPLY_PROPERTIES,
+                required: ["reply"],
+            },
+        },
+        {
+            name: "script_load",
+            description: "Load a Lua script into the script cache (on every master in cluster mode) and return its SHA1 for eval and eval_ro",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    ...(arbitrary ? { script: { type: "string", description: "Lua source to load" } } : {}),
+                    ...nameProperty,
+                },
+            },
+            outputSchema: {
+                type: "object",
+                properties: {
+                    sha: { type: "string" },
+                },
+                required: ["sha"],
+            },
+        },
+        {
+            name: "fcall",
+            description: "Call a function from a library loaded with function_load (Redis 7+)",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    function: { type: "string", description: "Function name" },
+                    ...KEYS_AND_ARGS_PROPERTIES,
+                },
+                required: ["function"],
+            },
+            outputSchema: {
+                type: "object",
+                properties: REPLY_PROPERTIES,
+                required: ["reply"],
+            },
+        },
+        {
+            name: "fcall_ro",
+            description: "Call a function flagged no-writes with FCALL_RO (Redis 7+)",
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                type: "object",
+                properties: {
+                    function: { type: "string", description: "Function name" },
+                    ...KEYS_AND_ARGS_PROPERTIES,
+                },
+                required: ["function"],
+            },
+            outputSchema: {
+                type: "object",
+                properties: REPLY_PROPERTIES,
+                required: ["reply"],
+            },
+        },
+        {
+            name: "function_list",
+            description: "List the function libraries loaded on the server, with their functions and flags",
+            annotations: { readOnlyHint: true },
+            inputSchema: {
+                type: "object",
+                properties: {
+                    libraryName: { type: "string", description: "Only list libraries whose names match this pattern" },
+                    withCode: { type: "boolean", description: "Include each library's source (default: false)" },
+                    node: { type: "string", description: "Cluster only: master node (host:port) to query (default: the first master)" },
+                },
+            },
+            outputSchema: {
+                type: "object",
+                properties: {
+                    libraries: {
+                        type: "array",
+                        items: {
+                            type: "object",
+                            properties: {
+                                libraryName: { type: "string" },
+                                engine: { type: "string" },
+                                functions: {
+                                    type: "array",
+                                    items: {
+                                        type: "object",
+                                        properties: {
+                                            name: { type: "string" },
+                                            description: { type: ["string", "null"] },
+                                            flags: { type: "array", items: { type: "string" } },
+                                        },
+                                        required: ["name", "description", "flags"],
+                                    },
+                                },
+                                libraryCode: { type: "string" },
+                            },
+                            required: ["libraryName", "engine", "functions"],
+                        },
+                    },
+                },
+                required: ["libraries"],
+            },
+        },
+        {
+            name: "function_load",
+            description: "Load a function library (on every master in cluster mode). The source must start with a #!lua name=<library> line",
+            inputSchema: {
+                type: "object",
+                properties: {
+                    ...(arbitrary ? { code: { type: "string", description: "Library source" } } : {}),
+                    name: { ...nameProperty.name, description: "Registered script holding the library source" },
+                    replace: { type: "boolean", description: "Replace a library with the same name (default: false)" },
+                },
+            },
+            outputSchema: {
+                type: "object",
+                properties: {
+                    libraryName: { type: "string" },
+                },
+                required: ["libraryName"],
+            },
+        },
+    ];
+
+    function registeredScript(name: string): RegisteredScript {
+        const script = registered.get(name);
+        if (!script) {
+            throw new Error(`Unknown script: ${name} (registered: ${registeredNames.join(", ") || "none"})`);
+        }
+        return script;
+    }
+
+    function assertArbitraryAllowed(field: string): void {
+        if (!arbitrary) {
+            throw new Error(`Only registered scripts may run on this server${restriction}: pass name instead of ${field}`);
+        }
+    }
+
+    // A function already loaded on the server runs whatever code its library holds, so only functions
+    // of libraries loaded from a registered script may be called
+    async function assertRegisteredFunction(redisClient: RedisClient, fn: string): Promise<void> {
+        if (arbitrary) {
+            return;
+        }
+        const library = (await redisClient.functionListWithCode()).find((lib) => lib.functions.some((f) => f.name === fn));
+        if (library && ![...registered.values()].some((script) => script.source === library.libraryCode)) {
+            throw new Error(`Only registered scripts may run on this server${restriction}: function ${fn} is not from a registered library`);
+        }
+    }
+
+    // EVALSHA first, falling back to EVAL (which also caches the script) when the server doesn't know it
+    async function evalScript(redisClient: RedisClient, sha: string, keys: string[], args: string[], readOnly: boolean): Promise<unknown> {
+        const options = { keys, arguments: args };
+        try {
+            return readOnly ? await redisClient.evalShaRo(sha, options) : await redisClient.evalSha(sha, options);
+        } catch (error) {
+            const source = sources.get(sha);
+            if (source === undefined || !isNoScriptError(error)) {
+                throw error;
+            }
+            return readOnly ? await redisClient.evalRo(source, options) : await redisClient.eval(source, options);
+        }
+    }
+
+    async function handle({ redisClient, connection }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+        if (name === "eval" || name === "eval_ro") {
+            const { script, name: scriptName, sha, keys, args: scriptArgs } = ScriptArgumentsSchema.parse(args);
+            let digest: string;
+            if (script !== undefined) {
+                assertArbitraryAllowed("script");
+                digest = sha1(script);
+                sources.set(digest, script);
+            } else if (scriptName !== undefined) {
+                digest = registeredScript(scriptName).sha;
+            } else {
+                digest = sha!.toLowerCase();
+                if (!arbitrary && ![...registered.values()].some((s) => s.sha === digest)) {
+                    throw new Error(`Only registered scripts may run on this server${restriction}: ${digest} is not the SHA1 of a registered script`);
+                }
+            }
+            const reply = await evalScript(redisClient, digest, keys, scriptArgs, name === "eval_ro");
+            return toolResult(`Script result: ${formatReply(reply)}`, { reply });
+        } else if (name === "script_load") {
+            const { script, name: scriptName } = ScriptLoadArgumentsSchema.parse(args);
+            if (script !== undefined) {
+                assertArbitraryAllowed("script");
+            }
+            const source = script ?? registeredScript(scriptName!).source;
+            let sha = sha1(source);
+            for (const client of await connection.nodeClients()) {
+                sha = await client.scriptLoad(source);
+            }
+            sources.set(sha, source);
+            return toolResult(`Successfully loaded script: ${sha}`, { sha });
+        } else if (name === "fcall" || name === "fcall_ro") {
+            const { function: fn, keys, args: fnArgs } = FunctionCallArgumentsSchema.parse(args);
+            await assertRegisteredFunction(redisClient, fn);
+            const options = { keys, arguments: fnArgs };
+            const reply = name === "fcall_ro" ? await redisClient.fCallRo(fn, options) : await redisClient.fCall(fn, options);
+            return toolResult(`Function result: ${formatReply(reply)}`, { reply });
+        } else if (name === "function_list") {
+            const { libraryName, withCode, node } = FunctionListArgumentsSchema.parse(args);
+            const client = await connection.nodeClient(node);
+            const libraries = withCode ? await client.functionListWithCode(libraryName) : await client.functionList(libraryName);
+            if (libraries.length === 0) {
+                return toolResult("No function libraries loaded", { libraries });
+            }
+            return toolResult(
+                `Function libraries:\n${libraries
+                    .map((library) => `${library.libraryName} (${library.engine}): ${library.functions
+                        .map((f) => `${f.name}${f.flags.length > 0 ? ` [${f.flags.join(", ")}]` : ""}`)
+                        .join(", ")}`)
+                    .join('\n')}`,
+                { libraries }
+            );
+        } else if (name === "function_load") {
+            const { code, name: scriptName, replace } = FunctionLoadArgumentsSchema.parse(args);
+            if (code !== undefined) {
+                assertArbitraryAllowed("code");
+            }
+            const source = code ?? registeredScript(scriptName!).source;
+            let libraryName = "";
+            for (const client of await connection.nodeClients()) {
+                libraryName = await client.functionLoad(source, { REPLACE: replace });
+            }
+            return toolResult(`Successfully loaded function library: ${libraryName}`, { libraryName });
+        } else {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+    }
+
+    return { tools, handle };
+}
@@ -0,0 +1,570 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { RediSearchSchema } from "redis";
+import { z } from "zod";
+import { assertPrefixesAllowed, isKeyReadable } from "./access.js";
+import {
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    TRUNCATED_SCHEMA,
+    formatTruncation,
+    limitItems,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { RedisClient, withModule } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Parameters only sees the last overload, which takes command options first
+type AggregateOptions = NonNullable<Parameters<RedisClient["ft"]["aggregate"]>[3]>;
+
+const FIELD_TYPES = ["TEXT", "NUMERIC", "TAG", "GEO"] as const;
+const REDUCERS = [
+    "COUNT", "COUNT_DISTINCT", "COUNT_DISTINCTISH", "SUM", "MIN", "MAX", "AVG", "STDDEV", "QUANTILE", "TOLIST", "FIRST_VALUE", "RANDOM_SAMPLE",
+] as const;
+const GEO_UNITS = ["m", "km", "mi", "ft"] as const;
+
+// Search schemas
+const IndexArgumentsSchema = z.object({
+    index: z.string().min(1),
+});
+
+const SearchFilterSchema = z.object({
+    field: z.string().min(1),
+    min: z.number().optional(),
+    max: z.number().optional(),
+    tags: z.array(z.string()).min(1).optional(),
+    geo: z.object({
+        longitude: z.number(),
+        latitude: z.number(),
+        radius: z.number().positive(),
+        unit: z.enum(GEO_UNITS).default("km"),
+    }).optional(),
+}).refine((filter) => [filter.min !== undefined || filter.max !== undefined, filter.tags, filter.geo].filter(Boolean).length === 1, {
+    message: "Give a numeric range (min and/or max), tags or geo",
+});
+
+const SearchArgumentsSchema = z.object({
+    index: z.string().min(1),
+    query: z.string().default("*"),
+    filters: z.array(SearchFilterSchema).default([]),
+    return: z.array(z.string()).min(1).optional(),
+    sortBy: z.string().optional(),
+    sortDirection: z.enum(["ASC", "DESC"]).default("ASC"),
+    offset: z.number().int().min(0).default(0),
+    limit: z.number().int().min(0).default(10),
+    params: z.record(z.string().or(z.number())).optional(),
+    dialect: z.number().int().positive().optional(),
+}).merge(LimitArgumentsSchema);
+
+const ReducerSchema = z.object({
+    type: z.enum(REDUCERS),
+    property: z.string().optional(),
+    as: z.string().optional(),
+    quantile: z.number().min(0).max(1).optional(),
+    sampleSize: z.number().int().positive().optional(),
+}).refine((reducer) => reducer.type === "COUNT" || reducer.property !== undefined, {
+    message: "Every reducer except COUNT needs a property",
+}).refine((reducer) => reducer.type !== "QUANTILE" || reducer.quantile !== undefined, {
+    message: "QUANTILE needs a quantile",
+}).refine((reducer) => reducer.type !== "RANDOM_SAMPLE" || reducer.sampleSize !== undefined, {
+    message: "RANDOM_SAMPLE needs a sampleSize",
+});
+
+const AggregateStepSchema = z.discriminatedUnion("type", [
+    z.object({
+        type: z.literal("GROUPBY"),
+        properties: z.array(z.string()).default([]),
+        reduce: z.array(ReducerSchema).min(1),
+    }),
+    z.object({
+        type: z.literal("SORTBY"),
+        by: z.array(z.object({
+            property: z.string(),
+            direction: z.enum(["ASC", "DESC"]).default("ASC"),
+        })).min(1),
+        max: z.number().int().positive().optional(),
+    }),
+    z.object({
+        type: z.literal("APPLY"),
+        expression: z.string(),
+        as: z.string(),
+    }),
+    z.object({
+        type: z.literal("FILTER"),
+        expression: z.string(),
+    }),
+    z.object({
+        type: z.literal("LIMIT"),
+        offset: z.number().int().min(0),
+        count: z.number().int().positive(),
+    }),
+]);
+
+const AggregateArgumentsSchema = z.object({
+    index: z.string().min(1),
+    query: z.string().default("*"),
+    load: z.array(z.string().regex(/^(@|\$\.)/, "Name loaded fields as @field or $.path")).min(1).optional(),
+    steps: z.array(AggregateStepSchema).default([]),
+    params: z.record(z.string().or(z.number())).optional(),
+    dialect: z.number().int().positive().optional(),
+}).merge(LimitArgumentsSchema);
+
+const CreateIndexArgumentsSchema = z.object({
+    index: z.string().min(1),
+    on: z.enum(["HASH", "JSON"]).default("HASH"),
+    prefixes: z.array(z.string()).default([]),
+    schema: z.array(z.object({
+        field: z.string().min(1),
+        type: z.enum(FIELD_TYPES),
+        as: z.string().optional(),
+        sortable: z.boolean().optional(),
+        noIndex: z.boolean().optional(),
+        separator: z.string().length(1).optional(),
+        caseSensitive: z.boolean().optional(),
+        weight: z.number().positive().optional(),
+    })).min(1),
+    filter: z.string().optional(),
+});
+
+const DropIndexArgumentsSchema = z.object({
+    index: z.string().min(1),
+    deleteDocuments: z.boolean().default(false),
+});
+
+export const searchTools: Tool[] = [
+    {
+        name: "ft_list",
+        description: "List the names of all RediSearch indexes",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {},
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                indexes: { type: "array", items: { type: "string" } },
+            },
+            required: ["indexes"],
+        },
+    },
+    {
+        name: "ft_info",
+        description: "Describe a RediSearch index: the key type and prefixes it covers, its fields, and how many documents it holds",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string", description: "Index name" },
+            },
+            required: ["index"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string" },
+                keyType: { type: "string", description: "HASH or JSON" },
+                prefixes: { type: "array", items: { type: "string" } },
+                filter: { type: ["string", "null"] },
+                fields: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            identifier: { type: "string", description: "Hash field or JSONPath" },
+                            attribute: { type: "string", description: "Name used in queries" },
+                            type: { type: "string" },
+                            sortable: { type: "boolean" },
+                        },
+                        required: ["identifier", "attribute", "type", "sortable"],
+                    },
+                },
+                numDocs: { type: "number" },
+                indexing: { type: "boolean", description: "True while existing keys are still being indexed" },
+                percentIndexed: { type: "number" },
+                indexingFailures: { type: "number" },
+            },
+            required: ["index", "keyType", "prefixes", "filter", "fields", "numDocs", "indexing", "percentIndexed", "indexingFailures"],
+        },
+    },
+    {
+        name: "ft_search",
+        description: "Search a RediSearch index with FT.SEARCH and return the matching documents with their fields",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string", description: "Index name" },
+                query: { type: "string", description: "Query, e.g. @name:ada* or hello world (default: *, every document)" },
+                filters: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            field: { type: "string", description: "Field (attribute) name" },
+                            min: { type: "number", description: "Lower bound of a NUMERIC field (inclusive)" },
+                            max: { type: "number", description: "Upper bound of a NUMERIC field (inclusive)" },
+                            tags: { type: "array", items: { type: "string" }, description: "TAG values, any of which may match" },
+                            geo: {
+                                type: "object",
+                                properties: {
+                                    longitude: { type: "number" },
+                                    latitude: { type: "number" },
+                                    radius: { type: "number" },
+                                    unit: { type: "string", enum: [...GEO_UNITS], description: "Unit of the radius (default: km)" },
+                                },
+                                required: ["longitude", "latitude", "radius"],
+                            },
+                        },
+                        required: ["field"],
+                    },
+                    description: "Conditions every document must also meet, each a numeric range, tags or a GEO radius",
+                },
+                return: { type: "array", items: { type: "string" }, description: "Only return these fields (default: the whole document)" },
+                sortBy: { type: "string", description: "Sortable field to order the results by (default: by relevance)" },
+                sortDirection: { type: "string", enum: ["ASC", "DESC"], description: "Sort order (default: ASC)" },
+                offset: { type: "number", description: "Number of results to skip (default: 0)" },
+                limit: { type: "number", description: "Maximum number of documents to return (default: 10, 0 to only count them)" },
+                params: { type: "object", description: "Values for $name parameters in the query (requires dialect 2 or later)" },
+                dialect: { type: "number", description: "Query dialect version" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["index"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string" },
+                query: { type: "string", description: "The query that was run, with the filters applied" },
+                total: { type: "number", description: "Number of matching documents" },
+                documents: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "string", description: "Key of the document" },
+                            value: { type: "object", description: "Document fields, or the JSON document" },
+                        },
+                        required: ["id", "value"],
+                    },
+                },
+                hidden: { type: "number", description: "Matching documents left out because their keys are not allowed" },
+                ...TRUNCATED_SCHEMA,
+                nextOffset: { type: ["number", "null"], description: "Offset of the next page, null if there are no more results" },
+            },
+            required: ["index", "query", "total", "documents", "hidden", "truncated", "nextOffset"],
+        },
+    },
+    {
+        name: "ft_aggregate",
+        description: "Run an FT.AGGREGATE pipeline on a RediSearch index: load fields, then group, reduce, sort, apply, filter and limit the results in order",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string", description: "Index name" },
+                query: { type: "string", description: "Query selecting the documents (default: *)" },
+                load: { type: "array", items: { type: "string" }, description: "Fields to load from the documents, e.g. @name" },
+                steps: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            type: { type: "string", enum: ["GROUPBY", "SORTBY", "APPLY", "FILTER", "LIMIT"] },
+                            properties: { type: "array", items: { type: "string" }, description: "GROUPBY: fields to group by, e.g. @city" },
+                            reduce: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        type: { type: "string", enum: [...REDUCERS] },
+                                        property: { type: "string", description: "Field to reduce, e.g. @age (not used by COUNT)" },
+                                        as: { type: "string", description: "Name of the result" },
+                                        quantile: { type: "number", description: "QUANTILE: quantile between 0 and 1" },
+                                        sampleSize: { type: "number", description: "RANDOM_SAMPLE: number of values" },
+                                    },
+                                    required: ["type"],
+                                },
+                                description: "GROUPBY: reducers computed for each group",
+                            },
+                            by: {
+                                type: "array",
+                                items: {
+                                    type: "object",
+                                    properties: {
+                                        property: { type: "string" },
+                                        direction: { type: "string", enum: ["ASC", "DESC"] },
+                                    },
+                                    required: ["property"],
+                                },
+                                description: "SORTBY: fields to sort by",
+                            },
+                            max: { type: "number", description: "SORTBY: only keep this many results" },
+                            expression: { type: "string", description: "APPLY or FILTER: expression, e.g. @price * 1.2" },
+                            as: { type: "string", description: "APPLY: name of the result" },
+                            offset: { type: "number", description: "LIMIT: results to skip" },
+                            count: { type: "number", description: "LIMIT: results to return" },
+                        },
+                        required: ["type"],
+                    },
+                    description: "Pipeline steps, applied in order",
+                },
+                params: { type: "object", description: "Values for $name parameters in the query (requires dialect 2 or later)" },
+                dialect: { type: "number", description: "Query dialect version" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["index"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string" },
+                total: { type: "number", description: "Number of results reported by the server" },
+                results: { type: "array", items: { type: "object" }, description: "One object of fields per result" },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["index", "total", "results", "truncated"],
+        },
+    },
+    {
+        name: "ft_create",
+        description: "Create a RediSearch index over the hashes or JSON documents whose keys start with the given prefixes",
+        inputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string", description: "Index name" },
+                on: { type: "string", enum: ["HASH", "JSON"], description: "Type of the indexed keys (default: HASH)" },
+                prefixes: { type: "array", items: { type: "string" }, description: "Key prefixes to index, e.g. user: (default: every key)" },
+                schema: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            field: { type: "string", description: "Hash field, or JSONPath such as $.name for JSON" },
+                            type: { type: "string", enum: [...FIELD_TYPES] },
+                            as: { type: "string", description: "Name to use in queries (required for JSONPaths to be queried by name)" },
+                            sortable: { type: "boolean", description: "Allow sorting by this field" },
+                            noIndex: { type: "boolean", description: "Only store the field for sorting, don't index it" },
+                            separator: { type: "string", description: "TAG: separator of the values (default: ,)" },
+                            caseSensitive: { type: "boolean", description: "TAG: keep the case of the values" },
+                            weight: { type: "number", description: "TEXT: importance of the field in scoring (default: 1)" },
+                        },
+                        required: ["field", "type"],
+                    },
+                    description: "Fields to index",
+                },
+                filter: { type: "string", description: "Only index documents matching this expression, e.g. @age > 16" },
+            },
+            required: ["index", "schema"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string" },
+                created: { type: "boolean" },
+            },
+            required: ["index", "created"],
+        },
+    },
+    {
+        name: "ft_dropindex",
+        description: "Delete a RediSearch index, keeping the indexed keys unless deleteDocuments is set",
+        inputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string", description: "Index name" },
+                deleteDocuments: { type: "boolean", description: "Also delete every key in the index (default: false)" },
+            },
+            required: ["index"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                index: { type: "string" },
+                dropped: { type: "boolean" },
+                deletedDocuments: { type: "boolean" },
+            },
+            required: ["index", "dropped", "deletedDocuments"],
+        },
+    },
+];
+
+// Characters with a meaning in the query syntax are escaped in field names and tag values
+function escapeQuery(value: string): string {
+    return value.replace(/[,.<>{}[\]"':;!@#$%^&*()\-+=~|/\\\s]/g, "\\$&");
+}
+
+function formatFilter({ field, min, max, tags, geo }: z.infer<typeof SearchFilterSchema>): string {
+    const name = `@${escapeQuery(field)}`;
+    if (tags) {
+        return `${name}:{${tags.map(escapeQuery).join(" | ")}}`;
+    }
+    if (geo) {
+        return `${name}:[${geo.longitude} ${geo.latitude} ${geo.radius} ${geo.unit}]`;
+    }
+    return `${name}:[${min ?? "-inf"} ${max ?? "+inf"}]`;
+}
+
+// The filters are added to the query as clauses that every result must also match
+function buildQuery(query: string, filters: z.infer<typeof SearchFilterSchema>[]): string {
+    if (filters.length === 0) {
+        return query;
+    }
+    const clauses = filters.map(formatFilter).join(" ");
+    return query.trim() === "*" ? clauses : `(${query}) ${clauses}`;
+}
+
+function toSchema(fields: z.infer<typeof CreateIndexArgumentsSchema>["schema"]): RediSearchSchema {
+    return Object.fromEntries(fields.map(({ field, type, as, sortable, noIndex, separator, caseSensitive, weight }) => [field, {
+        type,
+        AS: as,
+        SORTABLE: sortable,
+        NOINDEX: noIndex,
+        ...(type === "TAG" ? { SEPARATOR: separator, CASESENSITIVE: caseSensitive || undefined } : {}),
+        ...(type === "TEXT" ? { WEIGHT: weight } : {}),
+    }])) as RediSearchSchema;
+}
+
+function toSteps(steps: z.infer<typeof AggregateStepSchema>[]): AggregateOptions["STEPS"] {
+    return steps.map((step) => {
+        switch (step.type) {
+            case "GROUPBY":
+                return {
+                    type: step.type,
+                    properties: step.properties,
+                    REDUCE: step.reduce.map(({ type, property, as, quantile, sampleSize }) => ({ type, property, AS: as, quantile, sampleSize })),
+                };
+            case "SORTBY":
+                return { type: step.type, BY: step.by.map(({ property, direction }) => ({ BY: property, DIRECTION: direction })), MAX: step.max };
+            case "APPLY":
+                return { type: step.type, expression: step.expression, AS: step.as };
+            case "FILTER":
+                return { type: step.type, expression: step.expression };
+            case "LIMIT":
+                return { type: step.type, from: step.offset, size: step.count };
+        }
+    }) as AggregateOptions["STEPS"];
+}
+
+// FT.INFO replies with the prefixes of an index as an array of strings
+async function indexPrefixes(redisClient: RedisClient, index: string): Promise<string[]> {
+    const info = await redisClient.ft.info(index);
+    return ((info.indexDefinition.prefixes ?? []) as unknown as Array<string | Buffer>).map(String);
+}
+
+export async function handleSearchTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    return withModule("RediSearch", "FT.", async (): Promise<CallToolResult> => {
+        if (name === "ft_list") {
+            const indexes = (await redisClient.ft._list()).map(String);
+            return toolResult(
+                indexes.length > 0 ? `Indexes:\n${indexes.join('\n')}` : "No indexes found",
+                { indexes }
+            );
+        } else if (name === "ft_info") {
+            const { index } = IndexArgumentsSchema.parse(args);
+            const info = await redisClient.ft.info(index);
+            const definition = info.indexDefinition as Record<string, unknown>;
+            const prefixes = ((definition.prefixes ?? []) as Array<string | Buffer>).map(String);
+            const fields = info.attributes.map((attribute) => ({
+                identifier: String(attribute.identifier),
+                attribute: String(attribute.attribute),
+                type: String(attribute.type),
+                // Flags such as SORTABLE have no value, so they end up as a key or a value of the parsed pairs
+                sortable: Object.entries(attribute).flat().map(String).includes("SORTABLE"),
+            }));
+            const data = {
+                index,
+                keyType: String(definition.key_type),
+                prefixes,
+                filter: definition.filter === undefined ? null : String(definition.filter),
+                fields,
+                numDocs: Number(info.numDocs),
+                indexing: Number(info.indexing) !== 0,
+                percentIndexed: Number(info.percentIndexed),
+                indexingFailures: Number(info.hashIndexingFailures),
+            };
+            return toolResult(
+                `Index ${index} on ${data.keyType} keys with prefixes ${prefixes.map((p) => `"${p}"`).join(", ") || "(all keys)"}\n` +
+                `Documents: ${data.numDocs}${data.indexing ? ` (indexing, ${data.percentIndexed * 100}% done)` : ""}, ` +
+                `indexing failures: ${data.indexingFailures}\n` +
+                `Fields:\n${fields.map((f) => `${f.attribute} (${f.type}${f.sortable ? ", sortable" : ""})` +
+                    (f.identifier !== f.attribute ? ` from ${f.identifier}` : "")).join('\n')}`,
+                data
+            );
+        } else if (name === "ft_search") {
+            const { index, query, filters, return: fields, sortBy, sortDirection, offset, limit, params, dialect, ...limitArgs } =
+                SearchArgumentsSchema.parse(args);
+            const limits = outputLimits(config, limitArgs);
+            const fullQuery = buildQuery(query, filters);
+            const reply = await redisClient.ft.search(index, fullQuery, {
+                RETURN: fields,
+                SORTBY: sortBy ? { BY: sortBy, DIRECTION: sortDirection } : undefined,
+                LIMIT: { from: offset, size: Math.min(limit, limits.maxItems) },
+                PARAMS: params,
+                DIALECT: dialect,
+            });
+            const page = limitItems(reply.documents, limits);
+            const truncated = page.length < reply.documents.length;
+            // Documents of keys outside the allowed key patterns are left out, as in list, and so are those of blocked keys
+            const documents = page.filter((document) => isKeyReadable(document.id, config));
+            const hidden = page.length - documents.length;
+            const nextOffset = limit > 0 && offset + page.length < reply.total ? offset + page.length : null;
+            return toolResult(
+                `Found ${reply.total} documents in index ${index}` +
+                (documents.length > 0
+                    ? `, showing ${documents.length} from offset ${offset}:\n` +
+                        documents.map((document) => `${document.id}: ${JSON.stringify(document.value)}`).join('\n')
+                    : "") +
+                (hidden > 0 ? `\n${hidden} documents were left out because their keys are not allowed` : "") +
+                (truncated
+                    ? formatTruncation(page.length, reply.documents.length, "documents", `Call ft_search again with offset: ${nextOffset} to read the rest.`)
+                    : nextOffset !== null ? `\nNext page: call ft_search again with offset: ${nextOffset}` : ""),
+                { index, query: fullQuery, total: reply.total, documents, hidden, truncated, nextOffset }
+            );
+        } else if (name === "ft_aggregate") {
+            const { index, query, load, steps, params, dialect, ...limitArgs } = AggregateArgumentsSchema.parse(args);
+            // Aggregated rows don't name their keys, so the whole index must be readable
+            assertPrefixesAllowed(index, await indexPrefixes(redisClient, index), false, config);
+            const reply = await redisClient.ft.aggregate(index, query, {
+                LOAD: load as AggregateOptions["LOAD"],
+                STEPS: toSteps(steps),
+                PARAMS: params,
+                DIALECT: dialect,
+            });
+            const results = limitItems(reply.results, outputLimits(config, limitArgs));
+            const truncated = results.length < reply.results.length;
+            return toolResult(
+                `Aggregated ${reply.total} results from index ${index}` +
+                (results.length > 0 ? `:\n${results.map((result) => JSON.stringify(result)).join('\n')}` : "") +
+                (truncated
+                    ? formatTruncation(results.length, reply.results.length, "results", "Add a LIMIT step to page through the rest.")
+                    : ""),
+                { index, total: reply.total, results, truncated }
+            );
+        } else if (name === "ft_create") {
+            const { index, on, prefixes, schema, filter } = CreateIndexArgumentsSchema.parse(args);
+            assertPrefixesAllowed(index, prefixes, false, config);
+            await redisClient.ft.create(index, toSchema(schema), {
+                ON: on,
+                PREFIX: prefixes.length > 0 ? prefixes : undefined,
+                FILTER: filter,
+            });
+            return toolResult(
+                `Successfully created index ${index} on ${on} keys with ${schema.length} fields`,
+                { index, created: true }
+            );
+        } else if (name === "ft_dropindex") {
+            const { index, deleteDocuments } = DropIndexArgumentsSchema.parse(args);
+            if (deleteDocuments) {
+                assertPrefixesAllowed(index, await indexPrefixes(redisClient, index), true, config);
+            }
+            await redisClient.ft.dropIndex(index, deleteDocuments ? { DD: true } : undefined);
+            return toolResult(
+                `Successfully dropped index ${index}${deleteDocuments ? " and deleted its documents" : ""}`,
+                { index, dropped: true, deletedDocuments: deleteDocuments }
+            );
+        } else {
+            throw new Error(`Unknown tool: ${name}`);
+        }
+    });
+}
@@ -0,0 +1,239 @@
+import { Server } from "@modelcontextprotocol/sdk/server/index.js";
+import {
+    CallToolRequest,
+    CallToolRequestSchema,
+    CallToolResult,
+    ListToolsRequestSchema,
+    ListToolsResult,
+    Tool,
+} from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { ServerConfig } from "./config.js";
+import { ConnectionRegistry, connectRedis, createConnectionRegistry, injectedConnection, isReadOnlyError } from "./connection.js";
+import { registerResourceHandlers } from "./resources.js";
+import { formatArgumentsError, formatToolDefinition, formatToolResult } from "./output.js";
+import { RedisClient } from "./redis.js";
+import { ConnectionToolGroup, ToolGroup } from "./types.js";
+import { basicTools, handleBasicTool } from "./basic.js";
+import { hashTools, handleHashTool } from "./hashes.js";
+import { setTools, handleSetTool } from "./sets.js";
+import { sortedSetTools, handleSortedSetTool } from "./sortedSets.js";
+import { listTools, handleListTool } from "./lists.js";
+import { streamTools, handleStreamTool } from "./streams.js";
+import { jsonTools, handleJsonTool } from "./json.js";
+import { keyTools, handleKeyTool, explainWrongType, isWrongTypeError } from "./keys.js";
+import { diagnosticTools, handleDiagnosticTool } from "./diagnostics.js";
+import { pubsubTools, handlePubSubTool } from "./pubsub.js";
+import { transferTools, handleTransferTool } from "./transfer.js";
+import { createBulkToolGroup } from "./bulk.js";
+import { searchTools, handleSearchTool } from "./search.js";
+import { createScriptingToolGroup } from "./scripting.js";
+import { createBatchToolGroup } from "./batch.js";
+import { connectionTools, handleConnectionTool } from "./connectionTools.js";
+import { AuditCaller, AuditOutcome, affectedCounts, createAuditLog, declaredArguments } from "./audit.js";
+import { redactClient } from "./redaction.js";
+import { assertKeysAllowed, assertToolEnabled, extractKeys, isAccessDeniedError, isToolEnabled, isWriteTool } from "./access.js";
+
+export interface RedisMcpServerOptions {
+    // A client connected by the caller, used as the default connection instead of connecting
+    // to the configured one. The caller keeps ownership of it: close() leaves it open.
+    client?: RedisClient;
+}
+
+export interface RedisMcpServer {
+    connections: ConnectionRegistry;
+    // A new MCP server instance. Over HTTP every session gets its own, all sharing the Redis connections.
+    createServer(): Server;
+    // Flush the audit log and close the Redis connections
+    close(): Promise<void>;
+}
+
+// Everything the server needs, built from its configuration. Nothing connects to Redis until
+// the first tool call, or until connections.connectAll() is called.
+export function createRedisMcpServer(config: ServerConfig, { client }: RedisMcpServerOptions = {}): RedisMcpServer {
+    // Named Redis connections, the default one served by the injected client if there is one
+    const connections = createConnectionRegistry(config.connections, config.defaultConnection, client
+        ? (connectionConfig, name) => name === config.defaultConnection
+            ? Promise.resolve(injectedConnection(client, name))
+            : connectRedis(connectionConfig, name)
+        : connectRedis);
+
+    // Structured record of every tool call, if configured
+    const audit = createAuditLog(config.audit, connections, config.redaction);
+
+    // Registered scripts are read once and shared by every server instance
+    const scriptingToolGroup = createScriptingToolGroup(config);
+
+    // Tool groups, one module per Redis data type. Every server instance gets its own, so that
+    // state such as bulk confirmation tokens stays within one session.
+    function createToolGroups(): ToolGroup[] {
+        // Tools that operate on keys, which can also be combined in a batch
+        const dataToolGroups: ConnectionToolGroup[] = [
+            { tools: basicTools, handle: handleBasicTool },
+            { tools: keyTools, handle: handleKeyTool },
+            { tools: hashTools, handle: handleHashTool },
+            { tools: setTools, handle: handleSetTool },
+            { tools: sortedSetTools, handle: handleSortedSetTool },
+            { tools: listTools, handle: handleListTool },
+            { tools: streamTools, handle: handleStreamTool },
+            { tools: jsonTools, handle: handleJsonTool },
+            { tools: pubsubTools, handle: handlePubSubTool },
+            scriptingToolGroup,
+            { tools: transferTools, handle: handleTransferTool },
+            createBulkToolGroup(),
+        ];
+
+        return [
+            ...dataToolGroups,
+            createBatchToolGroup(dataToolGroups),
+            // Search tools work on indexes rather than keys, so they are not part of batches
+            { tools: searchTools, handle: handleSearchTool },
+            { tools: diagnosticTools, handle: handleDiagnosticTool },
+            { tools: connectionTools, handle: handleConnectionTool, connectionless: true },
+        ];
+    }
+
+    // Every tool that runs against Redis can be routed to a named connection and database
+    const ConnectionArgumentsSchema = z.object({
+        connection: z.string().optional(),
+        db: z.number().int().min(0).optional(),
+    });
+
+    const CONNECTION_PROPERTIES = {
+        connection: {
+            type: "string",
+            enum: connections.names(),
+            description: `Connection to run against (default: ${config.defaultConnection}, see list_connections)`,
+        },
+        db: { type: "number", description: "Database index to select (default: the connection's database)" },
+    };
+
+    function withConnectionArguments(tool: Tool): Tool {
+        return {
+            ...tool,
+            inputSchema: {
+                ...tool.inputSchema,
+                properties: { ...tool.inputSchema.properties, ...CONNECTION_PROPERTIES },
+            },
+        };
+    }
+
+    // The tool definitions are the same in every server instance
+    const tools: Tool[] = createToolGroups().flatMap((group) =>
+        "connectionless" in group ? group.tools : group.tools.map(withConnectionArguments)
+    );
+
+    // List available tools
+    async function handleListTools(): Promise<ListToolsResult> {
+        return {
+            tools: tools
+                .filter((tool) => isToolEnabled(tool, config))
+                .map((tool) => formatToolDefinition(tool, config.outputFormat)),
+        };
+    }
+
+    // Handle tool execution
+    async function handleCallTool(toolGroups: ToolGroup[], request: CallToolRequest, caller: AuditCaller): Promise<CallToolResult> {
+        const { name, arguments: args } = request.params;
+        // As listed, with the connection arguments
+        const listed = tools.find((t) => t.name === name);
+        const started = Date.now();
+        let connectionName: string | null = null;
+        let db: number | null = null;
+        let result: CallToolResult | undefined;
+        let outcome: AuditOutcome = "success";
+        let failure: Error | undefined;
+
+        try {
+            const group = toolGroups.find((g) => g.tools.some((t) => t.name === name));
+            const tool = group?.tools.find((t) => t.name === name);
+            if (!group || !tool) {
+                throw new Error(`Unknown tool: ${name}`);
+            }
+            assertToolEnabled(tool, config);
+            assertKeysAllowed(extractKeys(args), isWriteTool(tool), config);
+
+            if ("connectionless" in group) {
+                result = await group.handle({ connections, config }, name, args);
+            } else {
+                const target = ConnectionArgumentsSchema.parse(args ?? {});
+                connectionName = target.connection ?? config.defaultConnection;
+                const connection = await connections.get(target.connection, target.db);
+                db = connection.db;
+                try {
+                    const redisClient = redactClient(connection.client, config.redaction);
+                    result = await group.handle({ redisClient, connection, connections, config }, name, args);
+                } catch (error) {
+                    if (connection.mode === "sentinel" && isReadOnlyError(error)) {
+                        // A failover demoted the master: discover the new one on the next call
+                        await connections.reset(connectionName);
+                    }
+                    throw isWrongTypeError(error) ? await explainWrongType(connection.client, name, extractKeys(args)) : error;
+                }
+            }
+            return formatToolResult(result, config.outputFormat);
+        } catch (error) {
+            if (error instanceof z.ZodError) {
+                outcome = "invalid";
+                failure = new Error(formatArgumentsError(error));
+            } else {
+                outcome = !listed ? "invalid" : isAccessDeniedError(error) ? "denied" : "error";
+                failure = error as Error;
+            }
+            throw failure;
+        } finally {
+            audit.record({
+                timestamp: new Date(started).toISOString(),
+                tool: name,
+                arguments: declaredArguments(listed, args),
+                connection: connectionName,
+                db,
+                client: caller.client ?? null,
+                sessionId: caller.sessionId ?? null,
+                outcome,
+                error: failure?.message ?? null,
+                affected: affectedCounts(result),
+                durationMs: Date.now() - started,
+            });
+        }
+    }
+
+    // Create a server instance. Over HTTP every session gets its own instance, all sharing the Redis connections.
+    function createServer(): Server {
+        const server = new Server(
+            {
+                name: "redis-extended",
+                version: "1.0.0"
+            },
+            {
+                capabilities: {
+                    tools: {},
+                    resources: { subscribe: true },
+                }
+            }
+        );
+
+        const toolGroups = createToolGroups();
+        server.setRequestHandler(ListToolsRequestSchema, handleListTools);
+        server.setRequestHandler(CallToolRequestSchema, (request, extra) =>
+            handleCallTool(toolGroups, request, { client: server.getClientVersion(), sessionId: extra.sessionId })
+        );
+
+        // Expose keys as resources
+        const closeResources = registerResourceHandlers(server, connections, config);
+        server.onclose = () => {
+            closeResources().catch(() => {});
+        };
+
+        return server;
+    }
+
+    return {
+        connections,
+        createServer,
+        close: async () => {
+            await audit.close().catch(() => {});
+            await connections.close().catch(() => {});
+        },
+    };
+}
@@ -0,0 +1,182 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import {
+    CURSOR_SCHEMA,
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    TRUNCATED_SCHEMA,
+    VALUE_SCHEMA,
+    formatTruncation,
+    limitItems,
+    limitValues,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { formatCursor, scanPages } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Set schemas
+const SetAddArgumentsSchema = z.object({
+    key: z.string(),
+    members: z.array(z.string()),
+});
+
+const SetRemoveArgumentsSchema = z.object({
+    key: z.string(),
+    members: z.array(z.string()),
+});
+
+const SetMembersArgumentsSchema = z.object({
+    key: z.string(),
+}).merge(LimitArgumentsSchema);
+
+const SetScanArgumentsSchema = z.object({
+    key: z.string(),
+    pattern: z.string().default("*"),
+    cursor: z.number().int().min(0).default(0),
+    count: z.number().int().positive().default(100),
+    limit: z.number().int().positive().default(100),
+}).merge(LimitArgumentsSchema);
+
+export const setTools: Tool[] = [
+    {
+        name: "sadd",
+        description: "Add one or more members to a Redis set",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Set key" },
+                members: { type: "array", items: { type: "string" }, description: "Members to add" },
+            },
+            required: ["key", "members"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                requested: { type: "number" },
+                added: { type: "number", description: "Members that were not already in the set" },
+            },
+            required: ["key", "requested", "added"],
+        },
+    },
+    {
+        name: "srem",
+        description: "Remove one or more members from a Redis set",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Set key" },
+                members: { type: "array", items: { type: "string" }, description: "Members to remove" },
+            },
+            required: ["key", "members"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                requested: { type: "number" },
+                removed: { type: "number" },
+            },
+            required: ["key", "requested", "removed"],
+        },
+    },
+    {
+        name: "smembers",
+        description: "Get all members of a Redis set (use sscan for large sets)",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Set key" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                count: { type: "number", description: "Number of members in the set" },
+                members: { type: "array", items: VALUE_SCHEMA },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "count", "members", "truncated"],
+        },
+    },
+    {
+        name: "sscan",
+        description: "Incrementally iterate members of a Redis set",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Set key" },
+                pattern: { type: "string", description: "Pattern to match members (default: *)" },
+                cursor: { type: "number", description: "Cursor returned by a previous call (default: 0)" },
+                count: { type: "number", description: "SSCAN COUNT hint per iteration (default: 100)" },
+                limit: { type: "number", description: "Stop scanning once this many members are found (default: 100)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                members: { type: "array", items: VALUE_SCHEMA },
+                ...CURSOR_SCHEMA,
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "members", "cursor", "complete", "truncated"],
+        },
+    },
+];
+
+export async function handleSetTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "sadd") {
+        const { key, members } = SetAddArgumentsSchema.parse(args);
+        const added = await redisClient.sAdd(key, members);
+        return toolResult(
+            `Successfully added ${added} of ${members.length} members to set ${key}`,
+            { key, requested: members.length, added }
+        );
+    } else if (name === "srem") {
+        const { key, members } = SetRemoveArgumentsSchema.parse(args);
+        const removed = await redisClient.sRem(key, members);
+        return toolResult(
+            `Successfully removed ${removed} of ${members.length} members from set ${key}`,
+            { key, requested: members.length, removed }
+        );
+    } else if (name === "smembers") {
+        const { key, ...limitArgs } = SetMembersArgumentsSchema.parse(args);
+        const all = await redisClient.sMembers(commandOptions({ returnBuffers: true }), key);
+        const members = limitItems(all, outputLimits(config, limitArgs));
+        const truncated = members.length < all.length;
+        return toolResult(
+            (members.length > 0
+                ? `Set members:\n${members.join('\n')}`
+                : "Set is empty") +
+            (truncated ? formatTruncation(members.length, all.length, "members", "Use sscan to page through all of them.") : ""),
+            { key, count: all.length, members, truncated }
+        );
+    } else if (name === "sscan") {
+        const { key, pattern, cursor, count, limit, ...limitArgs } = SetScanArgumentsSchema.parse(args);
+        const { maxBytes, maxItems } = outputLimits(config, limitArgs);
+        const result = await scanPages(cursor, Math.min(limit, maxItems), async (c) => {
+            const reply = await redisClient.sScan(commandOptions({ returnBuffers: true }), key, c, { MATCH: pattern, COUNT: Math.min(count, maxItems) });
+            return { cursor: reply.cursor, items: reply.members };
+        }, maxBytes);
+        const { values: members, bytes, truncated } = limitValues(result.items, maxBytes);
+        return toolResult(
+            `${members.length > 0
+                ? `Set members:\n${members.join('\n')}`
+                : "No members found matching pattern"}\n\n${formatCursor(result.cursor)}` +
+            (truncated ? formatTruncation(bytes, null, "bytes of members", "The members past the limit were cut short; lower the limit to see them whole.") : ""),
+            { key, members, cursor: result.cursor, complete: result.cursor === 0, truncated }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
@@ -0,0 +1,232 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import {
+    CURSOR_SCHEMA,
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    TRUNCATED_SCHEMA,
+    VALUE_SCHEMA,
+    formatTruncation,
+    limitItems,
+    limitValues,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { formatCursor, readRange, scanPages } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Sorted Set schemas
+const ZSetAddArgumentsSchema = z.object({
+    key: z.string(),
+    members: z.array(z.object({
+        score: z.number(),
+        member: z.string(),
+    })),
+});
+
+const ZSetRangeArgumentsSchema = z.object({
+    key: z.string(),
+    start: z.number().int(),
+    stop: z.number().int(),
+    withScores: z.boolean().optional(),
+}).merge(LimitArgumentsSchema);
+
+const ZSetRemoveArgumentsSchema = z.object({
+    key: z.string(),
+    members: z.array(z.string()),
+});
+
+const ZSetScanArgumentsSchema = z.object({
+    key: z.string(),
+    pattern: z.string().default("*"),
+    cursor: z.number().int().min(0).default(0),
+    count: z.number().int().positive().default(100),
+    limit: z.number().int().positive().default(100),
+}).merge(LimitArgumentsSchema);
+
+const SCORED_MEMBERS_SCHEMA = {
+    type: "array",
+    items: {
+        type: "object",
+        properties: {
+            member: VALUE_SCHEMA,
+            score: { type: "number" },
+        },
+        required: ["member"],
+    },
+};
+
+export const sortedSetTools: Tool[] = [
+    {
+        name: "zadd",
+        description: "Add one or more members to a Redis sorted set",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Sorted set key" },
+                members: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            score: { type: "number", description: "Member score" },
+                            member: { type: "string", description: "Member value" },
+                        },
+                        required: ["score", "member"],
+                    },
+                    description: "Members to add with their scores",
+                },
+            },
+            required: ["key", "members"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                requested: { type: "number" },
+                added: { type: "number", description: "Members that were not already in the sorted set" },
+            },
+            required: ["key", "requested", "added"],
+        },
+    },
+    {
+        name: "zrange",
+        description: "Get members from a Redis sorted set by range",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Sorted set key" },
+                start: { type: "number", description: "Start index" },
+                stop: { type: "number", description: "Stop index" },
+                withScores: { type: "boolean", description: "Include scores in output" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key", "start", "stop"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                members: SCORED_MEMBERS_SCHEMA,
+                total: { type: "number", description: "Number of members in the range" },
+                ...TRUNCATED_SCHEMA,
+                nextStart: { type: ["number", "null"], description: "Start index to pass to read the rest of the range, null if nothing is left" },
+            },
+            required: ["key", "members", "total", "truncated", "nextStart"],
+        },
+    },
+    {
+        name: "zrem",
+        description: "Remove one or more members from a Redis sorted set",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Sorted set key" },
+                members: { type: "array", items: { type: "string" }, description: "Members to remove" },
+            },
+            required: ["key", "members"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                requested: { type: "number" },
+                removed: { type: "number" },
+            },
+            required: ["key", "requested", "removed"],
+        },
+    },
+    {
+        name: "zscan",
+        description: "Incrementally iterate members and scores of a Redis sorted set",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Sorted set key" },
+                pattern: { type: "string", description: "Pattern to match members (default: *)" },
+                cursor: { type: "number", description: "Cursor returned by a previous call (default: 0)" },
+                count: { type: "number", description: "ZSCAN COUNT hint per iteration (default: 100)" },
+                limit: { type: "number", description: "Stop scanning once this many members are found (default: 100)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                members: SCORED_MEMBERS_SCHEMA,
+                ...CURSOR_SCHEMA,
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "members", "cursor", "complete", "truncated"],
+        },
+    },
+];
+
+export async function handleSortedSetTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "zadd") {
+        const { key, members } = ZSetAddArgumentsSchema.parse(args);
+        const scoreMembers = members.map(m => ({ score: m.score, value: m.member }));
+        const added = await redisClient.zAdd(key, scoreMembers);
+        return toolResult(
+            `Successfully added ${added} of ${members.length} members to sorted set ${key}`,
+            { key, requested: members.length, added }
+        );
+    } else if (name === "zrange") {
+        const { key, start, stop, withScores, ...limitArgs } = ZSetRangeArgumentsSchema.parse(args);
+        const limits = outputLimits(config, limitArgs);
+        // Read no more than can be returned, in one round so that the tool can be batched in a transaction,
+        // and continue from an index that doesn't count from the end
+        const options = commandOptions({ returnBuffers: true });
+        const { range, items } = await readRange<{ member: Buffer; score?: number }>(
+            redisClient.zCard(key),
+            (from, to) => withScores
+                ? redisClient.zRangeWithScores(options, key, from, to).then((reply) => reply.map(({ value, score }) => ({ member: value, score })))
+                : redisClient.zRange(options, key, from, to).then((reply) => reply.map((member) => ({ member }))),
+            start,
+            stop,
+            limits.maxItems
+        );
+        const members = limitItems(items, limits);
+        const truncated = members.length < range.count;
+        const nextStart = truncated ? range.start + members.length : null;
+        return toolResult(
+            (members.length > 0
+                ? `Sorted set members:\n${members
+                    .map((m) => "score" in m ? `${m.member} (score: ${m.score})` : m.member)
+                    .join('\n')}`
+                : "No members found in range") +
+            (truncated ? formatTruncation(members.length, range.count, "members", `Call zrange again with start: ${nextStart} to read the rest.`) : ""),
+            { key, members, total: range.count, truncated, nextStart }
+        );
+    } else if (name === "zrem") {
+        const { key, members } = ZSetRemoveArgumentsSchema.parse(args);
+        const removed = await redisClient.zRem(key, members);
+        return toolResult(
+            `Successfully removed ${removed} of ${members.length} members from sorted set ${key}`,
+            { key, requested: members.length, removed }
+        );
+    } else if (name === "zscan") {
+        const { key, pattern, cursor, count, limit, ...limitArgs } = ZSetScanArgumentsSchema.parse(args);
+        const { maxBytes, maxItems } = outputLimits(config, limitArgs);
+        const result = await scanPages(cursor, Math.min(limit, maxItems), async (c) => {
+            const reply = await redisClient.zScan(commandOptions({ returnBuffers: true }), key, c, { MATCH: pattern, COUNT: Math.min(count, maxItems) });
+            return { cursor: reply.cursor, items: reply.members };
+        }, maxBytes);
+        const { values, bytes, truncated } = limitValues(result.items.map(({ value }) => value), maxBytes);
+        const members = result.items.map(({ score }, i) => ({ member: values[i], score }));
+        return toolResult(
+            `${members.length > 0
+                ? `Sorted set members:\n${members.map(({ member, score }) => `${member} (score: ${score})`).join('\n')}`
+                : "No members found matching pattern"}\n\n${formatCursor(result.cursor)}` +
+            (truncated ? formatTruncation(bytes, null, "bytes of members", "The members past the limit were cut short; lower the limit to see them whole.") : ""),
+            { key, members, cursor: result.cursor, complete: result.cursor === 0, truncated }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
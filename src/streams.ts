@@ -0,0 +1,790 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import {
+    LIMIT_PROPERTIES,
+    LimitArgumentsSchema,
+    TRUNCATED_SCHEMA,
+    formatTruncation,
+    limitItems,
+    limitValues,
+    outputLimits,
+    toolResult,
+} from "./output.js";
+import { MAX_BLOCKING_TIMEOUT } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+// Stream schemas
+const StreamAddArgumentsSchema = z.object({
+    key: z.string(),
+    id: z.string().default("*"),
+    fields: z.record(z.string()).refine((fields) => Object.keys(fields).length > 0, "At least one field is required"),
+    trim: z.object({
+        strategy: z.enum(["MAXLEN", "MINID"]),
+        threshold: z.number().int().min(0),
+        approximate: z.boolean().optional(),
+    }).optional(),
+    noMkStream: z.boolean().optional(),
+});
+
+const StreamRangeArgumentsSchema = z.object({
+    key: z.string(),
+    start: z.string().optional(),
+    end: z.string().optional(),
+    count: z.number().int().positive().default(100),
+}).merge(LimitArgumentsSchema);
+
+const StreamLengthArgumentsSchema = z.object({
+    key: z.string(),
+});
+
+const StreamReadArgumentsSchema = z.object({
+    streams: z.array(z.object({
+        key: z.string(),
+        id: z.string(),
+    })).min(1),
+    count: z.number().int().positive().default(100),
+    timeout: z.number().positive().max(MAX_BLOCKING_TIMEOUT).optional(),
+}).merge(LimitArgumentsSchema);
+
+const StreamGroupCreateArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+    id: z.string().default("$"),
+    mkStream: z.boolean().optional(),
+});
+
+const StreamGroupDestroyArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+});
+
+const StreamReadGroupArgumentsSchema = z.object({
+    group: z.string(),
+    consumer: z.string(),
+    streams: z.array(z.object({
+        key: z.string(),
+        id: z.string().default(">"),
+    })).min(1),
+    count: z.number().int().positive().default(100),
+    timeout: z.number().positive().max(MAX_BLOCKING_TIMEOUT).optional(),
+    noAck: z.boolean().optional(),
+}).merge(LimitArgumentsSchema);
+
+const StreamAckArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+    ids: z.array(z.string()).min(1),
+});
+
+const StreamPendingArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+    start: z.string().default("-"),
+    end: z.string().default("+"),
+    count: z.number().int().positive().optional(),
+    consumer: z.string().optional(),
+    minIdleTime: z.number().int().min(0).optional(),
+});
+
+const StreamClaimArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+    consumer: z.string(),
+    minIdleTime: z.number().int().min(0),
+    ids: z.array(z.string()).min(1),
+}).merge(LimitArgumentsSchema);
+
+const StreamAutoClaimArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+    consumer: z.string(),
+    minIdleTime: z.number().int().min(0),
+    start: z.string().default("0-0"),
+    count: z.number().int().positive().default(100),
+}).merge(LimitArgumentsSchema);
+
+const StreamInfoArgumentsSchema = z.object({
+    key: z.string(),
+});
+
+const StreamSummaryArgumentsSchema = StreamInfoArgumentsSchema.merge(LimitArgumentsSchema);
+
+const StreamInfoConsumersArgumentsSchema = z.object({
+    key: z.string(),
+    group: z.string(),
+});
+
+const ENTRY_SCHEMA = {
+    type: "object",
+    properties: {
+        id: { type: "string" },
+        message: { type: "object", additionalProperties: { type: "string" } },
+    },
+    required: ["id", "message"],
+};
+
+const ENTRIES_SCHEMA = { type: "array", items: ENTRY_SCHEMA };
+
+// Entries deleted while still pending are reported as null
+const CLAIMED_ENTRIES_SCHEMA = { type: "array", items: { oneOf: [ENTRY_SCHEMA, { type: "null" }] } };
+
+const STREAMS_OUTPUT_SCHEMA = {
+    type: "object" as const,
+    properties: {
+        streams: {
+            type: "array",
+            items: {
+                type: "object",
+                properties: {
+                    key: { type: "string" },
+                    entries: ENTRIES_SCHEMA,
+                },
+                required: ["key", "entries"],
+            },
+        },
+    },
+    required: ["streams"],
+};
+
+export const streamTools: Tool[] = [
+    {
+        name: "xadd",
+        description: "Append an entry to a Redis stream with optional MAXLEN/MINID trimming",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                id: { type: "string", description: "Entry ID (default: * for auto-generated)" },
+                fields: {
+                    type: "object",
+                    additionalProperties: { type: "string" },
+                    description: "Field-value pairs of the entry",
+                },
+                trim: {
+                    type: "object",
+                    properties: {
+                        strategy: { type: "string", enum: ["MAXLEN", "MINID"], description: "Trimming strategy" },
+                        threshold: { type: "number", description: "Maximum length, or minimum ID as a millisecond timestamp" },
+                        approximate: { type: "boolean", description: "Use ~ for efficient approximate trimming" },
+                    },
+                    required: ["strategy", "threshold"],
+                    description: "Optional trimming applied while adding",
+                },
+                noMkStream: { type: "boolean", description: "Do not create the stream if it does not exist" },
+            },
+            required: ["key", "fields"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                id: { type: ["string", "null"], description: "ID of the new entry, or null if the stream does not exist and noMkStream was set" },
+            },
+            required: ["key", "id"],
+        },
+    },
+    {
+        name: "xrange",
+        description: "Get entries from a Redis stream in ascending ID order",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                start: { type: "string", description: "Start ID (default: -)" },
+                end: { type: "string", description: "End ID (default: +)" },
+                count: { type: "number", description: "Maximum number of entries (default: 100)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                entries: ENTRIES_SCHEMA,
+                ...TRUNCATED_SCHEMA,
+                nextStart: { type: ["string", "null"], description: "Exclusive start ID to pass to read the rest, null if the result was not truncated" },
+            },
+            required: ["key", "entries", "truncated", "nextStart"],
+        },
+    },
+    {
+        name: "xrevrange",
+        description: "Get entries from a Redis stream in descending ID order",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                start: { type: "string", description: "Start (highest) ID (default: +)" },
+                end: { type: "string", description: "End (lowest) ID (default: -)" },
+                count: { type: "number", description: "Maximum number of entries (default: 100)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                entries: ENTRIES_SCHEMA,
+                ...TRUNCATED_SCHEMA,
+                nextStart: { type: ["string", "null"], description: "Exclusive start ID to pass to read the rest, null if the result was not truncated" },
+            },
+            required: ["key", "entries", "truncated", "nextStart"],
+        },
+    },
+    {
+        name: "xlen",
+        description: "Get the number of entries in a Redis stream",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                length: { type: "number" },
+            },
+            required: ["key", "length"],
+        },
+    },
+    {
+        name: "xread",
+        description: "Read entries newer than the given IDs from one or more Redis streams, optionally waiting up to a bounded timeout",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                streams: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            key: { type: "string", description: "Stream key" },
+                            id: { type: "string", description: "Return entries with IDs greater than this ($ for new entries only)" },
+                        },
+                        required: ["key", "id"],
+                    },
+                    description: "Streams to read from",
+                },
+                count: { type: "number", description: "Maximum number of entries per stream (default: 100)" },
+                timeout: { type: "number", description: `Seconds to wait for new entries (max: ${MAX_BLOCKING_TIMEOUT}, default: no waiting)` },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["streams"],
+        },
+        outputSchema: {
+            ...STREAMS_OUTPUT_SCHEMA,
+            properties: { ...STREAMS_OUTPUT_SCHEMA.properties, ...TRUNCATED_SCHEMA },
+            required: ["streams", "truncated"],
+        },
+    },
+    {
+        name: "xgroup_create",
+        description: "Create a consumer group on a Redis stream",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+                id: { type: "string", description: "ID of the last delivered entry (default: $ for new entries only, 0 for the whole stream)" },
+                mkStream: { type: "boolean", description: "Create the stream if it does not exist" },
+            },
+            required: ["key", "group"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                group: { type: "string" },
+                id: { type: "string" },
+            },
+            required: ["key", "group", "id"],
+        },
+    },
+    {
+        name: "xgroup_destroy",
+        description: "Destroy a consumer group of a Redis stream",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+            },
+            required: ["key", "group"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                group: { type: "string" },
+                destroyed: { type: "boolean" },
+            },
+            required: ["key", "group", "destroyed"],
+        },
+    },
+    {
+        name: "xreadgroup",
+        description: "Read entries from Redis streams as a member of a consumer group, optionally waiting up to a bounded timeout",
+        inputSchema: {
+            type: "object",
+            properties: {
+                group: { type: "string", description: "Consumer group name" },
+                consumer: { type: "string", description: "Consumer name" },
+                streams: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            key: { type: "string", description: "Stream key" },
+                            id: { type: "string", description: "> for never-delivered entries (default), or an ID to re-read pending entries" },
+                        },
+                        required: ["key"],
+                    },
+                    description: "Streams to read from",
+                },
+                count: { type: "number", description: "Maximum number of entries per stream (default: 100)" },
+                timeout: { type: "number", description: `Seconds to wait for new entries (max: ${MAX_BLOCKING_TIMEOUT}, default: no waiting)` },
+                noAck: { type: "boolean", description: "Do not add the entries to the pending entries list" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["group", "consumer", "streams"],
+        },
+        outputSchema: {
+            ...STREAMS_OUTPUT_SCHEMA,
+            properties: { ...STREAMS_OUTPUT_SCHEMA.properties, ...TRUNCATED_SCHEMA },
+            required: ["streams", "truncated"],
+        },
+    },
+    {
+        name: "xack",
+        description: "Acknowledge entries processed by a consumer group",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+                ids: { type: "array", items: { type: "string" }, description: "Entry IDs to acknowledge" },
+            },
+            required: ["key", "group", "ids"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                group: { type: "string" },
+                requested: { type: "number" },
+                acknowledged: { type: "number" },
+            },
+            required: ["key", "group", "requested", "acknowledged"],
+        },
+    },
+    {
+        name: "xpending",
+        description: "Inspect pending entries of a consumer group; returns a summary, or individual entries when count is given",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+                start: { type: "string", description: "Start ID (default: -)" },
+                end: { type: "string", description: "End ID (default: +)" },
+                count: { type: "number", description: "Maximum number of pending entries to list" },
+                consumer: { type: "string", description: "Only list entries owned by this consumer" },
+                minIdleTime: { type: "number", description: "Only list entries idle for at least this many milliseconds" },
+            },
+            required: ["key", "group"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                group: { type: "string" },
+                pending: { type: "number", description: "Total number of pending entries (summary form)" },
+                firstId: { type: ["string", "null"] },
+                lastId: { type: ["string", "null"] },
+                consumers: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: { name: { type: "string" }, deliveriesCounter: { type: "number" } },
+                    },
+                },
+                entries: {
+                    type: "array",
+                    description: "Individual pending entries (when count is given)",
+                    items: {
+                        type: "object",
+                        properties: {
+                            id: { type: "string" },
+                            owner: { type: "string" },
+                            millisecondsSinceLastDelivery: { type: "number" },
+                            deliveriesCounter: { type: "number" },
+                        },
+                    },
+                },
+            },
+            required: ["key", "group"],
+        },
+    },
+    {
+        name: "xclaim",
+        description: "Transfer ownership of pending entries to another consumer",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+                consumer: { type: "string", description: "Consumer that claims the entries" },
+                minIdleTime: { type: "number", description: "Only claim entries idle for at least this many milliseconds" },
+                ids: { type: "array", items: { type: "string" }, description: "Entry IDs to claim" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key", "group", "consumer", "minIdleTime", "ids"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                consumer: { type: "string" },
+                entries: CLAIMED_ENTRIES_SCHEMA,
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "consumer", "entries", "truncated"],
+        },
+    },
+    {
+        name: "xautoclaim",
+        description: "Scan the pending entries list and claim entries idle longer than a threshold",
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+                consumer: { type: "string", description: "Consumer that claims the entries" },
+                minIdleTime: { type: "number", description: "Only claim entries idle for at least this many milliseconds" },
+                start: { type: "string", description: "ID to start scanning from (default: 0-0)" },
+                count: { type: "number", description: "Maximum number of entries to claim (default: 100)" },
+                ...LIMIT_PROPERTIES,
+            },
+            required: ["key", "group", "consumer", "minIdleTime"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                consumer: { type: "string" },
+                entries: CLAIMED_ENTRIES_SCHEMA,
+                nextId: { type: "string", description: "Start ID for the next call, 0-0 when the scan is complete" },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "consumer", "entries", "nextId", "truncated"],
+        },
+    },
+    {
+        name: "xinfo_stream",
+        description: "Get a summary of a Redis stream: length, groups, first and last entries",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                maxBytes: LIMIT_PROPERTIES.maxBytes,
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                length: { type: "number" },
+                radixTreeKeys: { type: "number" },
+                radixTreeNodes: { type: "number" },
+                groups: { type: "number" },
+                lastGeneratedId: { type: "string" },
+                firstEntry: { oneOf: [ENTRY_SCHEMA, { type: "null" }] },
+                lastEntry: { oneOf: [ENTRY_SCHEMA, { type: "null" }] },
+                ...TRUNCATED_SCHEMA,
+            },
+            required: ["key", "length", "groups", "lastGeneratedId", "truncated"],
+        },
+    },
+    {
+        name: "xinfo_groups",
+        description: "List the consumer groups of a Redis stream",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+            },
+            required: ["key"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                groups: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            consumers: { type: "number" },
+                            pending: { type: "number" },
+                            lastDeliveredId: { type: "string" },
+                        },
+                    },
+                },
+            },
+            required: ["key", "groups"],
+        },
+    },
+    {
+        name: "xinfo_consumers",
+        description: "List the consumers of a consumer group",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string", description: "Stream key" },
+                group: { type: "string", description: "Consumer group name" },
+            },
+            required: ["key", "group"],
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                key: { type: "string" },
+                group: { type: "string" },
+                consumers: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            name: { type: "string" },
+                            pending: { type: "number" },
+                            idle: { type: "number" },
+                            inactive: { type: "number" },
+                        },
+                    },
+                },
+            },
+            required: ["key", "group", "consumers"],
+        },
+    },
+];
+
+interface StreamEntry {
+    id: string;
+    message: Record<string, string>;
+}
+
+function formatEntries(entries: Array<StreamEntry | null>): string {
+    // Entries deleted while still pending are reported as null
+    return entries
+        .map((entry) => entry === null ? "(deleted entry)" : `${entry.id}: ${JSON.stringify(entry.message)}`)
+        .join('\n');
+}
+
+function formatStreams(streams: Array<{ key: string; entries: StreamEntry[] }>): string {
+    if (streams.every((stream) => stream.entries.length === 0)) {
+        return "No new entries";
+    }
+    return streams
+        .map((stream) => `Stream ${stream.key}:\n${formatEntries(stream.entries)}`)
+        .join('\n\n');
+}
+
+function toStreams(reply: Array<{ name: string; messages: StreamEntry[] }> | null): Array<{ key: string; entries: StreamEntry[] }> {
+    return (reply ?? []).map(({ name, messages }) => ({ key: name, entries: messages }));
+}
+
+export async function handleStreamTool({ redisClient, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "xadd") {
+        const { key, id, fields, trim, noMkStream } = StreamAddArgumentsSchema.parse(args);
+        const entryId: string | null = await redisClient.xAdd(key, id, fields, {
+            ...(noMkStream ? { NOMKSTREAM: true } : {}),
+            ...(trim ? {
+                TRIM: {
+                    strategy: trim.strategy,
+                    strategyModifier: trim.approximate ? '~' : '=',
+                    threshold: trim.threshold,
+                },
+            } : {}),
+        });
+        return toolResult(
+            entryId === null
+                ? `Stream does not exist: ${key}`
+                : `Successfully added entry ${entryId} to stream ${key}`,
+            { key, id: entryId }
+        );
+    } else if (name === "xrange" || name === "xrevrange") {
+        const { key, start, end, count, ...limitArgs } = StreamRangeArgumentsSchema.parse(args);
+        const limits = outputLimits(config, limitArgs);
+        const limit = Math.min(count, limits.maxItems);
+        const all = name === "xrange"
+            ? await redisClient.xRange(key, start ?? "-", end ?? "+", { COUNT: limit })
+            : await redisClient.xRevRange(key, start ?? "+", end ?? "-", { COUNT: limit });
+        const entries = limitItems(all, limits);
+        // Cut short by maxBytes, or by maxItems when fewer entries than count were fetched
+        const truncated = entries.length < all.length || (limit < count && all.length === limit);
+        const nextStart = truncated ? `(${entries[entries.length - 1].id}` : null;
+        return toolResult(
+            (entries.length > 0
+                ? `Stream entries:\n${formatEntries(entries)}`
+                : "No entries found in range") +
+            (truncated ? formatTruncation(entries.length, null, "entries", `Call ${name} again with start: "${nextStart}" to read the rest.`) : ""),
+            { key, entries, truncated, nextStart }
+        );
+    } else if (name === "xlen") {
+        const { key } = StreamLengthArgumentsSchema.parse(args);
+        const length = await redisClient.xLen(key);
+        return toolResult(`Stream ${key} has ${length} entries`, { key, length });
+    } else if (name === "xread") {
+        const { streams, count, timeout, ...limitArgs } = StreamReadArgumentsSchema.parse(args);
+        const limits = outputLimits(config, limitArgs);
+        const limit = Math.min(count, limits.maxItems);
+        // Blocking reads run on an isolated connection so they don't stall other tool calls
+        const reply = timeout
+            ? await redisClient.xRead(commandOptions({ isolated: true }), streams, { COUNT: limit, BLOCK: Math.round(timeout * 1000) })
+            : await redisClient.xRead(streams, { COUNT: limit });
+        const all = toStreams(reply);
+        const result = all.map((stream) => ({ ...stream, entries: limitItems(stream.entries, limits) }));
+        const truncated = all.some((stream, i) => result[i].entries.length < stream.entries.length || (limit < count && stream.entries.length === limit));
+        return toolResult(
+            formatStreams(result) + (truncated
+                ? formatTruncation(result.reduce((sum, stream) => sum + stream.entries.length, 0), null, "entries",
+                    "Call xread again with the last ID returned for each stream to read the rest.")
+                : ""),
+            { streams: result, truncated }
+        );
+    } else if (name === "xgroup_create") {
+        const { key, group, id, mkStream } = StreamGroupCreateArgumentsSchema.parse(args);
+        await redisClient.xGroupCreate(key, group, id, mkStream ? { MKSTREAM: true } : undefined);
+        return toolResult(`Successfully created consumer group ${group} on stream ${key}`, { key, group, id });
+    } else if (name === "xgroup_destroy") {
+        const { key, group } = StreamGroupDestroyArgumentsSchema.parse(args);
+        const destroyed = await redisClient.xGroupDestroy(key, group);
+        return toolResult(
+            destroyed
+                ? `Successfully destroyed consumer group ${group} on stream ${key}`
+                : `Consumer group not found: ${group}`,
+            { key, group, destroyed }
+        );
+    } else if (name === "xreadgroup") {
+        const { group, consumer, streams, count, timeout, noAck, ...limitArgs } = StreamReadGroupArgumentsSchema.parse(args);
+        const { maxBytes, maxItems } = outputLimits(config, limitArgs);
+        const limit = Math.min(count, maxItems);
+        const options = { COUNT: limit, ...(noAck ? { NOACK: true as const } : {}) };
+        const reply = timeout
+            ? await redisClient.xReadGroup(commandOptions({ isolated: true }), group, consumer, streams, {
+                ...options,
+                BLOCK: Math.round(timeout * 1000),
+            })
+            : await redisClient.xReadGroup(group, consumer, streams, options);
+        const all = toStreams(reply);
+        // Delivered entries can't be read again with ">", so none are left out: values past maxBytes are cut instead
+        const limited = limitValues(all.flatMap((stream) => stream.entries.flatMap((entry) => Object.values(entry.message))), maxBytes);
+        let next = 0;
+        const result = all.map((stream) => ({
+            key: stream.key,
+            entries: stream.entries.map((entry) => ({
+                id: entry.id,
+                message: Object.fromEntries(Object.keys(entry.message).map((field) => [field, limited.values[next++]])),
+            })),
+        }));
+        const more = limit < count && all.some((stream) => stream.entries.length === limit);
+        return toolResult(
+            formatStreams(result) +
+            (limited.truncated
+                ? formatTruncation(limited.bytes, null, "bytes of values", "The values past the limit were cut short; read the entries whole with xrange.")
+                : "") +
+            (more
+                ? formatTruncation(limit, null, "entries per stream", "Call xreadgroup again to read the rest.")
+                : ""),
+            { streams: result, truncated: limited.truncated || more }
+        );
+    } else if (name === "xack") {
+        const { key, group, ids } = StreamAckArgumentsSchema.parse(args);
+        const acknowledged = await redisClient.xAck(key, group, ids);
+        return toolResult(
+            `Successfully acknowledged ${acknowledged} of ${ids.length} entries in group ${group}`,
+            { key, group, requested: ids.length, acknowledged }
+        );
+    } else if (name === "xpending") {
+        const { key, group, start, end, count, consumer, minIdleTime } = StreamPendingArgumentsSchema.parse(args);
+        if (count === undefined) {
+            const summary = await redisClient.xPending(key, group);
+            const data = { key, group, ...summary, consumers: summary.consumers ?? [] };
+            return toolResult(JSON.stringify(data, null, 2), data);
+        }
+        const entries = await redisClient.xPendingRange(key, group, start, end, count, {
+            ...(consumer ? { consumer } : {}),
+            ...(minIdleTime !== undefined ? { IDLE: minIdleTime } : {}),
+        });
+        return toolResult(
+            entries.length > 0
+                ? JSON.stringify(entries, null, 2)
+                : "No pending entries found",
+            { key, group, entries }
+        );
+    } else if (name === "xclaim") {
+        const { key, group, consumer, minIdleTime, ids, ...limitArgs } = StreamClaimArgumentsSchema.parse(args);
+        const all = await redisClient.xClaim(key, group, consumer, minIdleTime, ids);
+        const entries = limitItems(all, outputLimits(config, limitArgs));
+        const truncated = entries.length < all.length;
+        return toolResult(
+            (entries.length > 0
+                ? `Claimed entries:\n${formatEntries(entries)}`
+                : "No entries were claimed") +
+            (truncated ? formatTruncation(entries.length, all.length, "entries", "The other entries were claimed too; read them with xrange.") : ""),
+            { key, consumer, entries, truncated }
+        );
+    } else if (name === "xautoclaim") {
+        const { key, group, consumer, minIdleTime, start, count, ...limitArgs } = StreamAutoClaimArgumentsSchema.parse(args);
+        const limits = outputLimits(config, limitArgs);
+        const { nextId, messages } = await redisClient.xAutoClaim(key, group, consumer, minIdleTime, start, { COUNT: Math.min(count, limits.maxItems) });
+        const entries = limitItems(messages, limits);
+        const truncated = entries.length < messages.length;
+        return toolResult(
+            `${entries.length > 0
+                ? `Claimed entries:\n${formatEntries(entries)}`
+                : "No entries were claimed"}\n\nNext start ID: ${nextId}${nextId === "0-0" ? " (scan complete)" : ""}` +
+            (truncated ? formatTruncation(entries.length, messages.length, "entries", "The other entries were claimed too; read them with xrange.") : ""),
+            { key, consumer, entries, nextId, truncated }
+        );
+    } else if (name === "xinfo_stream") {
+        const { key, ...limitArgs } = StreamSummaryArgumentsSchema.parse(args);
+        const info = await redisClient.xInfoStream(key);
+        // The first and last entries are kept, with their values cut to maxBytes together
+        const ends = [info.firstEntry, info.lastEntry];
+        const limited = limitValues(ends.flatMap((entry) => entry ? Object.values(entry.message) : []), outputLimits(config, limitArgs).maxBytes);
+        let next = 0;
+        const [firstEntry, lastEntry] = ends.map((entry) => entry && {
+            id: entry.id,
+            message: Object.fromEntries(Object.keys(entry.message).map((field) => [field, limited.values[next++]])),
+        });
+        const data = { key, ...info, firstEntry, lastEntry, truncated: limited.truncated };
+        return toolResult(JSON.stringify(data, null, 2), data);
+    } else if (name === "xinfo_groups") {
+        const { key } = StreamInfoArgumentsSchema.parse(args);
+        const groups = await redisClient.xInfoGroups(key);
+        return toolResult(JSON.stringify(groups, null, 2), { key, groups });
+    } else if (name === "xinfo_consumers") {
+        const { key, group } = StreamInfoConsumersArgumentsSchema.parse(args);
+        const consumers = await redisClient.xInfoConsumers(key, group);
+        return toolResult(JSON.stringify(consumers, null, 2), { key, group, consumers });
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
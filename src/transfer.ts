@@ -0,0 +1,449 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { appendFile, readFile, writeFile } from "fs/promises";
+import { resolve, sep } from "path";
+import { z } from "zod";
+import { commandOptions } from "redis";
+import { assertKeysAllowed, isKeyReadable } from "./access.js";
+import { ServerConfig } from "./config.js";
+import { LimitArgumentsSchema, byteSize, encodeValue, outputLimits, toolResult } from "./output.js";
+import { assertRedactionKept, mayRedactKey } from "./redaction.js";
+import { RedisClient, formatCursor, scanKeys, withModule } from "./redis.js";
+import { ToolContext } from "./types.js";
+
+const MAX_TRANSFER_KEYS = 10000;
+
+const KEY_TYPES = ["string", "hash", "set", "zset", "list", "stream", "ReJSON-RL"] as const;
+
+// A value as written by export_keys: text, or { base64 } for binary data
+const EncodedValueSchema = z.union([z.string(), z.object({ base64: z.string() })]);
+
+// Shape of the value of each type, as export_keys writes it
+const NATIVE_VALUE_SCHEMAS: Record<string, z.ZodTypeAny> = {
+    "string": EncodedValueSchema,
+    "hash": z.record(EncodedValueSchema),
+    "set": z.array(EncodedValueSchema),
+    "zset": z.array(z.object({ value: EncodedValueSchema, score: z.number() })),
+    "list": z.array(EncodedValueSchema),
+    "stream": z.array(z.object({ id: z.string(), message: z.record(z.string()) })),
+    "ReJSON-RL": z.unknown(),
+};
+
+// One line of an export
+const KeyRecordSchema = z.object({
+    key: z.string(),
+    type: z.string(),
+    ttl: z.number().int().default(-1),
+    value: z.unknown().optional(),
+    dump: z.string().optional(),
+}).superRefine((record, ctx) => {
+    const schema = NATIVE_VALUE_SCHEMAS[record.type];
+    if (record.value !== undefined && record.value !== null && schema) {
+        const result = schema.safeParse(record.value);
+        if (!result.success) {
+            for (const issue of result.error.issues) {
+                ctx.addIssue({ ...issue, path: ["value", ...issue.path] });
+            }
+        }
+    } else if (record.dump === undefined) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `A ${record.type} record needs a dump payload`, path: ["dump"] });
+    }
+});
+
+type KeyRecord = z.infer<typeof KeyRecordSchema>;
+
+// Transfer schemas
+const ExportKeysArgumentsSchema = z.object({
+    pattern: z.string().default("*"),
+    type: z.enum(KEY_TYPES).optional(),
+    cursor: z.union([z.number().int().min(0), z.string()]).default(0),
+    count: z.number().int().positive().default(100),
+    limit: z.number().int().positive().max(MAX_TRANSFER_KEYS).default(1000),
+    includeDump: z.boolean().default(false),
+    file: z.string().optional(),
+    append: z.boolean().default(false),
+}).merge(LimitArgumentsSchema);
+
+const ImportKeysArgumentsSchema = z.object({
+    records: z.array(z.unknown()).max(MAX_TRANSFER_KEYS).optional(),
+    file: z.string().optional(),
+    onConflict: z.enum(["skip", "overwrite", "rename"]).default("skip"),
+    renamePrefix: z.string().min(1).optional(),
+    useDump: z.boolean().default(false),
+    dryRun: z.boolean().default(false),
+}).refine((value) => (value.records === undefined) !== (value.file === undefined), {
+    message: "Provide exactly one of records or file",
+}).refine((value) => value.onConflict !== "rename" || value.renamePrefix !== undefined, {
+    message: "renamePrefix is required when onConflict is rename",
+    path: ["renamePrefix"],
+});
+
+type ImportAction = "create" | "overwrite" | "rename" | "skip" | "fail";
+
+interface ImportResult {
+    key: string;
+    target: string | null;
+    action: ImportAction;
+    error?: string;
+}
+
+export const transferTools: Tool[] = [
+    {
+        name: "export_keys",
+        description: "Export keys matching a pattern, with their type, TTL and value, as JSON Lines written to a file or returned inline. " +
+            "Walks the keyspace with SCAN; pass the returned cursor back (with append: true for a file) to continue a large export",
+        annotations: { readOnlyHint: true },
+        inputSchema: {
+            type: "object",
+            properties: {
+                pattern: { type: "string", description: "Pattern to match keys (default: *)" },
+                type: { type: "string", enum: [...KEY_TYPES], description: "Only export keys of this type" },
+                cursor: { type: ["string", "number"], description: "Cursor returned by a previous call (default: 0)" },
+                count: { type: "number", description: "SCAN COUNT hint per iteration (default: 100)" },
+                limit: { type: "number", description: `Stop once this many keys are exported (default: 1000, max: ${MAX_TRANSFER_KEYS})` },
+                includeDump: { type: "boolean", description: "Add each key's binary-safe DUMP payload (base64), which also covers module types (default: false)" },
+                file: { type: "string", description: "File to write, relative to the server's transfer directory. Without it the records are returned inline" },
+                append: { type: "boolean", description: "Append to the file instead of replacing it (default: false)" },
+                maxItems: { type: "number", description: "Return at most this many records inline (default and max: the server's limit)" },
+                maxBytes: { type: "number", description: "Return at most about this many bytes of records inline; keys that don't fit are listed in skipped (default and max: the server's limit)" },
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                exported: { type: "number" },
+                file: { type: ["string", "null"], description: "Path of the written file, null when the records are returned inline" },
+                records: {
+                    type: "array",
+                    description: "The exported records, when no file is given",
+                    items: {
+                        type: "object",
+                        properties: {
+                            key: { type: "string" },
+                            type: { type: "string" },
+                            ttl: { type: "number", description: "Remaining time to live in milliseconds, -1 for none" },
+                            value: { description: "Native value: text for strings, a field map for hashes, member lists for sets and lists, { value, score } pairs for sorted sets, { id, message } entries for streams, the document for JSON" },
+                            dump: { type: "string", description: "DUMP payload (base64)" },
+                        },
+                        required: ["key", "type", "ttl", "value"],
+                    },
+                },
+                skipped: {
+                    type: "array",
+                    items: { type: "string" },
+                    description: "Keys left out of the inline records by maxBytes; export them to a file or one at a time",
+                },
+                cursor: { type: "string" },
+                complete: { type: "boolean" },
+            },
+            required: ["exported", "file", "cursor", "complete"],
+        },
+    },
+    {
+        name: "import_keys",
+        description: "Restore keys from export_keys records, given inline or as a JSON Lines file in the server's transfer directory. " +
+            "Existing keys are skipped, overwritten, or imported under a prefix; use dryRun to see what would happen first",
+        inputSchema: {
+            type: "object",
+            properties: {
+                records: { type: "array", items: { type: "object" }, description: `Records as returned by export_keys (max: ${MAX_TRANSFER_KEYS})` },
+                file: { type: "string", description: "JSON Lines file to read, relative to the server's transfer directory" },
+                onConflict: {
+                    type: "string",
+                    enum: ["skip", "overwrite", "rename"],
+                    description: "What to do when a key already exists: keep it, replace it, or import under renamePrefix + key (default: skip)",
+                },
+                renamePrefix: { type: "string", description: "Prefix for keys imported under a new name (onConflict: rename)" },
+                useDump: { type: "boolean", description: "Restore from the DUMP payload where a record has one, instead of the native value (default: false)" },
+                dryRun: { type: "boolean", description: "Only report what would be imported (default: false)" },
+            },
+        },
+        outputSchema: {
+            type: "object",
+            properties: {
+                dryRun: { type: "boolean" },
+                total: { type: "number" },
+                created: { type: "number" },
+                overwritten: { type: "number" },
+                renamed: { type: "number" },
+                skipped: { type: "number" },
+                failed: { type: "number" },
+                results: {
+                    type: "array",
+                    items: {
+                        type: "object",
+                        properties: {
+                            key: { type: "string" },
+                            target: { type: ["string", "null"], description: "Key written, null if skipped" },
+                            action: { type: "string", enum: ["create", "overwrite", "rename", "skip", "fail"] },
+                            error: { type: "string" },
+                        },
+                        required: ["key", "target", "action"],
+                    },
+                },
+            },
+            required: ["dryRun", "total", "created", "overwritten", "renamed", "skipped", "failed", "results"],
+        },
+    },
+];
+
+// Files are only read and written inside the configured transfer directory
+function transferPath(config: Pick<ServerConfig, "transferDir">, file: string): string {
+    if (!config.transferDir) {
+        throw new Error("File transfer is disabled: start the server with --transfer-dir to read and write files");
+    }
+    const dir = resolve(config.transferDir);
+    const path = resolve(dir, file);
+    if (!path.startsWith(dir + sep)) {
+        throw new Error(`File must be inside the transfer directory: ${file}`);
+    }
+    return path;
+}
+
+function decodeValue(value: z.infer<typeof EncodedValueSchema>): string | Buffer {
+    return typeof value === "string" ? value : Buffer.from(value.base64, "base64");
+}
+
+async function readNativeValue(redisClient: RedisClient, key: string, type: string): Promise<unknown> {
+    const options = commandOptions({ returnBuffers: true });
+    switch (type) {
+        case "string": {
+            const value = await redisClient.get(options, key);
+            return value === null ? null : encodeValue(value);
+        }
+        case "hash": {
+            const hash = await redisClient.hGetAll(options, key);
+            return Object.fromEntries(Object.entries(hash).map(([field, value]) => [field, encodeValue(value)]));
+        }
+        case "set":
+            return (await redisClient.sMembers(options, key)).map(encodeValue);
+        case "zset":
+            return (await redisClient.zRangeWithScores(options, key, 0, -1)).map(({ value, score }) => ({ value: encodeValue(value), score }));
+        case "list":
+            return (await redisClient.lRange(options, key, 0, -1)).map(encodeValue);
+        case "stream":
+            return redisClient.xRange(key, "-", "+");
+        case "ReJSON-RL":
+            return withModule("RedisJSON", "JSON.", () => redisClient.json.get(key));
+        default:
+            // Module types (time series, bloom filters, ...) can only be exported as DUMP payloads
+            return null;
+    }
+}
+
+async function exportKey(redisClient: RedisClient, key: string, includeDump: boolean): Promise<Record<string, unknown> | null> {
+    const type = await redisClient.type(key);
+    if (type === "none") {
+        return null;
+    }
+    const [ttl, value, dump] = await Promise.all([
+        redisClient.pTTL(key),
+        readNativeValue(redisClient, key, type),
+        includeDump ? redisClient.dump(commandOptions({ returnBuffers: true }), key) : null,
+    ]);
+    if (ttl === -2) {
+        return null;
+    }
+    return { key, type, ttl, value, ...(dump ? { dump: dump.toString("base64") } : {}) };
+}
+
+async function exportKeys(redisClient: RedisClient, keys: string[], includeDump: boolean): Promise<Record<string, unknown>[]> {
+    const records: Record<string, unknown>[] = [];
+    for (const key of keys) {
+        const record = await exportKey(redisClient, key, includeDump);
+        if (record) {
+            records.push(record);
+        }
+    }
+    return records;
+}
+
+function formatRecord(record: Record<string, unknown>): string {
+    return `${JSON.stringify(record)}\n`;
+}
+
+// Write one record under the target key, replacing any existing key atomically
+async function importRecord(redisClient: RedisClient, target: string, record: KeyRecord, replace: boolean, useDump: boolean): Promise<void> {
+    const ttl = record.ttl > 0 ? record.ttl : 0;
+    const hasValue = record.value !== undefined && record.value !== null && record.type in NATIVE_VALUE_SCHEMAS;
+    if (record.dump !== undefined && (useDump || !hasValue)) {
+        await redisClient.restore(target, ttl, Buffer.from(record.dump, "base64"), replace ? { REPLACE: true } : undefined);
+        return;
+    }
+
+    const value = NATIVE_VALUE_SCHEMAS[record.type].parse(record.value);
+    const multi = redisClient.multi();
+    if (replace) {
+        multi.del(target);
+    }
+    switch (record.type) {
+        case "string":
+            multi.set(target, decodeValue(value));
+            break;
+        case "hash":
+            multi.hSet(target, Object.fromEntries(Object.entries(value as Record<string, z.infer<typeof EncodedValueSchema>>)
+                .map(([field, v]) => [field, decodeValue(v)])));
+            break;
+        case "set":
+            multi.sAdd(target, (value as z.infer<typeof EncodedValueSchema>[]).map(decodeValue));
+            break;
+        case "zset":
+            multi.zAdd(target, (value as { value: z.infer<typeof EncodedValueSchema>; score: number }[])
+                .map((member) => ({ value: decodeValue(member.value), score: member.score })));
+            break;
+        case "list":
+            multi.rPush(target, (value as z.infer<typeof EncodedValueSchema>[]).map(decodeValue));
+            break;
+        case "stream":
+            for (const entry of value as { id: string; message: Record<string, string> }[]) {
+                multi.xAdd(target, entry.id, entry.message);
+            }
+            break;
+        case "ReJSON-RL":
+            multi.json.set(target, "$", value as Parameters<RedisClient["json"]["set"]>[2]);
+            break;
+    }
+    if (ttl > 0) {
+        multi.pExpire(target, ttl);
+    }
+    await multi.exec();
+}
+
+async function readRecords(config: Pick<ServerConfig, "transferDir">, records: unknown[] | undefined, file: string | undefined): Promise<KeyRecord[]> {
+    let lines: Array<{ label: string; raw: unknown }>;
+    if (records) {
+        lines = records.map((raw, i) => ({ label: `Record ${i + 1}`, raw }));
+    } else {
+        const path = transferPath(config, file!);
+        const text = await readFile(path, "utf8");
+        lines = [];
+        text.split('\n').forEach((line, i) => {
+            if (line.trim() === "") {
+                return;
+            }
+            try {
+                lines.push({ label: `Line ${i + 1}`, raw: JSON.parse(line) });
+            } catch (error) {
+                throw new Error(`Line ${i + 1}: invalid JSON (${(error as Error).message})`);
+            }
+        });
+        if (lines.length > MAX_TRANSFER_KEYS) {
+            throw new Error(`${file} holds ${lines.length} records, more than the maximum of ${MAX_TRANSFER_KEYS} per import`);
+        }
+    }
+    // Validate everything before anything is written
+    return lines.map(({ label, raw }) => {
+        const result = KeyRecordSchema.safeParse(raw);
+        if (!result.success) {
+            throw new Error(`${label}: ${result.error.errors.map((e) => `${e.path.join(".")}: ${e.message}`).join(", ")}`);
+        }
+        return result.data;
+    });
+}
+
+export async function handleTransferTool({ redisClient, connection, config }: ToolContext, name: string, args: unknown): Promise<CallToolResult> {
+    if (name === "export_keys") {
+        const { pattern, type, cursor, count, limit, includeDump, file, append, ...limitArgs } = ExportKeysArgumentsSchema.parse(args);
+        const path = file === undefined ? null : transferPath(config, file);
+        // Records returned inline count against the output limits
+        const maxKeys = path ? limit : Math.min(limit, outputLimits(config, limitArgs).maxItems);
+        const scan = await scanKeys(
+            await connection.nodeClients(),
+            String(cursor),
+            maxKeys,
+            { MATCH: pattern, COUNT: Math.min(count, maxKeys), ...(type ? { TYPE: type } : {}) },
+            (key) => isKeyReadable(key, config)
+        );
+        const complete = scan.cursor === "0";
+        if (path) {
+            // Files hold the stored values, so that they restore faithfully: read them past the
+            // redaction, which only applies to what is returned to the client
+            const records = await exportKeys(connection.client, scan.keys, includeDump);
+            const lines = records.map(formatRecord).join("");
+            await (append ? appendFile(path, lines) : writeFile(path, lines));
+            return toolResult(
+                `Exported ${records.length} keys to ${path}\n\n${formatCursor(scan.cursor)}`,
+                { exported: records.length, file: path, cursor: scan.cursor, complete }
+            );
+        }
+        if (includeDump) {
+            // A redacted DUMP payload would be corrupt rather than masked
+            const redacted = scan.keys.find((key) => mayRedactKey(key, config.redaction));
+            if (redacted !== undefined) {
+                throw new Error(`Cannot return the DUMP payload of ${redacted} inline, since redaction applies to it: export to a file instead`);
+            }
+        }
+        const { maxBytes } = outputLimits(config, limitArgs);
+        const records: Record<string, unknown>[] = [];
+        const skipped: string[] = [];
+        let bytes = 0;
+        for (const record of await exportKeys(redisClient, scan.keys, includeDump)) {
+            const size = byteSize(record);
+            if (bytes + size > maxBytes) {
+                skipped.push(record.key as string);
+                continue;
+            }
+            bytes += size;
+            records.push(record);
+        }
+        const lines = records.map(formatRecord).join("");
+        return toolResult(
+            `${records.length > 0 ? lines : "No keys found matching pattern\n"}` +
+            `${skipped.length > 0 ? `\nSkipped by the output limits (export them to a file or one at a time): ${skipped.join(", ")}\n` : ""}` +
+            `\n${formatCursor(scan.cursor)}`,
+            { exported: records.length, file: null, records, ...(skipped.length > 0 ? { skipped } : {}), cursor: scan.cursor, complete }
+        );
+    } else if (name === "import_keys") {
+        const { records: rawRecords, file, onConflict, renamePrefix, useDump, dryRun } = ImportKeysArgumentsSchema.parse(args);
+        const records = await readRecords(config, rawRecords, file);
+
+        const results: ImportResult[] = [];
+        for (const record of records) {
+            let target: string | null = record.key;
+            let action: ImportAction = "create";
+            try {
+                if (await redisClient.exists(record.key) > 0) {
+                    if (onConflict === "skip") {
+                        target = null;
+                        action = "skip";
+                    } else if (onConflict === "overwrite") {
+                        action = "overwrite";
+                    } else {
+                        target = `${renamePrefix}${record.key}`;
+                        action = await redisClient.exists(target) > 0 ? "skip" : "rename";
+                        target = action === "skip" ? null : target;
+                    }
+                }
+                if (target !== null) {
+                    assertKeysAllowed([target], true, config);
+                    if (action === "rename") {
+                        // Files hold stored values, which must stay as redacted under the new name as under the old one
+                        assertRedactionKept(record.key, target, config);
+                    }
+                    if (!dryRun) {
+                        await importRecord(redisClient, target, record, action === "overwrite", useDump);
+                    }
+                }
+                results.push({ key: record.key, target, action });
+            } catch (error) {
+                results.push({ key: record.key, target, action: "fail", error: (error as Error).message });
+            }
+        }
+
+        const counts = {
+            created: results.filter((r) => r.action === "create").length,
+            overwritten: results.filter((r) => r.action === "overwrite").length,
+            renamed: results.filter((r) => r.action === "rename").length,
+            skipped: results.filter((r) => r.action === "skip").length,
+            failed: results.filter((r) => r.action === "fail").length,
+        };
+        const summary = `${counts.created} created, ${counts.overwritten} overwritten, ${counts.renamed} renamed, ${counts.skipped} skipped, ${counts.failed} failed`;
+        const failures = results.filter((r) => r.action === "fail").map((r) => `${r.key}: ${r.error}`);
+        return toolResult(
+            `${dryRun ? `Dry run, nothing was written. Importing ${records.length} keys would give` : `Imported ${records.length} keys`}: ${summary}` +
+            (failures.length > 0 ? `\n\nFailures:\n${failures.join('\n')}` : ""),
+            { dryRun, total: records.length, ...counts, results }
+        );
+    } else {
+        throw new Error(`Unknown tool: ${name}`);
+    }
+}
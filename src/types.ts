@@ -0,0 +1,30 @@
+import { CallToolResult, Tool } from "@modelcontextprotocol/sdk/types.js";
+import { ServerConfig } from "./config.js";
+import { ConnectionRegistry, RedisConnection } from "./connection.js";
+import { RedisClient } from "./redis.js";
+
+// Server-wide state, available to every tool
+export interface ServerContext {
+    connections: ConnectionRegistry;
+    config: ServerConfig;
+}
+
+// Everything a tool handler needs to execute a call against the connection it was routed to
+export interface ToolContext extends ServerContext {
+    redisClient: RedisClient;
+    connection: RedisConnection;
+}
+
+export interface ConnectionToolGroup {
+    tools: Tool[];
+    handle: (context: ToolContext, name: string, args: unknown) => Promise<CallToolResult>;
+}
+
+// Tools that don't run against a single connection, such as list_connections
+export interface ServerToolGroup {
+    tools: Tool[];
+    connectionless: true;
+    handle: (context: ServerContext, name: string, args: unknown) => Promise<CallToolResult>;
+}
+
+export type ToolGroup = ConnectionToolGroup | ServerToolGroup;
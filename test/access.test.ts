@@ -0,0 +1,73 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+async function toolNames(h: Harness): Promise<string[]> {
+    return (await h.mcp.listTools()).tools.map((tool) => tool.name);
+}
+
+describe("read-only mode", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--read-only"]); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("hides and refuses tools that modify data", async () => {
+        const names = await toolNames(h);
+        assert.ok(names.includes("get") && names.includes("info"));
+        assert.ok(!names.includes("set") && !names.includes("delete_pattern"));
+        assert.match(await h.fail("set", { key: "k", value: "v" }), /Tool not permitted: set modifies data and the server is in read-only mode/);
+        assert.equal(await h.redis.exists("k"), 0);
+    });
+
+    it("still runs read tools", async () => {
+        await h.redis.set("k", "v");
+        assert.equal((await h.call("get", { key: "k" })).value, "v");
+    });
+});
+
+describe("tool allow and deny lists", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--allow-tools", "get,set,info", "--deny-tools", "set,dbsize"]); });
+    after(() => h.close());
+
+    it("exposes allowed tools and diagnostics that are not denied", async () => {
+        const names = await toolNames(h);
+        assert.ok(names.includes("get") && names.includes("info") && names.includes("slowlog_get"));
+        assert.ok(!names.includes("set") && !names.includes("hget") && !names.includes("dbsize"));
+    });
+
+    it("refuses tools outside the allow list or in the deny list", async () => {
+        assert.match(await h.fail("hget", { key: "k", field: "f" }), /Tool not permitted: hget is not in the allow list/);
+        assert.match(await h.fail("set", { key: "k", value: "v" }), /Tool not permitted: set is in the deny list/);
+        assert.match(await h.fail("dbsize"), /Tool not permitted: dbsize is in the deny list/);
+    });
+});
+
+describe("key patterns", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--key-patterns", "app:*,cache:*", "--write-key-patterns", "cache:*"]); });
+    after(() => h.close());
+    beforeEach(async () => {
+        h.fake.flushAll();
+        await h.redis.mSet({ "app:name": "demo", "cache:page": "html", "secret": "s3cr3t" });
+    });
+
+    it("reads only keys matching the key patterns", async () => {
+        assert.equal((await h.call("get", { key: "app:name" })).value, "demo");
+        assert.match(await h.fail("get", { key: "secret" }), /Access denied: key secret does not match the allowed key patterns/);
+        assert.match(await h.fail("copy", { source: "cache:page", destination: "secret" }), /Access denied: key secret/);
+    });
+
+    it("writes only keys matching the writable key patterns", async () => {
+        await h.call("set", { key: "cache:page", value: "new" });
+        assert.equal(await h.redis.get("cache:page"), "new");
+        assert.match(await h.fail("set", { key: "app:name", value: "x" }), /Access denied: key app:name does not match the writable key patterns/);
+        assert.equal(await h.redis.get("app:name"), "demo");
+    });
+
+    it("leaves keys outside the patterns out of listings", async () => {
+        const { keys } = await h.call<{ keys: string[] }>("list");
+        assert.deepEqual(keys.sort(), ["app:name", "cache:page"]);
+    });
+});
@@ -0,0 +1,83 @@
+import assert from "node:assert/strict";
+import { existsSync, mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { AuditEntry } from "../src/audit.js";
+import { Harness, startHarness } from "./harness.js";
+
+describe("audit log", () => {
+    let h: Harness;
+    let dir: string;
+    let file: string;
+    before(async () => {
+        dir = mkdtempSync(join(tmpdir(), "redis-mcp-audit-"));
+        file = join(dir, "audit.jsonl");
+        h = await startHarness([
+            "--audit-file", file, "--audit-redact-key-patterns", "session:*",
+            "--redact-key-patterns", "user:*", "--redact-detectors", "email", "--deny-tools", "dbsize",
+            "--key-patterns", "app:*,user:*,session:*",
+        ]);
+    });
+    after(async () => {
+        await h.close();
+        rmSync(dir, { recursive: true });
+    });
+
+    // The next entries, which are written in the background
+    let seen = 0;
+    async function entries(count: number): Promise<AuditEntry[]> {
+        for (let i = 0; i < 100; i++) {
+            const lines = existsSync(file) ? readFileSync(file, "utf8").trim().split("\n").filter(Boolean) : [];
+            if (lines.length >= seen + count) {
+                seen += count;
+                return lines.slice(seen - count, seen).map((line) => JSON.parse(line));
+            }
+            await sleep(10);
+        }
+        assert.fail(`Expected ${count} audit entries`);
+    }
+
+    it("records successful calls with their connection and affected counts", async () => {
+        await h.call("set", { key: "app:name", value: "demo" });
+        await h.call("delete", { key: "app:name" });
+        const [set, del] = await entries(2);
+        assert.deepEqual(
+            { ...set, timestamp: undefined, durationMs: undefined, client: undefined },
+            {
+                timestamp: undefined, tool: "set", arguments: { key: "app:name", value: "demo" }, connection: "default", db: 0,
+                client: undefined, sessionId: null, outcome: "success", error: null, affected: {}, durationMs: undefined,
+            }
+        );
+        assert.deepEqual(set.client, { name: "redis-mcp-tests", version: "1.0.0" });
+        assert.deepEqual([del.tool, del.affected.deleted], ["delete", 1]);
+    });
+
+    it("classifies failures", async () => {
+        await h.fail("dbsize");
+        await h.fail("get", { key: "other" });
+        await h.fail("no_such_tool", { key: "app:name" });
+        await h.fail("expire", { key: "app:name" });
+        await h.redis.set("app:name", "demo");
+        await h.fail("hget", { key: "app:name", field: "f" });
+        const outcomes = (await entries(5)).map((entry) => [entry.tool, entry.outcome]);
+        assert.deepEqual(outcomes, [
+            ["dbsize", "denied"], ["get", "denied"], ["no_such_tool", "invalid"], ["expire", "invalid"], ["hget", "error"],
+        ]);
+    });
+
+    it("redacts values and leaves out undeclared arguments", async () => {
+        await h.call("set", { key: "user:1", value: "ada" });
+        await h.call("set", { key: "session:1", value: "token" });
+        await h.call("set", { key: "app:contact", value: "mail ada@example.com", note: "ignored" });
+        await h.fail("no_such_tool", { value: "ada@example.com" });
+        const logged = (await entries(4)).map((entry) => entry.arguments);
+        assert.deepEqual(logged, [
+            { key: "user:1", value: "[REDACTED]" },
+            { key: "session:1", value: "[REDACTED]" },
+            { key: "app:contact", value: "mail [REDACTED]" },
+            {},
+        ]);
+    });
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+interface ListResult {
+    keys: string[];
+    cursor: string;
+    complete: boolean;
+}
+
+describe("basic tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("set and get a value", async () => {
+        assert.deepEqual(await h.call("set", { key: "greeting", value: "hello" }), { key: "greeting", expireSeconds: null });
+        const result = await h.call("get", { key: "greeting" });
+        assert.deepEqual(result, { key: "greeting", exists: true, value: "hello", totalBytes: 5, truncated: false, nextOffset: null });
+    });
+
+    it("set with an expiration", async () => {
+        await h.call("set", { key: "session", value: "x", expireSeconds: 60 });
+        assert.ok(await h.redis.ttl("session") > 0);
+    });
+
+    it("get reads a large value in parts", async () => {
+        await h.redis.set("big", "abcdefghij");
+        const first = await h.call("get", { key: "big", maxBytes: 4 });
+        assert.deepEqual([first.value, first.truncated, first.nextOffset], ["abcd", true, 4]);
+        const second = await h.call("get", { key: "big", offset: 8, maxBytes: 4 });
+        assert.deepEqual([second.value, second.truncated, second.nextOffset], ["ij", false, null]);
+    });
+
+    it("get returns binary values as base64", async () => {
+        await h.redis.set("binary", Buffer.from([0xff, 0x00, 0xfe]));
+        const result = await h.call("get", { key: "binary" });
+        assert.deepEqual(result.value, { base64: "/wD+" });
+    });
+
+    it("get reports a missing key", async () => {
+        const result = await h.call("get", { key: "missing" });
+        assert.deepEqual([result.exists, result.value], [false, null]);
+    });
+
+    it("get explains a key of the wrong type", async () => {
+        await h.redis.hSet("profile", "name", "Ada");
+        assert.match(await h.fail("get", { key: "profile" }), /holds a hash/);
+    });
+
+    it("delete one or more keys", async () => {
+        await h.redis.mSet(["a", "1", "b", "2"]);
+        assert.deepEqual(await h.call("delete", { key: ["a", "b", "c"] }), { requested: 3, deleted: 2 });
+        assert.deepEqual(await h.call("delete", { key: "a" }), { requested: 1, deleted: 0 });
+    });
+
+    it("list keys with a pattern and type", async () => {
+        await h.redis.mSet(["user:1", "a", "user:2", "b", "order:1", "c"]);
+        await h.redis.hSet("user:3", "name", "Ada");
+        const all = await h.call<ListResult>("list", { pattern: "user:*" });
+        assert.deepEqual(all.keys.sort(), ["user:1", "user:2", "user:3"]);
+        assert.deepEqual([all.cursor, all.complete], ["0", true]);
+        const hashes = await h.call("list", { pattern: "user:*", type: "hash" });
+        assert.deepEqual(hashes.keys, ["user:3"]);
+    });
+
+    it("list continues from a cursor", async () => {
+        await h.redis.mSet(["k1", "1", "k2", "2", "k3", "3"]);
+        const first = await h.call<ListResult>("list", { limit: 2, count: 2 });
+        assert.equal(first.complete, false);
+        const second = await h.call<ListResult>("list", { cursor: first.cursor, count: 2 });
+        assert.deepEqual([...first.keys, ...second.keys].sort(), ["k1", "k2", "k3"]);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("set", { key: "k" }), /Invalid arguments: value: Required/);
+        assert.match(await h.fail("get", { key: "k", offset: -1 }), /Invalid arguments: offset/);
+        assert.match(await h.fail("list", { type: "graph" }), /Invalid arguments: type/);
+    });
+
+    it("rejects unknown tools", async () => {
+        assert.match(await h.fail("nonexistent"), /Unknown tool: nonexistent/);
+    });
+});
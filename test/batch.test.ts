@@ -0,0 +1,98 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+interface BatchResult {
+    mode: string;
+    committed: boolean | null;
+    results: Array<{ tool: string; ok: boolean; result?: Record<string, unknown>; error?: string }>;
+}
+
+describe("batch tool", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("runs operations in a transaction", async () => {
+        const result = await h.call<BatchResult>("batch", {
+            operations: [
+                { tool: "set", arguments: { key: "name", value: "Ada" } },
+                { tool: "hset", arguments: { key: "profile", field: "city", value: "London" } },
+                { tool: "get", arguments: { key: "name" } },
+            ],
+        });
+        assert.deepEqual([result.mode, result.committed], ["transaction", true]);
+        assert.deepEqual(result.results.map((r) => [r.tool, r.ok]), [["set", true], ["hset", true], ["get", true]]);
+        assert.equal(result.results[2].result?.value, "Ada");
+        assert.equal(await h.redis.hGet("profile", "city"), "London");
+    });
+
+    it("reads ranges of lists and sorted sets in a transaction", async () => {
+        await h.redis.zAdd("scores", [{ score: 1, value: "a" }, { score: 2, value: "b" }]);
+        const result = await h.call<BatchResult>("batch", {
+            operations: [
+                { tool: "rpush", arguments: { key: "queue", elements: ["x", "y", "z"] } },
+                { tool: "lrange", arguments: { key: "queue", start: -2, stop: -1 } },
+                { tool: "zrange", arguments: { key: "scores", start: 0, stop: -1, withScores: true } },
+            ],
+        });
+        assert.deepEqual([result.committed, result.results.map((r) => r.ok)], [true, [true, true, true]]);
+        assert.deepEqual(result.results[1].result, { key: "queue", elements: ["y", "z"], total: 2, truncated: false, nextStart: null });
+        assert.deepEqual(result.results[2].result?.members, [{ member: "a", score: 1 }, { member: "b", score: 2 }]);
+    });
+
+    it("runs operations in a pipeline, including tools that read before they write", async () => {
+        await h.redis.set("name", "Ada");
+        const result = await h.call<BatchResult>("batch", {
+            mode: "pipeline",
+            operations: [
+                { tool: "describe_key", arguments: { key: "name" } },
+                { tool: "delete", arguments: { key: "name" } },
+            ],
+        });
+        assert.deepEqual([result.mode, result.committed], ["pipeline", null]);
+        assert.deepEqual(result.results.map((r) => r.ok), [true, true]);
+        assert.equal(await h.redis.exists("name"), 0);
+    });
+
+    it("commits a transaction guarded by watch", async () => {
+        await h.redis.set("balance", "10");
+        const result = await h.call<BatchResult>("batch", { watch: ["balance"], operations: [{ tool: "set", arguments: { key: "balance", value: "20" } }] });
+        assert.equal(result.committed, true);
+        assert.equal(await h.redis.get("balance"), "20");
+    });
+
+    it("reports a wrong type inside a transaction per operation", async () => {
+        await h.redis.set("name", "Ada");
+        const result = await h.call<BatchResult>("batch", {
+            operations: [
+                { tool: "hget", arguments: { key: "name", field: "first" } },
+                { tool: "set", arguments: { key: "other", value: "x" } },
+            ],
+        });
+        assert.equal(result.results[0].ok, false);
+        assert.match(result.results[0].error ?? "", /key name holds a string/);
+        assert.equal(result.results[1].ok, true);
+    });
+
+    it("does not execute a transaction when an operation has invalid arguments", async () => {
+        const result = await h.call<BatchResult>("batch", {
+            operations: [
+                { tool: "set", arguments: { key: "name", value: "Ada" } },
+                { tool: "set", arguments: { key: "other" } },
+            ],
+        });
+        assert.equal(result.committed, false);
+        assert.match(result.results[0].error ?? "", /Not executed: transaction aborted because operation 2 failed/);
+        assert.match(result.results[1].error ?? "", /Invalid arguments: value/);
+        assert.equal(await h.redis.exists("name"), 0);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("batch", { operations: [] }), /Invalid arguments: operations/);
+        assert.match(await h.fail("batch", { mode: "pipeline", watch: ["k"], operations: [{ tool: "get", arguments: { key: "k" } }] }), /watch is only supported in transaction mode/);
+        assert.match(await h.fail("batch", { operations: [{ tool: "blpop", arguments: { keys: ["q"] } }] }), /Operation 1 \(blpop\): this tool cannot be batched/);
+        assert.match(await h.fail("batch", { operations: [{ tool: "get", arguments: { key: "k", db: 1 } }] }), /set connection and db on the batch itself/);
+    });
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { Harness, startHarness } from "./harness.js";
+
+interface PatternResult {
+    dryRun: boolean;
+    matched: number;
+    sample: string[];
+    confirm: string | null;
+    complete: boolean;
+}
+
+describe("bulk tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(async () => {
+        h.fake.flushAll();
+        await h.redis.mSet({ "tmp:1": "a", "tmp:2": "b", "keep": "c" });
+        await h.redis.hSet("tmp:hash", { f: "v" });
+    });
+
+    it("delete_pattern deletes only after a confirmed dry run", async () => {
+        const dryRun = await h.call<PatternResult & { deleted: number }>("delete_pattern", { pattern: "tmp:*" });
+        assert.deepEqual([dryRun.dryRun, dryRun.matched, dryRun.complete, dryRun.deleted], [true, 3, true, 0]);
+        assert.deepEqual([...dryRun.sample].sort(), ["tmp:1", "tmp:2", "tmp:hash"]);
+        assert.equal(await h.redis.exists("tmp:1"), 1);
+
+        const result = await h.call("delete_pattern", { pattern: "tmp:*", confirm: dryRun.confirm });
+        assert.deepEqual([result.dryRun, result.matched, result.deleted, result.confirm], [false, 3, 3, null]);
+        assert.deepEqual([await h.redis.dbSize(), await h.redis.exists("keep")], [1, 1]);
+    });
+
+    it("delete_pattern filters by type", async () => {
+        const { confirm, matched } = await h.call("delete_pattern", { pattern: "tmp:*", type: "hash" });
+        assert.equal(matched, 1);
+        assert.equal((await h.call("delete_pattern", { pattern: "tmp:*", type: "hash", confirm })).deleted, 1);
+        assert.equal(await h.redis.exists("tmp:1"), 1);
+    });
+
+    it("expire_pattern sets an expiry on matching keys", async () => {
+        const { confirm } = await h.call("expire_pattern", { pattern: "tmp:*", seconds: 60 });
+        const result = await h.call("expire_pattern", { pattern: "tmp:*", seconds: 60, confirm });
+        assert.deepEqual([result.matched, result.applied], [3, 3]);
+        assert.ok(await h.redis.ttl("tmp:hash") > 0);
+        assert.equal(await h.redis.ttl("keep"), -1);
+    });
+
+    it("refuses to run when more keys match than maxKeys", async () => {
+        const dryRun = await h.call("delete_pattern", { pattern: "tmp:*", maxKeys: 2 });
+        assert.deepEqual([dryRun.confirm, dryRun.complete], [null, false]);
+    });
+
+    it("finds nothing to change when no keys match", async () => {
+        const dryRun = await h.call("delete_pattern", { pattern: "missing:*" });
+        assert.deepEqual([dryRun.matched, dryRun.confirm], [0, null]);
+    });
+
+    it("refuses unknown tokens, reused tokens and changed arguments", async () => {
+        assert.match(await h.fail("delete_pattern", { pattern: "tmp:*", confirm: "made-up" }), /Unknown or expired confirmation token/);
+        const { confirm } = await h.call("delete_pattern", { pattern: "tmp:*" });
+        assert.match(await h.fail("delete_pattern", { pattern: "*", confirm }), /issued for different arguments/);
+        assert.match(await h.fail("delete_pattern", { pattern: "tmp:*", confirm }), /Unknown or expired confirmation token/);
+        assert.equal(await h.redis.exists("tmp:1"), 1);
+    });
+
+    it("refuses tokens issued to another session", async () => {
+        const other = new Client({ name: "redis-mcp-tests", version: "1.0.0" });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([other.connect(clientTransport), h.server.createServer().connect(serverTransport)]);
+        try {
+            const { confirm } = await h.call("delete_pattern", { pattern: "tmp:*" });
+            await assert.rejects(
+                other.callTool({ name: "delete_pattern", arguments: { pattern: "tmp:*", confirm } }),
+                /Unknown or expired confirmation token/
+            );
+            assert.equal(await h.redis.exists("tmp:1"), 1);
+        } finally {
+            await other.close();
+        }
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("delete_pattern", { pattern: "" }), /Invalid arguments: pattern/);
+        assert.match(await h.fail("expire_pattern", { pattern: "tmp:*" }), /Provide exactly one of seconds or milliseconds/);
+        assert.match(await h.fail("expire_pattern", { pattern: "tmp:*", seconds: 1, condition: "ALWAYS" }), /Invalid arguments: condition/);
+    });
+});
@@ -0,0 +1,36 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Harness, startHarness } from "./harness.js";
+
+describe("connection tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+
+    it("list_connections reports the injected client", async () => {
+        await h.call("dbsize");
+        const { connections } = await h.call<{ connections: Array<{ target: string }> }>("list_connections");
+        assert.equal(connections.length, 1);
+        assert.deepEqual({ ...connections[0], target: undefined }, {
+            name: "default", default: true, mode: "standalone", target: undefined, db: 0, state: "ready", error: null,
+        });
+        assert.match(connections[0].target, /^redis:\/\/127\.0\.0\.1:\d+$/);
+    });
+
+    it("connects another database again once its connection is lost", async () => {
+        await h.redis.set("k", "zero");
+        await h.call("copy", { source: "k", destination: "k", destinationDb: 1 });
+        assert.equal((await h.call("get", { key: "k", db: 1 })).value, "zero");
+        for (const client of h.fake.clients().filter((c) => c.db === 1)) {
+            client.socket.destroy();
+        }
+        // Let the client see its socket close
+        await sleep(50);
+        assert.equal((await h.call("get", { key: "k", db: 1 })).value, "zero");
+    });
+
+    it("refuses an unknown connection name", async () => {
+        assert.match(await h.fail("get", { key: "k", connection: "replica" }), /Unknown connection: replica \(available: default\)/);
+    });
+});
@@ -0,0 +1,118 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+interface ClientListResult {
+    total: number;
+    clients: Array<{ db: number }>;
+    truncated: boolean;
+}
+
+describe("diagnostic tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => {
+        h.fake.flushAll();
+        h.fake.slowlog = [];
+        h.fake.latency = [];
+    });
+
+    it("info summarizes the server, or returns whole sections", async () => {
+        await h.redis.set("k", "v");
+        const { summary } = await h.call<{ summary: Record<string, unknown> }>("info");
+        assert.equal(summary.redis_version, "7.2.4");
+        assert.equal(summary.keyspace_hit_rate, 0.75);
+        assert.deepEqual(summary.keyspace, { db0: { keys: 1, expires: 0, avg_ttl: 0 } });
+        const { sections } = await h.call<{ sections: Record<string, Record<string, unknown>> }>("info", { section: "memory" });
+        assert.deepEqual(Object.keys(sections), ["memory"]);
+        assert.equal(sections.memory.maxmemory_policy, "noeviction");
+    });
+
+    it("slowlog_get lists slow commands", async () => {
+        assert.deepEqual(await h.call("slowlog_get"), { entries: [] });
+        h.fake.slowlog = [[7, 1700000000, 15000, ["KEYS", "*"], "127.0.0.1:5000", ""]];
+        assert.deepEqual(await h.call("slowlog_get", { count: 5 }), {
+            entries: [{
+                id: 7,
+                timestamp: "2023-11-14T22:13:20.000Z",
+                durationMicros: 15000,
+                command: ["KEYS", "*"],
+                client: "127.0.0.1:5000",
+                clientName: null,
+            }],
+        });
+    });
+
+    it("memory_usage, memory_stats and memory_doctor", async () => {
+        await h.redis.set("k", "value");
+        const usage = await h.call<{ exists: boolean; bytes: number }>("memory_usage", { key: "k" });
+        assert.equal(usage.exists, true);
+        assert.ok(usage.bytes > 0);
+        assert.deepEqual(await h.call("memory_usage", { key: "missing" }), { key: "missing", exists: false, bytes: null });
+        const { stats } = await h.call<{ stats: Record<string, unknown> }>("memory_stats");
+        assert.equal(stats["peak.allocated"], 2097152);
+        assert.deepEqual(stats["db.0"], { "overhead.hashtable.main": 72, "overhead.hashtable.expires": 0 });
+        assert.match((await h.call<{ report: string }>("memory_doctor")).report, /can't find any memory issue/);
+    });
+
+    it("latency_latest and latency_history", async () => {
+        assert.deepEqual(await h.call("latency_latest"), { events: [] });
+        h.fake.latency = [["command", 1700000000, 120, 250]];
+        assert.deepEqual(await h.call("latency_latest"), {
+            events: [{ event: "command", timestamp: "2023-11-14T22:13:20.000Z", latestMs: 120, maxMs: 250 }],
+        });
+        assert.deepEqual(await h.call("latency_history", { event: "command" }), {
+            event: "command",
+            samples: [{ timestamp: "2023-11-14T22:13:20.000Z", latencyMs: 120 }],
+        });
+        assert.deepEqual(await h.call("latency_history", { event: "fork" }), { event: "fork", samples: [] });
+    });
+
+    it("client_list shows connected clients", async () => {
+        const result = await h.call<ClientListResult>("client_list", { type: "normal" });
+        assert.equal(result.total, h.fake.clients().length);
+        assert.ok(result.clients.every((c) => c.db === 0));
+        const limited = await h.call<ClientListResult>("client_list", { limit: 1 });
+        assert.deepEqual([limited.clients.length, limited.truncated], [1, true]);
+    });
+
+    it("config_get masks secrets", async () => {
+        assert.deepEqual(await h.call("config_get", { parameter: "*pass*" }), { count: 1, parameters: { requirepass: "********" } });
+        assert.deepEqual(await h.call("config_get", { parameter: "maxmemory*" }), {
+            count: 2,
+            parameters: { "maxmemory": "0", "maxmemory-policy": "noeviction" },
+        });
+        assert.deepEqual(await h.call("config_get", { parameter: "nothing" }), { count: 0, parameters: {} });
+    });
+
+    it("dbsize counts the keys of the database", async () => {
+        await h.redis.mSet({ a: "1", b: "2" });
+        assert.deepEqual(await h.call("dbsize"), { db: 0, keys: 2 });
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("slowlog_get", { count: 0 }), /Invalid arguments: count/);
+        assert.match(await h.fail("memory_usage", {}), /Invalid arguments: key: Required/);
+        assert.match(await h.fail("latency_history", {}), /Invalid arguments: event: Required/);
+        assert.match(await h.fail("client_list", { type: "sentinel" }), /Invalid arguments: type/);
+    });
+});
+
+describe("diagnostic tools with key patterns", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--key-patterns", "app:*"]); });
+    after(() => h.close());
+
+    it("slowlog_get masks arguments and keys outside the patterns", async () => {
+        h.fake.slowlog = [
+            [1, 1700000000, 15000, ["SET", "app:name", "demo"], "127.0.0.1:5000", ""],
+            [2, 1700000000, 12000, ["HSET", "other", "field", "value"], "127.0.0.1:5000", ""],
+        ];
+        const { entries } = await h.call<{ entries: Array<{ command: string[] }> }>("slowlog_get");
+        assert.deepEqual(entries.map((entry) => entry.command), [
+            ["SET", "app:name", "[REDACTED]"],
+            ["HSET", "[REDACTED]", "[REDACTED]", "[REDACTED]"],
+        ]);
+    });
+});
@@ -0,0 +1,2317 @@
+import { createHash } from "node:crypto";
+import { AddressInfo, Server, Socket, createServer } from "node:net";
+
+// An in-process stand-in for a Redis server. It speaks RESP2 over TCP, so the tests drive the real
+// node-redis client, and implements the commands the tools send with Redis' replies and errors.
+// It is not a general-purpose Redis: scripts and functions run JavaScript handlers registered by
+// the tests, and the search module only understands simple conjunctive queries.
+
+export class ReplyError extends Error {}
+
+class Status {
+    constructor(readonly value: string) {}
+}
+
+const OK = new Status("OK");
+const QUEUED = new Status("QUEUED");
+
+export type Reply = null | number | string | Buffer | Status | ReplyError | Reply[];
+
+const WRONGTYPE = "WRONGTYPE Operation against a key holding the wrong kind of value";
+// The writes a replica refuses, enough for the tests
+const REPLICA_REFUSED = new Set(["SET", "DEL", "HSET", "LPUSH", "RPUSH", "SADD", "ZADD", "XADD", "EXPIRE"]);
+
+interface StreamEntry {
+    id: string;
+    fields: Buffer[];
+}
+
+interface PendingEntry {
+    consumer: string;
+    deliveredAt: number;
+    deliveries: number;
+}
+
+interface ConsumerGroup {
+    lastId: string;
+    pending: Map<string, PendingEntry>;
+    // Consumer name -> time of its last read
+    consumers: Map<string, number>;
+}
+
+interface Stream {
+    entries: StreamEntry[];
+    lastId: string;
+    groups: Map<string, ConsumerGroup>;
+}
+
+interface Values {
+    "string": Buffer;
+    "hash": Map<string, Buffer>;
+    "set": Set<string>;
+    "zset": Map<string, number>;
+    "list": Buffer[];
+    "stream": Stream;
+    "ReJSON-RL": unknown;
+}
+
+type ValueType = keyof Values;
+type Value = { [T in ValueType]: { type: T; value: Values[T] } }[ValueType];
+type ValueOf<T extends ValueType> = Values[T];
+type Entry = Value & { expiresAt?: number };
+type Database = Map<string, Entry>;
+
+interface SearchIndex {
+    on: "HASH" | "JSON";
+    prefixes: string[];
+    // Attribute name -> identifier (hash field or JSONPath) and type
+    fields: Array<{ identifier: string; attribute: string; type: string; sortable: boolean }>;
+}
+
+interface FunctionLibrary {
+    name: string;
+    code: string;
+    functions: Array<{ name: string; flags: string[] }>;
+}
+
+// Runs a command from inside a script or function, like redis.call
+export type ScriptCall = (...args: Array<string | number>) => Reply;
+export type ScriptHandler = (call: ScriptCall, keys: string[], args: string[]) => Reply;
+
+interface Connection {
+    id: number;
+    socket: Socket;
+    db: number;
+    name: string;
+    createdAt: number;
+    lastCommand: string;
+    multi: Buffer[][] | null;
+    watched: Map<string, number> | null;
+    channels: Set<string>;
+    patterns: Set<string>;
+    blocked: boolean;
+}
+
+interface CommandContext {
+    fake: FakeRedis;
+    connection: Connection;
+    db: Database;
+}
+
+type CommandHandler = (context: CommandContext, args: Buffer[]) => Reply | Promise<Reply>;
+
+// Member names and field names are kept as latin1 strings, which map bytes one to one
+const str = (value: Buffer | string): string => Buffer.isBuffer(value) ? value.toString("latin1") : value;
+const bin = (value: string): Buffer => Buffer.from(value, "latin1");
+const utf8 = (value: Buffer): string => value.toString("utf8");
+
+function integer(value: Buffer | undefined, message = "ERR value is not an integer or out of range"): number {
+    const text = value === undefined ? "" : utf8(value);
+    if (!/^-?\d+$/.test(text)) {
+        throw new ReplyError(message);
+    }
+    return Number(text);
+}
+
+function float(value: Buffer): number {
+    const text = utf8(value).toLowerCase();
+    if (text === "inf" || text === "+inf") {
+        return Infinity;
+    }
+    if (text === "-inf") {
+        return -Infinity;
+    }
+    const number = Number(text);
+    if (text === "" || Number.isNaN(number)) {
+        throw new ReplyError("ERR value is not a valid float");
+    }
+    return number;
+}
+
+function formatScore(score: number): string {
+    return score === Infinity ? "inf" : score === -Infinity ? "-inf" : String(score);
+}
+
+function globToRegExp(pattern: string): RegExp {
+    let source = "";
+    for (let i = 0; i < pattern.length; i++) {
+        const char = pattern[i];
+        if (char === "*") {
+            source += "[\\s\\S]*";
+        } else if (char === "?") {
+            source += "[\\s\\S]";
+        } else if (char === "\\" && i + 1 < pattern.length) {
+            source += `\\${pattern[++i]}`;
+        } else if (char === "[") {
+            const end = pattern.indexOf("]", i + 1);
+            if (end === -1) {
+                source += "\\[";
+            } else {
+                const body = pattern.slice(i + 1, end);
+                source += `[${body.startsWith("^") ? `^${body.slice(1)}` : body}]`;
+                i = end;
+            }
+        } else {
+            source += char.replace(/[.+^${}()|\]\\]/g, "\\$&");
+        }
+    }
+    return new RegExp(`^${source}$`);
+}
+
+const matchesGlob = (value: string, pattern: string) => globToRegExp(pattern).test(value);
+
+// Redis accepts negative indexes counting from the end, and clamps ranges to the list
+function range(length: number, start: number, stop: number): [number, number] {
+    const from = Math.max(start < 0 ? length + start : start, 0);
+    const to = Math.min(stop < 0 ? length + stop : stop, length - 1);
+    return [from, to];
+}
+
+function parseId(id: string): [number, number] {
+    const [ms, seq] = id.split("-");
+    return [Number(ms), seq === undefined ? 0 : Number(seq)];
+}
+
+function compareIds(a: string, b: string): number {
+    const [aMs, aSeq] = parseId(a);
+    const [bMs, bSeq] = parseId(b);
+    return aMs !== bMs ? aMs - bMs : aSeq - bSeq;
+}
+
+// A range bound: "-" / "+", an exclusive "(id", or an id whose sequence may be omitted
+function rangeBound(bound: string, isStart: boolean): { id: string; exclusive: boolean } {
+    if (bound === "-") {
+        return { id: "0-0", exclusive: false };
+    }
+    if (bound === "+") {
+        return { id: `${Number.MAX_SAFE_INTEGER}-${Number.MAX_SAFE_INTEGER}`, exclusive: false };
+    }
+    const exclusive = bound.startsWith("(");
+    const id = exclusive ? bound.slice(1) : bound;
+    if (!/^\d+(-\d+)?$/.test(id)) {
+        throw new ReplyError("ERR Invalid stream ID specified as stream command argument");
+    }
+    return { id: id.includes("-") ? id : `${id}-${isStart ? 0 : Number.MAX_SAFE_INTEGER}`, exclusive };
+}
+
+function entryReply(entry: StreamEntry): Reply {
+    return [entry.id, entry.fields];
+}
+
+function parseOptions(args: Buffer[], flags: string[], valued: string[]): { flags: Set<string>; values: Map<string, Buffer>; rest: Buffer[] } {
+    const result = { flags: new Set<string>(), values: new Map<string, Buffer>(), rest: [] as Buffer[] };
+    for (let i = 0; i < args.length; i++) {
+        const token = utf8(args[i]).toUpperCase();
+        if (flags.includes(token)) {
+            result.flags.add(token);
+        } else if (valued.includes(token) && i + 1 < args.length) {
+            result.values.set(token, args[++i]);
+        } else {
+            result.rest.push(args[i]);
+        }
+    }
+    return result;
+}
+
+// JSONPath support for the JSON commands: $, .name, ['name'], [n], [*], .*, ..name and [start:end]
+type JsonSegment = { kind: "name"; name: string } | { kind: "index"; index: number } | { kind: "wildcard" }
+    | { kind: "recursive"; name: string | null } | { kind: "slice"; start?: number; end?: number };
+
+function parseJsonPath(path: string): { segments: JsonSegment[]; legacy: boolean } {
+    const legacy = !path.startsWith("$");
+    let rest = legacy ? (path === "." ? "" : path.startsWith(".") || path.startsWith("[") ? path : `.${path}`) : path.slice(1);
+    const segments: JsonSegment[] = [];
+    while (rest.length > 0) {
+        let match: RegExpExecArray | null;
+        if ((match = /^\.\.([A-Za-z_$][\w$-]*|\*)/.exec(rest))) {
+            segments.push({ kind: "recursive", name: match[1] === "*" ? null : match[1] });
+        } else if ((match = /^\.\*/.exec(rest)) || (match = /^\[\*\]/.exec(rest))) {
+            segments.push({ kind: "wildcard" });
+        } else if ((match = /^\.([A-Za-z_$][\w$-]*)/.exec(rest))) {
+            segments.push({ kind: "name", name: match[1] });
+        } else if ((match = /^\[(-?\d+)\]/.exec(rest))) {
+            segments.push({ kind: "index", index: Number(match[1]) });
+        } else if ((match = /^\[(-?\d*):(-?\d*)\]/.exec(rest))) {
+            segments.push({
+                kind: "slice",
+                start: match[1] === "" ? undefined : Number(match[1]),
+                end: match[2] === "" ? undefined : Number(match[2]),
+            });
+        } else if ((match = /^\[(['"])(.*?)\1\]/.exec(rest))) {
+            segments.push({ kind: "name", name: match[2] });
+        } else {
+            throw new ReplyError(`ERR JSON Path error: path error at ${path}`);
+        }
+        rest = rest.slice(match[0].length);
+    }
+    return { segments, legacy };
+}
+
+interface JsonMatch {
+    value: unknown;
+    parent: Record<string, unknown> | unknown[] | null;
+    key: string | number | null;
+}
+
+function children(value: unknown): Array<[string | number, unknown]> {
+    if (Array.isArray(value)) {
+        return value.map((item, i) => [i, item]);
+    }
+    if (value !== null && typeof value === "object") {
+        return Object.entries(value);
+    }
+    return [];
+}
+
+function descendants(match: JsonMatch): JsonMatch[] {
+    return [match, ...children(match.value).flatMap(([key, value]) =>
+        descendants({ value, parent: match.value as Record<string, unknown>, key }))];
+}
+
+function evaluateJsonPath(root: unknown, segments: JsonSegment[]): JsonMatch[] {
+    let matches: JsonMatch[] = [{ value: root, parent: null, key: null }];
+    for (const segment of segments) {
+        matches = matches.flatMap((match): JsonMatch[] => {
+            const { value } = match;
+            const child = (key: string | number): JsonMatch => ({ value: (value as Record<string, unknown>)[key], parent: value as Record<string, unknown>, key });
+            switch (segment.kind) {
+                case "name":
+                    return value !== null && typeof value === "object" && !Array.isArray(value) && segment.name in value ? [child(segment.name)] : [];
+                case "index": {
+                    if (!Array.isArray(value)) {
+                        return [];
+                    }
+                    const index = segment.index < 0 ? value.length + segment.index : segment.index;
+                    return index >= 0 && index < value.length ? [child(index)] : [];
+                }
+                case "wildcard":
+                    return children(value).map(([key]) => child(key));
+                case "slice": {
+                    if (!Array.isArray(value)) {
+                        return [];
+                    }
+                    const [start, end] = [segment.start ?? 0, segment.end ?? value.length]
+                        .map((n) => Math.max(0, Math.min(n < 0 ? value.length + n : n, value.length)));
+                    return value.slice(start, end).map((_, i) => child(start + i));
+                }
+                case "recursive":
+                    return descendants(match).flatMap((descendant) => segment.name === null
+                        ? children(descendant.value).map(([key]) => ({
+                            value: (descendant.value as Record<string, unknown>)[key],
+                            parent: descendant.value as Record<string, unknown>,
+                            key,
+                        }))
+                        : descendant.value !== null && typeof descendant.value === "object" && !Array.isArray(descendant.value) &&
+                            segment.name in descendant.value
+                            ? [{ value: (descendant.value as Record<string, unknown>)[segment.name], parent: descendant.value as Record<string, unknown>, key: segment.name }]
+                            : []);
+            }
+        });
+    }
+    return matches;
+}
+
+function jsonType(value: unknown): string {
+    if (value === null) {
+        return "null";
+    }
+    if (Array.isArray(value)) {
+        return "array";
+    }
+    if (typeof value === "number") {
+        return Number.isInteger(value) ? "integer" : "number";
+    }
+    return typeof value;
+}
+
+function parseJson(value: Buffer): unknown {
+    try {
+        return JSON.parse(utf8(value));
+    } catch {
+        throw new ReplyError("ERR expected value at line 1 column 1");
+    }
+}
+
+function setJsonMatch(match: JsonMatch, value: unknown): void {
+    (match.parent as Record<string | number, unknown>)[match.key!] = value;
+}
+
+export class FakeRedis {
+    private server?: Server;
+    private readonly databases = new Map<number, Database>();
+    private readonly connections = new Set<Connection>();
+    // Bumped on every write to a key, for WATCH
+    private readonly versions = new Map<string, number>();
+    private readonly scriptCache = new Map<string, string>();
+    private readonly libraries = new Map<string, FunctionLibrary>();
+    private readonly indexes = new Map<string, SearchIndex>();
+    private nextConnectionId = 1;
+
+    // Behaviour of scripts, matched by a fragment of their source, and of functions, by name
+    readonly scripts: Array<{ match: string; run: ScriptHandler }> = [];
+    readonly functions = new Map<string, ScriptHandler>();
+    // What SLOWLOG, LATENCY and CONFIG GET report
+    slowlog: Array<[number, number, number, string[], string, string]> = [];
+    latency: Array<[string, number, number, number]> = [];
+    config: Record<string, string> = {
+        "maxmemory": "0",
+        "maxmemory-policy": "noeviction",
+        "requirepass": "secret",
+        "notify-keyspace-events": "",
+    };
+    // Modules that answer "unknown command" when missing
+    modules = { json: true, search: true };
+    // Close new connections straight away, as a server that is going down would
+    refuseConnections = false;
+    // Acting as a sentinel: the masters it reports, by name
+    sentinelMasters = new Map<string, { host: string; port: number }>();
+    // Refuse writes, as a master demoted by a failover would
+    replica = false;
+
+    async start(): Promise<string> {
+        this.server = createServer((socket) => this.accept(socket));
+        await new Promise<void>((resolve) => this.server!.listen(0, "127.0.0.1", resolve));
+        const { port } = this.server.address() as AddressInfo;
+        return `redis://127.0.0.1:${port}`;
+    }
+
+    async stop(): Promise<void> {
+        for (const connection of this.connections) {
+            connection.socket.destroy();
+        }
+        await new Promise<void>((resolve) => this.server ? this.server.close(() => resolve()) : resolve());
+    }
+
+    flushAll(): void {
+        this.databases.clear();
+        this.scriptCache.clear();
+        this.libraries.clear();
+        this.indexes.clear();
+        this.scripts.length = 0;
+        this.functions.clear();
+    }
+
+    database(index: number): Database {
+        let db = this.databases.get(index);
+        if (!db) {
+            db = new Map();
+            this.databases.set(index, db);
+        }
+        return db;
+    }
+
+    // Keyspace access
+
+    lookup(db: Database, key: string): Entry | undefined {
+        const entry = db.get(key);
+        if (entry?.expiresAt !== undefined && entry.expiresAt <= Date.now()) {
+            db.delete(key);
+            return undefined;
+        }
+        return entry;
+    }
+
+    read<T extends ValueType>(db: Database, key: string, type: T): ValueOf<T> | undefined {
+        const entry = this.lookup(db, key);
+        if (entry && entry.type !== type) {
+            throw new ReplyError(WRONGTYPE);
+        }
+        return entry?.value as ValueOf<T> | undefined;
+    }
+
+    // The value to modify, created empty if the key doesn't exist
+    write<T extends ValueType>(db: Database, key: string, type: T, create: () => ValueOf<T>): ValueOf<T> {
+        let value = this.read(db, key, type);
+        if (value === undefined) {
+            value = create();
+            db.set(key, { type, value } as Entry);
+        }
+        this.touch(db, key);
+        return value;
+    }
+
+    touch(db: Database, key: string): void {
+        const id = `${this.dbIndex(db)}:${key}`;
+        this.versions.set(id, (this.versions.get(id) ?? 0) + 1);
+    }
+
+    // Drop collections that became empty, as Redis does
+    prune(db: Database, key: string): void {
+        const entry = db.get(key);
+        if (!entry) {
+            return;
+        }
+        const size = entry.type === "hash" || entry.type === "set" || entry.type === "zset" ? entry.value.size
+            : entry.type === "list" ? entry.value.length : 1;
+        if (size === 0) {
+            db.delete(key);
+        }
+    }
+
+    remove(db: Database, key: string): boolean {
+        const existed = this.lookup(db, key) !== undefined;
+        if (existed) {
+            db.delete(key);
+            this.touch(db, key);
+        }
+        return existed;
+    }
+
+    private dbIndex(db: Database): number {
+        for (const [index, candidate] of this.databases) {
+            if (candidate === db) {
+                return index;
+            }
+        }
+        return -1;
+    }
+
+    private version(db: number, key: string): number {
+        return this.versions.get(`${db}:${key}`) ?? 0;
+    }
+
+    // Protocol
+
+    private accept(socket: Socket): void {
+        if (this.refuseConnections) {
+            socket.destroy();
+            return;
+        }
+        const connection: Connection = {
+            id: this.nextConnectionId++,
+            socket,
+            db: 0,
+            name: "",
+            createdAt: Date.now(),
+            lastCommand: "NULL",
+            multi: null,
+            watched: null,
+            channels: new Set(),
+            patterns: new Set(),
+            blocked: false,
+        };
+        this.connections.add(connection);
+        let buffer: Buffer = Buffer.alloc(0);
+        let pending = Promise.resolve();
+        socket.on("data", (chunk) => {
+            buffer = Buffer.concat([buffer, chunk]);
+            let parsed: { args: Buffer[]; rest: Buffer } | null;
+            while ((parsed = parseCommand(buffer))) {
+                buffer = parsed.rest;
+                const args = parsed.args;
+                // Commands of one connection are answered in order, even when one of them blocks
+                pending = pending.then(async () => {
+                    const reply = await this.execute(connection, args);
+                    if (!socket.destroyed) {
+                        socket.write(encode(reply));
+                    }
+                    if (utf8(args[0]).toUpperCase() === "QUIT") {
+                        socket.end();
+                    }
+                });
+            }
+        });
+        socket.on("error", () => {});
+        socket.on("close", () => this.connections.delete(connection));
+    }
+
+    private async execute(connection: Connection, args: Buffer[]): Promise<Reply> {
+        const name = utf8(args[0]).toUpperCase();
+        connection.lastCommand = name.toLowerCase();
+        if (connection.multi && !["EXEC", "DISCARD", "MULTI", "WATCH"].includes(name)) {
+            connection.multi.push(args);
+            return QUEUED;
+        }
+        try {
+            return await this.run(connection, args);
+        } catch (error) {
+            return error instanceof ReplyError ? error : new ReplyError(`ERR ${(error as Error).message}`);
+        }
+    }
+
+    run(connection: Connection, args: Buffer[]): Reply | Promise<Reply> {
+        const name = utf8(args[0]).toUpperCase();
+        const handler = COMMANDS[name];
+        if (!handler || (name.startsWith("JSON.") && !this.modules.json) || (name.startsWith("FT.") && !this.modules.search)) {
+            throw new ReplyError(`ERR unknown command '${utf8(args[0])}', with args beginning with: ${args.slice(1, 3).map((a) => `'${utf8(a)}'`).join(" ")}`);
+        }
+        if (this.replica && REPLICA_REFUSED.has(name)) {
+            throw new ReplyError("READONLY You can't write against a read only replica.");
+        }
+        return handler({ fake: this, connection, db: this.database(connection.db) }, args.slice(1));
+    }
+
+    // Run a command to completion from a script, where blocking commands are not allowed
+    private call(connection: Connection, args: Array<string | number>): Reply {
+        const reply = this.run(connection, args.map((arg) => Buffer.from(String(arg))));
+        if (reply instanceof Promise) {
+            throw new ReplyError("ERR This Redis command is not allowed from script");
+        }
+        return reply;
+    }
+
+    // Transactions
+
+    multi(connection: Connection): Reply {
+        if (connection.multi) {
+            throw new ReplyError("ERR MULTI calls can not be nested");
+        }
+        connection.multi = [];
+        return OK;
+    }
+
+    async exec(connection: Connection): Promise<Reply> {
+        const queued = connection.multi;
+        if (!queued) {
+            throw new ReplyError("ERR EXEC without MULTI");
+        }
+        connection.multi = null;
+        const watched = connection.watched;
+        connection.watched = null;
+        if (watched && [...watched].some(([id, version]) => {
+            const [db, ...key] = id.split(":");
+            return this.version(Number(db), key.join(":")) !== version;
+        })) {
+            return null;
+        }
+        const replies: Reply[] = [];
+        for (const args of queued) {
+            try {
+                replies.push(await this.run(connection, args));
+            } catch (error) {
+                replies.push(error instanceof ReplyError ? error : new ReplyError(`ERR ${(error as Error).message}`));
+            }
+        }
+        return replies;
+    }
+
+    watch(connection: Connection, keys: string[]): Reply {
+        connection.watched ??= new Map();
+        for (const key of keys) {
+            connection.watched.set(`${connection.db}:${key}`, this.version(connection.db, key));
+        }
+        return OK;
+    }
+
+    // Pub/sub
+
+    subscribe(connection: Connection, kind: "subscribe" | "psubscribe", names: string[]): Reply {
+        const set = kind === "subscribe" ? connection.channels : connection.patterns;
+        for (const name of names) {
+            set.add(name);
+            connection.socket.write(encode([kind, bin(name), connection.channels.size + connection.patterns.size]));
+        }
+        return undefined as unknown as Reply;
+    }
+
+    unsubscribe(connection: Connection, kind: "unsubscribe" | "punsubscribe", names: string[]): Reply {
+        const set = kind === "unsubscribe" ? connection.channels : connection.patterns;
+        const targets = names.length > 0 ? names : [...set];
+        if (targets.length === 0) {
+            connection.socket.write(encode([kind, null, connection.channels.size + connection.patterns.size]));
+        }
+        for (const name of targets) {
+            set.delete(name);
+            connection.socket.write(encode([kind, bin(name), connection.channels.size + connection.patterns.size]));
+        }
+        return undefined as unknown as Reply;
+    }
+
+    publish(channel: string, message: Buffer): number {
+        let receivers = 0;
+        for (const connection of this.connections) {
+            if (connection.channels.has(channel)) {
+                connection.socket.write(encode(["message", bin(channel), message]));
+                receivers++;
+            }
+            for (const pattern of connection.patterns) {
+                if (matchesGlob(channel, pattern)) {
+                    connection.socket.write(encode(["pmessage", bin(pattern), bin(channel), message]));
+                    receivers++;
+                }
+            }
+        }
+        return receivers;
+    }
+
+    channels(pattern?: string): string[] {
+        const channels = new Set([...this.connections].flatMap((c) => [...c.channels]));
+        return [...channels].filter((channel) => pattern === undefined || matchesGlob(channel, pattern));
+    }
+
+    subscribers(channel: string): number {
+        return [...this.connections].filter((c) => c.channels.has(channel)).length;
+    }
+
+    clients(): Connection[] {
+        return [...this.connections];
+    }
+
+    // Scripting
+
+    runScript(connection: Connection, source: string, args: Buffer[]): Reply {
+        this.scriptCache.set(createHash("sha1").update(source).digest("hex"), source);
+        const script = this.scripts.find(({ match }) => source.includes(match));
+        if (!script) {
+            throw new ReplyError("ERR Error running script: the fake Redis server has no handler for this script");
+        }
+        return this.invoke(connection, script.run, args);
+    }
+
+    cachedScript(sha: string): string {
+        const source = this.scriptCache.get(sha.toLowerCase());
+        if (source === undefined) {
+            throw new ReplyError("NOSCRIPT No matching script. Please use EVAL.");
+        }
+        return source;
+    }
+
+    loadScript(source: string): string {
+        const sha = createHash("sha1").update(source).digest("hex");
+        this.scriptCache.set(sha, source);
+        return sha;
+    }
+
+    invoke(connection: Connection, handler: ScriptHandler, args: Buffer[]): Reply {
+        const numKeys = integer(args[0]);
+        const keys = args.slice(1, 1 + numKeys).map(utf8);
+        const argv = args.slice(1 + numKeys).map(utf8);
+        return handler((...callArgs) => {
+            const reply = this.call(connection, callArgs);
+            if (reply instanceof ReplyError) {
+                throw reply;
+            }
+            return reply;
+        }, keys, argv);
+    }
+
+    loadLibrary(code: string, replace: boolean): string {
+        const header = /^#!lua name=(\S+)/.exec(code);
+        if (!header) {
+            throw new ReplyError("ERR Missing library metadata");
+        }
+        const name = header[1];
+        if (this.libraries.has(name) && !replace) {
+            throw new ReplyError(`ERR Library '${name}' already exists`);
+        }
+        const functions: FunctionLibrary["functions"] = [];
+        for (const match of code.matchAll(/register_function\s*\(\s*['"]([^'"]+)['"]/g)) {
+            functions.push({ name: match[1], flags: [] });
+        }
+        for (const match of code.matchAll(/register_function\s*\{((?:[^{}]|\{[^}]*\})*)\}/g)) {
+            const name = /function_name\s*=\s*['"]([^'"]+)['"]/.exec(match[1]);
+            const flags = /flags\s*=\s*\{([^}]*)\}/.exec(match[1]);
+            if (name) {
+                functions.push({ name: name[1], flags: [...(flags?.[1] ?? "").matchAll(/['"]([^'"]+)['"]/g)].map((flag) => flag[1]) });
+            }
+        }
+        this.libraries.set(name, { name, code, functions });
+        return name;
+    }
+
+    listLibraries(pattern: string | undefined): FunctionLibrary[] {
+        return [...this.libraries.values()].filter((library) => pattern === undefined || matchesGlob(library.name, pattern));
+    }
+
+    callFunction(connection: Connection, name: string, args: Buffer[]): Reply {
+        if (![...this.libraries.values()].some((library) => library.functions.some((fn) => fn.name === name))) {
+            throw new ReplyError("ERR Function not found");
+        }
+        const handler = this.functions.get(name);
+        if (!handler) {
+            throw new ReplyError(`ERR the fake Redis server has no handler for function ${name}`);
+        }
+        return this.invoke(connection, handler, args);
+    }
+
+    // Search
+
+    index(name: string): SearchIndex {
+        const index = this.indexes.get(name);
+        if (!index) {
+            throw new ReplyError(`${name}: no such index`);
+        }
+        return index;
+    }
+
+    createIndex(name: string, index: SearchIndex): void {
+        if (this.indexes.has(name)) {
+            throw new ReplyError("Index already exists");
+        }
+        this.indexes.set(name, index);
+    }
+
+    dropIndex(name: string): SearchIndex {
+        const index = this.index(name);
+        this.indexes.delete(name);
+        return index;
+    }
+
+    indexNames(): string[] {
+        return [...this.indexes.keys()];
+    }
+}
+
+function parseCommand(buffer: Buffer): { args: Buffer[]; rest: Buffer } | null {
+    if (buffer.length === 0) {
+        return null;
+    }
+    if (buffer[0] !== 0x2a) {
+        // Inline command
+        const end = buffer.indexOf("\r\n");
+        if (end === -1) {
+            return null;
+        }
+        const args = utf8(buffer.subarray(0, end)).trim().split(/\s+/).map((arg) => Buffer.from(arg));
+        return { args, rest: buffer.subarray(end + 2) };
+    }
+    let offset = buffer.indexOf("\r\n");
+    if (offset === -1) {
+        return null;
+    }
+    const count = Number(utf8(buffer.subarray(1, offset)));
+    offset += 2;
+    const args: Buffer[] = [];
+    for (let i = 0; i < count; i++) {
+        const end = buffer.indexOf("\r\n", offset);
+        if (end === -1) {
+            return null;
+        }
+        const length = Number(utf8(buffer.subarray(offset + 1, end)));
+        const start = end + 2;
+        if (buffer.length < start + length + 2) {
+            return null;
+        }
+        args.push(Buffer.from(buffer.subarray(start, start + length)));
+        offset = start + length + 2;
+    }
+    return { args, rest: buffer.subarray(offset) };
+}
+
+function encode(reply: Reply): Buffer {
+    if (reply === undefined) {
+        // Pub/sub commands write their own replies
+        return Buffer.alloc(0);
+    }
+    if (reply === null) {
+        return Buffer.from("$-1\r\n");
+    }
+    if (reply instanceof Status) {
+        return Buffer.from(`+${reply.value}\r\n`);
+    }
+    if (reply instanceof ReplyError) {
+        return Buffer.from(`-${reply.message.replace(/\r?\n/g, " ")}\r\n`);
+    }
+    if (typeof reply === "number") {
+        return Number.isInteger(reply) ? Buffer.from(`:${reply}\r\n`) : encode(String(reply));
+    }
+    if (Array.isArray(reply)) {
+        return Buffer.concat([Buffer.from(`*${reply.length}\r\n`), ...reply.map(encode)]);
+    }
+    const bytes = Buffer.isBuffer(reply) ? reply : Buffer.from(reply);
+    return Buffer.concat([Buffer.from(`$${bytes.length}\r\n`), bytes, Buffer.from("\r\n")]);
+}
+
+// Commands
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+// Retry a non-blocking attempt until it yields a reply or the timeout (0: forever) runs out
+async function block(connection: Connection, timeoutMs: number, attempt: () => Reply | undefined): Promise<Reply> {
+    const deadline = timeoutMs > 0 ? Date.now() + timeoutMs : Infinity;
+    connection.blocked = true;
+    try {
+        for (;;) {
+            const reply = attempt();
+            if (reply !== undefined) {
+                return reply;
+            }
+            if (Date.now() >= deadline || connection.socket.destroyed) {
+                return null;
+            }
+            await sleep(10);
+        }
+    } finally {
+        connection.blocked = false;
+    }
+}
+
+function scan<T>(items: T[], args: Buffer[], name: (item: T) => string, filter: (item: T) => boolean = () => true): [string, T[]] {
+    const cursor = integer(args[0], "ERR invalid cursor");
+    const { values } = parseOptions(args.slice(1), [], ["MATCH", "COUNT", "TYPE"]);
+    const count = values.has("COUNT") ? integer(values.get("COUNT")) : 10;
+    const pattern = values.has("MATCH") ? str(values.get("MATCH")!) : undefined;
+    const page = items.slice(cursor, cursor + count)
+        .filter((item) => (pattern === undefined || matchesGlob(name(item), pattern)) && filter(item));
+    return [cursor + count >= items.length ? "0" : String(cursor + count), page];
+}
+
+function expire(context: CommandContext, key: string, at: number, condition: string | undefined): number {
+    const entry = context.fake.lookup(context.db, key);
+    if (!entry) {
+        return 0;
+    }
+    const current = entry.expiresAt;
+    if ((condition === "NX" && current !== undefined) || (condition === "XX" && current === undefined) ||
+        (condition === "GT" && (current === undefined || at <= current)) || (condition === "LT" && current !== undefined && at >= current)) {
+        return 0;
+    }
+    entry.expiresAt = at;
+    context.fake.touch(context.db, key);
+    if (at <= Date.now()) {
+        context.db.delete(key);
+    }
+    return 1;
+}
+
+function ttl(context: CommandContext, key: string, unit: number): number {
+    const entry = context.fake.lookup(context.db, key);
+    if (!entry) {
+        return -2;
+    }
+    return entry.expiresAt === undefined ? -1 : Math.max(0, Math.round((entry.expiresAt - Date.now()) / unit));
+}
+
+function cloneValue(entry: Entry): Entry {
+    switch (entry.type) {
+        case "string":
+            return { ...entry, value: Buffer.from(entry.value) };
+        case "hash":
+            return { ...entry, value: new Map(entry.value) };
+        case "set":
+            return { ...entry, value: new Set(entry.value) };
+        case "zset":
+            return { ...entry, value: new Map(entry.value) };
+        case "list":
+            return { ...entry, value: [...entry.value] };
+        case "stream":
+            return { ...entry, value: { ...entry.value, entries: [...entry.value.entries], groups: new Map() } };
+        default:
+            return { ...entry, value: structuredClone(entry.value) };
+    }
+}
+
+// DUMP payloads of the fake are JSON, readable only by the fake's own RESTORE
+function dump(entry: Entry): Buffer {
+    const value = entry.type === "string" ? entry.value.toString("base64")
+        : entry.type === "hash" ? [...entry.value].map(([f, v]) => [f, v.toString("base64")])
+        : entry.type === "set" ? [...entry.value]
+        : entry.type === "zset" ? [...entry.value]
+        : entry.type === "list" ? entry.value.map((item) => item.toString("base64"))
+        : entry.type === "stream" ? { lastId: entry.value.lastId, entries: entry.value.entries.map((e) => [e.id, e.fields.map((f) => f.toString("base64"))]) }
+        : entry.value;
+    return Buffer.from(`FAKEDUMP${JSON.stringify({ type: entry.type, value })}`);
+}
+
+function restore(payload: Buffer): Entry {
+    const text = utf8(payload);
+    if (!text.startsWith("FAKEDUMP")) {
+        throw new ReplyError("ERR DUMP payload version or checksum are wrong");
+    }
+    const { type, value } = JSON.parse(text.slice("FAKEDUMP".length));
+    const b64 = (item: string) => Buffer.from(item, "base64");
+    switch (type as ValueType) {
+        case "string":
+            return { type: "string", value: b64(value) };
+        case "hash":
+            return { type: "hash", value: new Map((value as [string, string][]).map(([f, v]) => [f, b64(v)])) };
+        case "set":
+            return { type: "set", value: new Set(value) };
+        case "zset":
+            return { type: "zset", value: new Map(value) };
+        case "list":
+            return { type: "list", value: (value as string[]).map(b64) };
+        case "stream":
+            return {
+                type: "stream",
+                value: {
+                    lastId: value.lastId,
+                    entries: (value.entries as [string, string[]][]).map(([id, fields]) => ({ id, fields: fields.map(b64) })),
+                    groups: new Map(),
+                },
+            };
+        default:
+            return { type: "ReJSON-RL", value };
+    }
+}
+
+function encoding(entry: Entry): string {
+    switch (entry.type) {
+        case "string":
+            return /^-?\d{1,19}$/.test(entry.value.toString("latin1")) ? "int" : entry.value.length <= 44 ? "embstr" : "raw";
+        case "hash":
+        case "zset":
+            return entry.value.size <= 128 ? "listpack" : entry.type === "hash" ? "hashtable" : "skiplist";
+        case "set":
+            return [...entry.value].every((member) => /^-?\d+$/.test(member)) ? "intset" : "listpack";
+        case "list":
+            return "quicklist";
+        case "stream":
+            return "stream";
+        default:
+            throw new ReplyError("ERR no such key");
+    }
+}
+
+function approximateSize(entry: Entry): number {
+    switch (entry.type) {
+        case "string":
+            return 56 + entry.value.length;
+        case "hash":
+            return 72 + [...entry.value].reduce((sum, [f, v]) => sum + f.length + v.length + 16, 0);
+        case "set":
+            return 72 + [...entry.value].reduce((sum, m) => sum + m.length + 8, 0);
+        case "zset":
+            return 72 + [...entry.value.keys()].reduce((sum, m) => sum + m.length + 16, 0);
+        case "list":
+            return 72 + entry.value.reduce((sum, item) => sum + item.length + 8, 0);
+        case "stream":
+            return 600 + entry.value.entries.reduce((sum, e) => sum + e.fields.reduce((s, f) => s + f.length, 0) + 16, 0);
+        default:
+            return 72 + JSON.stringify(entry.value).length;
+    }
+}
+
+// List helpers
+
+function pop(context: CommandContext, key: string, left: boolean, count?: number): Buffer[] | undefined {
+    const list = context.fake.read(context.db, key, "list");
+    if (!list || list.length === 0) {
+        return undefined;
+    }
+    const popped = left ? list.splice(0, count ?? 1) : list.splice(Math.max(list.length - (count ?? 1), 0)).reverse();
+    context.fake.touch(context.db, key);
+    context.fake.prune(context.db, key);
+    return popped;
+}
+
+// Sorted set helpers
+
+function sortedMembers(zset: Map<string, number>): Array<[string, number]> {
+    return [...zset].sort(([a, aScore], [b, bScore]) => aScore !== bScore ? aScore - bScore : a < b ? -1 : a > b ? 1 : 0);
+}
+
+// Stream helpers
+
+function nextStreamId(stream: Stream | undefined, requested: string): string {
+    const last = stream?.lastId ?? "0-0";
+    if (requested === "*") {
+        const [lastMs, lastSeq] = parseId(last);
+        const now = Date.now();
+        return now > lastMs ? `${now}-0` : `${lastMs}-${lastSeq + 1}`;
+    }
+    const match = /^(\d+)(?:-(\d+|\*))?$/.exec(requested);
+    if (!match) {
+        throw new ReplyError("ERR Invalid stream ID specified as stream command argument");
+    }
+    let id = `${match[1]}-${match[2] ?? 0}`;
+    if (match[2] === "*") {
+        const [lastMs, lastSeq] = parseId(last);
+        id = `${match[1]}-${Number(match[1]) === lastMs ? lastSeq + 1 : 0}`;
+    }
+    if (compareIds(id, last) <= 0) {
+        throw new ReplyError(id === "0-0"
+            ? "ERR The ID specified in XADD must be greater than 0-0"
+            : "ERR The ID specified in XADD is equal or smaller than the target stream top item");
+    }
+    return id;
+}
+
+function streamRange(stream: Stream, start: string, end: string, reverse: boolean, count?: number): StreamEntry[] {
+    const from = rangeBound(start, true);
+    const to = rangeBound(end, false);
+    const entries = stream.entries.filter(({ id }) => {
+        const afterStart = from.exclusive ? compareIds(id, from.id) > 0 : compareIds(id, from.id) >= 0;
+        const beforeEnd = to.exclusive ? compareIds(id, to.id) < 0 : compareIds(id, to.id) <= 0;
+        return afterStart && beforeEnd;
+    });
+    const ordered = reverse ? entries.reverse() : entries;
+    return count === undefined ? ordered : ordered.slice(0, count);
+}
+
+function readStreamArgs(args: Buffer[]): { options: ReturnType<typeof parseOptions>; keys: string[]; ids: string[] } {
+    const streamsAt = args.findIndex((arg) => utf8(arg).toUpperCase() === "STREAMS");
+    if (streamsAt === -1) {
+        throw new ReplyError("ERR syntax error");
+    }
+    const options = parseOptions(args.slice(0, streamsAt), ["NOACK"], ["COUNT", "BLOCK"]);
+    const rest = args.slice(streamsAt + 1);
+    if (rest.length === 0 || rest.length % 2 !== 0) {
+        throw new ReplyError("ERR Unbalanced 'xread' list of streams: for each stream key an ID or '$' must be specified.");
+    }
+    return { options, keys: rest.slice(0, rest.length / 2).map(str), ids: rest.slice(rest.length / 2).map(utf8) };
+}
+
+function group(context: CommandContext, key: string, name: string, command: string): ConsumerGroup {
+    const found = context.fake.read(context.db, key, "stream")?.groups.get(name);
+    if (!found) {
+        throw new ReplyError(`NOGROUP No such key '${key}' or consumer group '${name}' in ${command} with GROUP option`);
+    }
+    return found;
+}
+
+// JSON helpers
+
+function jsonDocument(context: CommandContext, key: string): { root: unknown } | undefined {
+    const entry = context.fake.lookup(context.db, key);
+    if (entry && entry.type !== "ReJSON-RL") {
+        throw new ReplyError(WRONGTYPE);
+    }
+    return entry && { root: entry.value };
+}
+
+function jsonMatches(context: CommandContext, key: string, path: string): { document: { root: unknown }; matches: JsonMatch[]; legacy: boolean } {
+    const document = jsonDocument(context, key);
+    if (!document) {
+        throw new ReplyError("ERR could not perform this operation on a key that doesn't exist");
+    }
+    const { segments, legacy } = parseJsonPath(path);
+    const matches = evaluateJsonPath(document.root, segments);
+    if (legacy && matches.length === 0) {
+        throw new ReplyError(`ERR Path '${path}' does not exist`);
+    }
+    return { document, matches: legacy ? matches.slice(0, 1) : matches, legacy };
+}
+
+// Replies per match for JSONPaths, or the single reply of the first match for legacy paths
+function perMatch(context: CommandContext, key: string, path: string, apply: (match: JsonMatch) => Reply): Reply {
+    const { matches, legacy } = jsonMatches(context, key, path);
+    const replies = matches.map(apply);
+    context.fake.touch(context.db, key);
+    return legacy ? replies[0] : replies;
+}
+
+function storeJson(context: CommandContext, key: string, document: { root: unknown }): void {
+    const entry = context.db.get(key);
+    if (entry) {
+        entry.value = document.root;
+    }
+}
+
+// Search helpers
+
+function searchDocuments(context: CommandContext, index: SearchIndex): Array<{ key: string; fields: Record<string, unknown> }> {
+    const documents: Array<{ key: string; fields: Record<string, unknown> }> = [];
+    for (const key of [...context.db.keys()].sort()) {
+        if (index.prefixes.length > 0 && !index.prefixes.some((prefix) => key.startsWith(prefix))) {
+            continue;
+        }
+        const entry = context.fake.lookup(context.db, key);
+        if (index.on === "HASH" && entry?.type === "hash") {
+            documents.push({ key, fields: Object.fromEntries([...entry.value].map(([f, v]) => [f, utf8(v)])) });
+        } else if (index.on === "JSON" && entry?.type === "ReJSON-RL") {
+            const fields: Record<string, unknown> = { $: entry.value };
+            for (const field of index.fields) {
+                const [match] = evaluateJsonPath(entry.value, parseJsonPath(field.identifier).segments);
+                if (match) {
+                    fields[field.attribute] = match.value;
+                }
+            }
+            documents.push({ key, fields });
+        }
+    }
+    return documents;
+}
+
+function attributeValue(index: SearchIndex, fields: Record<string, unknown>, attribute: string): unknown {
+    const field = index.fields.find((f) => f.attribute === attribute);
+    return fields[field && index.on === "HASH" ? field.identifier : attribute];
+}
+
+// Queries are a conjunction of clauses: *, @field:[min max], @field:{a | b}, @field:text and bare words
+function matchesQuery(index: SearchIndex, fields: Record<string, unknown>, query: string): boolean {
+    const clauses = query.replace(/^\((.*)\)/, "$1").match(/@[\w\\]+:(\[[^\]]*\]|\{[^}]*\}|\S+)|\([^)]*\)|\S+/g) ?? [];
+    return clauses.every((clause) => {
+        if (clause === "*") {
+            return true;
+        }
+        if (clause.startsWith("(")) {
+            return matchesQuery(index, fields, clause.slice(1, -1));
+        }
+        const match = /^@([\w\\]+):(.*)$/.exec(clause);
+        if (!match) {
+            return Object.values(fields).some((value) => String(value).toLowerCase().includes(clause.toLowerCase()));
+        }
+        const value = attributeValue(index, fields, match[1].replace(/\\/g, ""));
+        const condition = match[2];
+        if (condition.startsWith("[")) {
+            const [min, max] = condition.slice(1, -1).trim().split(/\s+/).map((bound) =>
+                bound === "-inf" ? -Infinity : bound === "+inf" || bound === "inf" ? Infinity : Number(bound));
+            return value !== undefined && Number(value) >= min && Number(value) <= max;
+        }
+        if (condition.startsWith("{")) {
+            const tags = condition.slice(1, -1).split("|").map((tag) => tag.trim().replace(/\\(.)/g, "$1").toLowerCase());
+            const values = Array.isArray(value) ? value.map(String) : String(value ?? "").split(",");
+            return values.some((v) => tags.includes(v.trim().toLowerCase()));
+        }
+        const term = condition.toLowerCase();
+        const text = String(value ?? "").toLowerCase();
+        return term.endsWith("*") ? text.split(/\W+/).some((word) => word.startsWith(term.slice(0, -1))) : text.includes(term);
+    });
+}
+
+const COMMANDS: Record<string, CommandHandler> = {
+    // Connection and server
+    PING: (_context, args) => args.length > 0 ? args[0] : new Status("PONG"),
+    ECHO: (_context, args) => args[0],
+    QUIT: () => OK,
+    SELECT: ({ connection }, args) => {
+        connection.db = integer(args[0]);
+        return OK;
+    },
+    CLIENT: ({ fake, connection }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "SETINFO") {
+            return OK;
+        }
+        if (sub === "SETNAME") {
+            connection.name = utf8(args[1]);
+            return OK;
+        }
+        if (sub === "ID") {
+            return connection.id;
+        }
+        if (sub === "LIST") {
+            const type = args[1] && utf8(args[1]).toUpperCase() === "TYPE" ? utf8(args[2]).toLowerCase() : undefined;
+            return fake.clients()
+                .filter((c) => type === undefined || (type === "pubsub" ? c.channels.size + c.patterns.size > 0 : type === "normal"))
+                .map((c) => `id=${c.id} addr=127.0.0.1:${c.socket.remotePort} laddr=127.0.0.1:${c.socket.localPort} fd=8 name=${c.name} ` +
+                    `age=${Math.floor((Date.now() - c.createdAt) / 1000)} idle=0 flags=${c.blocked ? "b" : c.channels.size + c.patterns.size > 0 ? "P" : "N"} ` +
+                    `db=${c.db} sub=${c.channels.size} psub=${c.patterns.size} ssub=0 multi=-1 qbuf=0 qbuf-free=0 argv-mem=0 multi-mem=0 ` +
+                    `rbs=1024 rbp=0 obl=0 oll=0 omem=0 tot-mem=1800 events=r cmd=${c.lastCommand} user=default redir=-1 resp=2 lib-name= lib-ver=\n`)
+                .join("");
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    INFO: ({ fake }, args) => {
+        const sections: Record<string, string[]> = {
+            Server: ["redis_version:7.2.4", "redis_mode:standalone", "uptime_in_seconds:3600", "tcp_port:6379"],
+            Clients: [`connected_clients:${fake.clients().length}`, `blocked_clients:${fake.clients().filter((c) => c.blocked).length}`],
+            Memory: ["used_memory:1048576", "used_memory_human:1.00M", "used_memory_peak_human:2.00M", "maxmemory:0", "maxmemory_policy:noeviction", "mem_fragmentation_ratio:1.5"],
+            Stats: ["total_commands_processed:100", "instantaneous_ops_per_sec:5", "keyspace_hits:30", "keyspace_misses:10", "evicted_keys:0", "expired_keys:0"],
+            Replication: ["role:master", "connected_slaves:0"],
+            Keyspace: [...[0, 1, 2, 3].map((index) => {
+                const db = fake.database(index);
+                const keys = [...db.keys()].filter((key) => fake.lookup(db, key));
+                const expires = keys.filter((key) => db.get(key)?.expiresAt !== undefined).length;
+                return keys.length > 0 ? `db${index}:keys=${keys.length},expires=${expires},avg_ttl=0` : "";
+            }).filter(Boolean)],
+        };
+        const wanted = args.map((arg) => utf8(arg).toLowerCase());
+        return Object.entries(sections)
+            .filter(([title]) => wanted.length === 0 || wanted.includes("all") || wanted.includes("everything") || wanted.includes(title.toLowerCase()))
+            .map(([title, lines]) => `# ${title}\r\n${lines.map((line) => `${line}\r\n`).join("")}`)
+            .join("\r\n");
+    },
+    DBSIZE: ({ fake, db }) => [...db.keys()].filter((key) => fake.lookup(db, key)).length,
+    CONFIG: ({ fake }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "GET") {
+            const pattern = utf8(args[1]);
+            return Object.entries(fake.config).filter(([name]) => matchesGlob(name, pattern)).flat();
+        }
+        if (sub === "SET") {
+            fake.config[utf8(args[1])] = utf8(args[2]);
+            return OK;
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    SENTINEL: ({ fake }, args) => {
+        if (utf8(args[0]).toUpperCase() !== "GET-MASTER-ADDR-BY-NAME") {
+            throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+        }
+        const master = fake.sentinelMasters.get(utf8(args[1]));
+        return master ? [master.host, String(master.port)] : null;
+    },
+    SLOWLOG: ({ fake }, args) => {
+        const count = args[1] ? integer(args[1]) : 10;
+        return fake.slowlog.slice(0, count).map(([id, time, duration, command, address, name]) => [id, time, duration, command, address, name]);
+    },
+    LATENCY: ({ fake }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "LATEST") {
+            return fake.latency.map(([event, time, latest, max]) => [event, time, latest, max]);
+        }
+        if (sub === "HISTORY") {
+            const event = utf8(args[1]);
+            return fake.latency.filter(([name]) => name === event).map(([, time, latest]) => [time, latest]);
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    MEMORY: ({ fake, db }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "USAGE") {
+            const entry = fake.lookup(db, str(args[1]));
+            return entry ? approximateSize(entry) : null;
+        }
+        if (sub === "STATS") {
+            return ["peak.allocated", 2097152, "total.allocated", 1048576, "startup.allocated", 860000, "keys.count", db.size,
+                "keys.bytes-per-key", 64, "dataset.bytes", 20000, "dataset.percentage", "10.5", "overhead.total", 900000,
+                "fragmentation", "1.5", "db.0", ["overhead.hashtable.main", 72, "overhead.hashtable.expires", 0]];
+        }
+        if (sub === "DOCTOR") {
+            return "Hi Sam, I can't find any memory issue in your instance. I can only account for what occurs on this base.";
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    OBJECT: ({ fake, db }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        const entry = fake.lookup(db, str(args[1]));
+        if (!entry) {
+            return null;
+        }
+        if (sub === "ENCODING") {
+            return encoding(entry);
+        }
+        if (sub === "IDLETIME") {
+            return 0;
+        }
+        if (sub === "FREQ") {
+            throw new ReplyError("ERR An LFU maxmemory policy is not selected, access frequency not tracked.");
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+
+    // Transactions
+    MULTI: ({ fake, connection }) => fake.multi(connection),
+    EXEC: ({ fake, connection }) => fake.exec(connection),
+    DISCARD: ({ connection }) => {
+        if (!connection.multi) {
+            throw new ReplyError("ERR DISCARD without MULTI");
+        }
+        connection.multi = null;
+        connection.watched = null;
+        return OK;
+    },
+    WATCH: ({ fake, connection }, args) => fake.watch(connection, args.map(str)),
+    UNWATCH: ({ connection }) => {
+        connection.watched = null;
+        return OK;
+    },
+
+    // Keys
+    DEL: ({ fake, db }, args) => args.filter((key) => fake.remove(db, str(key))).length,
+    UNLINK: ({ fake, db }, args) => args.filter((key) => fake.remove(db, str(key))).length,
+    EXISTS: ({ fake, db }, args) => args.filter((key) => fake.lookup(db, str(key))).length,
+    TYPE: ({ fake, db }, args) => new Status(fake.lookup(db, str(args[0]))?.type ?? "none"),
+    TTL: (context, args) => ttl(context, str(args[0]), 1000),
+    PTTL: (context, args) => ttl(context, str(args[0]), 1),
+    EXPIRE: (context, args) => expire(context, str(args[0]), Date.now() + integer(args[1]) * 1000, args[2] && utf8(args[2]).toUpperCase()),
+    PEXPIRE: (context, args) => expire(context, str(args[0]), Date.now() + integer(args[1]), args[2] && utf8(args[2]).toUpperCase()),
+    PERSIST: ({ fake, db }, args) => {
+        const entry = fake.lookup(db, str(args[0]));
+        if (!entry || entry.expiresAt === undefined) {
+            return 0;
+        }
+        delete entry.expiresAt;
+        fake.touch(db, str(args[0]));
+        return 1;
+    },
+    RENAME: ({ fake, db }, args) => {
+        const [source, destination] = args.map(str);
+        const entry = fake.lookup(db, source);
+        if (!entry) {
+            throw new ReplyError("ERR no such key");
+        }
+        db.delete(source);
+        db.set(destination, entry);
+        fake.touch(db, source);
+        fake.touch(db, destination);
+        return OK;
+    },
+    RENAMENX: ({ fake, db }, args) => {
+        const [source, destination] = args.map(str);
+        const entry = fake.lookup(db, source);
+        if (!entry) {
+            throw new ReplyError("ERR no such key");
+        }
+        if (fake.lookup(db, destination)) {
+            return 0;
+        }
+        db.delete(source);
+        db.set(destination, entry);
+        fake.touch(db, source);
+        fake.touch(db, destination);
+        return 1;
+    },
+    COPY: ({ fake, db }, args) => {
+        const [source, destination] = [str(args[0]), str(args[1])];
+        const { flags, values } = parseOptions(args.slice(2), ["REPLACE"], ["DB"]);
+        const target = values.has("DB") ? fake.database(integer(values.get("DB"))) : db;
+        const entry = fake.lookup(db, source);
+        if (!entry || (fake.lookup(target, destination) && !flags.has("REPLACE"))) {
+            return 0;
+        }
+        target.set(destination, cloneValue(entry));
+        fake.touch(target, destination);
+        return 1;
+    },
+    SCAN: ({ fake, db }, args) => {
+        const { values } = parseOptions(args.slice(1), [], ["MATCH", "COUNT", "TYPE"]);
+        const type = values.has("TYPE") ? utf8(values.get("TYPE")!) : undefined;
+        const keys = [...db.keys()].sort();
+        const [cursor, page] = scan(keys, args, (key) => key, (key) => {
+            const entry = fake.lookup(db, key);
+            return entry !== undefined && (type === undefined || entry.type === type);
+        });
+        return [cursor, page.map(bin)];
+    },
+    DUMP: ({ fake, db }, args) => {
+        const entry = fake.lookup(db, str(args[0]));
+        return entry ? dump(entry) : null;
+    },
+    RESTORE: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const ttlMs = integer(args[1]);
+        const { flags } = parseOptions(args.slice(3), ["REPLACE", "ABSTTL"], ["IDLETIME", "FREQ"]);
+        if (fake.lookup(db, key) && !flags.has("REPLACE")) {
+            throw new ReplyError("BUSYKEY Target key name already exists.");
+        }
+        const entry = restore(args[2]);
+        if (ttlMs > 0) {
+            entry.expiresAt = flags.has("ABSTTL") ? ttlMs : Date.now() + ttlMs;
+        }
+        db.set(key, entry);
+        fake.touch(db, key);
+        return OK;
+    },
+
+    // Strings
+    GET: ({ fake, db }, args) => fake.read(db, str(args[0]), "string") ?? null,
+    SET: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const { flags, values } = parseOptions(args.slice(2), ["NX", "XX", "KEEPTTL", "GET"], ["EX", "PX", "EXAT", "PXAT"]);
+        const existing = fake.lookup(db, key);
+        if ((flags.has("NX") && existing) || (flags.has("XX") && !existing)) {
+            return null;
+        }
+        const entry: Entry = { type: "string", value: args[1] };
+        if (values.has("EX")) {
+            entry.expiresAt = Date.now() + integer(values.get("EX")) * 1000;
+        } else if (values.has("PX")) {
+            entry.expiresAt = Date.now() + integer(values.get("PX"));
+        } else if (flags.has("KEEPTTL") && existing) {
+            entry.expiresAt = existing.expiresAt;
+        }
+        db.set(key, entry);
+        fake.touch(db, key);
+        return OK;
+    },
+    MSET: ({ fake, db }, args) => {
+        for (let i = 0; i < args.length; i += 2) {
+            db.set(str(args[i]), { type: "string", value: args[i + 1] });
+            fake.touch(db, str(args[i]));
+        }
+        return OK;
+    },
+    SETEX: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const seconds = integer(args[1]);
+        if (seconds <= 0) {
+            throw new ReplyError("ERR invalid expire time in 'setex' command");
+        }
+        db.set(key, { type: "string", value: args[2], expiresAt: Date.now() + seconds * 1000 });
+        fake.touch(db, key);
+        return OK;
+    },
+    GETRANGE: ({ fake, db }, args) => {
+        const value = fake.read(db, str(args[0]), "string") ?? Buffer.alloc(0);
+        const [from, to] = range(value.length, integer(args[1]), integer(args[2]));
+        return from > to ? Buffer.alloc(0) : value.subarray(from, to + 1);
+    },
+    STRLEN: ({ fake, db }, args) => fake.read(db, str(args[0]), "string")?.length ?? 0,
+
+    // Hashes
+    HSET: ({ fake, db }, args) => {
+        if (args.length < 3 || args.length % 2 === 0) {
+            throw new ReplyError("ERR wrong number of arguments for 'hset' command");
+        }
+        const hash = fake.write(db, str(args[0]), "hash", () => new Map());
+        let created = 0;
+        for (let i = 1; i < args.length; i += 2) {
+            created += hash.has(str(args[i])) ? 0 : 1;
+            hash.set(str(args[i]), args[i + 1]);
+        }
+        return created;
+    },
+    HGET: ({ fake, db }, args) => fake.read(db, str(args[0]), "hash")?.get(str(args[1])) ?? null,
+    HGETALL: ({ fake, db }, args) => [...(fake.read(db, str(args[0]), "hash") ?? [])].flatMap(([field, value]) => [bin(field), value]),
+    HKEYS: ({ fake, db }, args) => [...(fake.read(db, str(args[0]), "hash")?.keys() ?? [])].map(bin),
+    HDEL: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const hash = fake.read(db, key, "hash");
+        if (!hash) {
+            return 0;
+        }
+        const deleted = args.slice(1).filter((field) => hash.delete(str(field))).length;
+        fake.touch(db, key);
+        fake.prune(db, key);
+        return deleted;
+    },
+    HLEN: ({ fake, db }, args) => fake.read(db, str(args[0]), "hash")?.size ?? 0,
+    HSCAN: ({ fake, db }, args) => {
+        const [cursor, page] = scan([...(fake.read(db, str(args[0]), "hash") ?? [])], args.slice(1), ([field]) => field);
+        return [cursor, page.flatMap(([field, value]) => [bin(field), value])];
+    },
+
+    // Sets
+    SADD: ({ fake, db }, args) => {
+        const set = fake.write(db, str(args[0]), "set", () => new Set());
+        return args.slice(1).filter((member) => !set.has(str(member)) && set.add(str(member))).length;
+    },
+    SREM: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const set = fake.read(db, key, "set");
+        if (!set) {
+            return 0;
+        }
+        const removed = args.slice(1).filter((member) => set.delete(str(member))).length;
+        fake.touch(db, key);
+        fake.prune(db, key);
+        return removed;
+    },
+    SMEMBERS: ({ fake, db }, args) => [...(fake.read(db, str(args[0]), "set") ?? [])].map(bin),
+    SCARD: ({ fake, db }, args) => fake.read(db, str(args[0]), "set")?.size ?? 0,
+    SSCAN: ({ fake, db }, args) => {
+        const [cursor, page] = scan([...(fake.read(db, str(args[0]), "set") ?? [])], args.slice(1), (member) => member);
+        return [cursor, page.map(bin)];
+    },
+
+    // Sorted sets
+    ZADD: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        let i = 1;
+        const flags = new Set<string>();
+        while (i < args.length && ["NX", "XX", "GT", "LT", "CH", "INCR"].includes(utf8(args[i]).toUpperCase())) {
+            flags.add(utf8(args[i++]).toUpperCase());
+        }
+        const pairs = args.slice(i);
+        if (pairs.length === 0 || pairs.length % 2 !== 0) {
+            throw new ReplyError("ERR syntax error");
+        }
+        const scores = pairs.filter((_, n) => n % 2 === 0).map(float);
+        const zset = fake.write(db, key, "zset", () => new Map());
+        let changed = 0;
+        for (let n = 0; n < pairs.length; n += 2) {
+            const member = str(pairs[n + 1]);
+            const score = scores[n / 2];
+            const current = zset.get(member);
+            if ((flags.has("NX") && current !== undefined) || (flags.has("XX") && current === undefined) ||
+                (current !== undefined && ((flags.has("GT") && score <= current) || (flags.has("LT") && score >= current)))) {
+                continue;
+            }
+            if (current === undefined || (flags.has("CH") && current !== score)) {
+                changed++;
+            }
+            zset.set(member, score);
+        }
+        fake.prune(db, key);
+        return changed;
+    },
+    ZRANGE: ({ fake, db }, args) => {
+        const members = sortedMembers(fake.read(db, str(args[0]), "zset") ?? new Map());
+        const withScores = args.slice(3).some((arg) => utf8(arg).toUpperCase() === "WITHSCORES");
+        const [from, to] = range(members.length, integer(args[1]), integer(args[2]));
+        const selected = from > to ? [] : members.slice(from, to + 1);
+        return selected.flatMap(([member, score]) => withScores ? [bin(member), formatScore(score)] : [bin(member)]);
+    },
+    ZREM: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const zset = fake.read(db, key, "zset");
+        if (!zset) {
+            return 0;
+        }
+        const removed = args.slice(1).filter((member) => zset.delete(str(member))).length;
+        fake.touch(db, key);
+        fake.prune(db, key);
+        return removed;
+    },
+    ZCARD: ({ fake, db }, args) => fake.read(db, str(args[0]), "zset")?.size ?? 0,
+    ZSCAN: ({ fake, db }, args) => {
+        const members = sortedMembers(fake.read(db, str(args[0]), "zset") ?? new Map());
+        const [cursor, page] = scan(members, args.slice(1), ([member]) => member);
+        return [cursor, page.flatMap(([member, score]) => [bin(member), formatScore(score)])];
+    },
+
+    // Lists
+    LPUSH: ({ fake, db }, args) => {
+        const list = fake.write(db, str(args[0]), "list", () => []);
+        list.unshift(...args.slice(1).reverse());
+        return list.length;
+    },
+    RPUSH: ({ fake, db }, args) => {
+        const list = fake.write(db, str(args[0]), "list", () => []);
+        list.push(...args.slice(1));
+        return list.length;
+    },
+    LPOP: (context, args) => {
+        const popped = pop(context, str(args[0]), true, args[1] ? integer(args[1]) : undefined);
+        return args[1] ? popped ?? null : popped?.[0] ?? null;
+    },
+    RPOP: (context, args) => {
+        const popped = pop(context, str(args[0]), false, args[1] ? integer(args[1]) : undefined);
+        return args[1] ? popped ?? null : popped?.[0] ?? null;
+    },
+    LRANGE: ({ fake, db }, args) => {
+        const list = fake.read(db, str(args[0]), "list") ?? [];
+        const [from, to] = range(list.length, integer(args[1]), integer(args[2]));
+        return from > to ? [] : list.slice(from, to + 1);
+    },
+    LLEN: ({ fake, db }, args) => fake.read(db, str(args[0]), "list")?.length ?? 0,
+    LTRIM: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        const list = fake.read(db, key, "list");
+        if (list) {
+            const [from, to] = range(list.length, integer(args[1]), integer(args[2]));
+            list.splice(0, list.length, ...(from > to ? [] : list.slice(from, to + 1)));
+            fake.touch(db, key);
+            fake.prune(db, key);
+        }
+        return OK;
+    },
+    LMOVE: (context, args) => {
+        const [source, destination] = [str(args[0]), str(args[1])];
+        const [from, to] = [utf8(args[2]).toUpperCase(), utf8(args[3]).toUpperCase()];
+        context.fake.read(context.db, destination, "list");
+        const [element] = pop(context, source, from === "LEFT") ?? [];
+        if (element === undefined) {
+            return null;
+        }
+        const list = context.fake.write(context.db, destination, "list", () => []);
+        if (to === "LEFT") {
+            list.unshift(element);
+        } else {
+            list.push(element);
+        }
+        return element;
+    },
+    BLPOP: (context, args) => {
+        const keys = args.slice(0, -1).map(str);
+        const timeout = float(args[args.length - 1]) * 1000;
+        return block(context.connection, timeout, () => {
+            for (const key of keys) {
+                const [element] = pop(context, key, true) ?? [];
+                if (element !== undefined) {
+                    return [bin(key), element];
+                }
+            }
+            return undefined;
+        });
+    },
+    BRPOP: (context, args) => {
+        const keys = args.slice(0, -1).map(str);
+        const timeout = float(args[args.length - 1]) * 1000;
+        return block(context.connection, timeout, () => {
+            for (const key of keys) {
+                const [element] = pop(context, key, false) ?? [];
+                if (element !== undefined) {
+                    return [bin(key), element];
+                }
+            }
+            return undefined;
+        });
+    },
+
+    // Streams
+    XADD: ({ fake, db }, args) => {
+        const key = str(args[0]);
+        let i = 1;
+        let nomkstream = false;
+        let trim: { strategy: string; threshold: string } | undefined;
+        for (;;) {
+            const token = utf8(args[i]).toUpperCase();
+            if (token === "NOMKSTREAM") {
+                nomkstream = true;
+                i++;
+            } else if (token === "MAXLEN" || token === "MINID") {
+                i++;
+                if (["~", "="].includes(utf8(args[i]))) {
+                    i++;
+                }
+                trim = { strategy: token, threshold: utf8(args[i++]) };
+                if (utf8(args[i] ?? Buffer.alloc(0)).toUpperCase() === "LIMIT") {
+                    i += 2;
+                }
+            } else {
+                break;
+            }
+        }
+        const fields = args.slice(i + 1);
+        if (fields.length === 0 || fields.length % 2 !== 0) {
+            throw new ReplyError("ERR wrong number of arguments for 'xadd' command");
+        }
+        const existing = fake.read(db, key, "stream");
+        if (!existing && nomkstream) {
+            return null;
+        }
+        const id = nextStreamId(existing, utf8(args[i]));
+        const stream = fake.write(db, key, "stream", () => ({ entries: [], lastId: "0-0", groups: new Map() }));
+        stream.entries.push({ id, fields });
+        stream.lastId = id;
+        if (trim?.strategy === "MAXLEN") {
+            stream.entries.splice(0, Math.max(0, stream.entries.length - Number(trim.threshold)));
+        } else if (trim) {
+            stream.entries = stream.entries.filter((entry) => compareIds(entry.id, trim!.threshold) >= 0);
+        }
+        return id;
+    },
+    XRANGE: ({ fake, db }, args) => {
+        const stream = fake.read(db, str(args[0]), "stream");
+        const { values } = parseOptions(args.slice(3), [], ["COUNT"]);
+        return stream ? streamRange(stream, utf8(args[1]), utf8(args[2]), false, values.has("COUNT") ? integer(values.get("COUNT")) : undefined).map(entryReply) : [];
+    },
+    XREVRANGE: ({ fake, db }, args) => {
+        const stream = fake.read(db, str(args[0]), "stream");
+        const { values } = parseOptions(args.slice(3), [], ["COUNT"]);
+        return stream ? streamRange(stream, utf8(args[2]), utf8(args[1]), true, values.has("COUNT") ? integer(values.get("COUNT")) : undefined).map(entryReply) : [];
+    },
+    XLEN: ({ fake, db }, args) => fake.read(db, str(args[0]), "stream")?.entries.length ?? 0,
+    XREAD: ({ fake, db, connection }, args) => {
+        const { options, keys, ids } = readStreamArgs(args);
+        const count = options.values.has("COUNT") ? integer(options.values.get("COUNT")) : undefined;
+        // $ means entries added after the call
+        const after = keys.map((key, i) => ids[i] === "$" ? fake.read(db, key, "stream")?.lastId ?? "0-0" : ids[i]);
+        const attempt = () => {
+            const streams = keys.map((key, i) => {
+                const stream = fake.read(db, key, "stream");
+                const entries = stream ? streamRange(stream, `(${after[i].includes("-") ? after[i] : `${after[i]}-${Number.MAX_SAFE_INTEGER}`}`, "+", false, count) : [];
+                return [bin(key), entries.map(entryReply)] as Reply[];
+            }).filter(([, entries]) => (entries as Reply[]).length > 0);
+            return streams.length > 0 ? streams : undefined;
+        };
+        return options.values.has("BLOCK") ? block(connection, integer(options.values.get("BLOCK")), attempt) : attempt() ?? null;
+    },
+    XGROUP: ({ fake, db }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        const key = str(args[1]);
+        if (sub === "CREATE") {
+            const mkstream = args.slice(4).some((arg) => utf8(arg).toUpperCase() === "MKSTREAM");
+            let stream = fake.read(db, key, "stream");
+            if (!stream && !mkstream) {
+                throw new ReplyError("ERR The XGROUP subcommand requires the key to exist. Note that for CREATE you may want to use the MKSTREAM option to create an empty stream automatically.");
+            }
+            stream = fake.write(db, key, "stream", () => ({ entries: [], lastId: "0-0", groups: new Map() }));
+            const name = utf8(args[2]);
+            if (stream.groups.has(name)) {
+                throw new ReplyError("BUSYGROUP Consumer Group name already exists");
+            }
+            const id = utf8(args[3]);
+            stream.groups.set(name, { lastId: id === "$" ? stream.lastId : id, pending: new Map(), consumers: new Map() });
+            return OK;
+        }
+        if (sub === "DESTROY") {
+            const stream = fake.read(db, key, "stream");
+            if (!stream) {
+                throw new ReplyError("ERR The XGROUP subcommand requires the key to exist. Note that for CREATE you may want to use the MKSTREAM option to create an empty stream automatically.");
+            }
+            return stream.groups.delete(utf8(args[2])) ? 1 : 0;
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    XREADGROUP: (context, args) => {
+        const { fake, db, connection } = context;
+        if (utf8(args[0]).toUpperCase() !== "GROUP") {
+            throw new ReplyError("ERR syntax error");
+        }
+        const [groupName, consumer] = [utf8(args[1]), utf8(args[2])];
+        const { options, keys, ids } = readStreamArgs(args.slice(3));
+        const count = options.values.has("COUNT") ? integer(options.values.get("COUNT")) : undefined;
+        const groups = keys.map((key) => group(context, key, groupName, "XREADGROUP"));
+        const attempt = (history: boolean) => {
+            const streams = keys.map((key, i) => {
+                const stream = fake.read(db, key, "stream")!;
+                const consumerGroup = groups[i];
+                consumerGroup.consumers.set(consumer, Date.now());
+                if (ids[i] !== ">") {
+                    // Entries already delivered to this consumer and not yet acknowledged
+                    const pending = [...consumerGroup.pending].filter(([id, p]) => p.consumer === consumer && compareIds(id, ids[i]) > 0)
+                        .sort(([a], [b]) => compareIds(a, b)).slice(0, count);
+                    return [bin(key), pending.map(([id]) => {
+                        const entry = stream.entries.find((e) => e.id === id);
+                        return entry ? entryReply(entry) : [id, null];
+                    })] as Reply[];
+                }
+                const entries = streamRange(stream, `(${consumerGroup.lastId}`, "+", false, count);
+                for (const entry of entries) {
+                    consumerGroup.lastId = entry.id;
+                    if (!options.flags.has("NOACK")) {
+                        consumerGroup.pending.set(entry.id, { consumer, deliveredAt: Date.now(), deliveries: 1 });
+                    }
+                }
+                return [bin(key), entries.map(entryReply)] as Reply[];
+            });
+            const nonEmpty = streams.filter(([, entries]) => (entries as Reply[]).length > 0);
+            return nonEmpty.length > 0 || history ? streams : undefined;
+        };
+        const history = ids.some((id) => id !== ">");
+        return options.values.has("BLOCK") && !history
+            ? block(connection, integer(options.values.get("BLOCK")), () => attempt(false))
+            : attempt(history) ?? null;
+    },
+    XACK: (context, args) => {
+        const consumerGroup = context.fake.read(context.db, str(args[0]), "stream")?.groups.get(utf8(args[1]));
+        return consumerGroup ? args.slice(2).filter((id) => consumerGroup.pending.delete(utf8(id))).length : 0;
+    },
+    XPENDING: (context, args) => {
+        const key = str(args[0]);
+        const consumerGroup = group(context, key, utf8(args[1]), "XPENDING");
+        const pending = [...consumerGroup.pending].sort(([a], [b]) => compareIds(a, b));
+        if (args.length === 2) {
+            if (pending.length === 0) {
+                return [0, null, null, null];
+            }
+            const counts = new Map<string, number>();
+            for (const [, p] of pending) {
+                counts.set(p.consumer, (counts.get(p.consumer) ?? 0) + 1);
+            }
+            return [pending.length, pending[0][0], pending[pending.length - 1][0], [...counts].map(([name, n]) => [name, String(n)])];
+        }
+        let rest = args.slice(2);
+        let idle = 0;
+        if (utf8(rest[0]).toUpperCase() === "IDLE") {
+            idle = integer(rest[1]);
+            rest = rest.slice(2);
+        }
+        const [start, end, count, consumer] = [utf8(rest[0]), utf8(rest[1]), integer(rest[2]), rest[3] && utf8(rest[3])];
+        const from = rangeBound(start, true);
+        const to = rangeBound(end, false);
+        return pending
+            .filter(([id, p]) => (from.exclusive ? compareIds(id, from.id) > 0 : compareIds(id, from.id) >= 0) &&
+                (to.exclusive ? compareIds(id, to.id) < 0 : compareIds(id, to.id) <= 0) &&
+                (consumer === undefined || p.consumer === consumer) && Date.now() - p.deliveredAt >= idle)
+            .slice(0, count)
+            .map(([id, p]) => [id, p.consumer, Date.now() - p.deliveredAt, p.deliveries]);
+    },
+    XCLAIM: (context, args) => {
+        const key = str(args[0]);
+        const consumerGroup = group(context, key, utf8(args[1]), "XCLAIM");
+        const consumer = utf8(args[2]);
+        const minIdle = integer(args[3]);
+        const stream = context.fake.read(context.db, key, "stream")!;
+        const claimed: Reply[] = [];
+        for (const arg of args.slice(4)) {
+            const id = utf8(arg);
+            const pending = consumerGroup.pending.get(id);
+            if (!/^\d/.test(id)) {
+                break;
+            }
+            if (!pending || Date.now() - pending.deliveredAt < minIdle) {
+                continue;
+            }
+            const entry = stream.entries.find((e) => e.id === id);
+            if (!entry) {
+                consumerGroup.pending.delete(id);
+                continue;
+            }
+            consumerGroup.pending.set(id, { consumer, deliveredAt: Date.now(), deliveries: pending.deliveries + 1 });
+            consumerGroup.consumers.set(consumer, Date.now());
+            claimed.push(entryReply(entry));
+        }
+        return claimed;
+    },
+    XAUTOCLAIM: (context, args) => {
+        const key = str(args[0]);
+        const consumerGroup = group(context, key, utf8(args[1]), "XAUTOCLAIM");
+        const consumer = utf8(args[2]);
+        const minIdle = integer(args[3]);
+        const start = rangeBound(utf8(args[4]), true);
+        const { values } = parseOptions(args.slice(5), ["JUSTID"], ["COUNT"]);
+        const count = values.has("COUNT") ? integer(values.get("COUNT")) : 100;
+        const stream = context.fake.read(context.db, key, "stream")!;
+        const candidates = [...consumerGroup.pending]
+            .filter(([id, p]) => compareIds(id, start.id) >= 0 && Date.now() - p.deliveredAt >= minIdle)
+            .sort(([a], [b]) => compareIds(a, b));
+        const claimed: Reply[] = [];
+        const deleted: string[] = [];
+        for (const [id, pending] of candidates.slice(0, count)) {
+            const entry = stream.entries.find((e) => e.id === id);
+            if (!entry) {
+                consumerGroup.pending.delete(id);
+                deleted.push(id);
+                continue;
+            }
+            consumerGroup.pending.set(id, { consumer, deliveredAt: Date.now(), deliveries: pending.deliveries + 1 });
+            claimed.push(entryReply(entry));
+        }
+        consumerGroup.consumers.set(consumer, Date.now());
+        const next = candidates.length > count ? candidates[count][0] : "0-0";
+        return [next, claimed, deleted];
+    },
+    XINFO: (context, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        const key = str(args[1]);
+        const stream = context.fake.read(context.db, key, "stream");
+        if (!stream) {
+            throw new ReplyError("ERR no such key");
+        }
+        if (sub === "STREAM") {
+            const first = stream.entries[0];
+            const last = stream.entries[stream.entries.length - 1];
+            return ["length", stream.entries.length, "radix-tree-keys", 1, "radix-tree-nodes", 2,
+                "last-generated-id", stream.lastId, "max-deleted-entry-id", "0-0", "entries-added", stream.entries.length,
+                "recorded-first-entry-id", first?.id ?? "0-0", "groups", stream.groups.size,
+                "first-entry", first ? entryReply(first) : null, "last-entry", last ? entryReply(last) : null];
+        }
+        if (sub === "GROUPS") {
+            return [...stream.groups].map(([name, g]) => ["name", name, "consumers", g.consumers.size, "pending", g.pending.size,
+                "last-delivered-id", g.lastId, "entries-read", null, "lag", null]);
+        }
+        if (sub === "CONSUMERS") {
+            const consumerGroup = group(context, key, utf8(args[2]), "XINFO");
+            return [...consumerGroup.consumers].map(([name, seen]) => ["name", name,
+                "pending", [...consumerGroup.pending.values()].filter((p) => p.consumer === name).length,
+                "idle", Date.now() - seen, "inactive", Date.now() - seen]);
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+
+    // Pub/sub
+    PUBLISH: ({ fake }, args) => fake.publish(str(args[0]), args[1]),
+    SUBSCRIBE: ({ fake, connection }, args) => fake.subscribe(connection, "subscribe", args.map(str)),
+    PSUBSCRIBE: ({ fake, connection }, args) => fake.subscribe(connection, "psubscribe", args.map(str)),
+    UNSUBSCRIBE: ({ fake, connection }, args) => fake.unsubscribe(connection, "unsubscribe", args.map(str)),
+    PUNSUBSCRIBE: ({ fake, connection }, args) => fake.unsubscribe(connection, "punsubscribe", args.map(str)),
+    PUBSUB: ({ fake }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "CHANNELS") {
+            return fake.channels(args[1] && str(args[1])).map(bin);
+        }
+        if (sub === "NUMSUB") {
+            return args.slice(1).flatMap((channel) => [channel, fake.subscribers(str(channel))]);
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+
+    // Scripting
+    EVAL: ({ fake, connection }, args) => fake.runScript(connection, utf8(args[0]), args.slice(1)),
+    EVAL_RO: ({ fake, connection }, args) => fake.runScript(connection, utf8(args[0]), args.slice(1)),
+    EVALSHA: ({ fake, connection }, args) => fake.runScript(connection, fake.cachedScript(utf8(args[0])), args.slice(1)),
+    EVALSHA_RO: ({ fake, connection }, args) => fake.runScript(connection, fake.cachedScript(utf8(args[0])), args.slice(1)),
+    SCRIPT: ({ fake }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "LOAD") {
+            return fake.loadScript(utf8(args[1]));
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    FUNCTION: ({ fake }, args) => {
+        const sub = utf8(args[0]).toUpperCase();
+        if (sub === "LOAD") {
+            const replace = utf8(args[1]).toUpperCase() === "REPLACE";
+            return fake.loadLibrary(utf8(args[replace ? 2 : 1]), replace);
+        }
+        if (sub === "LIST") {
+            let pattern: string | undefined;
+            let withCode = false;
+            for (let i = 1; i < args.length; i++) {
+                const token = utf8(args[i]);
+                if (token.toUpperCase() === "WITHCODE") {
+                    withCode = true;
+                } else if (token.toUpperCase() === "LIBRARYNAME") {
+                    pattern = utf8(args[++i]);
+                } else {
+                    pattern = token;
+                }
+            }
+            return fake.listLibraries(pattern).map((library) => [
+                "library_name", library.name, "engine", "LUA",
+                "functions", library.functions.map((fn) => ["name", fn.name, "description", null, "flags", fn.flags]),
+                ...(withCode ? ["library_code", library.code] : []),
+            ]);
+        }
+        throw new ReplyError(`ERR unknown subcommand '${utf8(args[0])}'`);
+    },
+    FCALL: ({ fake, connection }, args) => fake.callFunction(connection, utf8(args[0]), args.slice(1)),
+    FCALL_RO: ({ fake, connection }, args) => fake.callFunction(connection, utf8(args[0]), args.slice(1)),
+
+    // RedisJSON
+    "JSON.SET": (context, args) => {
+        const { fake, db } = context;
+        const key = str(args[0]);
+        const path = utf8(args[1]);
+        const value = parseJson(args[2]);
+        const condition = args[3] && utf8(args[3]).toUpperCase();
+        const document = jsonDocument(context, key);
+        const { segments } = parseJsonPath(path);
+        if (!document) {
+            if (segments.length > 0) {
+                throw new ReplyError("ERR new objects must be created at the root");
+            }
+            if (condition === "XX") {
+                return null;
+            }
+            db.set(key, { type: "ReJSON-RL", value });
+            fake.touch(db, key);
+            return OK;
+        }
+        const matches = evaluateJsonPath(document.root, segments);
+        if (matches.length === 0) {
+            // A missing last property is created in its parent object
+            const last = segments[segments.length - 1];
+            const parents = last?.kind === "name" ? evaluateJsonPath(document.root, segments.slice(0, -1)) : [];
+            const objects = parents.filter((p) => p.value !== null && typeof p.value === "object" && !Array.isArray(p.value));
+            if (condition === "XX" || objects.length === 0) {
+                return null;
+            }
+            for (const parent of objects) {
+                (parent.value as Record<string, unknown>)[(last as { name: string }).name] = structuredClone(value);
+            }
+        } else {
+            if (condition === "NX") {
+                return null;
+            }
+            for (const match of matches) {
+                if (match.parent === null) {
+                    document.root = value;
+                } else {
+                    setJsonMatch(match, structuredClone(value));
+                }
+            }
+            storeJson(context, key, document);
+        }
+        fake.touch(db, key);
+        return OK;
+    },
+    "JSON.GET": (context, args) => {
+        const key = str(args[0]);
+        const document = jsonDocument(context, key);
+        if (!document) {
+            return null;
+        }
+        const paths = args.slice(1).map(utf8).filter((arg, i, all) =>
+            !["INDENT", "NEWLINE", "SPACE"].includes(arg.toUpperCase()) && !["INDENT", "NEWLINE", "SPACE"].includes(all[i - 1]?.toUpperCase()));
+        const evaluate = (path: string) => {
+            const { segments, legacy } = parseJsonPath(path);
+            const matches = evaluateJsonPath(document.root, segments).map((match) => match.value);
+            if (legacy && matches.length === 0) {
+                throw new ReplyError(`ERR Path '${path}' does not exist`);
+            }
+            return legacy ? matches[0] : matches;
+        };
+        if (paths.length === 0) {
+            return JSON.stringify(document.root);
+        }
+        if (paths.length === 1) {
+            return JSON.stringify(evaluate(paths[0]));
+        }
+        return JSON.stringify(Object.fromEntries(paths.map((path) => [path, evaluate(path)])));
+    },
+    "JSON.DEL": (context, args) => {
+        const { fake, db } = context;
+        const key = str(args[0]);
+        const document = jsonDocument(context, key);
+        if (!document) {
+            return 0;
+        }
+        const { segments } = parseJsonPath(args[1] ? utf8(args[1]) : "$");
+        if (segments.length === 0) {
+            fake.remove(db, key);
+            return 1;
+        }
+        const matches = evaluateJsonPath(document.root, segments);
+        // Remove array elements from the last one, so that earlier indexes stay valid
+        for (const match of [...matches].reverse()) {
+            if (Array.isArray(match.parent)) {
+                match.parent.splice(match.key as number, 1);
+            } else if (match.parent) {
+                delete (match.parent as Record<string, unknown>)[match.key as string];
+            }
+        }
+        fake.touch(db, key);
+        return matches.length;
+    },
+    "JSON.MGET": (context, args) => {
+        const path = utf8(args[args.length - 1]);
+        const { segments, legacy } = parseJsonPath(path);
+        return args.slice(0, -1).map((key) => {
+            const entry = context.fake.lookup(context.db, str(key));
+            if (!entry || entry.type !== "ReJSON-RL") {
+                return null;
+            }
+            const matches = evaluateJsonPath(entry.value, segments).map((match) => match.value);
+            return legacy ? (matches.length > 0 ? JSON.stringify(matches[0]) : null) : JSON.stringify(matches);
+        });
+    },
+    "JSON.ARRAPPEND": (context, args) => {
+        const values = args.slice(2).map(parseJson);
+        return perMatch(context, str(args[0]), utf8(args[1]), ({ value }) => {
+            if (!Array.isArray(value)) {
+                return null;
+            }
+            value.push(...values.map((v) => structuredClone(v)));
+            return value.length;
+        });
+    },
+    "JSON.ARRINSERT": (context, args) => {
+        const index = integer(args[2]);
+        const values = args.slice(3).map(parseJson);
+        return perMatch(context, str(args[0]), utf8(args[1]), ({ value }) => {
+            if (!Array.isArray(value)) {
+                return null;
+            }
+            const at = index < 0 ? value.length + index : index;
+            if (at < 0 || at > value.length) {
+                throw new ReplyError("ERR index out of bounds");
+            }
+            value.splice(at, 0, ...values.map((v) => structuredClone(v)));
+            return value.length;
+        });
+    },
+    "JSON.ARRPOP": (context, args) => {
+        const path = args[1] ? utf8(args[1]) : ".";
+        const index = args[2] ? integer(args[2]) : -1;
+        if (!jsonDocument(context, str(args[0]))) {
+            return null;
+        }
+        return perMatch(context, str(args[0]), path, ({ value }) => {
+            if (!Array.isArray(value) || value.length === 0) {
+                return null;
+            }
+            const at = Math.min(Math.max(index < 0 ? value.length + index : index, 0), value.length - 1);
+            return JSON.stringify(value.splice(at, 1)[0]);
+        });
+    },
+    "JSON.ARRLEN": (context, args) => {
+        if (!jsonDocument(context, str(args[0]))) {
+            return null;
+        }
+        return perMatch(context, str(args[0]), args[1] ? utf8(args[1]) : ".", ({ value }) => Array.isArray(value) ? value.length : null);
+    },
+    "JSON.NUMINCRBY": (context, args) => {
+        const by = float(args[2]);
+        const { matches, legacy } = jsonMatches(context, str(args[0]), utf8(args[1]));
+        const results = matches.map((match) => {
+            if (typeof match.value !== "number") {
+                return null;
+            }
+            const value = match.value + by;
+            setJsonMatch(match, value);
+            return value;
+        });
+        if (legacy && results[0] === null) {
+            throw new ReplyError(`ERR WRONGTYPE wrong type of path value - expected a number but found ${jsonType(matches[0].value)}`);
+        }
+        context.fake.touch(context.db, str(args[0]));
+        return JSON.stringify(legacy ? results[0] : results);
+    },
+    "JSON.OBJKEYS": (context, args) => {
+        if (!jsonDocument(context, str(args[0]))) {
+            return null;
+        }
+        return perMatch(context, str(args[0]), args[1] ? utf8(args[1]) : ".", ({ value }) =>
+            value !== null && typeof value === "object" && !Array.isArray(value) ? Object.keys(value) : null);
+    },
+    "JSON.OBJLEN": (context, args) => {
+        if (!jsonDocument(context, str(args[0]))) {
+            return null;
+        }
+        return perMatch(context, str(args[0]), args[1] ? utf8(args[1]) : ".", ({ value }) =>
+            value !== null && typeof value === "object" && !Array.isArray(value) ? Object.keys(value).length : null);
+    },
+    "JSON.STRLEN": (context, args) => {
+        if (!jsonDocument(context, str(args[0]))) {
+            return null;
+        }
+        return perMatch(context, str(args[0]), args[1] ? utf8(args[1]) : ".", ({ value }) => typeof value === "string" ? value.length : null);
+    },
+    "JSON.TYPE": (context, args) => {
+        if (!jsonDocument(context, str(args[0]))) {
+            return null;
+        }
+        return perMatch(context, str(args[0]), args[1] ? utf8(args[1]) : ".", ({ value }) => jsonType(value));
+    },
+
+    // RediSearch
+    "FT._LIST": ({ fake }) => fake.indexNames(),
+    "FT.CREATE": ({ fake }, args) => {
+        const name = utf8(args[0]);
+        const tokens = args.slice(1).map(utf8);
+        const index: SearchIndex = { on: "HASH", prefixes: [], fields: [] };
+        let i = 0;
+        for (; i < tokens.length && tokens[i].toUpperCase() !== "SCHEMA"; i++) {
+            const token = tokens[i].toUpperCase();
+            if (token === "ON") {
+                index.on = tokens[++i].toUpperCase() as SearchIndex["on"];
+            } else if (token === "PREFIX") {
+                const count = Number(tokens[++i]);
+                index.prefixes = tokens.slice(i + 1, i + 1 + count);
+                i += count;
+            } else if (["FILTER", "LANGUAGE", "LANGUAGE_FIELD", "SCORE", "SCORE_FIELD", "TEMPORARY"].includes(token)) {
+                i++;
+            }
+        }
+        const schema = tokens.slice(i + 1);
+        if (schema.length === 0) {
+            throw new ReplyError("Fields arguments are missing");
+        }
+        for (let n = 0; n < schema.length;) {
+            const identifier = schema[n++];
+            let attribute = identifier;
+            if (schema[n]?.toUpperCase() === "AS") {
+                attribute = schema[n + 1];
+                n += 2;
+            }
+            const type = schema[n++]?.toUpperCase();
+            if (!["TEXT", "NUMERIC", "TAG", "GEO", "VECTOR", "GEOSHAPE"].includes(type)) {
+                throw new ReplyError(`Invalid field type for field \`${identifier}\``);
+            }
+            let sortable = false;
+            while (n < schema.length && ["SORTABLE", "UNF", "NOINDEX", "NOSTEM", "CASESENSITIVE", "WITHSUFFIXTRIE", "INDEXEMPTY", "INDEXMISSING", "WEIGHT", "SEPARATOR", "PHONETIC"]
+                .includes(schema[n].toUpperCase())) {
+                const option = schema[n++].toUpperCase();
+                sortable ||= option === "SORTABLE";
+                if (["WEIGHT", "SEPARATOR", "PHONETIC"].includes(option)) {
+                    n++;
+                }
+            }
+            index.fields.push({ identifier, attribute, type, sortable });
+        }
+        fake.createIndex(name, index);
+        return OK;
+    },
+    "FT.INFO": ({ fake, db }, args) => {
+        const name = utf8(args[0]);
+        const index = fake.index(name);
+        const documents = searchDocuments({ fake, db } as CommandContext, index).length;
+        return ["index_name", name, "index_options", [],
+            "index_definition", ["key_type", index.on, "prefixes", index.prefixes.length > 0 ? index.prefixes : [""], "default_score", "1"],
+            "attributes", index.fields.map((f) => ["identifier", f.identifier, "attribute", f.attribute, "type", f.type, ...(f.sortable ? ["SORTABLE"] : [])]),
+            "num_docs", String(documents), "max_doc_id", String(documents), "num_terms", "0", "num_records", "0", "inverted_sz_mb", "0",
+            "vector_index_sz_mb", "0", "total_inverted_index_blocks", "0", "offset_vectors_sz_mb", "0", "doc_table_size_mb", "0",
+            "sortable_values_size_mb", "0", "key_table_size_mb", "0", "records_per_doc_avg", "0", "bytes_per_record_avg", "0",
+            "offsets_per_term_avg", "0", "offset_bits_per_record_avg", "0", "hash_indexing_failures", "0", "indexing", "0",
+            "percent_indexed", "1",
+            "gc_stats", ["bytes_collected", "0", "total_ms_run", "0", "total_cycles", "0", "average_cycle_time_ms", "0", "last_run_time_ms", "0",
+                "gc_numeric_trees_missed", "0", "gc_blocks_denied", "0"],
+            "cursor_stats", ["global_idle", 0, "global_total", 0, "index_capacity", 128, "index_total", 0]];
+    },
+    "FT.SEARCH": (context, args) => {
+        const index = context.fake.index(utf8(args[0]));
+        const query = utf8(args[1]);
+        const tokens = args.slice(2).map(utf8);
+        let returned: string[] | undefined;
+        let sortBy: { field: string; descending: boolean } | undefined;
+        let offset = 0;
+        let size = 10;
+        let params: Record<string, string> = {};
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i].toUpperCase();
+            if (token === "RETURN") {
+                const count = Number(tokens[++i]);
+                returned = tokens.slice(i + 1, i + 1 + count);
+                i += count;
+            } else if (token === "SORTBY") {
+                sortBy = { field: tokens[++i].replace(/^@/, ""), descending: tokens[i + 1]?.toUpperCase() === "DESC" };
+                if (["ASC", "DESC"].includes(tokens[i + 1]?.toUpperCase())) {
+                    i++;
+                }
+            } else if (token === "LIMIT") {
+                offset = Number(tokens[++i]);
+                size = Number(tokens[++i]);
+            } else if (token === "PARAMS") {
+                const count = Number(tokens[++i]);
+                const pairs = tokens.slice(i + 1, i + 1 + count);
+                params = Object.fromEntries(pairs.filter((_, n) => n % 2 === 0).map((name, n) => [name, pairs[n * 2 + 1]]));
+                i += count;
+            } else if (["DIALECT", "TIMEOUT", "SLOP", "LANGUAGE"].includes(token)) {
+                i++;
+            }
+        }
+        const resolved = query.replace(/\$(\w+)/g, (_, name: string) => params[name] ?? `$${name}`);
+        let documents = searchDocuments(context, index).filter(({ fields }) => matchesQuery(index, fields, resolved));
+        if (sortBy) {
+            const { field, descending } = sortBy;
+            documents = documents.sort((a, b) => {
+                const [x, y] = [attributeValue(index, a.fields, field), attributeValue(index, b.fields, field)];
+                const order = typeof x === "number" || !Number.isNaN(Number(x)) ? Number(x) - Number(y) : String(x).localeCompare(String(y));
+                return descending ? -order : order;
+            });
+        }
+        const page = documents.slice(offset, offset + size);
+        return [documents.length, ...page.flatMap(({ key, fields }) => {
+            const values = returned
+                ? returned.flatMap((name) => {
+                    const value = index.on === "JSON" ? fields[name] ?? evaluateJsonPath(fields.$, parseJsonPath(name).segments)[0]?.value : fields[name];
+                    return value === undefined ? [] : [name, typeof value === "string" && index.on === "HASH" ? value : JSON.stringify(value)];
+                })
+                : index.on === "JSON" ? ["$", JSON.stringify(fields.$)] : Object.entries(fields).flatMap(([f, v]) => [f, String(v)]);
+            return [bin(key), values] as Reply[];
+        })];
+    },
+    "FT.AGGREGATE": (context, args) => {
+        const index = context.fake.index(utf8(args[0]));
+        const tokens = args.slice(2).map(utf8);
+        let rows: Array<Record<string, string>> = searchDocuments(context, index)
+            .filter(({ fields }) => matchesQuery(index, fields, utf8(args[1])))
+            .map(({ fields }) => Object.fromEntries(index.fields.map((f) => [f.attribute, String(attributeValue(index, fields, f.attribute) ?? "")])));
+        for (let i = 0; i < tokens.length; i++) {
+            const token = tokens[i].toUpperCase();
+            if (token === "LOAD") {
+                i += Number(tokens[i + 1]) + 1;
+            } else if (token === "GROUPBY") {
+                const count = Number(tokens[++i]);
+                const properties = tokens.slice(i + 1, i + 1 + count).map((p) => p.replace(/^@/, ""));
+                i += count;
+                const reducers: Array<{ type: string; property?: string; as: string }> = [];
+                while (tokens[i + 1]?.toUpperCase() === "REDUCE") {
+                    const type = tokens[i + 2].toUpperCase();
+                    const argCount = Number(tokens[i + 3]);
+                    const property = argCount > 0 ? tokens[i + 4].replace(/^@/, "") : undefined;
+                    i += 3 + argCount;
+                    let as = `__generated_alias${type.toLowerCase()}${property ?? ""}`;
+                    if (tokens[i + 1]?.toUpperCase() === "AS") {
+                        as = tokens[i + 2];
+                        i += 2;
+                    }
+                    reducers.push({ type, property, as });
+                }
+                const groups = new Map<string, Array<Record<string, string>>>();
+                for (const row of rows) {
+                    const id = JSON.stringify(properties.map((p) => row[p]));
+                    groups.set(id, [...(groups.get(id) ?? []), row]);
+                }
+                rows = [...groups.values()].map((members) => ({
+                    ...Object.fromEntries(properties.map((p) => [p, members[0][p]])),
+                    ...Object.fromEntries(reducers.map(({ type, property, as }) => {
+                        const values = members.map((row) => Number(row[property ?? ""]));
+                        const result = type === "COUNT" ? members.length
+                            : type === "SUM" ? values.reduce((a, b) => a + b, 0)
+                            : type === "AVG" ? values.reduce((a, b) => a + b, 0) / values.length
+                            : type === "MIN" ? Math.min(...values)
+                            : type === "MAX" ? Math.max(...values)
+                            : (() => { throw new ReplyError(`ERR the fake Redis server does not support the ${type} reducer`); })();
+                        return [as, String(result)];
+                    })),
+                }));
+            } else if (token === "SORTBY") {
+                const count = Number(tokens[++i]);
+                const keys = tokens.slice(i + 1, i + 1 + count);
+                i += count;
+                const [property, direction] = [keys[0].replace(/^@/, ""), keys[1]?.toUpperCase() === "DESC" ? -1 : 1];
+                rows.sort((a, b) => (Number(a[property]) - Number(b[property]) || a[property].localeCompare(b[property])) * direction);
+                if (tokens[i + 1]?.toUpperCase() === "MAX") {
+                    rows = rows.slice(0, Number(tokens[i + 2]));
+                    i += 2;
+                }
+            } else if (token === "LIMIT") {
+                const [offset, size] = [Number(tokens[i + 1]), Number(tokens[i + 2])];
+                rows = rows.slice(offset, offset + size);
+                i += 2;
+            } else if (token === "APPLY" || token === "FILTER") {
+                throw new ReplyError(`ERR the fake Redis server does not support ${token}`);
+            } else if (["DIALECT", "TIMEOUT"].includes(token)) {
+                i++;
+            }
+        }
+        return [rows.length, ...rows.map((row) => Object.entries(row).flat())];
+    },
+    "FT.DROPINDEX": (context, args) => {
+        const index = context.fake.dropIndex(utf8(args[0]));
+        if (args[1] && utf8(args[1]).toUpperCase() === "DD") {
+            for (const { key } of searchDocuments(context, index)) {
+                context.fake.remove(context.db, key);
+            }
+        }
+        return OK;
+    },
+};
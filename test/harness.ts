@@ -0,0 +1,78 @@
+import assert from "node:assert/strict";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { createClient } from "redis";
+import { loadConfig } from "../src/config.js";
+import { RedisClient } from "../src/redis.js";
+import { RedisMcpServer, createRedisMcpServer } from "../src/server.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+// An MCP client talking to the server over an in-memory transport, with the server's default
+// connection served by a node-redis client connected to a fake Redis server
+export interface Harness {
+    fake: FakeRedis;
+    // A separate client for setting up and inspecting data
+    redis: RedisClient;
+    mcp: Client;
+    server: RedisMcpServer;
+    // The structured result of a successful call, typed by the caller as the tool's output schema describes it
+    call<T extends object = Record<string, unknown>>(name: string, args?: Record<string, unknown>): Promise<T>;
+    // The message of a failed call
+    fail(name: string, args?: Record<string, unknown>): Promise<string>;
+    close(): Promise<void>;
+}
+
+// Start a fake Redis server, and a server configured by command-line style arguments.
+// Results are requested as JSON, so the client checks them against the tools' output schemas.
+export async function startHarness(argv: string[] = []): Promise<Harness> {
+    const fake = new FakeRedis();
+    const url = await fake.start();
+    // Fail instead of reconnecting, so that a connection the fake refuses fails the call
+    const redis: RedisClient = createClient({ url, socket: { reconnectStrategy: false } });
+    const serverClient: RedisClient = createClient({ url, socket: { reconnectStrategy: false } });
+    await Promise.all([redis.connect(), serverClient.connect()]);
+
+    const config = loadConfig([url, "--output-format", "json", ...argv], {});
+    const server = createRedisMcpServer(config, { client: serverClient });
+    const mcpServer = server.createServer();
+    const mcp = new Client({ name: "redis-mcp-tests", version: "1.0.0" });
+    const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+    await Promise.all([mcp.connect(clientTransport), mcpServer.connect(serverTransport)]);
+    // Lets the client validate results against the output schemas
+    await mcp.listTools();
+
+    async function callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+        return await mcp.callTool({ name, arguments: args }) as CallToolResult;
+    }
+
+    return {
+        fake,
+        redis,
+        mcp,
+        server,
+        async call<T extends object = Record<string, unknown>>(name: string, args: Record<string, unknown> = {}): Promise<T> {
+            const result = await callTool(name, args);
+            if (result.isError) {
+                assert.fail(`${name} failed: ${(result.content[0] as { text: string }).text}`);
+            }
+            return result.structuredContent as T;
+        },
+        async fail(name, args = {}) {
+            let result: CallToolResult;
+            try {
+                result = await callTool(name, args);
+            } catch (error) {
+                return (error as Error).message;
+            }
+            assert.ok(result.isError, `${name} was expected to fail, but returned ${JSON.stringify(result.structuredContent)}`);
+            return (result.content[0] as { text: string }).text;
+        },
+        async close() {
+            await mcp.close();
+            await server.close();
+            await Promise.all([redis.quit(), serverClient.quit()]);
+            await fake.stop();
+        },
+    };
+}
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("hash tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("hset and hget a field", async () => {
+        assert.deepEqual(await h.call("hset", { key: "user", field: "name", value: "Ada" }), { key: "user", field: "name", created: true });
+        assert.deepEqual(await h.call("hset", { key: "user", field: "name", value: "Grace" }), { key: "user", field: "name", created: false });
+        assert.deepEqual(await h.call("hget", { key: "user", field: "name" }), {
+            key: "user", field: "name", exists: true, value: "Grace", totalBytes: 5, truncated: false,
+        });
+    });
+
+    it("hget truncates a large field", async () => {
+        await h.redis.hSet("user", "bio", "x".repeat(100));
+        const result = await h.call("hget", { key: "user", field: "bio", maxBytes: 10 });
+        assert.deepEqual([result.value, result.totalBytes, result.truncated], ["x".repeat(10), 100, true]);
+    });
+
+    it("hget reports a missing field or key", async () => {
+        await h.redis.hSet("user", "name", "Ada");
+        assert.equal((await h.call("hget", { key: "user", field: "age" })).exists, false);
+        assert.equal((await h.call("hget", { key: "missing", field: "age" })).exists, false);
+    });
+
+    it("hgetall returns every field, within the limits", async () => {
+        await h.redis.hSet("user", { name: "Ada", role: "admin", team: "core" });
+        const all = await h.call("hgetall", { key: "user" });
+        assert.deepEqual(all, { key: "user", count: 3, fields: { name: "Ada", role: "admin", team: "core" }, truncated: false });
+        const limited = await h.call<{ fields: Record<string, string>; count: number; truncated: boolean }>("hgetall", { key: "user", maxItems: 2 });
+        assert.deepEqual([Object.keys(limited.fields).length, limited.count, limited.truncated], [2, 3, true]);
+        assert.deepEqual(await h.call("hgetall", { key: "missing" }), { key: "missing", count: 0, fields: {}, truncated: false });
+    });
+
+    it("hdel removes fields", async () => {
+        await h.redis.hSet("user", { name: "Ada", role: "admin" });
+        assert.deepEqual(await h.call("hdel", { key: "user", fields: ["role", "age"] }), { key: "user", requested: 2, deleted: 1 });
+        assert.deepEqual(await h.redis.hKeys("user"), ["name"]);
+    });
+
+    it("hscan pages through matching fields", async () => {
+        await h.redis.hSet("user", { "addr:city": "Paris", "addr:zip": "75001", name: "Ada" });
+        const result = await h.call("hscan", { key: "user", pattern: "addr:*" });
+        assert.deepEqual(result.entries, [{ field: "addr:city", value: "Paris" }, { field: "addr:zip", value: "75001" }]);
+        assert.deepEqual([result.cursor, result.complete], [0, true]);
+    });
+
+    it("hscan cuts the values past maxBytes, keeping every field of the page", async () => {
+        await h.redis.hSet("user", { a: "x".repeat(10), b: "y".repeat(10), c: "z".repeat(10) });
+        const result = await h.call("hscan", { key: "user", maxBytes: 15 });
+        assert.deepEqual(result.entries, [{ field: "a", value: "x".repeat(10) }, { field: "b", value: "yyyyy" }, { field: "c", value: "" }]);
+        assert.deepEqual([result.complete, result.truncated], [true, true]);
+    });
+
+    it("explains a key of the wrong type", async () => {
+        await h.redis.set("user", "Ada");
+        assert.match(await h.fail("hgetall", { key: "user" }), /Wrong type: hgetall cannot operate on this key \(key user holds a string, use get, set\)/);
+        assert.match(await h.fail("hset", { key: "user", field: "f", value: "v" }), /holds a string/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("hset", { key: "user", field: "name" }), /Invalid arguments: value: Required/);
+        assert.match(await h.fail("hdel", { key: "user", fields: "name" }), /Invalid arguments: fields: Expected array/);
+        assert.match(await h.fail("hscan", { key: "user", cursor: -1 }), /Invalid arguments: cursor/);
+    });
+});
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { request } from "node:http";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { StreamableHTTPClientTransport } from "@modelcontextprotocol/sdk/client/streamableHttp.js";
+import { HttpServer, HttpServerOptions, startHttpServer } from "../src/http.js";
+import { Harness, startHarness } from "./harness.js";
+
+const TOKEN = "test-token";
+
+const INITIALIZE = {
+    jsonrpc: "2.0",
+    id: 1,
+    method: "initialize",
+    params: { protocolVersion: "2025-03-26", capabilities: {}, clientInfo: { name: "raw", version: "1.0.0" } },
+};
+
+interface RawResponse {
+    status: number;
+    headers: Record<string, string | string[] | undefined>;
+    body: string;
+}
+
+// A request with full control over its headers, which fetch doesn't give for Host
+function send(port: number, headers: Record<string, string>, body: unknown = INITIALIZE): Promise<RawResponse> {
+    return new Promise((resolve, reject) => {
+        const req = request({
+            host: "127.0.0.1",
+            port,
+            path: "/mcp",
+            method: "POST",
+            headers: { "Content-Type": "application/json", "Accept": "application/json, text/event-stream", ...headers },
+        }, (res) => {
+            const chunks: Buffer[] = [];
+            res.on("data", (chunk) => chunks.push(chunk));
+            res.on("end", () => resolve({ status: res.statusCode ?? 0, headers: res.headers, body: Buffer.concat(chunks).toString("utf8") }));
+        });
+        req.on("error", reject);
+        req.end(JSON.stringify(body));
+    });
+}
+
+describe("HTTP transport", () => {
+    let h: Harness;
+    let http: HttpServer;
+
+    async function listen(options: Partial<HttpServerOptions> = {}): Promise<HttpServer> {
+        return startHttpServer(
+            { host: "127.0.0.1", port: 0, authToken: TOKEN, sessionIdleTimeout: 1800, ...options },
+            h.server.createServer,
+            h.server.connections
+        );
+    }
+
+    before(async () => {
+        h = await startHarness();
+        http = await listen();
+    });
+    after(async () => {
+        await http.close();
+        await h.close();
+    });
+
+    it("serves MCP to clients with the token", async () => {
+        await h.redis.set("greeting", "hello");
+        const client = new Client({ name: "http-test", version: "1.0.0" });
+        await client.connect(new StreamableHTTPClientTransport(new URL(`http://localhost:${http.port}/mcp`), {
+            requestInit: { headers: { Authorization: `Bearer ${TOKEN}` } },
+        }));
+        try {
+            const result = await client.callTool({ name: "get", arguments: { key: "greeting" } });
+            assert.equal((result.structuredContent as { value: string }).value, "hello");
+        } finally {
+            await client.close();
+        }
+    });
+
+    it("refuses requests without the token", async () => {
+        const res = await send(http.port, { Host: `127.0.0.1:${http.port}` });
+        assert.equal(res.status, 401);
+        assert.equal((await send(http.port, { Host: `127.0.0.1:${http.port}`, Authorization: "Bearer wrong" })).status, 401);
+    });
+
+    it("refuses Host and Origin headers of other sites", async () => {
+        const authorization = `Bearer ${TOKEN}`;
+        const rebound = await send(http.port, { Host: `attacker.example:${http.port}`, Authorization: authorization });
+        assert.equal(rebound.status, 403);
+        assert.match(rebound.body, /Invalid Host header: attacker\.example/);
+        const crossOrigin = await send(http.port, { Host: `localhost:${http.port}`, Origin: "http://attacker.example", Authorization: authorization });
+        assert.equal(crossOrigin.status, 403);
+        assert.match(crossOrigin.body, /Invalid Origin header/);
+        const sameOrigin = await send(http.port, { Host: `localhost:${http.port}`, Origin: `http://localhost:${http.port}`, Authorization: authorization });
+        assert.equal(sameOrigin.status, 200);
+    });
+
+    it("accepts the configured hosts instead of the loopback ones", async () => {
+        const custom = await listen({ allowedHosts: ["mcp.internal"] });
+        try {
+            assert.equal((await send(custom.port, { Host: "mcp.internal", Authorization: `Bearer ${TOKEN}` })).status, 200);
+            assert.equal((await send(custom.port, { Host: `localhost:${custom.port}`, Authorization: `Bearer ${TOKEN}` })).status, 403);
+        } finally {
+            await custom.close();
+        }
+    });
+
+    it("requires a token to listen on other than a loopback address", async () => {
+        await assert.rejects(listen({ host: "0.0.0.0", authToken: undefined }), /An auth token is required to listen on 0\.0\.0\.0/);
+    });
+
+    it("closes idle sessions", async () => {
+        const short = await listen({ sessionIdleTimeout: 1 });
+        try {
+            const headers = { Host: `127.0.0.1:${short.port}`, Authorization: `Bearer ${TOKEN}` };
+            const initialized = await send(short.port, headers);
+            const sessionId = initialized.headers["mcp-session-id"] as string;
+            assert.ok(sessionId);
+            await sleep(2500);
+            const expired = await send(short.port, { ...headers, "Mcp-Session-Id": sessionId }, { jsonrpc: "2.0", id: 2, method: "ping" });
+            assert.equal(expired.status, 404);
+            assert.match(expired.body, /Session not found/);
+        } finally {
+            await short.close();
+        }
+    });
+});
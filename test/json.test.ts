@@ -0,0 +1,110 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("JSON tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => {
+        h.fake.flushAll();
+        h.fake.modules.json = true;
+    });
+
+    const user = { name: "Ada", age: 36, tags: ["math", "code"], address: { city: "London" } };
+
+    it("json_set and json_get a document", async () => {
+        assert.deepEqual(await h.call("json_set", { key: "user", value: user }), { key: "user", path: "$", set: true });
+        assert.deepEqual(await h.call("json_get", { key: "user" }), { key: "user", exists: true, value: user, truncated: false, total: null });
+        assert.deepEqual((await h.call("json_get", { key: "user", path: "$.address.city" })).value, ["London"]);
+        assert.deepEqual((await h.call("json_get", { key: "user", path: ["$.name", "$.age"] })).value, { "$.name": ["Ada"], "$.age": [36] });
+    });
+
+    it("json_set at a path, with conditions", async () => {
+        await h.redis.json.set("user", "$", user);
+        assert.equal((await h.call("json_set", { key: "user", path: "$.name", value: "Grace", condition: "NX" })).set, false);
+        assert.equal((await h.call("json_set", { key: "user", path: "$.email", value: "ada@example.com", condition: "XX" })).set, false);
+        assert.equal((await h.call("json_set", { key: "user", path: "$.email", value: "ada@example.com" })).set, true);
+        assert.equal(await h.redis.json.get("user", { path: ".email" }), "ada@example.com");
+    });
+
+    it("json_set with an expiry runs atomically in a script", async () => {
+        h.fake.scripts.push({
+            match: "redis.call('JSON.SET'",
+            run: (call, [key], [path, value, seconds, condition]) => {
+                const reply = call("JSON.SET", key, path, value, ...(condition ? [condition] : []));
+                if (reply !== null) {
+                    call("EXPIRE", key, seconds);
+                }
+                return reply;
+            },
+        });
+        assert.equal((await h.call("json_set", { key: "session", value: { id: 1 }, expireSeconds: 60 })).set, true);
+        assert.ok(await h.redis.ttl("session") > 0);
+    });
+
+    it("json_get limits large arrays", async () => {
+        await h.redis.json.set("list", "$", { items: [1, 2, 3, 4, 5] });
+        const result = await h.call("json_get", { key: "list", path: "$.items", maxItems: 2 });
+        assert.deepEqual([result.value, result.truncated, result.total], [[[1, 2]], true, 5]);
+    });
+
+    it("json_get reports a missing key", async () => {
+        assert.deepEqual(await h.call("json_get", { key: "missing" }), { key: "missing", exists: false, value: null, truncated: false, total: null });
+    });
+
+    it("json_del removes values", async () => {
+        await h.redis.json.set("user", "$", user);
+        assert.deepEqual(await h.call("json_del", { key: "user", path: "$.tags" }), { key: "user", path: "$.tags", deleted: 1 });
+        assert.deepEqual(await h.call("json_del", { key: "missing" }), { key: "missing", path: "$", deleted: 0 });
+    });
+
+    it("json_mget reads a path from several keys", async () => {
+        await h.redis.json.set("u1", "$", { name: "Ada" });
+        await h.redis.json.set("u2", "$", { name: "Grace" });
+        const result = await h.call("json_mget", { keys: ["u1", "u2", "u3"], path: "$.name" });
+        assert.deepEqual(result, { path: "$.name", values: { u1: ["Ada"], u2: ["Grace"], u3: null }, truncated: false, remainingKeys: [] });
+        const limited = await h.call("json_mget", { keys: ["u1", "u2"], path: "$.name", maxItems: 1 });
+        assert.deepEqual([limited.truncated, limited.remainingKeys], [true, ["u2"]]);
+    });
+
+    it("array tools append, insert, pop and measure", async () => {
+        await h.redis.json.set("user", "$", user);
+        assert.deepEqual((await h.call("json_arrappend", { key: "user", path: "$.tags", values: ["art"] })).lengths, [3]);
+        assert.deepEqual((await h.call("json_arrinsert", { key: "user", path: "$.tags", index: 0, values: ["first"] })).lengths, [4]);
+        assert.deepEqual((await h.call("json_arrlen", { key: "user", path: "$.tags" })).lengths, [4]);
+        assert.deepEqual((await h.call("json_arrpop", { key: "user", path: "$.tags", index: 0 })).values, ["first"]);
+        assert.deepEqual(await h.redis.json.get("user", { path: "$.tags" }), [["math", "code", "art"]]);
+        assert.deepEqual((await h.call("json_arrlen", { key: "user", path: "$.name" })).lengths, [null]);
+    });
+
+    it("json_numincrby, json_objkeys and json_type", async () => {
+        await h.redis.json.set("user", "$", user);
+        assert.deepEqual((await h.call("json_numincrby", { key: "user", path: "$.age", value: 2 })).values, [38]);
+        assert.deepEqual((await h.call("json_objkeys", { key: "user", path: "$.address" })).keys, [["city"]]);
+        assert.deepEqual((await h.call("json_type", { key: "user", path: "$.tags" })).types, ["array"]);
+        assert.deepEqual((await h.call("json_type", { key: "user", path: "$.nothing" })).types, []);
+    });
+
+    it("fails on paths of a missing key", async () => {
+        assert.match(await h.fail("json_arrappend", { key: "missing", path: "$.tags", values: [1] }), /key that doesn't exist/);
+        assert.match(await h.fail("json_set", { key: "missing", path: "$.name", value: "Ada" }), /new objects must be created at the root/);
+    });
+
+    it("explains a key of the wrong type", async () => {
+        await h.redis.set("user", "Ada");
+        assert.match(await h.fail("json_get", { key: "user" }), /key user holds a string, use get, set/);
+    });
+
+    it("reports a missing RedisJSON module", async () => {
+        h.fake.modules.json = false;
+        assert.match(await h.fail("json_get", { key: "user" }), /The RedisJSON module is not loaded on this Redis server/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("json_set", { key: "user", value: 1, condition: "ALWAYS" }), /Invalid arguments: condition/);
+        assert.match(await h.fail("json_arrappend", { key: "user", path: "$", values: [] }), /Invalid arguments: values/);
+        assert.match(await h.fail("json_mget", { keys: [] }), /Invalid arguments: keys/);
+        assert.match(await h.fail("json_numincrby", { key: "user", path: "$.age", value: "1" }), /Invalid arguments: value: Expected number/);
+    });
+});
@@ -0,0 +1,108 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("key tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("describe_key previews each type", async () => {
+        await h.redis.set("string", "hello world");
+        await h.redis.hSet("hash", { a: "1", b: "2" });
+        await h.redis.sAdd("set", ["x"]);
+        await h.redis.zAdd("zset", [{ score: 1, value: "m" }]);
+        await h.redis.rPush("list", ["first", "second"]);
+        await h.redis.xAdd("stream", "1-1", { field: "value" });
+
+        const string = await h.call("describe_key", { key: "string", previewBytes: 5 });
+        assert.deepEqual([string.type, string.size, string.preview, string.previewTruncated], ["string", 11, "hello", true]);
+        assert.deepEqual(string.tools, ["get", "set"]);
+        assert.equal(string.ttlMillis, null);
+        assert.equal(string.encoding, "embstr");
+
+        const hash = await h.call("describe_key", { key: "hash" });
+        assert.deepEqual(hash.preview, [{ field: "a", value: "1" }, { field: "b", value: "2" }]);
+        const set = await h.call("describe_key", { key: "set" });
+        assert.deepEqual(set.preview, ["x"]);
+        const zset = await h.call("describe_key", { key: "zset" });
+        assert.deepEqual(zset.preview, [{ member: "m", score: 1 }]);
+        const list = await h.call("describe_key", { key: "list", previewCount: 1 });
+        assert.deepEqual([list.preview, list.previewTruncated, list.size], [["first"], true, 2]);
+        const stream = await h.call("describe_key", { key: "stream" });
+        assert.deepEqual(stream.preview, [{ id: "1-1", message: { field: "value" } }]);
+    });
+
+    it("describe_key previews JSON documents", async () => {
+        await h.redis.json.set("doc", "$", { name: "Ada" });
+        const result = await h.call("describe_key", { key: "doc" });
+        assert.deepEqual([result.type, result.preview, result.previewTruncated], ["ReJSON-RL", { name: "Ada" }, false]);
+    });
+
+    it("describe_key previews the first members of a large JSON document", async () => {
+        const items = Array.from({ length: 20 }, (_, i) => `item ${i}`);
+        await h.redis.json.set("doc", "$", { name: "Ada", bio: "x".repeat(2000), tags: ["a", "b"], address: { city: "London" }, age: 36 });
+        await h.redis.json.set("list", "$", items);
+
+        const doc = await h.call("describe_key", { key: "doc" });
+        assert.deepEqual(doc.preview, {
+            name: "Ada", bio: "<string of 2000 characters>", tags: "<array of 2 items>", address: "<object with 1 keys>", age: 36,
+        });
+        assert.equal(doc.previewTruncated, true);
+        assert.deepEqual((await h.call("describe_key", { key: "doc", previewCount: 2 })).preview, { name: "Ada", bio: "<string of 2000 characters>" });
+
+        const list = await h.call("describe_key", { key: "list", previewCount: 5, previewBytes: 30 });
+        assert.deepEqual([list.preview, list.previewTruncated], [["item 0", "item 1", "item 2"], true]);
+        assert.deepEqual((await h.call("describe_key", { key: "doc", previewBytes: 10 })).preview, { name: "Ada" });
+    });
+
+    it("describe_key reports a missing key", async () => {
+        assert.deepEqual(await h.call("describe_key", { key: "missing" }), { key: "missing", exists: false });
+    });
+
+    it("ttl, expire and persist", async () => {
+        await h.redis.set("k", "v");
+        assert.deepEqual(await h.call("ttl", { key: "k" }), { key: "k", exists: true, ttlMillis: null });
+        assert.deepEqual(await h.call("expire", { key: "k", seconds: 100 }), { key: "k", applied: true });
+        assert.deepEqual(await h.call("expire", { key: "k", milliseconds: 5000, condition: "GT" }), { key: "k", applied: false });
+        const ttl = await h.call<{ ttlMillis: number }>("ttl", { key: "k" });
+        assert.ok(ttl.ttlMillis > 90000 && ttl.ttlMillis <= 100000);
+        assert.deepEqual(await h.call("persist", { key: "k" }), { key: "k", removed: true });
+        assert.equal(await h.redis.ttl("k"), -1);
+    });
+
+    it("ttl, expire and persist on a missing key", async () => {
+        assert.deepEqual(await h.call("ttl", { key: "missing" }), { key: "missing", exists: false, ttlMillis: null });
+        assert.deepEqual(await h.call("expire", { key: "missing", seconds: 10 }), { key: "missing", applied: false });
+        assert.deepEqual(await h.call("persist", { key: "missing" }), { key: "missing", removed: false });
+    });
+
+    it("rename with and without overwrite", async () => {
+        await h.redis.mSet(["a", "1", "b", "2"]);
+        assert.equal((await h.call("rename", { source: "a", destination: "b" })).renamed, false);
+        assert.equal((await h.call("rename", { source: "a", destination: "b", overwrite: true })).renamed, true);
+        assert.equal(await h.redis.get("b"), "1");
+        assert.equal(await h.redis.exists("a"), 0);
+        assert.equal((await h.call("rename", { source: "a", destination: "c" })).renamed, false);
+    });
+
+    it("copy within and across databases", async () => {
+        await h.redis.set("source", "value");
+        assert.equal((await h.call("copy", { source: "source", destination: "target" })).copied, true);
+        assert.equal(await h.redis.get("target"), "value");
+        assert.equal((await h.call("copy", { source: "source", destination: "target" })).copied, false);
+        assert.equal((await h.call("copy", { source: "source", destination: "elsewhere", destinationDb: 1 })).copied, true);
+        assert.deepEqual(await h.call("get", { key: "elsewhere", db: 1 }), {
+            key: "elsewhere", exists: true, value: "value", totalBytes: 5, truncated: false, nextOffset: null,
+        });
+        assert.equal((await h.call("copy", { source: "missing", destination: "other" })).copied, false);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("expire", { key: "k" }), /Provide exactly one of seconds or milliseconds/);
+        assert.match(await h.fail("expire", { key: "k", seconds: 1, condition: "SOMETIMES" }), /Invalid arguments: condition/);
+        assert.match(await h.fail("describe_key", { key: "k", previewCount: 1000 }), /Invalid arguments: previewCount/);
+        assert.match(await h.fail("copy", { source: "a" }), /Invalid arguments: destination: Required/);
+    });
+});
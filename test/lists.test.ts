@@ -0,0 +1,94 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("list tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("lpush, rpush and llen", async () => {
+        assert.deepEqual(await h.call("rpush", { key: "queue", elements: ["b", "c"] }), { key: "queue", pushed: 2, length: 2 });
+        assert.deepEqual(await h.call("lpush", { key: "queue", elements: ["a"] }), { key: "queue", pushed: 1, length: 3 });
+        assert.deepEqual(await h.call("llen", { key: "queue" }), { key: "queue", length: 3 });
+        assert.deepEqual(await h.redis.lRange("queue", 0, -1), ["a", "b", "c"]);
+    });
+
+    it("lpop and rpop one or more elements", async () => {
+        await h.redis.rPush("queue", ["a", "b", "c", "d"]);
+        assert.deepEqual(await h.call("lpop", { key: "queue" }), { key: "queue", elements: ["a"] });
+        assert.deepEqual(await h.call("rpop", { key: "queue", count: 2 }), { key: "queue", elements: ["d", "c"] });
+        assert.deepEqual(await h.call("lpop", { key: "missing" }), { key: "missing", elements: null });
+    });
+
+    it("lrange within the limits", async () => {
+        await h.redis.rPush("queue", ["a", "b", "c"]);
+        assert.deepEqual(await h.call("lrange", { key: "queue", start: 0, stop: -1 }), {
+            key: "queue", elements: ["a", "b", "c"], total: 3, truncated: false, nextStart: null,
+        });
+        assert.deepEqual(await h.call("lrange", { key: "queue", start: 0, stop: -1, maxItems: 2 }), {
+            key: "queue", elements: ["a", "b"], total: 3, truncated: true, nextStart: 2,
+        });
+        assert.deepEqual((await h.call("lrange", { key: "missing", start: 0, stop: -1 })).elements, []);
+    });
+
+    it("lrange pages through negative ranges from absolute indexes", async () => {
+        await h.redis.rPush("long", Array.from({ length: 50 }, (_, i) => `e${i}`));
+        assert.deepEqual(await h.call("lrange", { key: "long", start: -2, stop: -1 }), {
+            key: "long", elements: ["e48", "e49"], total: 2, truncated: false, nextStart: null,
+        });
+        const seen: string[] = [];
+        let start: number | null = -1000;
+        while (start !== null) {
+            const page: { elements: string[]; total: number; nextStart: number | null } =
+                await h.call("lrange", { key: "long", start, stop: -1, maxItems: 20 });
+            seen.push(...page.elements);
+            start = page.nextStart;
+        }
+        assert.equal(seen.length, 50);
+        assert.deepEqual([seen[0], seen[49]], ["e0", "e49"]);
+    });
+
+    it("ltrim keeps a range", async () => {
+        await h.redis.rPush("queue", ["a", "b", "c", "d"]);
+        assert.deepEqual(await h.call("ltrim", { key: "queue", start: 1, stop: 2 }), { key: "queue", start: 1, stop: 2 });
+        assert.deepEqual(await h.redis.lRange("queue", 0, -1), ["b", "c"]);
+    });
+
+    it("lmove between lists", async () => {
+        await h.redis.rPush("pending", ["a", "b"]);
+        const moved = await h.call("lmove", { source: "pending", destination: "done", sourceSide: "LEFT", destinationSide: "RIGHT" });
+        assert.deepEqual(moved, { source: "pending", destination: "done", element: "a" });
+        assert.deepEqual(await h.redis.lRange("done", 0, -1), ["a"]);
+        const empty = await h.call("lmove", { source: "missing", destination: "done", sourceSide: "LEFT", destinationSide: "LEFT" });
+        assert.equal(empty.element, null);
+    });
+
+    it("blpop and brpop wait for an element", async () => {
+        await h.redis.rPush("jobs", ["first", "last"]);
+        assert.deepEqual(await h.call("blpop", { keys: ["empty", "jobs"], timeout: 1 }), { key: "jobs", element: "first", timedOut: false });
+        assert.deepEqual(await h.call("brpop", { keys: ["jobs"], timeout: 1 }), { key: "jobs", element: "last", timedOut: false });
+
+        const waiting = h.call("blpop", { keys: ["later"], timeout: 2 });
+        setTimeout(() => { h.redis.rPush("later", "arrived").catch(() => {}); }, 50);
+        assert.deepEqual(await waiting, { key: "later", element: "arrived", timedOut: false });
+    });
+
+    it("blpop times out", async () => {
+        assert.deepEqual(await h.call("blpop", { keys: ["empty"], timeout: 0.1 }), { key: null, element: null, timedOut: true });
+    });
+
+    it("explains a key of the wrong type", async () => {
+        await h.redis.set("queue", "not a list");
+        assert.match(await h.fail("lrange", { key: "queue", start: 0, stop: -1 }), /key queue holds a string/);
+        assert.match(await h.fail("rpush", { key: "queue", elements: ["x"] }), /holds a string/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("lpush", { key: "queue", elements: [] }), /Invalid arguments: elements/);
+        assert.match(await h.fail("lmove", { source: "a", destination: "b", sourceSide: "UP", destinationSide: "LEFT" }), /Invalid arguments: sourceSide/);
+        assert.match(await h.fail("blpop", { keys: ["a"], timeout: 0 }), /Invalid arguments: timeout/);
+        assert.match(await h.fail("lrange", { key: "queue", start: 0.5, stop: 1 }), /Invalid arguments: start/);
+    });
+});
@@ -0,0 +1,80 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Harness, startHarness } from "./harness.js";
+
+interface CaptureResult {
+    messages: Array<{ channel: string; pattern: string | null; message: string }>;
+    complete: boolean;
+}
+
+describe("pub/sub tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    // Publish once the capturing connection has subscribed to the channel or pattern
+    async function publishWhenSubscribed(subscription: string, channel: string, messages: string[]) {
+        while (!h.fake.clients().some((c) => c.channels.has(subscription) || c.patterns.has(subscription))) {
+            await sleep(10);
+        }
+        for (const message of messages) {
+            await h.redis.publish(channel, message);
+        }
+    }
+
+    it("publish reports the number of receivers", async () => {
+        assert.deepEqual(await h.call("publish", { channel: "news", message: "hello" }), { channel: "news", receivers: 0 });
+        const subscriber = h.redis.duplicate();
+        await subscriber.connect();
+        await subscriber.subscribe("news", () => {});
+        try {
+            assert.deepEqual(await h.call("publish", { channel: "news", message: "hello" }), { channel: "news", receivers: 1 });
+            assert.deepEqual(await h.call("pubsub_channels"), { channels: ["news"] });
+            assert.deepEqual(await h.call("pubsub_channels", { pattern: "sport*" }), { channels: [] });
+            assert.deepEqual(await h.call("pubsub_numsub", { channels: ["news", "sport"] }), { subscribers: { news: 1, sport: 0 } });
+        } finally {
+            await subscriber.disconnect();
+        }
+    });
+
+    it("subscribe_capture collects messages from channels", async () => {
+        const capture = h.call<CaptureResult>("subscribe_capture", { channels: ["alerts"], count: 2, timeout: 5 });
+        await publishWhenSubscribed("alerts", "alerts", ["first", "second", "third"]);
+        const result = await capture;
+        assert.deepEqual(result.messages.map((m) => [m.channel, m.pattern, m.message]), [
+            ["alerts", null, "first"],
+            ["alerts", null, "second"],
+        ]);
+        assert.equal(result.complete, false);
+    });
+
+    it("subscribe_capture collects messages from patterns until the timeout", async () => {
+        const capture = h.call<CaptureResult>("subscribe_capture", { patterns: ["news.*"], timeout: 0.3 });
+        await publishWhenSubscribed("news.*", "news.tech", ["launch"]);
+        const result = await capture;
+        assert.deepEqual(result.messages.map((m) => [m.channel, m.pattern, m.message]), [
+            ["news.tech", "news.*", "launch"],
+        ]);
+        assert.equal(result.complete, true);
+    });
+
+    it("subscribe_capture stops at maxBytes and cuts the message past it", async () => {
+        const capture = h.call<CaptureResult & { truncated: boolean }>("subscribe_capture", { channels: ["alerts"], maxBytes: 8, timeout: 5 });
+        await publishWhenSubscribed("alerts", "alerts", ["first message", "second"]);
+        const result = await capture;
+        assert.deepEqual([result.messages.map((m) => m.message), result.complete, result.truncated], [["first me"], false, true]);
+    });
+
+    it("subscribe_capture times out without messages", async () => {
+        assert.deepEqual(await h.call("subscribe_capture", { channels: ["quiet"], timeout: 0.05 }), { messages: [], complete: true, truncated: false });
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("subscribe_capture", {}), /Provide at least one channel or pattern/);
+        assert.match(await h.fail("subscribe_capture", { channels: ["a"], count: 5000 }), /Invalid arguments: count/);
+        assert.match(await h.fail("publish", { channel: "news" }), /Invalid arguments: message: Required/);
+        assert.match(await h.fail("pubsub_numsub", { channels: [] }), /Invalid arguments: channels/);
+    });
+});
@@ -0,0 +1,90 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("redaction", () => {
+    let h: Harness;
+    before(async () => {
+        h = await startHarness([
+            "--redact-key-patterns", "session:*", "--redact-fields", "password", "--redact-detectors", "email",
+            "--block-read-key-patterns", "secret:*",
+        ]);
+    });
+    after(() => h.close());
+    beforeEach(() => {
+        h.fake.flushAll();
+        h.fake.slowlog = [];
+    });
+
+    it("masks whole values of matching keys and matching hash fields", async () => {
+        await h.redis.set("session:1", "token");
+        await h.redis.hSet("user:1", { name: "Ada", password: "hunter2" });
+        assert.equal((await h.call("get", { key: "session:1" })).value, "[REDACTED]");
+        assert.deepEqual((await h.call("hgetall", { key: "user:1" })).fields, { name: "Ada", password: "[REDACTED]" });
+    });
+
+    it("replaces what the detectors find in any value", async () => {
+        await h.redis.set("note", "write to ada@example.com soon");
+        assert.equal((await h.call("get", { key: "note" })).value, "write to [REDACTED] soon");
+    });
+
+    it("reads redacted values in parts from the redacted whole", async () => {
+        await h.redis.set("note", "write to ada@example.com soon");
+        const parts: string[] = [];
+        let offset: number | null = 0;
+        while (offset !== null) {
+            const part: { value: string; totalBytes: number; nextOffset: number | null } =
+                await h.call("get", { key: "note", offset, maxBytes: 6 });
+            assert.equal(part.totalBytes, "write to [REDACTED] soon".length);
+            parts.push(part.value);
+            offset = part.nextOffset;
+        }
+        assert.equal(parts.join(""), "write to [REDACTED] soon");
+    });
+
+    it("previews redacted strings cut from the redacted whole", async () => {
+        await h.redis.set("note", "write to ada@example.com soon");
+        const { preview, previewTruncated } = await h.call("describe_key", { key: "note", previewBytes: 15 });
+        assert.deepEqual([preview, previewTruncated], ["write to [REDAC", true]);
+    });
+
+    it("refuses reads of blocked keys, and masks their values returned by writes", async () => {
+        await h.redis.set("secret:token", "s3cr3t");
+        await h.redis.rPush("secret:queue", ["job"]);
+        assert.match(await h.fail("get", { key: "secret:token" }), /Access denied: reads of key secret:token are blocked/);
+        assert.deepEqual(await h.call("lpop", { key: "secret:queue" }), { key: "secret:queue", elements: ["[REDACTED]"] });
+    });
+
+    it("refuses to move values of blocked or redacted keys where redaction would not cover them", async () => {
+        await h.redis.mSet({ "secret:1": "topsecret", "session:1": "token" });
+        await h.redis.rPush("secret:queue", ["job"]);
+        assert.match(await h.fail("copy", { source: "secret:1", destination: "leak" }), /Access denied: reads of key secret:1 are blocked/);
+        assert.match(await h.fail("rename", { source: "session:1", destination: "leak" }), /Access denied: key leak is not redacted by the same rules as session:1/);
+        assert.match(await h.fail("lmove", { source: "secret:queue", destination: "leak", sourceSide: "LEFT", destinationSide: "RIGHT" }), /reads of key secret:queue are blocked/);
+        assert.equal(await h.redis.exists("leak"), 0);
+        assert.deepEqual(await h.call("rename", { source: "session:1", destination: "session:2" }), { source: "session:1", destination: "session:2", renamed: true });
+    });
+
+    it("keeps only the command name and key of slow log entries", async () => {
+        h.fake.slowlog = [
+            [1, 1700000000, 15000, ["SET", "session:1", "token"], "127.0.0.1:5000", ""],
+            [2, 1700000000, 12000, ["PING"], "127.0.0.1:5000", ""],
+        ];
+        const { entries } = await h.call<{ entries: Array<{ command: string[] }> }>("slowlog_get");
+        assert.deepEqual(entries.map((entry) => entry.command), [["SET", "session:1", "[REDACTED]"], ["PING"]]);
+    });
+});
+
+describe("hashed redaction", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--redact-key-patterns", "session:*", "--redact-action", "hash"]); });
+    after(() => h.close());
+
+    it("replaces values with a stable digest", async () => {
+        await h.redis.mSet({ "session:1": "token", "session:2": "token" });
+        const first = await h.call<{ value: string }>("get", { key: "session:1" });
+        const second = await h.call<{ value: string }>("get", { key: "session:2" });
+        assert.match(first.value, /^sha256:[0-9a-f]{16}$/);
+        assert.equal(first.value, second.value);
+    });
+});
@@ -0,0 +1,60 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("key resources", () => {
+    let h: Harness;
+    before(async () => {
+        h = await startHarness(["--key-patterns", "app:*", "--max-output-items", "2", "--max-output-bytes", "16"]);
+        h.fake.config["notify-keyspace-events"] = "KA";
+    });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("lists keys matching the key patterns as resources", async () => {
+        await h.redis.mSet({ "app:name": "demo", "app:a b": "x", "secret": "s" });
+        const { resources } = await h.mcp.listResources();
+        assert.deepEqual(resources.map((r) => r.uri).sort(), ["redis://0/app%3Aa%20b", "redis://0/app%3Aname"]);
+    });
+
+    it("reads keys rendered by their type", async () => {
+        await h.redis.set("app:name", "demo");
+        await h.redis.hSet("app:user", { name: "Ada" });
+        assert.deepEqual((await h.mcp.readResource({ uri: "redis://0/app%3Aname" })).contents, [
+            { uri: "redis://0/app%3Aname", mimeType: "text/plain", text: "demo" },
+        ]);
+        const [hash] = (await h.mcp.readResource({ uri: "redis://0/app%3Auser" })).contents;
+        assert.ok("text" in hash);
+        assert.deepEqual([hash.mimeType, JSON.parse(hash.text)], ["application/json", { name: "Ada" }]);
+    });
+
+    it("cuts keys to the output limits", async () => {
+        await h.redis.set("app:bio", "x".repeat(20));
+        await h.redis.rPush("app:queue", ["a", "b", "c"]);
+        assert.deepEqual((await h.mcp.readResource({ uri: "redis://0/app%3Abio" })).contents, [
+            { uri: "redis://0/app%3Abio", mimeType: "text/plain", text: "x".repeat(16), _meta: { truncated: true, total: 20 } },
+        ]);
+        const [list] = (await h.mcp.readResource({ uri: "redis://0/app%3Aqueue" })).contents;
+        assert.ok("text" in list);
+        assert.deepEqual([JSON.parse(list.text), list._meta], [["a", "b"], { truncated: true, total: 3 }]);
+    });
+
+    it("refuses missing keys, other databases and keys outside the patterns", async () => {
+        await assert.rejects(h.mcp.readResource({ uri: "redis://0/app%3Amissing" }), /Key not found: app:missing/);
+        await assert.rejects(h.mcp.readResource({ uri: "redis://1/app%3Aname" }), /refers to database 1/);
+        await assert.rejects(h.mcp.readResource({ uri: "redis://0/secret" }), /Access denied: key secret/);
+    });
+
+    it("subscribes to keyspace notifications, retrying after a failed connection", async () => {
+        h.fake.refuseConnections = true;
+        try {
+            await assert.rejects(h.mcp.subscribeResource({ uri: "redis://0/app%3Aname" }));
+        } finally {
+            h.fake.refuseConnections = false;
+        }
+        await h.mcp.subscribeResource({ uri: "redis://0/app%3Aname" });
+        assert.ok(h.fake.clients().some((c) => c.channels.has("__keyspace@0__:app:name")));
+        await h.mcp.unsubscribeResource({ uri: "redis://0/app%3Aname" });
+        assert.ok(!h.fake.clients().some((c) => c.channels.has("__keyspace@0__:app:name")));
+    });
+});
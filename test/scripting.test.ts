@@ -0,0 +1,181 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, rmSync, writeFileSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { FakeRedis } from "./fakeRedis.js";
+import { Harness, startHarness } from "./harness.js";
+
+const GET_SCRIPT = "return redis.call('GET', KEYS[1])";
+
+const LIBRARY = `#!lua name=counters
+redis.register_function('incr_by', function(keys, args) return redis.call('INCRBY', keys[1], args[1]) end)
+redis.register_function{function_name='peek', callback=function(keys) return redis.call('GET', keys[1]) end, flags={'no-writes'}}
+`;
+
+// Stand-ins for the Lua scripts and functions the tests run
+function registerHandlers(fake: FakeRedis) {
+    fake.scripts.push({ match: GET_SCRIPT, run: (call, [key]) => call("GET", key) });
+    fake.functions.set("peek", (call, [key]) => call("GET", key));
+}
+
+describe("scripting tools", () => {
+    let h: Harness;
+    let scriptsDir: string;
+    before(async () => {
+        scriptsDir = mkdtempSync(join(tmpdir(), "redis-mcp-scripts-"));
+        writeFileSync(join(scriptsDir, "get.lua"), GET_SCRIPT);
+        h = await startHarness(["--scripts-dir", scriptsDir]);
+    });
+    after(async () => {
+        await h.close();
+        rmSync(scriptsDir, { recursive: true });
+    });
+    beforeEach(() => {
+        h.fake.flushAll();
+        registerHandlers(h.fake);
+    });
+
+    it("eval and eval_ro run a script, sending it when the server doesn't have it cached", async () => {
+        await h.redis.set("greeting", "hello");
+        assert.deepEqual(await h.call("eval", { script: GET_SCRIPT, keys: ["greeting"] }), { reply: "hello" });
+        assert.deepEqual(await h.call("eval_ro", { script: GET_SCRIPT, keys: ["greeting"] }), { reply: "hello" });
+        assert.deepEqual(await h.call("eval", { name: "get", keys: ["missing"] }), { reply: null });
+    });
+
+    it("script_load caches a script to run by SHA1", async () => {
+        await h.redis.set("greeting", "hello");
+        const { sha } = await h.call<{ sha: string }>("script_load", { name: "get" });
+        assert.match(sha, /^[0-9a-f]{40}$/);
+        assert.deepEqual(await h.call("eval", { sha, keys: ["greeting"] }), { reply: "hello" });
+    });
+
+    it("eval fails on an unknown SHA1", async () => {
+        assert.match(await h.fail("eval", { sha: "a".repeat(40) }), /NOSCRIPT/);
+    });
+
+    it("function_load, function_list and fcall", async () => {
+        assert.deepEqual(await h.call("function_load", { code: LIBRARY }), { libraryName: "counters" });
+        assert.match(await h.fail("function_load", { code: LIBRARY }), /Library 'counters' already exists/);
+        assert.deepEqual(await h.call("function_load", { code: LIBRARY, replace: true }), { libraryName: "counters" });
+
+        const { libraries } = await h.call("function_list", { withCode: true });
+        assert.deepEqual(libraries, [{
+            libraryName: "counters",
+            engine: "LUA",
+            functions: [
+                { name: "incr_by", description: null, flags: [] },
+                { name: "peek", description: null, flags: ["no-writes"] },
+            ],
+            libraryCode: LIBRARY,
+        }]);
+        assert.deepEqual(await h.call("function_list", { libraryName: "other*" }), { libraries: [] });
+
+        await h.redis.set("counter", "5");
+        assert.deepEqual(await h.call("fcall_ro", { function: "peek", keys: ["counter"] }), { reply: "5" });
+        assert.deepEqual(await h.call("fcall", { function: "peek", keys: ["counter"] }), { reply: "5" });
+        assert.match(await h.fail("fcall", { function: "unknown" }), /Function not found/);
+    });
+
+    it("explains a script reading a key of the wrong type", async () => {
+        await h.redis.hSet("profile", "name", "Ada");
+        assert.match(await h.fail("eval", { script: GET_SCRIPT, keys: ["profile"] }), /key profile holds a hash/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("eval", { script: GET_SCRIPT, name: "get" }), /Provide exactly one of script, name or sha/);
+        assert.match(await h.fail("eval", { sha: "not-a-sha" }), /Expected a SHA1 digest/);
+        assert.match(await h.fail("eval", { name: "unknown" }), /Unknown script: unknown \(registered: get\)/);
+        assert.match(await h.fail("script_load", {}), /Provide exactly one of script or name/);
+        assert.match(await h.fail("function_load", {}), /Provide exactly one of code or name/);
+        assert.match(await h.fail("fcall", { keys: [] }), /Invalid arguments: function: Required/);
+    });
+});
+
+describe("scripting tools limited to registered scripts", () => {
+    let h: Harness;
+    let scriptsDir: string;
+    before(async () => {
+        scriptsDir = mkdtempSync(join(tmpdir(), "redis-mcp-scripts-"));
+        writeFileSync(join(scriptsDir, "get.lua"), GET_SCRIPT);
+        h = await startHarness(["--scripts-dir", scriptsDir, "--registered-scripts-only"]);
+    });
+    after(async () => {
+        await h.close();
+        rmSync(scriptsDir, { recursive: true });
+    });
+    beforeEach(() => {
+        h.fake.flushAll();
+        registerHandlers(h.fake);
+    });
+
+    it("runs registered scripts by name or SHA1", async () => {
+        await h.redis.set("greeting", "hello");
+        assert.deepEqual(await h.call("eval", { name: "get", keys: ["greeting"] }), { reply: "hello" });
+        const { sha } = await h.call("script_load", { name: "get" });
+        assert.deepEqual(await h.call("eval_ro", { sha, keys: ["greeting"] }), { reply: "hello" });
+    });
+
+    it("refuses other scripts", async () => {
+        assert.match(await h.fail("eval", { script: GET_SCRIPT }), /Only registered scripts may run on this server: pass name instead of script/);
+        assert.match(await h.fail("eval", { sha: "b".repeat(40) }), /is not the SHA1 of a registered script/);
+        assert.match(await h.fail("function_load", { code: LIBRARY }), /pass name instead of code/);
+    });
+});
+
+describe("scripting tools under access restrictions", () => {
+    let scriptsDir: string;
+    before(() => {
+        scriptsDir = mkdtempSync(join(tmpdir(), "redis-mcp-scripts-"));
+        writeFileSync(join(scriptsDir, "get.lua"), GET_SCRIPT);
+    });
+    after(() => rmSync(scriptsDir, { recursive: true }));
+
+    it("run only registered scripts with key patterns or blocked keys", async () => {
+        for (const argv of [["--key-patterns", "app:*"], ["--block-read-key-patterns", "secret:*"]]) {
+            const h = await startHarness(["--scripts-dir", scriptsDir, ...argv]);
+            try {
+                registerHandlers(h.fake);
+                await h.redis.set("app:greeting", "hello");
+                assert.deepEqual(await h.call("eval", { name: "get", keys: ["app:greeting"] }), { reply: "hello" });
+                assert.match(await h.fail("eval", { script: GET_SCRIPT, keys: ["app:greeting"] }), /Only registered scripts may run on this server while (key patterns are configured|reads of some keys are blocked): pass name instead of script/);
+                assert.match(await h.fail("eval_ro", { sha: "b".repeat(40) }), /is not the SHA1 of a registered script/);
+                assert.match(await h.fail("script_load", { script: GET_SCRIPT }), /pass name instead of script/);
+                assert.match(await h.fail("function_load", { code: LIBRARY }), /pass name instead of code/);
+            } finally {
+                await h.close();
+            }
+        }
+    });
+
+    it("call only functions of registered libraries with key patterns", async () => {
+        writeFileSync(join(scriptsDir, "counters.lua"), LIBRARY);
+        const h = await startHarness(["--scripts-dir", scriptsDir, "--key-patterns", "app:*"]);
+        try {
+            registerHandlers(h.fake);
+            await h.redis.set("app:counter", "5");
+            // Loaded outside the server, with code that was never registered
+            await h.redis.functionLoad(LIBRARY.replace("INCRBY", "DECRBY"));
+            assert.match(
+                await h.fail("fcall_ro", { function: "peek", keys: ["app:counter"] }),
+                /Only registered scripts may run on this server while key patterns are configured: function peek is not from a registered library/
+            );
+            await h.call("function_load", { name: "counters", replace: true });
+            assert.deepEqual(await h.call("fcall_ro", { function: "peek", keys: ["app:counter"] }), { reply: "5" });
+        } finally {
+            await h.close();
+        }
+    });
+
+    it("run only registered scripts in read-only mode", async () => {
+        const h = await startHarness(["--scripts-dir", scriptsDir, "--read-only"]);
+        try {
+            registerHandlers(h.fake);
+            await h.redis.set("greeting", "hello");
+            assert.deepEqual(await h.call("eval_ro", { name: "get", keys: ["greeting"] }), { reply: "hello" });
+            assert.match(await h.fail("eval_ro", { script: GET_SCRIPT, keys: ["greeting"] }), /Only registered scripts may run on this server in read-only mode/);
+        } finally {
+            await h.close();
+        }
+    });
+});
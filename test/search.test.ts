@@ -0,0 +1,188 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { SchemaFieldTypes } from "redis";
+import { Harness, startHarness } from "./harness.js";
+
+async function seedUsers(h: Harness) {
+    await h.redis.hSet("user:1", { name: "Ada Lovelace", age: "36", team: "core" });
+    await h.redis.hSet("user:2", { name: "Grace Hopper", age: "45", team: "compilers" });
+    await h.redis.hSet("user:3", { name: "Alan Turing", age: "41", team: "core" });
+}
+
+interface SearchResult {
+    documents: Array<{ id: string }>;
+    total: number;
+    hidden: number;
+    nextOffset: number | null;
+}
+
+const USER_SCHEMA = [
+    { field: "name", type: "TEXT" },
+    { field: "age", type: "NUMERIC", sortable: true },
+    { field: "team", type: "TAG" },
+];
+
+describe("search tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(async () => {
+        h.fake.flushAll();
+        h.fake.modules.search = true;
+        await seedUsers(h);
+    });
+
+    it("ft_create, ft_list and ft_info", async () => {
+        assert.deepEqual(await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA }), { index: "users", created: true });
+        assert.deepEqual(await h.call("ft_list"), { indexes: ["users"] });
+        const info = await h.call("ft_info", { index: "users" });
+        assert.deepEqual(info, {
+            index: "users",
+            keyType: "HASH",
+            prefixes: ["user:"],
+            filter: null,
+            fields: [
+                { identifier: "name", attribute: "name", type: "TEXT", sortable: false },
+                { identifier: "age", attribute: "age", type: "NUMERIC", sortable: true },
+                { identifier: "team", attribute: "team", type: "TAG", sortable: false },
+            ],
+            numDocs: 3,
+            indexing: false,
+            percentIndexed: 1,
+            indexingFailures: 0,
+        });
+    });
+
+    it("ft_search with filters, sorting and paging", async () => {
+        await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA });
+        const result = await h.call("ft_search", {
+            index: "users",
+            filters: [{ field: "age", min: 40 }, { field: "team", tags: ["core", "compilers"] }],
+            return: ["name"],
+            sortBy: "age",
+            sortDirection: "DESC",
+            limit: 1,
+        });
+        assert.deepEqual(result, {
+            index: "users",
+            query: "@age:[40 +inf] @team:{core | compilers}",
+            total: 2,
+            documents: [{ id: "user:2", value: { name: "Grace Hopper" } }],
+            hidden: 0,
+            truncated: false,
+            nextOffset: 1,
+        });
+        const next = await h.call<SearchResult>("ft_search", { index: "users", query: "@age:[40 +inf]", sortBy: "age", sortDirection: "DESC", offset: 1, limit: 1 });
+        assert.deepEqual(next.documents.map((d) => d.id), ["user:3"]);
+        assert.equal(next.nextOffset, null);
+    });
+
+    it("ft_search substitutes query parameters", async () => {
+        await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA });
+        const result = await h.call<SearchResult>("ft_search", { index: "users", query: "@age:[$min $max]", params: { min: 30, max: 40 }, dialect: 2 });
+        assert.deepEqual(result.documents.map((d) => d.id), ["user:1"]);
+    });
+
+    it("ft_aggregate groups and sorts", async () => {
+        await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA });
+        const result = await h.call("ft_aggregate", {
+            index: "users",
+            steps: [
+                { type: "GROUPBY", properties: ["@team"], reduce: [{ type: "COUNT", as: "members" }] },
+                { type: "SORTBY", by: [{ property: "@members", direction: "DESC" }] },
+            ],
+        });
+        assert.deepEqual(result, {
+            index: "users",
+            total: 2,
+            results: [{ team: "core", members: "2" }, { team: "compilers", members: "1" }],
+            truncated: false,
+        });
+    });
+
+    it("ft_dropindex keeps or deletes the documents", async () => {
+        await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA });
+        assert.deepEqual(await h.call("ft_dropindex", { index: "users" }), { index: "users", dropped: true, deletedDocuments: false });
+        assert.equal(await h.redis.exists("user:1"), 1);
+        await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA });
+        assert.deepEqual(await h.call("ft_dropindex", { index: "users", deleteDocuments: true }), { index: "users", dropped: true, deletedDocuments: true });
+        assert.equal(await h.redis.exists("user:1"), 0);
+    });
+
+    it("reports a missing or existing index", async () => {
+        assert.match(await h.fail("ft_info", { index: "missing" }), /no such index/);
+        assert.match(await h.fail("ft_search", { index: "missing" }), /no such index/);
+        await h.call("ft_create", { index: "users", schema: [{ field: "name", type: "TEXT" }] });
+        assert.match(await h.fail("ft_create", { index: "users", schema: [{ field: "name", type: "TEXT" }] }), /Index already exists/);
+    });
+
+    it("reports a missing RediSearch module", async () => {
+        h.fake.modules.search = false;
+        assert.match(await h.fail("ft_list"), /The RediSearch module is not loaded on this Redis server/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("ft_search", { index: "users", filters: [{ field: "age" }] }), /Give a numeric range \(min and\/or max\), tags or geo/);
+        assert.match(await h.fail("ft_search", { index: "users", filters: [{ field: "age", min: 1, tags: ["a"] }] }), /Give a numeric range/);
+        assert.match(await h.fail("ft_aggregate", { index: "users", load: ["name"] }), /Name loaded fields as @field or \$\.path/);
+        assert.match(await h.fail("ft_aggregate", { index: "users", steps: [{ type: "GROUPBY", reduce: [{ type: "SUM" }] }] }), /Every reducer except COUNT needs a property/);
+        assert.match(await h.fail("ft_aggregate", { index: "users", steps: [{ type: "PIVOT" }] }), /Invalid arguments: steps\.0\.type/);
+        assert.match(await h.fail("ft_create", { index: "users", schema: [] }), /Invalid arguments: schema/);
+        assert.match(await h.fail("ft_create", { index: "users", schema: [{ field: "v", type: "VECTORS" }] }), /Invalid arguments: schema\.0\.type/);
+    });
+});
+
+describe("search tools with key patterns", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--key-patterns", "user:*"]); });
+    after(() => h.close());
+    beforeEach(async () => {
+        h.fake.flushAll();
+        await seedUsers(h);
+        await h.redis.hSet("admin:1", { name: "Root", age: "50", team: "ops" });
+        // An index over all keys, created outside the server's restrictions
+        await h.redis.ft.create("everyone", {
+            name: SchemaFieldTypes.TEXT,
+            age: { type: SchemaFieldTypes.NUMERIC, SORTABLE: true },
+            team: SchemaFieldTypes.TAG,
+        });
+    });
+
+    it("ft_search leaves out documents of keys that are not allowed", async () => {
+        const result = await h.call<SearchResult>("ft_search", { index: "everyone", query: "@age:[45 +inf]" });
+        assert.deepEqual(result.documents.map((d) => d.id), ["user:2"]);
+        assert.deepEqual([result.total, result.hidden], [2, 1]);
+    });
+
+    it("ft_aggregate and ft_create refuse prefixes outside the key patterns", async () => {
+        assert.match(await h.fail("ft_aggregate", { index: "everyone" }), /Access denied: index everyone covers keys outside the allowed key patterns/);
+        assert.match(await h.fail("ft_create", { index: "all", schema: [{ field: "name", type: "TEXT" }] }), /Access denied: index all covers keys/);
+        assert.deepEqual(await h.call("ft_create", { index: "users", prefixes: ["user:"], schema: USER_SCHEMA }), { index: "users", created: true });
+    });
+});
+
+describe("search tools with blocked keys", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(["--block-read-key-patterns", "user:2,secret:*"]); });
+    after(() => h.close());
+    beforeEach(async () => {
+        h.fake.flushAll();
+        h.fake.modules.search = true;
+        await seedUsers(h);
+    });
+
+    it("ft_search leaves out documents of blocked keys", async () => {
+        await h.redis.ft.create("users", { age: { type: SchemaFieldTypes.NUMERIC, SORTABLE: true } }, { PREFIX: "user:" });
+        const result = await h.call<SearchResult>("ft_search", { index: "users", query: "@age:[40 +inf]" });
+        assert.deepEqual([result.documents.map((d) => d.id), result.hidden], [["user:3"], 1]);
+    });
+
+    it("ft_aggregate and ft_create refuse indexes covering blocked keys", async () => {
+        await h.redis.ft.create("everyone", { name: SchemaFieldTypes.TEXT });
+        assert.match(await h.fail("ft_aggregate", { index: "everyone" }), /Access denied: index everyone covers keys whose reads are blocked/);
+        assert.match(await h.fail("ft_create", { index: "secrets", prefixes: ["sec"], schema: USER_SCHEMA }), /covers keys whose reads are blocked/);
+        await h.call("ft_create", { index: "admins", prefixes: ["admin:"], schema: USER_SCHEMA });
+        await h.redis.hSet("admin:1", { name: "Root", age: "50", team: "ops" });
+        assert.ok(Array.isArray((await h.call("ft_aggregate", { index: "admins" })).results));
+    });
+});
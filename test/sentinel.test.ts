@@ -0,0 +1,86 @@
+import assert from "node:assert/strict";
+import { after, before, describe, it } from "node:test";
+import { setTimeout as sleep } from "node:timers/promises";
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+import { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { createClient } from "redis";
+import { loadConfig } from "../src/config.js";
+import { RedisClient } from "../src/redis.js";
+import { RedisMcpServer, createRedisMcpServer } from "../src/server.js";
+import { FakeRedis } from "./fakeRedis.js";
+
+interface Node {
+    fake: FakeRedis;
+    port: number;
+    redis: RedisClient;
+}
+
+async function startNode(): Promise<Node> {
+    const fake = new FakeRedis();
+    const url = await fake.start();
+    const redis: RedisClient = createClient({ url, socket: { reconnectStrategy: false } });
+    await redis.connect();
+    return { fake, port: Number(new URL(url).port), redis };
+}
+
+// A sentinel and two servers that take turns being the master of "mymaster"
+describe("sentinel failover", () => {
+    let sentinel: Node;
+    let first: Node;
+    let second: Node;
+    let server: RedisMcpServer;
+    let mcp: Client;
+
+    function promote(node: Node): void {
+        sentinel.fake.sentinelMasters.set("mymaster", { host: "127.0.0.1", port: node.port });
+        first.fake.replica = node !== first;
+        second.fake.replica = node !== second;
+    }
+
+    async function set(value: string): Promise<CallToolResult> {
+        return await mcp.callTool({ name: "set", arguments: { key: "k", value } }) as CallToolResult;
+    }
+
+    before(async () => {
+        [sentinel, first, second] = await Promise.all([startNode(), startNode(), startNode()]);
+        promote(first);
+        server = createRedisMcpServer(loadConfig([
+            "--mode", "sentinel", "--sentinels", `127.0.0.1:${sentinel.port}`, "--sentinel-master", "mymaster", "--output-format", "json",
+        ], {}));
+        mcp = new Client({ name: "redis-mcp-tests", version: "1.0.0" });
+        const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+        await Promise.all([mcp.connect(clientTransport), server.createServer().connect(serverTransport)]);
+    });
+    after(async () => {
+        await mcp.close();
+        await server.close();
+        for (const node of [sentinel, first, second]) {
+            await node.redis.quit();
+            await node.fake.stop();
+        }
+    });
+
+    it("follows the master announced by +switch-master", async () => {
+        assert.ok(!(await set("one")).isError);
+        assert.equal(await first.redis.get("k"), "one");
+        assert.ok(sentinel.fake.clients().some((c) => c.channels.has("+switch-master")));
+
+        promote(second);
+        sentinel.fake.publish("+switch-master", Buffer.from(`mymaster 127.0.0.1 ${first.port} 127.0.0.1 ${second.port}`));
+        while (server.connections.status()[0].state === "ready") {
+            await sleep(10);
+        }
+        assert.ok(!(await set("two")).isError);
+        assert.equal(await second.redis.get("k"), "two");
+        assert.equal(await first.redis.get("k"), "one");
+    });
+
+    it("discovers the master again after a READONLY reply", async () => {
+        // A failover the sentinel didn't announce to us
+        promote(first);
+        await assert.rejects(set("three"), /READONLY You can't write against a read only replica/);
+        assert.ok(!(await set("three")).isError);
+        assert.equal(await first.redis.get("k"), "three");
+    });
+});
@@ -0,0 +1,57 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+interface MembersResult {
+    members: string[];
+    count: number;
+    truncated: boolean;
+}
+
+interface ScanResult {
+    members: string[];
+    cursor: string;
+    complete: boolean;
+}
+
+describe("set tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("sadd and srem members", async () => {
+        assert.deepEqual(await h.call("sadd", { key: "tags", members: ["a", "b", "a"] }), { key: "tags", requested: 3, added: 2 });
+        assert.deepEqual(await h.call("srem", { key: "tags", members: ["a", "c"] }), { key: "tags", requested: 2, removed: 1 });
+        assert.deepEqual(await h.redis.sMembers("tags"), ["b"]);
+    });
+
+    it("smembers returns members within the limits", async () => {
+        await h.redis.sAdd("tags", ["a", "b", "c"]);
+        const all = await h.call<MembersResult>("smembers", { key: "tags" });
+        assert.deepEqual([all.members.sort(), all.count, all.truncated], [["a", "b", "c"], 3, false]);
+        const limited = await h.call<MembersResult>("smembers", { key: "tags", maxItems: 1 });
+        assert.deepEqual([limited.members.length, limited.truncated], [1, true]);
+        assert.deepEqual(await h.call("smembers", { key: "missing" }), { key: "missing", count: 0, members: [], truncated: false });
+    });
+
+    it("sscan pages through matching members", async () => {
+        await h.redis.sAdd("tags", ["red", "green", "blue"]);
+        const first = await h.call<ScanResult>("sscan", { key: "tags", count: 2, limit: 1 });
+        assert.equal(first.complete, false);
+        const rest = await h.call<ScanResult>("sscan", { key: "tags", cursor: first.cursor });
+        assert.deepEqual([...first.members, ...rest.members].sort(), ["blue", "green", "red"]);
+        assert.deepEqual((await h.call("sscan", { key: "tags", pattern: "r*" })).members, ["red"]);
+    });
+
+    it("explains a key of the wrong type", async () => {
+        await h.redis.rPush("queue", ["job"]);
+        assert.match(await h.fail("smembers", { key: "queue" }), /key queue holds a list, use lrange/);
+        assert.match(await h.fail("sadd", { key: "queue", members: ["x"] }), /holds a list/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("sadd", { key: "tags" }), /Invalid arguments: members: Required/);
+        assert.match(await h.fail("sscan", { key: "tags", count: 0 }), /Invalid arguments: count/);
+    });
+});
@@ -0,0 +1,62 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+describe("sorted set tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    it("zadd and zrem members", async () => {
+        const members = [{ member: "ada", score: 3 }, { member: "bob", score: 1 }];
+        assert.deepEqual(await h.call("zadd", { key: "scores", members }), { key: "scores", requested: 2, added: 2 });
+        assert.deepEqual(await h.call("zadd", { key: "scores", members: [{ member: "ada", score: 5 }] }), { key: "scores", requested: 1, added: 0 });
+        assert.deepEqual(await h.call("zrem", { key: "scores", members: ["bob", "eve"] }), { key: "scores", requested: 2, removed: 1 });
+        assert.deepEqual(await h.redis.zRangeWithScores("scores", 0, -1), [{ value: "ada", score: 5 }]);
+    });
+
+    it("zrange with and without scores", async () => {
+        await h.redis.zAdd("scores", [{ score: 2, value: "b" }, { score: 1, value: "a" }, { score: 3, value: "c" }]);
+        const plain = await h.call("zrange", { key: "scores", start: 0, stop: -1 });
+        assert.deepEqual(plain, { key: "scores", members: [{ member: "a" }, { member: "b" }, { member: "c" }], total: 3, truncated: false, nextStart: null });
+        const scored = await h.call("zrange", { key: "scores", start: 1, stop: -1, withScores: true, maxItems: 1 });
+        assert.deepEqual(scored, { key: "scores", members: [{ member: "b", score: 2 }], total: 2, truncated: true, nextStart: 2 });
+        assert.deepEqual((await h.call("zrange", { key: "missing", start: 0, stop: -1 })).members, []);
+    });
+
+    it("zrange continues a negative range from an absolute index", async () => {
+        await h.redis.zAdd("scores", [{ score: 1, value: "a" }, { score: 2, value: "b" }, { score: 3, value: "c" }]);
+        const first = await h.call("zrange", { key: "scores", start: -100, stop: -1, maxItems: 2 });
+        assert.deepEqual(first, { key: "scores", members: [{ member: "a" }, { member: "b" }], total: 3, truncated: true, nextStart: 2 });
+        const rest = await h.call("zrange", { key: "scores", start: 2, stop: -1, maxItems: 2 });
+        assert.deepEqual(rest, { key: "scores", members: [{ member: "c" }], total: 1, truncated: false, nextStart: null });
+    });
+
+    it("zscan returns members with scores", async () => {
+        await h.redis.zAdd("scores", [{ score: 1.5, value: "a" }, { score: 2, value: "b" }]);
+        const result = await h.call("zscan", { key: "scores" });
+        assert.deepEqual(result, { key: "scores", members: [{ member: "a", score: 1.5 }, { member: "b", score: 2 }], cursor: 0, complete: true, truncated: false });
+    });
+
+    it("returns binary members as base64", async () => {
+        await h.redis.zAdd("scores", [{ score: 1, value: Buffer.from([0xff, 0x00, 0xfe]) }, { score: 2, value: "b" }]);
+        const range = await h.call("zrange", { key: "scores", start: 0, stop: -1, withScores: true });
+        assert.deepEqual(range.members, [{ member: { base64: "/wD+" }, score: 1 }, { member: "b", score: 2 }]);
+        const scan = await h.call("zscan", { key: "scores" });
+        assert.deepEqual(scan.members, range.members);
+        const preview = await h.call("describe_key", { key: "scores", previewCount: 1 });
+        assert.deepEqual(preview.preview, [{ member: { base64: "/wD+" }, score: 1 }]);
+    });
+
+    it("explains a key of the wrong type", async () => {
+        await h.redis.sAdd("tags", ["a"]);
+        assert.match(await h.fail("zrange", { key: "tags", start: 0, stop: -1 }), /key tags holds a set, use smembers/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("zadd", { key: "scores", members: [{ member: "a" }] }), /Invalid arguments: members\.0\.score: Required/);
+        assert.match(await h.fail("zrange", { key: "scores", start: 0 }), /Invalid arguments: stop: Required/);
+        assert.match(await h.fail("zrange", { key: "scores", start: 0.5, stop: 1 }), /Invalid arguments: start: Expected integer/);
+    });
+});
@@ -0,0 +1,176 @@
+import assert from "node:assert/strict";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+interface EntriesResult {
+    entries: Array<{ id: string; owner?: string }>;
+    nextStart?: string | null;
+    nextId?: string;
+}
+
+interface StreamsResult {
+    streams: Array<{ key: string; entries: Array<{ id: string }> }>;
+}
+
+describe("stream tools", () => {
+    let h: Harness;
+    before(async () => { h = await startHarness(); });
+    after(() => h.close());
+    beforeEach(() => h.fake.flushAll());
+
+    async function seed(count: number) {
+        for (let i = 1; i <= count; i++) {
+            await h.redis.xAdd("events", `${i}-0`, { n: String(i) });
+        }
+    }
+
+    it("xadd entries with explicit and generated IDs", async () => {
+        assert.deepEqual(await h.call("xadd", { key: "events", id: "5-1", fields: { type: "login" } }), { key: "events", id: "5-1" });
+        const generated = await h.call<{ id: string }>("xadd", { key: "events", fields: { type: "logout" } });
+        assert.match(generated.id, /^\d+-\d+$/);
+        assert.deepEqual(await h.call("xlen", { key: "events" }), { key: "events", length: 2 });
+    });
+
+    it("xadd trims the stream and can refuse to create it", async () => {
+        await seed(3);
+        await h.call("xadd", { key: "events", id: "4-0", fields: { n: "4" }, trim: { strategy: "MAXLEN", threshold: 2 } });
+        assert.equal(await h.redis.xLen("events"), 2);
+        assert.deepEqual(await h.call("xadd", { key: "absent", fields: { a: "1" }, noMkStream: true }), { key: "absent", id: null });
+        assert.equal(await h.redis.exists("absent"), 0);
+    });
+
+    it("xrange and xrevrange page through entries", async () => {
+        await seed(3);
+        const first = await h.call<EntriesResult>("xrange", { key: "events", maxItems: 2 });
+        assert.deepEqual(first, {
+            key: "events",
+            entries: [{ id: "1-0", message: { n: "1" } }, { id: "2-0", message: { n: "2" } }],
+            truncated: true,
+            nextStart: "(2-0",
+        });
+        const rest = await h.call<EntriesResult>("xrange", { key: "events", start: first.nextStart });
+        assert.deepEqual(rest.entries.map((e) => e.id), ["3-0"]);
+        const reversed = await h.call<EntriesResult>("xrevrange", { key: "events", count: 2 });
+        assert.deepEqual(reversed.entries.map((e) => e.id), ["3-0", "2-0"]);
+        assert.deepEqual((await h.call("xrange", { key: "missing" })).entries, []);
+    });
+
+    it("xread reads new entries and waits for them", async () => {
+        await seed(2);
+        const result = await h.call("xread", { streams: [{ key: "events", id: "1-0" }] });
+        assert.deepEqual(result, { streams: [{ key: "events", entries: [{ id: "2-0", message: { n: "2" } }] }], truncated: false });
+
+        const waiting = h.call("xread", { streams: [{ key: "events", id: "$" }], timeout: 2 });
+        setTimeout(() => { h.redis.xAdd("events", "3-0", { n: "3" }).catch(() => {}); }, 50);
+        assert.deepEqual((await waiting).streams, [{ key: "events", entries: [{ id: "3-0", message: { n: "3" } }] }]);
+
+        assert.deepEqual(await h.call("xread", { streams: [{ key: "events", id: "$" }], timeout: 0.05 }), { streams: [], truncated: false });
+    });
+
+    it("consumer groups read, acknowledge and report pending entries", async () => {
+        await seed(3);
+        assert.deepEqual(await h.call("xgroup_create", { key: "events", group: "workers", id: "0" }), { key: "events", group: "workers", id: "0" });
+        const read = await h.call<StreamsResult>("xreadgroup", { group: "workers", consumer: "alice", streams: [{ key: "events" }], count: 2 });
+        assert.deepEqual(read.streams[0].entries.map((e) => e.id), ["1-0", "2-0"]);
+
+        const summary = await h.call("xpending", { key: "events", group: "workers" });
+        assert.deepEqual(summary, {
+            key: "events", group: "workers", pending: 2, firstId: "1-0", lastId: "2-0",
+            consumers: [{ name: "alice", deliveriesCounter: 2 }],
+        });
+        const pending = await h.call<EntriesResult>("xpending", { key: "events", group: "workers", count: 10, consumer: "alice" });
+        assert.deepEqual(pending.entries.map((e) => [e.id, e.owner]), [["1-0", "alice"], ["2-0", "alice"]]);
+
+        assert.deepEqual(await h.call("xack", { key: "events", group: "workers", ids: ["1-0", "9-0"] }), {
+            key: "events", group: "workers", requested: 2, acknowledged: 1,
+        });
+        const history = await h.call<StreamsResult>("xreadgroup", { group: "workers", consumer: "alice", streams: [{ key: "events", id: "0" }] });
+        assert.deepEqual(history.streams[0].entries.map((e) => e.id), ["2-0"]);
+    });
+
+    it("xreadgroup caps count at maxItems and cuts the values past maxBytes", async () => {
+        for (let i = 1; i <= 3; i++) {
+            await h.redis.xAdd("events", `${i}-0`, { body: "x".repeat(10) });
+        }
+        await h.redis.xGroupCreate("events", "workers", "0");
+        const capped = await h.call<StreamsResult & { truncated: boolean }>("xreadgroup", { group: "workers", consumer: "alice", streams: [{ key: "events" }], maxItems: 1 });
+        assert.deepEqual([capped.streams[0].entries.map((e) => e.id), capped.truncated], [["1-0"], true]);
+        const cut = await h.call("xreadgroup", { group: "workers", consumer: "alice", streams: [{ key: "events" }], maxBytes: 15 });
+        assert.deepEqual(cut, {
+            streams: [{ key: "events", entries: [{ id: "2-0", message: { body: "x".repeat(10) } }, { id: "3-0", message: { body: "xxxxx" } }] }],
+            truncated: true,
+        });
+    });
+
+    it("xclaim and xautoclaim move pending entries to another consumer", async () => {
+        await seed(3);
+        await h.redis.xGroupCreate("events", "workers", "0");
+        await h.redis.xReadGroup("workers", "alice", { key: "events", id: ">" });
+
+        const claimed = await h.call("xclaim", { key: "events", group: "workers", consumer: "bob", minIdleTime: 0, ids: ["1-0"] });
+        assert.deepEqual(claimed, { key: "events", consumer: "bob", entries: [{ id: "1-0", message: { n: "1" } }], truncated: false });
+        const auto = await h.call<EntriesResult>("xautoclaim", { key: "events", group: "workers", consumer: "carol", minIdleTime: 0, count: 2 });
+        assert.deepEqual(auto.entries.map((e) => e.id), ["1-0", "2-0"]);
+        assert.equal(auto.nextId, "3-0");
+    });
+
+    it("xclaim, xautoclaim and xinfo_stream apply the output limits", async () => {
+        await seed(3);
+        await h.redis.xAdd("events", "4-0", { n: "x".repeat(20) });
+        await h.redis.xGroupCreate("events", "workers", "0");
+        await h.redis.xReadGroup("workers", "alice", { key: "events", id: ">" });
+
+        const claimed = await h.call<EntriesResult & { truncated: boolean }>("xclaim", {
+            key: "events", group: "workers", consumer: "bob", minIdleTime: 0, ids: ["1-0", "2-0", "3-0"], maxItems: 2,
+        });
+        assert.deepEqual([claimed.entries.map((e) => e.id), claimed.truncated], [["1-0", "2-0"], true]);
+        const auto = await h.call<EntriesResult & { truncated: boolean }>("xautoclaim", { key: "events", group: "workers", consumer: "carol", minIdleTime: 0, maxItems: 1 });
+        assert.deepEqual([auto.entries.map((e) => e.id), auto.nextId, auto.truncated], [["1-0"], "2-0", false]);
+        const stream = await h.call("xinfo_stream", { key: "events", maxBytes: 6 });
+        assert.deepEqual([stream.firstEntry, stream.lastEntry, stream.truncated], [
+            { id: "1-0", message: { n: "1" } }, { id: "4-0", message: { n: "xxxxx" } }, true,
+        ]);
+    });
+
+    it("xinfo describes the stream, its groups and consumers", async () => {
+        await seed(2);
+        await h.redis.xGroupCreate("events", "workers", "0");
+        await h.redis.xReadGroup("workers", "alice", { key: "events", id: ">" }, { COUNT: 1 });
+
+        const stream = await h.call("xinfo_stream", { key: "events" });
+        assert.deepEqual([stream.length, stream.groups, stream.lastGeneratedId], [2, 1, "2-0"]);
+        assert.deepEqual(stream.firstEntry, { id: "1-0", message: { n: "1" } });
+        const groups = await h.call("xinfo_groups", { key: "events" });
+        assert.deepEqual(groups.groups, [{ name: "workers", consumers: 1, pending: 1, lastDeliveredId: "1-0" }]);
+        const consumers = await h.call<{ consumers: Array<{ name: string; pending: number }> }>("xinfo_consumers", { key: "events", group: "workers" });
+        assert.deepEqual(consumers.consumers.map((c) => [c.name, c.pending]), [["alice", 1]]);
+    });
+
+    it("xgroup_create and xgroup_destroy", async () => {
+        await h.call("xgroup_create", { key: "jobs", group: "workers", mkStream: true });
+        assert.equal(await h.redis.exists("jobs"), 1);
+        assert.match(await h.fail("xgroup_create", { key: "jobs", group: "workers" }), /BUSYGROUP/);
+        assert.deepEqual(await h.call("xgroup_destroy", { key: "jobs", group: "workers" }), { key: "jobs", group: "workers", destroyed: true });
+        assert.deepEqual(await h.call("xgroup_destroy", { key: "jobs", group: "workers" }), { key: "jobs", group: "workers", destroyed: false });
+    });
+
+    it("reports missing streams and groups", async () => {
+        assert.deepEqual(await h.call("xlen", { key: "missing" }), { key: "missing", length: 0 });
+        assert.match(await h.fail("xinfo_stream", { key: "missing" }), /no such key/);
+        assert.match(await h.fail("xgroup_create", { key: "missing", group: "workers" }), /requires the key to exist/);
+        assert.match(await h.fail("xreadgroup", { group: "nobody", consumer: "c", streams: [{ key: "missing" }] }), /NOGROUP/);
+    });
+
+    it("explains a key of the wrong type", async () => {
+        await h.redis.set("events", "text");
+        assert.match(await h.fail("xadd", { key: "events", fields: { a: "1" } }), /key events holds a string/);
+        assert.match(await h.fail("xrange", { key: "events" }), /holds a string/);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("xadd", { key: "events", fields: {} }), /At least one field is required/);
+        assert.match(await h.fail("xadd", { key: "events", fields: { a: "1" }, trim: { strategy: "OLDEST", threshold: 1 } }), /Invalid arguments: trim\.strategy/);
+        assert.match(await h.fail("xread", { streams: [] }), /Invalid arguments: streams/);
+        assert.match(await h.fail("xclaim", { key: "events", group: "g", consumer: "c", ids: ["1-0"] }), /Invalid arguments: minIdleTime: Required/);
+    });
+});
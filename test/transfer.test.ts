@@ -0,0 +1,178 @@
+import assert from "node:assert/strict";
+import { mkdtempSync, readFileSync, rmSync } from "node:fs";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { after, before, beforeEach, describe, it } from "node:test";
+import { Harness, startHarness } from "./harness.js";
+
+interface ExportResult {
+    exported: number;
+    file: string | null;
+    records: Array<{ key: string; ttl: number; value?: unknown; dump?: string }>;
+    cursor: string;
+    complete: boolean;
+}
+
+interface ImportResult {
+    failed: number;
+    results: Array<{ key: string; action: string }>;
+}
+
+describe("transfer tools", () => {
+    let h: Harness;
+    let transferDir: string;
+    before(async () => {
+        transferDir = mkdtempSync(join(tmpdir(), "redis-mcp-transfer-"));
+        h = await startHarness(["--transfer-dir", transferDir]);
+    });
+    after(async () => {
+        await h.close();
+        rmSync(transferDir, { recursive: true });
+    });
+    beforeEach(() => h.fake.flushAll());
+
+    async function seed() {
+        await h.redis.set("app:string", "text");
+        await h.redis.hSet("app:hash", { a: "1" });
+        await h.redis.sAdd("app:set", ["x"]);
+        await h.redis.zAdd("app:zset", [{ score: 2, value: "m" }]);
+        await h.redis.rPush("app:list", ["first", "second"]);
+        await h.redis.xAdd("app:stream", "1-1", { f: "v" });
+        await h.redis.json.set("app:json", "$", { nested: [1, 2] });
+        await h.redis.pExpire("app:string", 60000);
+    }
+
+    it("export_keys returns the native value of every type", async () => {
+        await seed();
+        const result = await h.call<ExportResult>("export_keys", { pattern: "app:*" });
+        assert.deepEqual([result.exported, result.file, result.cursor, result.complete], [7, null, "0", true]);
+        const byKey = Object.fromEntries(result.records.map((r) => [r.key, r]));
+        assert.deepEqual(byKey["app:hash"], { key: "app:hash", type: "hash", ttl: -1, value: { a: "1" } });
+        assert.deepEqual(byKey["app:set"].value, ["x"]);
+        assert.deepEqual(byKey["app:zset"].value, [{ value: "m", score: 2 }]);
+        assert.deepEqual(byKey["app:list"].value, ["first", "second"]);
+        assert.deepEqual(byKey["app:stream"].value, [{ id: "1-1", message: { f: "v" } }]);
+        assert.deepEqual(byKey["app:json"].value, { nested: [1, 2] });
+        assert.equal(byKey["app:string"].value, "text");
+        assert.ok(byKey["app:string"].ttl > 0);
+    });
+
+    it("export_keys and import_keys round trip through a file", async () => {
+        await seed();
+        assert.deepEqual(await h.call("export_keys", { pattern: "app:*", file: "backup.jsonl" }), {
+            exported: 7, file: join(transferDir, "backup.jsonl"), cursor: "0", complete: true,
+        });
+        assert.equal(readFileSync(join(transferDir, "backup.jsonl"), "utf8").trim().split("\n").length, 7);
+
+        h.fake.flushAll();
+        const result = await h.call("import_keys", { file: "backup.jsonl" });
+        assert.deepEqual([result.total, result.created, result.failed], [7, 7, 0]);
+        assert.deepEqual(await h.redis.lRange("app:list", 0, -1), ["first", "second"]);
+        assert.deepEqual(await h.redis.json.get("app:json"), { nested: [1, 2] });
+        assert.ok(await h.redis.pTTL("app:string") > 0);
+    });
+
+    it("import_keys resolves conflicts by skipping, overwriting or renaming", async () => {
+        await h.redis.set("k", "old");
+        const records = [{ key: "k", type: "string", ttl: -1, value: "new" }];
+        assert.equal((await h.call("import_keys", { records })).skipped, 1);
+        assert.equal(await h.redis.get("k"), "old");
+        const dryRun = await h.call("import_keys", { records, onConflict: "overwrite", dryRun: true });
+        assert.deepEqual([dryRun.dryRun, dryRun.overwritten], [true, 1]);
+        assert.equal(await h.redis.get("k"), "old");
+        assert.equal((await h.call("import_keys", { records, onConflict: "overwrite" })).overwritten, 1);
+        assert.equal(await h.redis.get("k"), "new");
+        const renamed = await h.call("import_keys", { records, onConflict: "rename", renamePrefix: "copy:" });
+        assert.deepEqual(renamed.results, [{ key: "k", target: "copy:k", action: "rename" }]);
+        assert.equal(await h.redis.get("copy:k"), "new");
+    });
+
+    it("import_keys restores DUMP payloads", async () => {
+        await h.redis.hSet("h", { field: "value" });
+        const { records } = await h.call<ExportResult>("export_keys", { includeDump: true });
+        assert.equal(typeof records[0].dump, "string");
+        const result = await h.call("import_keys", { records, onConflict: "rename", renamePrefix: "restored:", useDump: true });
+        assert.equal(result.renamed, 1);
+        assert.deepEqual(await h.redis.hKeys("restored:h"), ["field"]);
+    });
+
+    it("import_keys reports records that cannot be imported", async () => {
+        const dump = Buffer.from("garbage").toString("base64");
+        const result = await h.call<ImportResult>("import_keys", { records: [{ key: "bad", type: "string", dump }], useDump: true });
+        assert.deepEqual([result.failed, result.results[0].action], [1, "fail"]);
+        assert.equal(await h.redis.exists("bad"), 0);
+    });
+
+    it("export_keys finds nothing on an empty database", async () => {
+        assert.deepEqual(await h.call("export_keys"), { exported: 0, file: null, records: [], cursor: "0", complete: true });
+    });
+
+    it("refuses files outside the transfer directory", async () => {
+        assert.match(await h.fail("export_keys", { file: "../escape.jsonl" }), /File must be inside the transfer directory/);
+        assert.match(await h.fail("import_keys", { file: "/etc/passwd" }), /File must be inside the transfer directory/);
+    });
+
+    it("export_keys leaves records over maxBytes out of inline results", async () => {
+        await h.redis.set("small", "x");
+        await h.redis.set("large", "y".repeat(500));
+        const result = await h.call<ExportResult & { skipped: string[] }>("export_keys", { maxBytes: 100 });
+        assert.deepEqual([result.records.map((r) => r.key), result.skipped, result.complete], [["small"], ["large"], true]);
+    });
+
+    it("rejects invalid arguments", async () => {
+        assert.match(await h.fail("import_keys", {}), /Provide exactly one of records or file/);
+        assert.match(await h.fail("import_keys", { records: [], onConflict: "rename" }), /renamePrefix is required when onConflict is rename/);
+        assert.match(await h.fail("import_keys", { records: [{ key: "bad", type: "set", value: "not a list" }] }), /Record 1: value: Expected array/);
+        assert.match(await h.fail("export_keys", { type: "graph" }), /Invalid arguments: type/);
+    });
+});
+
+describe("transfer tools with redaction", () => {
+    let h: Harness;
+    let transferDir: string;
+    before(async () => {
+        transferDir = mkdtempSync(join(tmpdir(), "redis-mcp-transfer-"));
+        h = await startHarness([
+            "--transfer-dir", transferDir, "--redact-key-patterns", "user:*", "--block-read-key-patterns", "secret:*",
+        ]);
+    });
+    after(async () => {
+        await h.close();
+        rmSync(transferDir, { recursive: true });
+    });
+    beforeEach(async () => {
+        h.fake.flushAll();
+        await h.redis.mSet({ "user:1": "ada@example.com", "app:name": "demo", "secret:token": "s3cr3t" });
+    });
+
+    it("returns redacted values inline and leaves blocked keys out", async () => {
+        const { records } = await h.call<ExportResult>("export_keys");
+        assert.deepEqual(Object.fromEntries(records.map((r) => [r.key, r.value])), { "user:1": "[REDACTED]", "app:name": "demo" });
+    });
+
+    it("writes the stored values to files", async () => {
+        await h.call("export_keys", { file: "backup.jsonl", includeDump: true });
+        const records = readFileSync(join(transferDir, "backup.jsonl"), "utf8").trim().split("\n").map((line) => JSON.parse(line));
+        assert.deepEqual(Object.fromEntries(records.map((r) => [r.key, r.value])), { "user:1": "ada@example.com", "app:name": "demo" });
+
+        h.fake.flushAll();
+        await h.call("import_keys", { file: "backup.jsonl", useDump: true });
+        assert.equal(await h.redis.get("user:1"), "ada@example.com");
+    });
+
+    it("refuses to import a redacted key under a name that is not redacted the same way", async () => {
+        await h.call("export_keys", { file: "users.jsonl", pattern: "user:*" });
+        const result = await h.call<{ renamed: number; failed: number; results: Array<{ error?: string }> }>(
+            "import_keys", { file: "users.jsonl", onConflict: "rename", renamePrefix: "copy:" }
+        );
+        assert.deepEqual([result.renamed, result.failed], [0, 1]);
+        assert.match(result.results[0].error!, /Access denied: key copy:user:1 is not redacted by the same rules as user:1/);
+        assert.equal(await h.redis.exists("copy:user:1"), 0);
+    });
+
+    it("refuses inline DUMP payloads of redacted keys", async () => {
+        assert.match(await h.fail("export_keys", { includeDump: true }), /Cannot return the DUMP payload of user:1 inline, since redaction applies to it/);
+        const { records } = await h.call<ExportResult>("export_keys", { pattern: "app:*", includeDump: true });
+        assert.equal(typeof records[0].dump, "string");
+    });
+});